@@ -16,6 +16,7 @@ export type TabType =
   | 'event-logs'
   | 'update'
   | 'task-manager'
+  | 'usage'
   | 'tab-management';
 
 export type WindowType = 'user' | 'developer';
@@ -80,6 +81,7 @@ export const TAB_LABELS: Record<TabType, string> = {
   'event-logs': 'Event Logs',
   update: 'Updates',
   'task-manager': 'Task Manager',
+  usage: 'Usage & Costs',
   'tab-management': 'Tab Management',
 };
 
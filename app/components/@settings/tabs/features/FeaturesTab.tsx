@@ -6,6 +6,9 @@ import { useSettings } from '~/lib/hooks/useSettings';
 import { classNames } from '~/utils/classNames';
 import { toast } from 'react-toastify';
 import { PromptLibrary } from '~/lib/common/prompt-library';
+import { AGENT_TOOLS, EMBEDDING_PROVIDERS, MAX_AUTO_FIX_ATTEMPTS, RETRIEVAL_MODES } from '~/lib/stores/settings';
+import type { ToolApproval } from '~/types/agent';
+import type { RetrievalMode } from '~/types/retrieval';
 
 interface FeatureToggle {
   id: string;
@@ -117,6 +120,20 @@ export default function FeaturesTab() {
     setEventLogs,
     setPromptId,
     promptId,
+    autoFixEnabled,
+    enableAutoFix,
+    autoFixMaxAttempts,
+    setAutoFixMaxAttempts,
+    agentModeEnabled,
+    enableAgentMode,
+    chatSyncEnabled,
+    enableChatSync,
+    chatSyncKey,
+    setChatSyncKey,
+    toolApprovalPolicy,
+    setToolApproval,
+    retrieval,
+    setRetrieval,
   } = useSettings();
 
   // Enable features by default on first load
@@ -170,11 +187,37 @@ export default function FeaturesTab() {
           break;
         }
 
+        case 'autoFix': {
+          enableAutoFix(enabled);
+          toast.success(`Auto-fix ${enabled ? 'enabled' : 'disabled'}`);
+          break;
+        }
+
+        case 'agentMode': {
+          enableAgentMode(enabled);
+          toast.success(`Agent mode ${enabled ? 'enabled' : 'disabled'}`);
+          break;
+        }
+
+        case 'chatSync': {
+          enableChatSync(enabled);
+          toast.success(`Chat sync ${enabled ? 'enabled' : 'disabled'}`);
+          break;
+        }
+
         default:
           break;
       }
     },
-    [enableLatestBranch, setAutoSelectTemplate, enableContextOptimization, setEventLogs],
+    [
+      enableLatestBranch,
+      setAutoSelectTemplate,
+      enableContextOptimization,
+      setEventLogs,
+      enableAutoFix,
+      enableAgentMode,
+      enableChatSync,
+    ],
   );
 
   const features = {
@@ -212,7 +255,35 @@ export default function FeaturesTab() {
         tooltip: 'Enabled by default to record detailed logs of system events and user actions',
       },
     ],
-    beta: [],
+    beta: [
+      {
+        id: 'autoFix',
+        title: 'Auto-fix Errors',
+        description: 'Send failing commands and preview errors back to the AI automatically',
+        icon: 'i-ph:wrench',
+        enabled: autoFixEnabled,
+        beta: true,
+        tooltip: 'Each attempt and the changes it made are recorded in the chat',
+      },
+      {
+        id: 'agentMode',
+        title: 'Agent Mode',
+        description: 'Let models that support tools read, search and change the project themselves',
+        icon: 'i-ph:robot',
+        enabled: agentModeEnabled,
+        beta: true,
+        tooltip: 'Only used with providers that support tool calling, the others keep answering with artifacts',
+      },
+      {
+        id: 'chatSync',
+        title: 'Chat Sync',
+        description: 'Keep the chat history on the server and in sync between your browsers',
+        icon: 'i-ph:cloud-arrow-up',
+        enabled: chatSyncEnabled,
+        beta: true,
+        tooltip: 'Needs a sync key, changes made while offline are sent once the connection returns',
+      },
+    ],
   };
 
   return (
@@ -235,6 +306,252 @@ export default function FeaturesTab() {
         />
       )}
 
+      {autoFixEnabled && (
+        <motion.div
+          layout
+          className={classNames(
+            'bg-bolt-elements-background-depth-2',
+            'hover:bg-bolt-elements-background-depth-3',
+            'transition-all duration-200',
+            'rounded-lg p-4',
+            'group',
+          )}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.25 }}
+        >
+          <div className="flex items-center gap-4">
+            <div
+              className={classNames(
+                'p-2 rounded-lg text-xl',
+                'bg-bolt-elements-background-depth-3 group-hover:bg-bolt-elements-background-depth-4',
+                'transition-colors duration-200',
+                'text-purple-500',
+              )}
+            >
+              <div className="i-ph:arrows-clockwise" />
+            </div>
+            <div className="flex-1">
+              <h4 className="text-sm font-medium text-bolt-elements-textPrimary group-hover:text-purple-500 transition-colors">
+                Auto-fix Attempts
+              </h4>
+              <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
+                How many times an error is sent back before asking you
+              </p>
+            </div>
+            <select
+              value={autoFixMaxAttempts}
+              onChange={(e) => setAutoFixMaxAttempts(Number(e.target.value))}
+              className={classNames(
+                'p-2 rounded-lg text-sm min-w-[200px]',
+                'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+                'text-bolt-elements-textPrimary',
+                'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+                'group-hover:border-purple-500/30',
+                'transition-all duration-200',
+              )}
+            >
+              {Array.from({ length: MAX_AUTO_FIX_ATTEMPTS }, (_, i) => i + 1).map((attempts) => (
+                <option key={attempts} value={attempts}>
+                  {attempts} {attempts === 1 ? 'attempt' : 'attempts'}
+                </option>
+              ))}
+            </select>
+          </div>
+        </motion.div>
+      )}
+
+      {agentModeEnabled && (
+        <motion.div
+          layout
+          className={classNames(
+            'bg-bolt-elements-background-depth-2',
+            'hover:bg-bolt-elements-background-depth-3',
+            'transition-all duration-200',
+            'rounded-lg p-4',
+            'group',
+          )}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.3 }}
+        >
+          <div className="flex items-center gap-4 mb-3">
+            <div
+              className={classNames(
+                'p-2 rounded-lg text-xl',
+                'bg-bolt-elements-background-depth-3 group-hover:bg-bolt-elements-background-depth-4',
+                'transition-colors duration-200',
+                'text-purple-500',
+              )}
+            >
+              <div className="i-ph:shield-check" />
+            </div>
+            <div className="flex-1">
+              <h4 className="text-sm font-medium text-bolt-elements-textPrimary group-hover:text-purple-500 transition-colors">
+                Tool Approval
+              </h4>
+              <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
+                Which tools run right away, which ones wait for you and which ones the model never gets
+              </p>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {AGENT_TOOLS.map(({ name, label }) => (
+              <label key={name} className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-bolt-elements-textSecondary">{label}</span>
+                <select
+                  value={toolApprovalPolicy[name]}
+                  onChange={(e) => setToolApproval(name, e.target.value as ToolApproval)}
+                  className={classNames(
+                    'p-1.5 rounded-lg text-sm min-w-[140px]',
+                    'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+                    'text-bolt-elements-textPrimary',
+                    'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+                    'transition-all duration-200',
+                  )}
+                >
+                  <option value="auto">Run automatically</option>
+                  <option value="ask">Ask first</option>
+                  <option value="never">Never</option>
+                </select>
+              </label>
+            ))}
+          </div>
+        </motion.div>
+      )}
+
+      {chatSyncEnabled && (
+        <motion.div
+          layout
+          className={classNames(
+            'bg-bolt-elements-background-depth-2',
+            'hover:bg-bolt-elements-background-depth-3',
+            'transition-all duration-200',
+            'rounded-lg p-4',
+            'group',
+          )}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.3 }}
+        >
+          <div className="flex items-center gap-4">
+            <div
+              className={classNames(
+                'p-2 rounded-lg text-xl',
+                'bg-bolt-elements-background-depth-3 group-hover:bg-bolt-elements-background-depth-4',
+                'transition-colors duration-200',
+                'text-purple-500',
+              )}
+            >
+              <div className="i-ph:key" />
+            </div>
+            <div className="flex-1">
+              <h4 className="text-sm font-medium text-bolt-elements-textPrimary group-hover:text-purple-500 transition-colors">
+                Sync Key
+              </h4>
+              <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
+                API key with the chats:sync scope, every browser using the same key shares its chats
+              </p>
+            </div>
+            <input
+              type="password"
+              value={chatSyncKey}
+              placeholder="API key"
+              onChange={(e) => setChatSyncKey(e.target.value.trim())}
+              className={classNames(
+                'p-2 rounded-lg text-sm min-w-[200px]',
+                'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+                'text-bolt-elements-textPrimary',
+                'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+                'group-hover:border-purple-500/30',
+                'transition-all duration-200',
+              )}
+            />
+          </div>
+        </motion.div>
+      )}
+
+      {contextOptimizationEnabled && (
+        <motion.div
+          layout
+          className={classNames(
+            'bg-bolt-elements-background-depth-2',
+            'hover:bg-bolt-elements-background-depth-3',
+            'transition-all duration-200',
+            'rounded-lg p-4',
+            'group',
+          )}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.3 }}
+        >
+          <div className="flex items-center gap-4 mb-3">
+            <div
+              className={classNames(
+                'p-2 rounded-lg text-xl',
+                'bg-bolt-elements-background-depth-3 group-hover:bg-bolt-elements-background-depth-4',
+                'transition-colors duration-200',
+                'text-purple-500',
+              )}
+            >
+              <div className="i-ph:magnifying-glass" />
+            </div>
+            <div className="flex-1">
+              <h4 className="text-sm font-medium text-bolt-elements-textPrimary group-hover:text-purple-500 transition-colors">
+                Context Selection
+              </h4>
+              <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
+                How the files sent with a message are picked. The index saves a model call and scales to large projects
+              </p>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <label className="flex items-center justify-between gap-2 text-sm">
+              <span className="text-bolt-elements-textSecondary">Selection</span>
+              <select
+                value={retrieval.mode}
+                onChange={(e) => setRetrieval({ mode: e.target.value as RetrievalMode })}
+                className={classNames(
+                  'p-1.5 rounded-lg text-sm min-w-[140px]',
+                  'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+                  'text-bolt-elements-textPrimary',
+                  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+                  'transition-all duration-200',
+                )}
+              >
+                {RETRIEVAL_MODES.map(({ value, label }) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {retrieval.mode !== 'llm' && (
+              <label className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-bolt-elements-textSecondary">Embeddings</span>
+                <select
+                  value={retrieval.embeddingProvider}
+                  onChange={(e) => setRetrieval({ embeddingProvider: e.target.value })}
+                  className={classNames(
+                    'p-1.5 rounded-lg text-sm min-w-[140px]',
+                    'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+                    'text-bolt-elements-textPrimary',
+                    'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+                    'transition-all duration-200',
+                  )}
+                >
+                  {EMBEDDING_PROVIDERS.map(({ value, label }) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+        </motion.div>
+      )}
+
       <motion.div
         layout
         className={classNames(
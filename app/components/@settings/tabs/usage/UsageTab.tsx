@@ -0,0 +1,272 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { toast } from 'react-toastify';
+import { db, getAll, type ChatHistoryItem } from '~/lib/persistence';
+import { useSettings } from '~/lib/hooks/useSettings';
+import { getPricingKey } from '~/lib/modules/llm/pricing';
+import { PROVIDER_LIST } from '~/utils/constants';
+import { classNames } from '~/utils/classNames';
+import { formatCost, getMonthStart, summarizeSpend, type SpendSummary } from '~/utils/cost';
+import type { SpendLimits } from '~/types/cost';
+
+const inputClassName = classNames(
+  'p-2 rounded-lg text-sm',
+  'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+  'text-bolt-elements-textPrimary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+);
+
+const cardClassName = classNames('bg-bolt-elements-background-depth-2', 'rounded-lg p-4', 'flex flex-col gap-3');
+
+// empty or invalid inputs mean "no value"
+function parseAmount(value: string) {
+  const amount = Number(value);
+  return value.trim() !== '' && Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+}
+
+function formatTokens(tokens: number) {
+  return tokens.toLocaleString();
+}
+
+const SpendTable = ({
+  title,
+  rows,
+}: {
+  title: string;
+  rows: { key: string; label: string; tokens: number; cost: string }[];
+}) => (
+  <div className={cardClassName}>
+    <h4 className="text-sm font-medium text-bolt-elements-textPrimary">{title}</h4>
+    {rows.length === 0 ? (
+      <p className="text-xs text-bolt-elements-textSecondary">No usage recorded yet</p>
+    ) : (
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-bolt-elements-textTertiary text-left">
+            <th className="font-normal pb-1">Name</th>
+            <th className="font-normal pb-1 text-right">Tokens</th>
+            <th className="font-normal pb-1 text-right">Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.key} className="text-bolt-elements-textSecondary">
+              <td className="py-1 truncate max-w-[280px]">{row.label}</td>
+              <td className="py-1 text-right">{formatTokens(row.tokens)}</td>
+              <td className="py-1 text-right text-bolt-elements-textPrimary">{row.cost}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+export default function UsageTab() {
+  const { pricingOverrides, setPricingOverride, spendLimits, setSpendLimits } = useSettings();
+  const [chats, setChats] = useState<ChatHistoryItem[]>([]);
+  const [allTime, setAllTime] = useState(false);
+  const [limits, setLimits] = useState({
+    perChat: spendLimits.perChat?.toString() ?? '',
+    monthly: spendLimits.monthly?.toString() ?? '',
+  });
+  const [override, setOverride] = useState({
+    provider: PROVIDER_LIST[0]?.name ?? '',
+    model: '',
+    input: '',
+    output: '',
+  });
+
+  useEffect(() => {
+    if (!db) {
+      return;
+    }
+
+    getAll(db)
+      .then(setChats)
+      .catch((error) => {
+        console.error('Failed to load chat history:', error);
+        toast.error('Failed to load the chat history');
+      });
+  }, []);
+
+  const summary: SpendSummary = useMemo(
+    () => summarizeSpend(chats, allTime ? undefined : getMonthStart()),
+    [chats, allTime],
+  );
+
+  const handleSaveLimits = () => {
+    const updated: SpendLimits = { perChat: parseAmount(limits.perChat), monthly: parseAmount(limits.monthly) };
+
+    setSpendLimits(updated);
+    toast.success('Spending limits saved');
+  };
+
+  const handleAddOverride = () => {
+    const input = parseAmount(override.input);
+    const output = parseAmount(override.output);
+
+    if (!override.model.trim() || input === undefined || output === undefined) {
+      toast.error('Enter a model and both prices');
+      return;
+    }
+
+    setPricingOverride(getPricingKey(override.provider, override.model.trim()), { input, output });
+    setOverride({ ...override, model: '', input: '', output: '' });
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <motion.div
+        className="grid grid-cols-2 gap-4"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+      >
+        <div className={cardClassName}>
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-bolt-elements-textSecondary">{allTime ? 'All time' : 'This month'}</span>
+            <button
+              className="text-xs text-purple-500 hover:underline bg-transparent"
+              onClick={() => setAllTime(!allTime)}
+            >
+              {allTime ? 'Show this month' : 'Show all time'}
+            </button>
+          </div>
+          <span className="text-2xl font-medium text-bolt-elements-textPrimary">{formatCost(summary.total)}</span>
+        </div>
+        <div className={cardClassName}>
+          <span className="text-sm text-bolt-elements-textSecondary">Monthly limit</span>
+          <span className="text-2xl font-medium text-bolt-elements-textPrimary">
+            {spendLimits.monthly === undefined ? 'None' : formatCost(spendLimits.monthly)}
+          </span>
+        </div>
+      </motion.div>
+
+      <SpendTable
+        title="Spend per project"
+        rows={summary.chats.map((chat) => ({
+          key: chat.id,
+          label: chat.description || chat.urlId || chat.id,
+          tokens: chat.tokens,
+          cost: formatCost(chat.cost),
+        }))}
+      />
+
+      <SpendTable
+        title="Spend per provider"
+        rows={summary.providers.map((provider) => ({
+          key: provider.provider,
+          label: provider.provider,
+          tokens: provider.tokens,
+          cost:
+            provider.unpricedTokens > 0
+              ? `${formatCost(provider.cost)} (${formatTokens(provider.unpricedTokens)} tokens unpriced)`
+              : formatCost(provider.cost),
+        }))}
+      />
+
+      <div className={cardClassName}>
+        <div>
+          <h4 className="text-sm font-medium text-bolt-elements-textPrimary">Spending Limits</h4>
+          <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
+            Requests are blocked once a chat or the current month reaches its limit, leave empty for no limit
+          </p>
+        </div>
+        <div className="flex items-end gap-3">
+          <label className="flex flex-col gap-1 text-xs text-bolt-elements-textSecondary">
+            Per chat (USD)
+            <input
+              className={inputClassName}
+              type="number"
+              min={0}
+              step="0.01"
+              value={limits.perChat}
+              onChange={(e) => setLimits({ ...limits, perChat: e.target.value })}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-bolt-elements-textSecondary">
+            Per month (USD)
+            <input
+              className={inputClassName}
+              type="number"
+              min={0}
+              step="0.01"
+              value={limits.monthly}
+              onChange={(e) => setLimits({ ...limits, monthly: e.target.value })}
+            />
+          </label>
+          <button
+            className="px-3 py-2 rounded-lg text-sm bg-purple-500 text-white hover:bg-purple-600 transition-colors"
+            onClick={handleSaveLimits}
+          >
+            Save
+          </button>
+        </div>
+      </div>
+
+      <div className={cardClassName}>
+        <div>
+          <h4 className="text-sm font-medium text-bolt-elements-textPrimary">Model Pricing</h4>
+          <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
+            Override the price of a model in US dollars per million tokens, e.g. for negotiated rates or new models
+          </p>
+        </div>
+        {Object.entries(pricingOverrides).map(([key, pricing]) => (
+          <div key={key} className="flex items-center gap-3 text-sm text-bolt-elements-textSecondary">
+            <code className="flex-1 truncate text-bolt-elements-textPrimary">{key}</code>
+            <span>
+              in {formatCost(pricing.input)} / out {formatCost(pricing.output)}
+            </span>
+            <button
+              className="i-ph:trash text-bolt-elements-textTertiary hover:text-red-500 bg-transparent"
+              title="Use the list price"
+              onClick={() => setPricingOverride(key, undefined)}
+            />
+          </div>
+        ))}
+        <div className="flex items-center gap-2">
+          <select
+            className={inputClassName}
+            value={override.provider}
+            onChange={(e) => setOverride({ ...override, provider: e.target.value })}
+          >
+            {PROVIDER_LIST.map((provider) => (
+              <option key={provider.name} value={provider.name}>
+                {provider.name}
+              </option>
+            ))}
+          </select>
+          <input
+            className={classNames(inputClassName, 'flex-1')}
+            placeholder="Model"
+            value={override.model}
+            onChange={(e) => setOverride({ ...override, model: e.target.value })}
+          />
+          <input
+            className={classNames(inputClassName, 'w-24')}
+            type="number"
+            min={0}
+            placeholder="Input"
+            value={override.input}
+            onChange={(e) => setOverride({ ...override, input: e.target.value })}
+          />
+          <input
+            className={classNames(inputClassName, 'w-24')}
+            type="number"
+            min={0}
+            placeholder="Output"
+            value={override.output}
+            onChange={(e) => setOverride({ ...override, output: e.target.value })}
+          />
+          <button
+            className="px-3 py-2 rounded-lg text-sm bg-purple-500 text-white hover:bg-purple-600 transition-colors"
+            onClick={handleAddOverride}
+          >
+            Add
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
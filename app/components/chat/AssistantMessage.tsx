@@ -1,13 +1,20 @@
 import { memo } from 'react';
 import { Markdown } from './Markdown';
-import type { JSONValue } from 'ai';
+import type { JSONValue, ToolInvocation } from 'ai';
 import Popover from '~/components/ui/Popover';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { WORK_DIR } from '~/utils/constants';
+import type { AutoFixAnnotation, TokenBudgetAnnotation } from '~/types/context';
+import { ToolInvocations } from './ToolInvocations';
+import { TokenBudget } from './TokenBudget';
+import type { UsageValue } from '~/types/cost';
+import { formatCost } from '~/utils/cost';
 
 interface AssistantMessageProps {
   content: string;
   annotations?: JSONValue[];
+  toolInvocations?: ToolInvocation[];
+  onToolApproval?: (toolCallId: string, approved: boolean) => void;
 }
 
 function openArtifactInWorkbench(filePath: string) {
@@ -34,7 +41,8 @@ function normalizedFilePath(path: string) {
   return normalizedPath;
 }
 
-export const AssistantMessage = memo(({ content, annotations }: AssistantMessageProps) => {
+export const AssistantMessage = memo((props: AssistantMessageProps) => {
+  const { content, annotations, toolInvocations, onToolApproval } = props;
   const filteredAnnotations = (annotations?.filter(
     (annotation: JSONValue) => annotation && typeof annotation === 'object' && Object.keys(annotation).includes('type'),
   ) || []) as { type: string; value: any } & { [key: string]: any }[];
@@ -51,11 +59,15 @@ export const AssistantMessage = memo(({ content, annotations }: AssistantMessage
     codeContext = filteredAnnotations.find((annotation) => annotation.type === 'codeContext')?.files;
   }
 
-  const usage: {
-    completionTokens: number;
-    promptTokens: number;
-    totalTokens: number;
-  } = filteredAnnotations.find((annotation) => annotation.type === 'usage')?.value;
+  const usage: UsageValue | undefined = filteredAnnotations.find((annotation) => annotation.type === 'usage')?.value;
+
+  const tokenBudget = filteredAnnotations.find((annotation) => annotation.type === 'tokenBudget') as
+    | TokenBudgetAnnotation
+    | undefined;
+
+  const autoFix = filteredAnnotations.find((annotation) => annotation.type === 'autoFix') as
+    | AutoFixAnnotation
+    | undefined;
 
   return (
     <div className="overflow-hidden w-full">
@@ -103,10 +115,25 @@ export const AssistantMessage = memo(({ content, annotations }: AssistantMessage
           {usage && (
             <div>
               Tokens: {usage.totalTokens} (prompt: {usage.promptTokens}, completion: {usage.completionTokens})
+              {typeof usage.cost === 'number' && <span> · Cost: {formatCost(usage.cost)}</span>}
             </div>
           )}
+          {tokenBudget && <TokenBudget budget={tokenBudget} />}
         </div>
+        {autoFix && (
+          <details className="mb-2 text-sm text-bolt-elements-textSecondary">
+            <summary className="cursor-pointer flex items-center gap-1.5">
+              <div className="i-ph:wrench" />
+              Auto-fix attempt {autoFix.attempt} of {autoFix.maxAttempts}
+              {autoFix.diff ? '' : ' (no file changes)'}
+            </summary>
+            {autoFix.diff && <Markdown>{`\`\`\`diff\n${autoFix.diff}\n\`\`\``}</Markdown>}
+          </details>
+        )}
       </>
+      {toolInvocations && toolInvocations.length > 0 && (
+        <ToolInvocations toolInvocations={toolInvocations} onToolApproval={onToolApproval} />
+      )}
       <Markdown html>{content}</Markdown>
     </div>
   );
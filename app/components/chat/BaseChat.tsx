@@ -71,6 +71,8 @@ export interface BaseChatProps {
   clearAlert?: () => void;
   data?: JSONValue[] | undefined;
   actionRunner?: ActionRunner;
+  onRestoreCheckpoint?: (messageId: string) => void;
+  onToolApproval?: (toolCallId: string, approved: boolean) => void;
 }
 
 export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
@@ -107,6 +109,8 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
       clearAlert,
       data,
       actionRunner,
+      onRestoreCheckpoint,
+      onToolApproval,
     },
     ref,
   ) => {
@@ -339,6 +343,8 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                       className="flex flex-col w-full flex-1 max-w-chat pb-6 mx-auto z-1"
                       messages={messages}
                       isStreaming={isStreaming}
+                      onRestoreCheckpoint={onRestoreCheckpoint}
+                      onToolApproval={onToolApproval}
                     />
                   ) : null;
                 }}
@@ -8,8 +8,8 @@ import { useChat } from 'ai/react';
 import { useAnimate } from 'framer-motion';
 import { memo, useCallback, useEffect, useRef, useState } from 'react';
 import { cssTransition, toast, ToastContainer } from 'react-toastify';
-import { useMessageParser, usePromptEnhancer, useShortcuts, useSnapScroll } from '~/lib/hooks';
-import { description, useChatHistory } from '~/lib/persistence';
+import { useAutoFix, useMessageParser, usePromptEnhancer, useShortcuts, useSnapScroll } from '~/lib/hooks';
+import { chatId, db, description, getAll, truncateChat, useChatHistory } from '~/lib/persistence';
 import { chatStore } from '~/lib/stores/chat';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { DEFAULT_MODEL, DEFAULT_PROVIDER, PROMPT_COOKIE_KEY, PROVIDER_LIST } from '~/utils/constants';
@@ -26,6 +26,10 @@ import { getTemplates, selectStarterTemplate } from '~/utils/selectStarterTempla
 import { logStore } from '~/lib/stores/logs';
 import { streamingState } from '~/lib/stores/streaming';
 import { filesToArtifacts } from '~/utils/fileUtils';
+import { AGENT_MAX_STEPS, spendLimitsStore } from '~/lib/stores/settings';
+import { executeAgentTool } from '~/lib/runtime/agent-tools';
+import type { AgentToolName, AgentToolResult } from '~/types/agent';
+import { getMessagesCost, getMonthStart, getSpendLimitError, summarizeSpend } from '~/utils/cost';
 
 const toastAnimation = cssTransition({
   enter: 'animated fadeInRight',
@@ -34,6 +38,22 @@ const toastAnimation = cssTransition({
 
 const logger = createScopedLogger('Chat');
 
+// requests are refused once the chat or the month reached a spending limit set in the settings
+async function checkSpendLimits(messages: Message[]) {
+  const limits = spendLimitsStore.get();
+
+  if (limits.perChat === undefined && limits.monthly === undefined) {
+    return;
+  }
+
+  const monthly = db && limits.monthly !== undefined ? summarizeSpend(await getAll(db), getMonthStart()).total : 0;
+  const limitError = getSpendLimitError(limits, { chat: getMessagesCost(messages), monthly });
+
+  if (limitError) {
+    throw new Error(limitError);
+  }
+}
+
 export function Chat() {
   renderLogger.trace('Chat');
 
@@ -142,7 +162,19 @@ export const ChatImpl = memo(
     const [searchParams, setSearchParams] = useSearchParams();
     const files = useStore(workbenchStore.files);
     const actionAlert = useStore(workbenchStore.alert);
-    const { activeProviders, promptId, autoSelectTemplate, contextOptimizationEnabled } = useSettings();
+    const {
+      activeProviders,
+      promptId,
+      autoSelectTemplate,
+      contextOptimizationEnabled,
+      agentModeEnabled,
+      retrieval,
+      toolApprovalPolicy,
+      pricingOverrides,
+    } = useSettings();
+    const agentTools = (Object.keys(toolApprovalPolicy) as AgentToolName[]).filter(
+      (tool) => toolApprovalPolicy[tool] !== 'never',
+    );
 
     const [model, setModel] = useState(() => {
       const savedModel = Cookies.get('selectedModel');
@@ -172,6 +204,7 @@ export const ChatImpl = memo(
       error,
       data: chatData,
       setData,
+      addToolResult,
     } = useChat({
       api: '/api/chat',
       body: {
@@ -179,8 +212,29 @@ export const ChatImpl = memo(
         files,
         promptId,
         contextOptimization: contextOptimizationEnabled,
+        agent: agentModeEnabled ? { maxSteps: AGENT_MAX_STEPS, tools: agentTools } : undefined,
+        retrieval,
+        pricing: pricingOverrides,
       },
       sendExtraMessageFields: true,
+
+      // every request goes through here, including auto-fix attempts and agent steps
+      fetch: async (input, init) => {
+        await checkSpendLimits(JSON.parse(String(init?.body ?? '{}')).messages ?? []);
+
+        return fetch(input, init);
+      },
+
+      // tool results are sent back automatically, one more step lets the model answer after the last round
+      maxSteps: agentModeEnabled ? AGENT_MAX_STEPS + 1 : 1,
+      onToolCall: async ({ toolCall }) => {
+        // calls that need approval wait in the chat until the user answers, see handleToolApproval
+        if (toolApprovalPolicy[toolCall.toolName as AgentToolName] !== 'auto') {
+          return undefined;
+        }
+
+        return executeAgentTool(toolCall);
+      },
       onError: (e) => {
         logger.error('Request failed\n\n', e, error);
         logStore.logError('Chat request failed', e, {
@@ -233,6 +287,21 @@ export const ChatImpl = memo(
       }
     }, [model, provider, searchParams]);
 
+    const { resetAutoFix } = useAutoFix({
+      messages,
+      isLoading,
+      setMessages,
+      sendRepairMessage: (content, repair) => {
+        append(
+          {
+            role: 'user',
+            content: `[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n${content}`,
+          },
+          { body: { repair } },
+        );
+      },
+    });
+
     const { enhancingPrompt, promptEnhanced, enhancePrompt, resetEnhancer } = usePromptEnhancer();
     const { parsedMessages, parseMessages } = useMessageParser();
 
@@ -260,6 +329,53 @@ export const ChatImpl = memo(
       }
     };
 
+    const restoreCheckpoint = async (messageId: string) => {
+      const messageIndex = messages.findIndex((message) => message.id === messageId);
+
+      if (messageIndex === -1) {
+        return;
+      }
+
+      // the user message that asked for these changes goes away with them
+      const previousMessage = messages[messageIndex - 1];
+      const cutIndex = previousMessage?.role === 'user' ? messageIndex - 1 : messageIndex;
+
+      try {
+        await workbenchStore.restoreCheckpoint(messageId);
+
+        const id = chatId.get();
+
+        // `no-store` messages never made it to IndexedDB, the first stored one marks where to cut
+        const firstStored = messages.slice(cutIndex).find((message) => !message.annotations?.includes('no-store'));
+
+        if (db && id && firstStored) {
+          await truncateChat(db, id, firstStored.id);
+        }
+
+        setMessages(messages.slice(0, cutIndex));
+        toast.success('Files restored to before this message');
+      } catch (error) {
+        logger.error('Failed to restore checkpoint', error);
+        toast.error('Failed to restore checkpoint: ' + (error as Error).message);
+      }
+    };
+
+    const handleToolApproval = async (toolCallId: string, approved: boolean) => {
+      const invocation = messages
+        .flatMap((message) => message.toolInvocations ?? [])
+        .find((toolInvocation) => toolInvocation.toolCallId === toolCallId);
+
+      if (!invocation || invocation.state !== 'call') {
+        return;
+      }
+
+      const result: AgentToolResult = approved
+        ? await executeAgentTool(invocation)
+        : { error: 'The user declined this tool call' };
+
+      addToolResult({ toolCallId, result });
+    };
+
     const abort = () => {
       stop();
       chatStore.setKey('aborted', true);
@@ -313,6 +429,8 @@ export const ChatImpl = memo(
         return;
       }
 
+      resetAutoFix();
+
       // Get the current project ID from the URL if available
       const currentPath = window.location.pathname;
       const currentProjectId = currentPath.startsWith('/chat/') ? currentPath.split('/')[2] : null;
@@ -666,6 +784,8 @@ export const ChatImpl = memo(
           setImageDataList={setImageDataList}
           actionAlert={actionAlert}
           clearAlert={() => workbenchStore.clearAlert()}
+          onRestoreCheckpoint={restoreCheckpoint}
+          onToolApproval={handleToolApproval}
           data={chatData}
         />
       </div>
@@ -12,10 +12,14 @@ export default function ChatAlert({ alert, clearAlert, postMessage }: Props) {
   const { description, content, source } = alert;
 
   const isPreview = source === 'preview';
-  const title = isPreview ? 'Preview Error' : 'Terminal Error';
-  const message = isPreview
-    ? 'We encountered an error while running the preview. Would you like Bolt to analyze and help resolve this issue?'
-    : 'We encountered an error while running terminal commands. Would you like Bolt to analyze and help resolve this issue?';
+  const isPatch = source === 'patch';
+  const title = isPatch ? 'Patch Failed' : isPreview ? 'Preview Error' : 'Terminal Error';
+  const message = isPatch
+    ? 'A file edit could not be applied because the code it refers to was not found. Would you like Bolt to redo the change?'
+    : isPreview
+      ? 'We encountered an error while running the preview. Would you like Bolt to analyze and help resolve this issue?'
+      : 'We encountered an error while running terminal commands. Would you like Bolt to analyze and help resolve this issue?';
+  const errorKind = isPatch ? 'patch' : isPreview ? 'preview' : 'terminal';
 
   return (
     <AnimatePresence>
@@ -71,7 +75,7 @@ export default function ChatAlert({ alert, clearAlert, postMessage }: Props) {
                 <button
                   onClick={() =>
                     postMessage(
-                      `*Fix this ${isPreview ? 'preview' : 'terminal'} error* \n\`\`\`${isPreview ? 'js' : 'sh'}\n${content}\n\`\`\`\n`,
+                      `*Fix this ${errorKind} error* \n\`\`\`${isPreview ? 'js' : isPatch ? 'diff' : 'sh'}\n${content}\n\`\`\`\n`,
                     )
                   }
                   className={classNames(
@@ -10,6 +10,7 @@ import { RepositorySelectionDialog } from '~/components/@settings/tabs/connectio
 import { classNames } from '~/utils/classNames';
 import { Button } from '~/components/ui/Button';
 import type { IChatMetadata } from '~/lib/persistence/db';
+import type { GitFileData } from '~/lib/persistence/git-files';
 
 const IGNORE_PATTERNS = [
   'node_modules/**',
@@ -38,7 +39,12 @@ const MAX_TOTAL_SIZE = 500 * 1024; // 500KB total limit
 
 interface GitCloneButtonProps {
   className?: string;
-  importChat?: (description: string, messages: Message[], metadata?: IChatMetadata) => Promise<void>;
+  importChat?: (
+    description: string,
+    messages: Message[],
+    metadata?: IChatMetadata,
+    gitFiles?: Record<string, GitFileData>,
+  ) => Promise<void>;
 }
 
 export default function GitCloneButton({ importChat, className }: GitCloneButtonProps) {
@@ -54,7 +60,7 @@ export default function GitCloneButton({ importChat, className }: GitCloneButton
     setLoading(true);
 
     try {
-      const { workdir, data } = await gitClone(repoUrl);
+      const { workdir, data, url, branch, gitFiles } = await gitClone(repoUrl);
 
       if (importChat) {
         const filePaths = Object.keys(data).filter((filePath) => !ig.ignores(filePath));
@@ -141,7 +147,12 @@ ${escapeBoltTags(file.content)}
           messages.push(commandsMessage);
         }
 
-        await importChat(`Git Project:${repoUrl.split('/').slice(-1)[0]}`, messages);
+        await importChat(
+          `Git Project:${repoUrl.split('/').slice(-1)[0]}`,
+          messages,
+          { gitUrl: url, gitBranch: branch },
+          gitFiles,
+        );
       }
     } catch (error) {
       console.error('Error during import:', error);
@@ -1,30 +1,90 @@
 import type { Message } from 'ai';
-import { Fragment } from 'react';
+import { Fragment, useEffect } from 'react';
 import { classNames } from '~/utils/classNames';
 import { AssistantMessage } from './AssistantMessage';
 import { UserMessage } from './UserMessage';
-import { useLocation } from '@remix-run/react';
+import { useLocation, useSearchParams } from '@remix-run/react';
 import { db, chatId } from '~/lib/persistence/useChatHistory';
 import { forkChat } from '~/lib/persistence/db';
 import { toast } from 'react-toastify';
 import WithTooltip from '~/components/ui/Tooltip';
 import { useStore } from '@nanostores/react';
 import { profileStore } from '~/lib/stores/profile';
+import { workbenchStore } from '~/lib/stores/workbench';
 import { forwardRef } from 'react';
 import type { ForwardedRef } from 'react';
+import { tokenizeSearchText } from '~/lib/persistence/search-index';
+
+const SEARCH_HIGHLIGHT = 'search-match';
+
+// ranges of the query words in the text of an element, for the CSS Custom Highlight API
+function findMatchRanges(element: HTMLElement, query: string) {
+  const words = tokenizeSearchText(query);
+  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  const ranges: Range[] = [];
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const text = node.textContent?.toLowerCase() ?? '';
+
+    for (const word of words) {
+      for (let index = text.indexOf(word); index >= 0; index = text.indexOf(word, index + word.length)) {
+        const range = document.createRange();
+
+        range.setStart(node, index);
+        range.setEnd(node, index + word.length);
+        ranges.push(range);
+      }
+    }
+  }
+
+  return ranges;
+}
 
 interface MessagesProps {
   id?: string;
   className?: string;
   isStreaming?: boolean;
   messages?: Message[];
+  onRestoreCheckpoint?: (messageId: string) => void;
+  onToolApproval?: (toolCallId: string, approved: boolean) => void;
 }
 
 export const Messages = forwardRef<HTMLDivElement, MessagesProps>(
   (props: MessagesProps, ref: ForwardedRef<HTMLDivElement> | undefined) => {
-    const { id, isStreaming = false, messages = [] } = props;
+    const { id, isStreaming = false, messages = [], onRestoreCheckpoint, onToolApproval } = props;
     const location = useLocation();
     const profile = useStore(profileStore);
+    const artifacts = useStore(workbenchStore.artifacts);
+    const [searchParams] = useSearchParams();
+    const targetMessageId = searchParams.get('message');
+    const highlight = searchParams.get('highlight');
+    const hasTargetMessage = messages.some((message) => message.id === targetMessageId);
+
+    // jumps to the message opened from the sidebar search once it is rendered
+    useEffect(() => {
+      if (!targetMessageId || !hasTargetMessage) {
+        return undefined;
+      }
+
+      const element = document.querySelector<HTMLElement>(`[data-message-id="${CSS.escape(targetMessageId)}"]`);
+
+      if (!element) {
+        return undefined;
+      }
+
+      element.scrollIntoView({ block: 'center' });
+
+      if (highlight && typeof Highlight !== 'undefined' && CSS.highlights) {
+        CSS.highlights.set(SEARCH_HIGHLIGHT, new Highlight(...findMatchRanges(element, highlight)));
+      } else {
+        element.classList.add('search-match-message');
+      }
+
+      return () => {
+        CSS.highlights?.delete(SEARCH_HIGHLIGHT);
+        element.classList.remove('search-match-message');
+      };
+    }, [targetMessageId, hasTargetMessage, highlight]);
 
     const handleRewind = (messageId: string) => {
       const searchParams = new URLSearchParams(location.search);
@@ -63,6 +123,7 @@ export const Messages = forwardRef<HTMLDivElement, MessagesProps>(
               return (
                 <div
                   key={index}
+                  data-message-id={messageId}
                   className={classNames('flex gap-4 p-6 w-full rounded-[calc(0.75rem-1px)]', {
                     'bg-bolt-elements-messages-background': isUserMessage || !isStreaming || (isStreaming && !isLast),
                     'bg-gradient-to-b from-bolt-elements-messages-background from-30% to-transparent':
@@ -89,7 +150,12 @@ export const Messages = forwardRef<HTMLDivElement, MessagesProps>(
                     {isUserMessage ? (
                       <UserMessage content={content} />
                     ) : (
-                      <AssistantMessage content={content} annotations={message.annotations} />
+                      <AssistantMessage
+                        content={content}
+                        annotations={message.annotations}
+                        toolInvocations={message.toolInvocations}
+                        onToolApproval={onToolApproval}
+                      />
                     )}
                   </div>
                   {!isUserMessage && (
@@ -107,6 +173,19 @@ export const Messages = forwardRef<HTMLDivElement, MessagesProps>(
                         </WithTooltip>
                       )}
 
+                      {onRestoreCheckpoint && !isStreaming && artifacts[messageId]?.checkpoint && (
+                        <WithTooltip tooltip="Restore files to before this message (available until the page is reloaded)">
+                          <button
+                            onClick={() => onRestoreCheckpoint(messageId)}
+                            key="i-ph:clock-counter-clockwise"
+                            className={classNames(
+                              'i-ph:clock-counter-clockwise',
+                              'text-xl text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary transition-colors',
+                            )}
+                          />
+                        </WithTooltip>
+                      )}
+
                       <WithTooltip tooltip="Fork chat from this message">
                         <button
                           onClick={() => handleFork(messageId)}
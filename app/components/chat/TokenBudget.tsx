@@ -0,0 +1,88 @@
+import { memo } from 'react';
+import Popover from '~/components/ui/Popover';
+import type { TokenBudgetAnnotation, TokenBudgetSections } from '~/types/context';
+
+interface TokenBudgetProps {
+  budget: TokenBudgetAnnotation;
+}
+
+const SECTION_LABELS: Record<keyof TokenBudgetSections, string> = {
+  system: 'Instructions',
+  summary: 'Chat summary',
+  fileList: 'File list',
+  files: 'Context files',
+  history: 'Messages',
+};
+
+function formatTokens(tokens: number) {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(tokens >= 100_000 ? 0 : 1)}k` : String(tokens);
+}
+
+// what the server left out or shortened to fit the prompt in the context window
+function describeTrimmed({ trimmed }: TokenBudgetAnnotation) {
+  const notes: string[] = [];
+
+  if (trimmed.messages > 0) {
+    notes.push(`${trimmed.messages} older ${trimmed.messages === 1 ? 'message' : 'messages'} left out`);
+  }
+
+  if (trimmed.fileListEntries > 0) {
+    notes.push(`${trimmed.fileListEntries} paths cut from the file list`);
+  }
+
+  if (trimmed.outlinedFiles.length > 0) {
+    notes.push(`Outline only: ${trimmed.outlinedFiles.join(', ')}`);
+  }
+
+  if (trimmed.droppedFiles.length > 0) {
+    notes.push(`Left out: ${trimmed.droppedFiles.join(', ')}`);
+  }
+
+  if (trimmed.summary) {
+    notes.push('Chat summary shortened');
+  }
+
+  return notes;
+}
+
+export const TokenBudget = memo(({ budget }: TokenBudgetProps) => {
+  const notes = describeTrimmed(budget);
+
+  return (
+    <Popover
+      side="right"
+      align="start"
+      trigger={
+        <button className="bg-transparent flex items-center gap-1 text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary">
+          Context: {budget.estimated && '~'}
+          {formatTokens(budget.total)} / {formatTokens(budget.contextWindow)}
+          {notes.length > 0 && <div className="i-ph:scissors" />}
+        </button>
+      }
+    >
+      <div className="text-xs text-bolt-elements-textSecondary min-w-56 max-w-chat">
+        <div className="text-bolt-elements-textPrimary font-medium mb-1">{budget.model}</div>
+        <ul className="list-none space-y-0.5">
+          {(Object.keys(SECTION_LABELS) as (keyof TokenBudgetSections)[]).map((section) => (
+            <li key={section} className="flex justify-between gap-4">
+              <span>{SECTION_LABELS[section]}</span>
+              <span>{formatTokens(budget.sections[section])}</span>
+            </li>
+          ))}
+          <li className="flex justify-between gap-4">
+            <span>Reserved for the answer</span>
+            <span>{formatTokens(budget.outputTokens)}</span>
+          </li>
+        </ul>
+        {budget.estimated && <div className="mt-2">Estimated, the model's tokenizer may count differently</div>}
+        {notes.length > 0 && (
+          <ul className="list-none mt-2 pt-2 border-t border-bolt-elements-borderColor space-y-0.5">
+            {notes.map((note) => (
+              <li key={note}>{note}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Popover>
+  );
+});
@@ -0,0 +1,96 @@
+import { useStore } from '@nanostores/react';
+import type { ToolInvocation } from 'ai';
+import { memo } from 'react';
+import { AGENT_TOOLS, toolApprovalPolicyStore } from '~/lib/stores/settings';
+import type { AgentToolName, AgentToolResult } from '~/types/agent';
+import { classNames } from '~/utils/classNames';
+
+interface ToolInvocationsProps {
+  toolInvocations: ToolInvocation[];
+  onToolApproval?: (toolCallId: string, approved: boolean) => void;
+}
+
+// the argument that tells what a call does, e.g. the path of a file or the command
+function describeArgs(invocation: ToolInvocation) {
+  const args = (invocation.args ?? {}) as Record<string, unknown>;
+  const value = args.path ?? args.query ?? args.command;
+
+  return typeof value === 'string' ? value : '';
+}
+
+export const ToolInvocations = memo(({ toolInvocations, onToolApproval }: ToolInvocationsProps) => {
+  const policy = useStore(toolApprovalPolicyStore);
+
+  return (
+    <div className="artifact border border-bolt-elements-borderColor flex flex-col overflow-hidden rounded-lg w-full mb-4">
+      <div className="px-5 p-3.5 w-full text-left bg-bolt-elements-artifacts-background">
+        <div className="w-full text-bolt-elements-textPrimary font-medium leading-5 text-sm">Agent</div>
+        <div className="w-full text-bolt-elements-textSecondary text-xs mt-0.5">
+          {toolInvocations.length} tool {toolInvocations.length === 1 ? 'call' : 'calls'}
+        </div>
+      </div>
+      <div className="bg-bolt-elements-artifacts-borderColor h-[1px]" />
+      <ul className="list-none space-y-2.5 p-5 bg-bolt-elements-actions-background">
+        {toolInvocations.map((invocation) => {
+          const toolName = invocation.toolName as AgentToolName;
+          const label = AGENT_TOOLS.find((tool) => tool.name === toolName)?.label ?? invocation.toolName;
+          const result = invocation.state === 'result' ? (invocation.result as AgentToolResult) : undefined;
+          const failed = result !== undefined && 'error' in result;
+          const awaitingApproval = invocation.state === 'call' && policy[toolName] !== 'auto' && onToolApproval;
+
+          return (
+            <li key={invocation.toolCallId} className="text-sm">
+              <div className="flex items-center gap-1.5">
+                <div
+                  className={classNames('text-lg', {
+                    'text-bolt-elements-loader-progress': !result && !awaitingApproval,
+                    'text-bolt-elements-icon-success': result !== undefined && !failed,
+                    'text-bolt-elements-icon-error': failed,
+                    'text-bolt-elements-textTertiary': !!awaitingApproval,
+                  })}
+                >
+                  {awaitingApproval ? (
+                    <div className="i-ph:hand-palm"></div>
+                  ) : !result ? (
+                    <div className="i-svg-spinners:90-ring-with-bg"></div>
+                  ) : failed ? (
+                    <div className="i-ph:x"></div>
+                  ) : (
+                    <div className="i-ph:check"></div>
+                  )}
+                </div>
+                <span>{label}</span>
+                {describeArgs(invocation) && (
+                  <code className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md truncate">
+                    {describeArgs(invocation)}
+                  </code>
+                )}
+                {awaitingApproval && (
+                  <div className="ml-auto flex gap-2">
+                    <button
+                      className="px-2 py-1 rounded-md text-xs bg-bolt-elements-button-primary-background text-bolt-elements-button-primary-text hover:bg-bolt-elements-button-primary-backgroundHover"
+                      onClick={() => onToolApproval(invocation.toolCallId, true)}
+                    >
+                      Run
+                    </button>
+                    <button
+                      className="px-2 py-1 rounded-md text-xs bg-bolt-elements-button-secondary-background text-bolt-elements-button-secondary-text hover:bg-bolt-elements-button-secondary-backgroundHover"
+                      onClick={() => onToolApproval(invocation.toolCallId, false)}
+                    >
+                      Decline
+                    </button>
+                  </div>
+                )}
+              </div>
+              {failed && (
+                <pre className="mt-1 text-xs text-bolt-elements-textSecondary whitespace-pre-wrap max-h-40 overflow-auto">
+                  {result.error}
+                </pre>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+});
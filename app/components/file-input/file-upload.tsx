@@ -30,6 +30,7 @@ export function FileUpload({ onSendMessage }: FileUploadProps) {
       try {
         // Add more detailed logging for troubleshooting in Cloudflare
         logger.debug('Polling for webhook requirements');
+
         const response = await fetch('/api/requirements');
 
         if (!response.ok) {
@@ -50,22 +51,40 @@ export function FileUpload({ onSendMessage }: FileUploadProps) {
             projectId: data.projectId || 'none',
             contentLength: data.content.length,
           });
+
+          // Claim the item so other open tabs don't process the same requirements
+          const claimResponse = await fetch('/api/requirements', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ claim: true, id: data.id, projectId: data.projectId ?? undefined }),
+          });
+
+          if (!claimResponse.ok) {
+            logger.debug('Requirements already claimed elsewhere', { id: data.id });
+            return;
+          }
+
           setPolling(true);
           setIsLoading(true);
           setProgress(50);
 
           // Process the requirements directly from the first response
-          await processRequirements('Webhook requirements', data.content, data.projectId || undefined);
+          await processRequirements(
+            'Webhook requirements',
+            data.content,
+            data.projectId || undefined,
+            data.id || undefined,
+          );
         }
       } catch (error) {
         // Enhanced error logging with more context
-        logger.error('Error checking for webhook requirements', { 
+        logger.error('Error checking for webhook requirements', {
           error: error instanceof Error ? error.message : String(error),
           stack: error instanceof Error ? error.stack : undefined,
           isPolling: polling,
-          isLoading
+          isLoading,
         });
-        
+
         // Don't let one error stop the polling - continue in next interval
       }
     };
@@ -76,8 +95,8 @@ export function FileUpload({ onSendMessage }: FileUploadProps) {
         pollingInterval = setInterval(checkForWebhookRequirements, 3000);
         logger.debug('Started polling for webhook requirements');
       } catch (error) {
-        logger.error('Failed to set up webhook polling interval', { 
-          error: error instanceof Error ? error.message : String(error) 
+        logger.error('Failed to set up webhook polling interval', {
+          error: error instanceof Error ? error.message : String(error),
         });
       }
     }
@@ -90,7 +109,7 @@ export function FileUpload({ onSendMessage }: FileUploadProps) {
     };
   }, [onSendMessage, isLoading, toast]);
 
-  const processRequirements = async (source: string, content: string, projectId?: string) => {
+  const processRequirements = async (source: string, content: string, projectId?: string, requirementId?: string) => {
     logger.info(`Processing requirements from ${source}`, {
       contentLength: content.length,
       projectId: projectId || 'none',
@@ -130,7 +149,7 @@ export function FileUpload({ onSendMessage }: FileUploadProps) {
           const response = await fetch('/api/requirements', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ markAsProcessed: true }),
+            body: JSON.stringify({ markAsProcessed: true, id: requirementId, projectId }),
           });
 
           if (!response.ok) {
@@ -147,6 +166,15 @@ export function FileUpload({ onSendMessage }: FileUploadProps) {
       const errorMessage = error instanceof Error ? error.message : 'Something went wrong';
       logger.error('Error during requirements processing', { error });
       toast(errorMessage);
+
+      // Record the failure so the item doesn't stay claimed forever
+      if (source === 'Webhook requirements' && requirementId) {
+        await fetch('/api/requirements', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ fail: true, id: requirementId, projectId, error: errorMessage }),
+        }).catch((failError) => logger.warn('Failed to mark requirements as failed', { error: failError }));
+      }
     } finally {
       /*
        * Only reset loading state if we're not redirecting
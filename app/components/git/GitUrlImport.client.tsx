@@ -51,7 +51,7 @@ export function GitUrlImport() {
       const ig = ignore().add(IGNORE_PATTERNS);
 
       try {
-        const { workdir, data } = await gitClone(repoUrl);
+        const { workdir, data, url, branch, gitFiles } = await gitClone(repoUrl);
 
         if (importChat) {
           const filePaths = Object.keys(data).filter((filePath) => !ig.ignores(filePath));
@@ -99,7 +99,12 @@ ${escapeBoltTags(file.content)}
             messages.push(commandsMessage);
           }
 
-          await importChat(`Git Project:${repoUrl.split('/').slice(-1)[0]}`, messages, { gitUrl: repoUrl });
+          await importChat(
+            `Git Project:${repoUrl.split('/').slice(-1)[0]}`,
+            messages,
+            { gitUrl: url, gitBranch: branch },
+            gitFiles,
+          );
         }
       } catch (error) {
         console.error('Error during import:', error);
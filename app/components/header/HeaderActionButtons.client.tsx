@@ -6,13 +6,14 @@ import { netlifyConnection } from '~/lib/stores/netlify';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { webcontainer } from '~/lib/webcontainer';
 import { classNames } from '~/utils/classNames';
-import { path } from '~/utils/path';
 import { useEffect, useRef, useState } from 'react';
 import type { ActionCallbackData } from '~/lib/runtime/message-parser';
 import { chatId } from '~/lib/persistence/useChatHistory'; // Add this import
 import { streamingState } from '~/lib/stores/streaming';
 import { NetlifyDeploymentLink } from '~/components/chat/NetlifyDeploymentLink.client';
 import { FileUpload } from '~/components/file-input/file-upload';
+import { detectProjectCommands } from '~/utils/projectCommands';
+import { collectWebContainerFiles } from '~/utils/fileUtils';
 
 interface HeaderActionButtonsProps {}
 
@@ -63,58 +64,44 @@ export function HeaderActionButtons({}: HeaderActionButtonsProps) {
         throw new Error('No active project found');
       }
 
-      const actionId = 'build-' + Date.now();
-      const actionData: ActionCallbackData = {
-        messageId: 'netlify build',
-        artifactId: artifact.id,
-        actionId,
-        action: {
-          type: 'build' as const,
-          content: 'npm run build',
-        },
-      };
-
-      // Add the action first
-      artifact.runner.addAction(actionData);
-
-      // Then run it
-      await artifact.runner.runAction(actionData);
-
-      if (!artifact.runner.buildOutput) {
-        throw new Error('Build failed');
-      }
-
-      // Get the build files
       const container = await webcontainer;
+      const projectFiles = Object.entries(workbenchStore.files.get()).flatMap(([filePath, dirent]) =>
+        dirent?.type === 'file' && !dirent.isBinary ? [{ path: filePath, content: dirent.content }] : [],
+      );
+      const commands = await detectProjectCommands(projectFiles);
 
-      // Remove /home/project from buildPath if it exists
-      const buildPath = artifact.runner.buildOutput.path.replace('/home/project', '');
+      // projects without a build script are deployed as they are
+      let fileContents;
 
-      // Get all files recursively
-      async function getAllFiles(dirPath: string): Promise<Record<string, string>> {
-        const files: Record<string, string> = {};
-        const entries = await container.fs.readdir(dirPath, { withFileTypes: true });
+      if (commands.buildCommand) {
+        const actionId = 'build-' + Date.now();
+        const actionData: ActionCallbackData = {
+          messageId: 'netlify build',
+          artifactId: artifact.id,
+          actionId,
+          action: {
+            type: 'build' as const,
+            content: commands.buildCommand,
+          },
+        };
 
-        for (const entry of entries) {
-          const fullPath = path.join(dirPath, entry.name);
+        // Add the action first
+        artifact.runner.addAction(actionData);
 
-          if (entry.isFile()) {
-            const content = await container.fs.readFile(fullPath, 'utf-8');
+        // Then run it
+        await artifact.runner.runAction(actionData);
 
-            // Remove /dist prefix from the path
-            const deployPath = fullPath.replace(buildPath, '');
-            files[deployPath] = content;
-          } else if (entry.isDirectory()) {
-            const subFiles = await getAllFiles(fullPath);
-            Object.assign(files, subFiles);
-          }
+        const buildOutput = artifact.runner.buildOutput;
+
+        if (!buildOutput || artifact.runner.actions.get()[actionId]?.status === 'failed') {
+          throw new Error('Build failed');
         }
 
-        return files;
+        fileContents = buildOutput.files;
+      } else {
+        fileContents = await collectWebContainerFiles(container, '/');
       }
 
-      const fileContents = await getAllFiles(buildPath);
-
       // Use chatId instead of artifact.id
       const existingSiteId = localStorage.getItem(`netlify-site-${currentChatId}`);
 
@@ -126,6 +113,7 @@ export function HeaderActionButtons({}: HeaderActionButtonsProps) {
         },
         body: JSON.stringify({
           siteId: existingSiteId || undefined,
+          provider: 'netlify',
           files: fileContents,
           token: connection.token,
           chatId: currentChatId, // Use chatId instead of artifact.id
@@ -146,23 +134,20 @@ export function HeaderActionButtons({}: HeaderActionButtonsProps) {
 
       while (attempts < maxAttempts) {
         try {
-          const statusResponse = await fetch(
-            `https://api.netlify.com/api/v1/sites/${data.site.id}/deploys/${data.deploy.id}`,
-            {
-              headers: {
-                Authorization: `Bearer ${connection.token}`,
-              },
+          const statusResponse = await fetch(`/api/deploy/${data.deploy.id}`, {
+            headers: {
+              'X-Deploy-Token': connection.token,
             },
-          );
+          });
 
-          deploymentStatus = (await statusResponse.json()) as any;
+          deploymentStatus = ((await statusResponse.json()) as any).deploy;
 
-          if (deploymentStatus.state === 'ready' || deploymentStatus.state === 'uploaded') {
+          if (deploymentStatus?.state === 'ready') {
             break;
           }
 
-          if (deploymentStatus.state === 'error') {
-            throw new Error('Deployment failed: ' + (deploymentStatus.error_message || 'Unknown error'));
+          if (deploymentStatus?.state === 'error') {
+            throw new Error('Deployment failed: ' + (deploymentStatus.error || 'Unknown error'));
           }
 
           attempts++;
@@ -186,12 +171,7 @@ export function HeaderActionButtons({}: HeaderActionButtonsProps) {
       toast.success(
         <div>
           Deployed successfully!{' '}
-          <a
-            href={deploymentStatus.ssl_url || deploymentStatus.url}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="underline"
-          >
+          <a href={deploymentStatus.url} target="_blank" rel="noopener noreferrer" className="underline">
             View site
           </a>
         </div>,
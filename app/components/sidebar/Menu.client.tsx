@@ -9,6 +9,7 @@ import { db, deleteById, getAll, chatId, type ChatHistoryItem, useChatHistory }
 import { cubicEasingFn } from '~/utils/easings';
 import { logger } from '~/utils/logger';
 import { HistoryItem } from './HistoryItem';
+import { SearchResults } from './SearchResults';
 import { binDates } from './date-binning';
 import { useSearchFilter } from '~/lib/hooks/useSearchFilter';
 import { classNames } from '~/utils/classNames';
@@ -69,7 +70,11 @@ export const Menu = () => {
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const profile = useStore(profileStore);
 
-  const { filteredItems: filteredList, handleSearchChange } = useSearchFilter({
+  const {
+    searchQuery,
+    filteredItems: filteredList,
+    handleSearchChange,
+  } = useSearchFilter({
     items: list,
     searchFields: ['description'],
   });
@@ -275,6 +280,14 @@ export const Menu = () => {
                 )}
               </Dialog>
             </DialogRoot>
+            {searchQuery.trim() && (
+              <div className="mt-2 space-y-1">
+                <div className="text-xs font-medium text-gray-500 dark:text-gray-400 sticky top-0 z-1 bg-white dark:bg-gray-950 px-4 py-1">
+                  In messages
+                </div>
+                <SearchResults query={searchQuery} chats={list} />
+              </div>
+            )}
           </div>
           <div className="flex items-center justify-between border-t border-gray-200 dark:border-gray-800 px-4 py-3">
             <SettingsButton onClick={handleSettingsClick} />
@@ -0,0 +1,102 @@
+import { Fragment, useEffect, useState } from 'react';
+import { db, searchChatHistory, tokenizeSearchText, type ChatHistoryItem, type SearchResult } from '~/lib/persistence';
+import { logger } from '~/utils/logger';
+
+interface SearchResultsProps {
+  query: string;
+  chats: ChatHistoryItem[];
+}
+
+const FIELD_ICONS: Record<SearchResult['field'], string> = {
+  text: 'i-ph:chat-text',
+  titles: 'i-ph:package',
+  files: 'i-ph:file-code',
+  commands: 'i-ph:terminal',
+};
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// marks the words of the query in a snippet, the last one also as a prefix like the search itself
+function HighlightedSnippet({ snippet, words }: { snippet: string; words: string[] }) {
+  if (words.length === 0) {
+    return <>{snippet}</>;
+  }
+
+  const pattern = new RegExp(`(${words.map(escapeRegExp).join('|')})`, 'gi');
+
+  return (
+    <>
+      {snippet.split(pattern).map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-purple-500/20 text-inherit rounded-sm">
+            {part}
+          </mark>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        ),
+      )}
+    </>
+  );
+}
+
+export function SearchResults({ query, chats }: SearchResultsProps) {
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!db) {
+      return undefined;
+    }
+
+    let cancelled = false;
+
+    setLoading(true);
+    searchChatHistory(db, query)
+      .then((results) => !cancelled && setResults(results))
+      .catch((error) => logger.error('Failed to search the chat history', error))
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  const chatsById = new Map(chats.map((chat) => [chat.id, chat]));
+  const words = tokenizeSearchText(query);
+  const visible = results.filter((result) => chatsById.has(result.chatId));
+
+  if (visible.length === 0) {
+    return (
+      <div className="px-4 text-gray-500 dark:text-gray-400 text-sm">
+        {loading ? 'Searching...' : 'No messages found'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-0.5 pr-1">
+      {visible.map((result) => {
+        const chat = chatsById.get(result.chatId)!;
+        const params = new URLSearchParams({ message: result.messageId, highlight: query });
+
+        return (
+          <a
+            key={`${result.chatId}:${result.messageId}`}
+            href={`/chat/${chat.urlId}?${params}`}
+            className="block rounded-lg px-3 py-2 text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-50/80 dark:hover:bg-gray-800/30 transition-colors"
+          >
+            <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+              <span className={`${FIELD_ICONS[result.field]} h-3.5 w-3.5 shrink-0`} />
+              <span className="truncate">{chat.description}</span>
+            </div>
+            <div className="mt-1 text-sm line-clamp-2 break-words">
+              <HighlightedSnippet snippet={result.snippet} words={words} />
+            </div>
+          </a>
+        );
+      })}
+    </div>
+  );
+}
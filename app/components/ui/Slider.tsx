@@ -7,6 +7,9 @@ import { genericMemo } from '~/utils/react';
 export type SliderOptions<T> = {
   left: { value: T; text: string };
   middle?: { value: T; text: string };
+
+  // further options between the middle and the right one
+  more?: { value: T; text: string }[];
   right: { value: T; text: string };
 };
 
@@ -20,6 +23,7 @@ export const Slider = genericMemo(<T,>({ selected, options, setSelected }: Slide
   const hasMiddle = !!options.middle;
   const isLeftSelected = hasMiddle ? selected === options.left.value : selected === options.left.value;
   const isMiddleSelected = hasMiddle && options.middle ? selected === options.middle.value : false;
+  const isMoreSelected = options.more?.some((option) => selected === option.value) ?? false;
 
   return (
     <div className="flex items-center flex-wrap shrink-0 gap-1 bg-bolt-elements-background-depth-1 overflow-hidden rounded-full p-1">
@@ -33,8 +37,18 @@ export const Slider = genericMemo(<T,>({ selected, options, setSelected }: Slide
         </SliderButton>
       )}
 
+      {options.more?.map((option) => (
+        <SliderButton
+          key={String(option.value)}
+          selected={selected === option.value}
+          setSelected={() => setSelected?.(option.value)}
+        >
+          {option.text}
+        </SliderButton>
+      ))}
+
       <SliderButton
-        selected={!isLeftSelected && !isMiddleSelected}
+        selected={!isLeftSelected && !isMiddleSelected && !isMoreSelected}
         setSelected={() => setSelected?.(options.right.value)}
       >
         {options.right.text}
@@ -1,7 +1,7 @@
 import { memo, useMemo, useState, useEffect, useCallback } from 'react';
 import { useStore } from '@nanostores/react';
 import { workbenchStore } from '~/lib/stores/workbench';
-import type { FileMap } from '~/lib/stores/files';
+import type { FileChanges, FileMap } from '~/lib/stores/files';
 import type { EditorDocument } from '~/components/editor/codemirror/CodeMirrorEditor';
 import { diffLines, type Change } from 'diff';
 import { getHighlighter } from 'shiki';
@@ -11,6 +11,7 @@ import { ActionRunner } from '~/lib/runtime/action-runner';
 import type { FileHistory } from '~/types/actions';
 import { getLanguageFromExtension } from '~/utils/getLanguageFromExtension';
 import { themeStore } from '~/lib/stores/theme';
+import { WORK_DIR } from '~/utils/constants';
 
 interface CodeComparisonProps {
   beforeCode: string;
@@ -542,7 +543,7 @@ const FileInfo = memo(
   },
 );
 
-const InlineDiffComparison = memo(({ beforeCode, afterCode, filename, language }: CodeComparisonProps) => {
+export const InlineDiffComparison = memo(({ beforeCode, afterCode, filename, language }: CodeComparisonProps) => {
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [highlighter, setHighlighter] = useState<any>(null);
   const theme = useStore(themeStore);
@@ -618,6 +619,105 @@ const InlineDiffComparison = memo(({ beforeCode, afterCode, filename, language }
   );
 });
 
+// deletions and moves made by delete/rename actions, deleted files can be opened to see their last content
+const FileChangesList = memo(
+  ({
+    changes,
+    activeFile,
+    onSelect,
+  }: {
+    changes: FileChanges;
+    activeFile?: string;
+    onSelect: (filePath: string, type: 'deleted' | 'moved') => void;
+  }) => {
+    const entries = Object.entries(changes).filter(([, change]) => change !== undefined);
+
+    if (entries.length === 0) {
+      return null;
+    }
+
+    return (
+      <div className="flex flex-col gap-1 bg-bolt-elements-background-depth-1 p-2 text-xs border-b border-bolt-elements-borderColor shrink-0 max-h-32 overflow-auto">
+        {entries.map(([filePath, change]) => (
+          <button
+            key={filePath}
+            className={`flex items-center gap-2 text-left bg-transparent hover:underline ${
+              filePath === activeFile ? 'text-bolt-elements-textPrimary' : 'text-bolt-elements-textSecondary'
+            }`}
+            onClick={() => onSelect(filePath, change!.type)}
+          >
+            {change!.type === 'deleted' ? (
+              <>
+                <div className="i-ph:trash h-3.5 w-3.5 shrink-0 text-red-700 dark:text-red-500" />
+                <span className="text-red-700 dark:text-red-500">Deleted</span>
+                <span className="truncate line-through">{extractRelativePath(filePath)}</span>
+              </>
+            ) : (
+              <>
+                <div className="i-ph:arrow-right h-3.5 w-3.5 shrink-0 text-yellow-600 dark:text-yellow-400" />
+                <span className="text-yellow-600 dark:text-yellow-400">Moved</span>
+                <span className="truncate">
+                  {extractRelativePath(change!.from)} → {extractRelativePath(filePath)}
+                </span>
+              </>
+            )}
+          </button>
+        ))}
+      </div>
+    );
+  },
+);
+
+const CONFLICT_MARKER = /^<{7}( |$)/gm;
+
+// files a merge left with conflict markers, resolved ones have none left
+const MergeConflictsList = memo(
+  ({
+    conflicts,
+    files,
+    activeFile,
+    onSelect,
+  }: {
+    conflicts: string[];
+    files: FileMap;
+    activeFile?: string;
+    onSelect: (filePath: string) => void;
+  }) => (
+    <div className="flex flex-col gap-1 bg-bolt-elements-background-depth-1 p-2 text-xs border-b border-bolt-elements-borderColor shrink-0 max-h-32 overflow-auto">
+      {conflicts.map((conflict) => {
+        const filePath = `${WORK_DIR}/${conflict}`;
+        const file = files[filePath];
+        const markers = file?.type === 'file' ? (file.content.match(CONFLICT_MARKER)?.length ?? 0) : 0;
+
+        return (
+          <button
+            key={conflict}
+            className={`flex items-center gap-2 text-left bg-transparent hover:underline ${
+              filePath === activeFile ? 'text-bolt-elements-textPrimary' : 'text-bolt-elements-textSecondary'
+            }`}
+            onClick={() => onSelect(filePath)}
+          >
+            {markers > 0 ? (
+              <>
+                <div className="i-ph:git-merge h-3.5 w-3.5 shrink-0 text-orange-600 dark:text-orange-400" />
+                <span className="text-orange-600 dark:text-orange-400">
+                  {markers} {markers === 1 ? 'conflict' : 'conflicts'}
+                </span>
+              </>
+            ) : (
+              <>
+                <div className="i-ph:check h-3.5 w-3.5 shrink-0 text-green-600 dark:text-green-400" />
+                <span className="text-green-600 dark:text-green-400">Resolved</span>
+              </>
+            )}
+            <span className="truncate">{conflict}</span>
+          </button>
+        );
+      })}
+    </div>
+  ),
+);
+
 interface DiffViewProps {
   fileHistory: Record<string, FileHistory>;
   setFileHistory: React.Dispatch<React.SetStateAction<Record<string, FileHistory>>>;
@@ -629,6 +729,50 @@ export const DiffView = memo(({ fileHistory, setFileHistory }: DiffViewProps) =>
   const selectedFile = useStore(workbenchStore.selectedFile);
   const currentDocument = useStore(workbenchStore.currentDocument) as EditorDocument;
   const unsavedFiles = useStore(workbenchStore.unsavedFiles);
+  const fileChanges = useStore(workbenchStore.fileChanges);
+  const merging = useStore(workbenchStore.git.merging);
+  const [deletedFile, setDeletedFile] = useState<string>();
+  const [conflictBase, setConflictBase] = useState<string>();
+
+  const onSelectConflict = useCallback((filePath: string) => {
+    setDeletedFile(undefined);
+    workbenchStore.setSelectedFile(filePath);
+  }, []);
+
+  const conflict = merging?.conflicts.find((conflict) => `${WORK_DIR}/${conflict}` === selectedFile);
+
+  // a conflicted file is compared with the last commit of the branch, the markers show what came in
+  useEffect(() => {
+    setConflictBase(undefined);
+
+    if (!conflict) {
+      return undefined;
+    }
+
+    let cancelled = false;
+
+    workbenchStore.git
+      .readHeadFile(conflict)
+      .then((content) => !cancelled && setConflictBase(content))
+      .catch((error) => console.error('Failed to read the committed file:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conflict]);
+
+  useEffect(() => {
+    setDeletedFile(undefined);
+  }, [selectedFile]);
+
+  const onSelectFileChange = useCallback((filePath: string, type: 'deleted' | 'moved') => {
+    if (type === 'deleted') {
+      setDeletedFile(filePath);
+    } else {
+      setDeletedFile(undefined);
+      workbenchStore.setSelectedFile(filePath);
+    }
+  }, []);
 
   useEffect(() => {
     if (selectedFile && currentDocument) {
@@ -712,10 +856,46 @@ export const DiffView = memo(({ fileHistory, setFileHistory }: DiffViewProps) =>
     }
   }, [selectedFile, currentDocument?.value, files, setFileHistory, unsavedFiles]);
 
+  const deleted = deletedFile ? fileChanges[deletedFile] : undefined;
+  const changesList = (
+    <>
+      {merging && (
+        <MergeConflictsList
+          conflicts={merging.conflicts}
+          files={files}
+          activeFile={selectedFile}
+          onSelect={onSelectConflict}
+        />
+      )}
+      <FileChangesList changes={fileChanges} activeFile={deletedFile ?? selectedFile} onSelect={onSelectFileChange} />
+    </>
+  );
+
+  if (deletedFile && deleted?.type === 'deleted') {
+    return (
+      <div className="h-full overflow-hidden flex flex-col">
+        {changesList}
+        <div className="flex-1 min-h-0">
+          <InlineDiffComparison
+            beforeCode={deleted.content}
+            afterCode=""
+            language={getLanguageFromExtension(deletedFile.split('.').pop() || '')}
+            filename={`${deletedFile} (deleted)`}
+            lightTheme="github-light"
+            darkTheme="github-dark"
+          />
+        </div>
+      </div>
+    );
+  }
+
   if (!selectedFile || !currentDocument) {
     return (
-      <div className="flex w-full h-full justify-center items-center bg-bolt-elements-background-depth-1 text-bolt-elements-textPrimary">
-        Select a file to view differences
+      <div className="h-full overflow-hidden flex flex-col">
+        {changesList}
+        <div className="flex flex-1 w-full justify-center items-center bg-bolt-elements-background-depth-1 text-bolt-elements-textPrimary">
+          Select a file to view differences
+        </div>
       </div>
     );
   }
@@ -724,21 +904,28 @@ export const DiffView = memo(({ fileHistory, setFileHistory }: DiffViewProps) =>
   const originalContent = file && 'content' in file ? file.content : '';
   const currentContent = currentDocument.value;
 
-  const history = fileHistory[selectedFile];
+  // a moved file keeps the history it had at its previous location
+  const moved = fileChanges[selectedFile]?.type === 'moved' ? fileChanges[selectedFile] : undefined;
+  const history = fileHistory[selectedFile] ?? (moved ? fileHistory[moved.from] : undefined);
   const effectiveOriginalContent = history?.originalContent || originalContent;
   const language = getLanguageFromExtension(selectedFile.split('.').pop() || '');
 
   try {
     return (
-      <div className="h-full overflow-hidden">
-        <InlineDiffComparison
-          beforeCode={effectiveOriginalContent}
-          afterCode={currentContent}
-          language={language}
-          filename={selectedFile}
-          lightTheme="github-light"
-          darkTheme="github-dark"
-        />
+      <div className="h-full overflow-hidden flex flex-col">
+        {changesList}
+        <div className="flex-1 min-h-0">
+          <InlineDiffComparison
+            beforeCode={conflictBase ?? effectiveOriginalContent}
+            afterCode={currentContent}
+            language={language}
+            filename={
+              conflict ? `${selectedFile} (merge conflict)` : moved ? `${moved.from} → ${selectedFile}` : selectedFile
+            }
+            lightTheme="github-light"
+            darkTheme="github-dark"
+          />
+        </div>
       </div>
     );
   } catch (error) {
@@ -0,0 +1,380 @@
+import { useStore } from '@nanostores/react';
+import { Errors } from 'isomorphic-git';
+import { memo, useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { createPullRequest } from '~/lib/git/github';
+import { chatId, db, description, getSnapshot } from '~/lib/persistence';
+import { workbenchStore } from '~/lib/stores/workbench';
+import type { GitFileChange, GitMergeResult } from '~/lib/stores/git';
+import { classNames } from '~/utils/classNames';
+import { getLanguageFromExtension } from '~/utils/getLanguageFromExtension';
+import { InlineDiffComparison } from './DiffView';
+
+interface GitPanelProps {
+  gitUrl?: string;
+
+  // the branch a repository was cloned from, where pulls and pull requests go by default
+  gitBranch?: string;
+}
+
+const inputClassName = classNames(
+  'px-2 py-1 rounded-md text-sm',
+  'bg-bolt-elements-background-depth-1 border border-bolt-elements-borderColor',
+  'text-bolt-elements-textPrimary',
+  'focus:outline-none focus:border-bolt-elements-borderColorActive',
+);
+
+const buttonClassName = classNames(
+  'flex items-center gap-1.5 px-2 py-1 rounded-md text-sm',
+  'bg-bolt-elements-item-backgroundDefault text-bolt-elements-item-contentDefault',
+  'hover:bg-bolt-elements-item-backgroundActive hover:text-bolt-elements-item-contentActive',
+  'disabled:cursor-not-allowed disabled:opacity-50',
+);
+
+const CHANGE_STYLES: Record<GitFileChange['type'], string> = {
+  added: 'i-ph:plus-circle text-green-500',
+  modified: 'i-ph:pencil-simple text-yellow-500',
+  deleted: 'i-ph:minus-circle text-red-500',
+};
+
+function formatTimestamp(timestamp: number) {
+  return new Date(timestamp * 1000).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+}
+
+const MERGE_MESSAGES: Record<GitMergeResult, string> = {
+  'up-to-date': 'Already up to date',
+  'fast-forward': 'Fast-forwarded to the remote branch',
+  merged: 'Merged the remote branch',
+  conflicts: 'The merge has conflicts, resolve them in the Diff view and commit',
+};
+
+function getErrorMessage(error: unknown) {
+  if (error instanceof Errors.CheckoutConflictError) {
+    return 'Commit your changes before switching branches';
+  }
+
+  if (error instanceof Errors.MergeNotSupportedError) {
+    return 'The branches have no single common commit to merge from';
+  }
+
+  return error instanceof Error ? error.message : String(error);
+}
+
+// the summary the model keeps of the chat with context optimization, the chat description otherwise
+async function getChatSummary() {
+  const id = chatId.get();
+  const snapshot = db && id ? await getSnapshot(db, id) : undefined;
+
+  return snapshot?.summary || description.get() || '';
+}
+
+export const GitPanel = memo(({ gitUrl, gitBranch }: GitPanelProps) => {
+  const commits = useStore(workbenchStore.git.commits);
+  const branches = useStore(workbenchStore.git.branches);
+  const currentBranch = useStore(workbenchStore.git.currentBranch);
+  const merging = useStore(workbenchStore.git.merging);
+  const [selectedCommit, setSelectedCommit] = useState<string>();
+  const [changes, setChanges] = useState<GitFileChange[]>([]);
+  const [selectedFile, setSelectedFile] = useState<string>();
+  const [newBranch, setNewBranch] = useState('');
+  const [remoteUrl, setRemoteUrl] = useState(gitUrl ?? '');
+  const [baseBranch, setBaseBranch] = useState(gitBranch ?? '');
+  const [pushBranch, setPushBranch] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    workbenchStore.git.refresh().catch((error) => console.error('Failed to read the git history:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!selectedCommit) {
+      setChanges([]);
+      return;
+    }
+
+    workbenchStore.git
+      .getCommitChanges(selectedCommit)
+      .then((changes) => {
+        setChanges(changes);
+        setSelectedFile(changes[0]?.path);
+      })
+      .catch((error) => toast.error(`Failed to read the commit: ${getErrorMessage(error)}`));
+  }, [selectedCommit]);
+
+  const runGitAction = async <T,>(action: () => Promise<T>, success: string | ((result: T) => string)) => {
+    setBusy(true);
+
+    try {
+      const result = await action();
+      toast.success(typeof success === 'string' ? success : success(result));
+    } catch (error) {
+      console.error('Git operation failed:', error);
+      toast.error(getErrorMessage(error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCommit = () => {
+    const message = prompt('Please enter a commit message:', merging?.message ?? 'Update project files');
+
+    if (message) {
+      runGitAction(async () => {
+        if (!(await workbenchStore.git.commitAll(message))) {
+          throw new Error('There are no changes to commit');
+        }
+      }, 'Changes committed');
+    }
+  };
+
+  const handleCreateBranch = () => {
+    const name = newBranch.trim();
+
+    if (!name) {
+      return;
+    }
+
+    // the branch starts at the selected commit, or at the current one
+    runGitAction(async () => {
+      await workbenchStore.git.createBranch(name, selectedCommit);
+      await workbenchStore.checkoutBranch(name);
+      setNewBranch('');
+    }, `Switched to the new branch ${name}`);
+  };
+
+  const getRemote = () => {
+    const url = remoteUrl.trim();
+
+    if (!url) {
+      toast.error('Enter the url of the remote repository');
+    }
+
+    return url;
+  };
+
+  // pulls and fetches go to the branch the project was cloned from, or the one of the same name
+  const getBaseBranch = () => baseBranch.trim() || currentBranch || 'main';
+
+  const handleFetch = () => {
+    const url = getRemote();
+    const branch = getBaseBranch();
+
+    if (url) {
+      runGitAction(() => workbenchStore.git.fetch(url, branch), `Fetched ${branch} into origin/${branch}`);
+    }
+  };
+
+  const handlePull = () => {
+    const url = getRemote();
+
+    if (url) {
+      runGitAction(
+        () => workbenchStore.pullBranch(url, getBaseBranch()),
+        (result) => MERGE_MESSAGES[result],
+      );
+    }
+  };
+
+  const handlePush = () => {
+    const url = getRemote();
+    const branch = pushBranch.trim() || currentBranch;
+
+    if (url) {
+      runGitAction(() => workbenchStore.git.push(url, branch), `Pushed ${currentBranch} to ${branch} of ${url}`);
+    }
+  };
+
+  // pushes the current branch and opens a pull request from it into the base branch
+  const handlePullRequest = () => {
+    const url = getRemote();
+    const head = pushBranch.trim() || currentBranch;
+
+    if (!url || !head) {
+      return;
+    }
+
+    runGitAction(
+      async () => {
+        await workbenchStore.git.push(url, head);
+
+        const pullRequestUrl = await createPullRequest({
+          url,
+          head,
+          base: baseBranch.trim() || undefined,
+          title: description.get() || commits[0]?.message || head,
+          body: await getChatSummary(),
+        });
+
+        window.open(pullRequestUrl, '_blank');
+
+        return pullRequestUrl;
+      },
+      (pullRequestUrl) => `Opened ${pullRequestUrl}`,
+    );
+  };
+
+  const selectedChange = changes.find((change) => change.path === selectedFile);
+
+  return (
+    <div className="h-full flex flex-col bg-bolt-elements-background-depth-1 text-sm">
+      <div className="flex flex-wrap items-center gap-2 p-2 border-b border-bolt-elements-borderColor">
+        <div className="i-ph:git-branch text-bolt-elements-textSecondary" />
+        <select
+          className={inputClassName}
+          value={currentBranch ?? ''}
+          disabled={busy || branches.length === 0}
+          onChange={(event) =>
+            runGitAction(() => workbenchStore.checkoutBranch(event.target.value), `Switched to ${event.target.value}`)
+          }
+        >
+          {!currentBranch && <option value="">No branch</option>}
+          {branches.map((branch) => (
+            <option key={branch} value={branch}>
+              {branch}
+            </option>
+          ))}
+        </select>
+        <input
+          className={classNames(inputClassName, 'w-36')}
+          placeholder="New branch"
+          value={newBranch}
+          onChange={(event) => setNewBranch(event.target.value)}
+          onKeyDown={(event) => event.key === 'Enter' && handleCreateBranch()}
+        />
+        <button className={buttonClassName} disabled={busy || !newBranch.trim()} onClick={handleCreateBranch}>
+          <div className="i-ph:plus" />
+          Branch
+        </button>
+        <button className={buttonClassName} disabled={busy} onClick={handleCommit}>
+          <div className="i-ph:git-commit" />
+          Commit
+        </button>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 p-2 border-b border-bolt-elements-borderColor">
+        <div className="i-ph:globe-simple text-bolt-elements-textSecondary" />
+        <input
+          className={classNames(inputClassName, 'flex-1 min-w-48')}
+          placeholder="https://github.com/user/repo.git"
+          value={remoteUrl}
+          onChange={(event) => setRemoteUrl(event.target.value)}
+        />
+        <input
+          className={classNames(inputClassName, 'w-28')}
+          placeholder={currentBranch ?? 'main'}
+          title="Remote branch to pull from and to open pull requests against"
+          value={baseBranch}
+          onChange={(event) => setBaseBranch(event.target.value)}
+        />
+        <button className={buttonClassName} disabled={busy} onClick={handleFetch}>
+          <div className="i-ph:cloud-arrow-down" />
+          Fetch
+        </button>
+        <button className={buttonClassName} disabled={busy || !currentBranch || !!merging} onClick={handlePull}>
+          <div className="i-ph:git-pull-request" />
+          Pull
+        </button>
+        <input
+          className={classNames(inputClassName, 'w-28')}
+          placeholder={currentBranch ?? 'branch'}
+          title="Remote branch to push to"
+          value={pushBranch}
+          onChange={(event) => setPushBranch(event.target.value)}
+        />
+        <button className={buttonClassName} disabled={busy || !currentBranch || !!merging} onClick={handlePush}>
+          <div className="i-ph:cloud-arrow-up" />
+          Push
+        </button>
+        <button className={buttonClassName} disabled={busy || !currentBranch || !!merging} onClick={handlePullRequest}>
+          <div className="i-ph:git-merge" />
+          Pull request
+        </button>
+      </div>
+      {merging && (
+        <div className="flex flex-wrap items-center gap-2 px-3 py-2 border-b border-bolt-elements-borderColor bg-yellow-500/10 text-bolt-elements-textPrimary">
+          <div className="i-ph:warning text-yellow-500" />
+          <span className="flex-1 min-w-0 truncate">
+            {merging.conflicts.length} conflicted {merging.conflicts.length === 1 ? 'file' : 'files'}, resolve the
+            conflict markers and commit to finish the merge
+          </span>
+          <button className={buttonClassName} onClick={() => workbenchStore.currentView.set('diff')}>
+            <div className="i-ph:git-diff" />
+            Show conflicts
+          </button>
+          <button
+            className={buttonClassName}
+            disabled={busy}
+            onClick={() => runGitAction(() => workbenchStore.abortMerge(), 'Merge aborted')}
+          >
+            <div className="i-ph:x" />
+            Abort merge
+          </button>
+        </div>
+      )}
+      <div className="flex flex-1 min-h-0">
+        <div className="w-72 shrink-0 overflow-y-auto border-r border-bolt-elements-borderColor">
+          {commits.length === 0 && (
+            <div className="p-4 text-bolt-elements-textTertiary">
+              No commits yet, every completed artifact is committed with its title
+            </div>
+          )}
+          {commits.map((commit) => (
+            <button
+              key={commit.oid}
+              className={classNames(
+                'w-full text-left px-3 py-2 border-b border-bolt-elements-borderColor bg-transparent',
+                commit.oid === selectedCommit
+                  ? 'bg-bolt-elements-item-backgroundAccent text-bolt-elements-item-contentAccent'
+                  : 'text-bolt-elements-textPrimary hover:bg-bolt-elements-item-backgroundActive',
+              )}
+              onClick={() => setSelectedCommit(commit.oid === selectedCommit ? undefined : commit.oid)}
+            >
+              <div className="truncate">{commit.message}</div>
+              <div className="flex gap-2 text-xs text-bolt-elements-textTertiary">
+                <code>{commit.oid.slice(0, 7)}</code>
+                <span className="truncate">{commit.author}</span>
+                <span className="ml-auto shrink-0">{formatTimestamp(commit.timestamp)}</span>
+              </div>
+            </button>
+          ))}
+        </div>
+        <div className="flex-1 flex flex-col min-w-0">
+          {!selectedCommit ? (
+            <div className="p-4 text-bolt-elements-textTertiary">Select a commit to see its changes</div>
+          ) : (
+            <>
+              <div className="flex flex-col gap-1 p-2 max-h-40 overflow-auto border-b border-bolt-elements-borderColor">
+                {changes.map((change) => (
+                  <button
+                    key={change.path}
+                    className={classNames(
+                      'flex items-center gap-2 text-left bg-transparent hover:underline',
+                      change.path === selectedFile
+                        ? 'text-bolt-elements-textPrimary'
+                        : 'text-bolt-elements-textSecondary',
+                    )}
+                    onClick={() => setSelectedFile(change.path)}
+                  >
+                    <div className={classNames('h-3.5 w-3.5 shrink-0', CHANGE_STYLES[change.type])} />
+                    <span className="truncate">{change.path}</span>
+                  </button>
+                ))}
+              </div>
+              <div className="flex-1 min-h-0">
+                {selectedChange && (
+                  <InlineDiffComparison
+                    beforeCode={selectedChange.before}
+                    afterCode={selectedChange.after}
+                    language={getLanguageFromExtension(selectedChange.path.split('.').pop() || '')}
+                    filename={selectedChange.path}
+                    lightTheme="github-light"
+                    darkTheme="github-dark"
+                  />
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+});
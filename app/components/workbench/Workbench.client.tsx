@@ -21,6 +21,7 @@ import { classNames } from '~/utils/classNames';
 import { cubicEasingFn } from '~/utils/easings';
 import { renderLogger } from '~/utils/logger';
 import { EditorPanel } from './EditorPanel';
+import { GitPanel } from './GitPanel';
 import { Preview } from './Preview';
 import useViewport from '~/lib/hooks';
 import { PushToGitHubDialog } from '~/components/@settings/tabs/connections/components/PushToGitHubDialog';
@@ -31,6 +32,7 @@ interface WorkspaceProps {
   actionRunner: ActionRunner;
   metadata?: {
     gitUrl?: string;
+    gitBranch?: string;
   };
   updateChatMestaData?: (metadata: any) => void;
 }
@@ -46,6 +48,12 @@ const sliderOptions: SliderOptions<WorkbenchViewType> = {
     value: 'diff',
     text: 'Diff',
   },
+  more: [
+    {
+      value: 'git',
+      text: 'Git',
+    },
+  ],
   right: {
     value: 'preview',
     text: 'Preview',
@@ -292,6 +300,7 @@ export const Workbench = memo(
     const unsavedFiles = useStore(workbenchStore.unsavedFiles);
     const files = useStore(workbenchStore.files);
     const selectedView = useStore(workbenchStore.currentView);
+    const buildOutput = useStore(workbenchStore.buildOutput);
 
     const isSmallViewport = useViewport(1024);
 
@@ -386,6 +395,17 @@ export const Workbench = memo(
                         <div className="i-ph:code" />
                         Download Code
                       </PanelHeaderButton>
+                      {buildOutput && (
+                        <PanelHeaderButton
+                          className="mr-1 text-sm"
+                          onClick={() => {
+                            workbenchStore.downloadBuildZip();
+                          }}
+                        >
+                          <div className="i-ph:package" />
+                          Download Build
+                        </PanelHeaderButton>
+                      )}
                       <PanelHeaderButton className="mr-1 text-sm" onClick={handleSyncFiles} disabled={isSyncing}>
                         {isSyncing ? <div className="i-ph:spinner" /> : <div className="i-ph:cloud-arrow-down" />}
                         {isSyncing ? 'Syncing...' : 'Sync Files'}
@@ -439,6 +459,12 @@ export const Workbench = memo(
                   >
                     <DiffView fileHistory={fileHistory} setFileHistory={setFileHistory} actionRunner={actionRunner} />
                   </View>
+                  <View
+                    initial={{ x: '100%' }}
+                    animate={{ x: selectedView === 'git' ? '0%' : selectedView === 'preview' ? '-100%' : '100%' }}
+                  >
+                    <GitPanel gitUrl={metadata?.gitUrl} gitBranch={metadata?.gitBranch} />
+                  </View>
                   <View initial={{ x: '100%' }} animate={{ x: selectedView === 'preview' ? '0%' : '100%' }}>
                     <Preview />
                   </View>
@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MemoryKeyValueStore } from '~/lib/.server/storage';
+import { ApiClientStore } from './api-clients';
+
+describe('ApiClientStore', () => {
+  it('should authenticate keys of active clients only', async () => {
+    const clients = new ApiClientStore(new MemoryKeyValueStore());
+    const { client, apiKey } = await clients.register({ name: 'ci', scopes: ['status:read'] });
+
+    expect(await clients.authenticate(apiKey)).toMatchObject({ id: client.id });
+    expect(await clients.authenticate(`${apiKey}x`)).toBeNull();
+    expect(await clients.authenticate('not-a-key')).toBeNull();
+
+    await clients.revoke(client.id);
+
+    expect(await clients.authenticate(apiKey)).toBeNull();
+  });
+
+  it('should never write the client record back while authenticating', async () => {
+    const store = new MemoryKeyValueStore();
+    const clients = new ApiClientStore(store);
+    const { client, apiKey } = await clients.register({ name: 'sync', scopes: ['chats:sync'] });
+    const put = vi.spyOn(store, 'put');
+
+    // a request that read the record before the revocation finishes after it
+    const authentication = clients.authenticate(apiKey);
+
+    await clients.revoke(client.id);
+    await authentication;
+
+    expect(await clients.authenticate(apiKey)).toBeNull();
+    expect(put.mock.calls.filter(([key]) => key === `api-clients:${client.id}`)).toHaveLength(1);
+  });
+
+  it('should record the last use of a client at most once a minute', async () => {
+    const store = new MemoryKeyValueStore();
+    const clients = new ApiClientStore(store);
+    const { client, apiKey } = await clients.register({ name: 'poller', scopes: ['status:read'] });
+    const put = vi.spyOn(store, 'put');
+
+    for (let i = 0; i < 5; i++) {
+      await clients.authenticate(apiKey);
+    }
+
+    expect(put).toHaveBeenCalledTimes(1);
+    expect((await clients.list()).find((info) => info.id === client.id)?.lastUsedAt).toBeTypeOf('number');
+  });
+});
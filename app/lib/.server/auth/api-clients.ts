@@ -0,0 +1,185 @@
+import type { KeyValueStore } from '~/lib/.server/storage';
+import { createScopedLogger } from '~/utils/logger';
+import { randomToken, sha256Hex, timingSafeEqual } from './crypto';
+
+const logger = createScopedLogger('api-clients');
+
+const KEY_PREFIX = 'api-clients';
+const API_KEY_PREFIX = 'pb';
+
+/*
+ * Last use is kept apart from the client record so authenticating never writes the record back, a stale copy
+ * would undo a revocation. It is written at most once a minute per client and isolate to stay well under the
+ * write rate KV allows per key.
+ */
+const USAGE_KEY_PREFIX = 'api-client-usage';
+const USAGE_WRITE_INTERVAL = 60_000;
+
+const usageWrites = new Map<string, number>();
+
+export const API_SCOPES = ['requirements:submit', 'status:read', 'deploy', 'chats:sync'] as const;
+
+export type ApiScope = (typeof API_SCOPES)[number];
+
+export interface ApiClient {
+  id: string;
+  name: string;
+  scopes: ApiScope[];
+  apiKeyHash: string;
+
+  // HMAC secret for signed webhook payloads, has to be kept in clear to verify signatures
+  webhookSecret: string;
+  requireSignedPayloads: boolean;
+  createdAt: number;
+
+  // only filled in by `list`, see `USAGE_KEY_PREFIX`
+  lastUsedAt?: number;
+  revokedAt?: number;
+}
+
+// the shape returned to callers, never includes secrets
+export type ApiClientInfo = Omit<ApiClient, 'apiKeyHash' | 'webhookSecret'>;
+
+export interface RegisteredApiClient {
+  client: ApiClientInfo;
+
+  // only returned once, at registration time
+  apiKey: string;
+  webhookSecret: string;
+}
+
+export function isApiScope(value: string): value is ApiScope {
+  return (API_SCOPES as readonly string[]).includes(value);
+}
+
+export function toApiClientInfo(client: ApiClient): ApiClientInfo {
+  const { apiKeyHash: _apiKeyHash, webhookSecret: _webhookSecret, ...info } = client;
+  return info;
+}
+
+/**
+ * API keys have the form `pb_<clientId>_<secret>` so the client record can be
+ * looked up directly; only a SHA-256 hash of the full key is persisted.
+ */
+export function parseApiKey(apiKey: string): { clientId: string } | null {
+  const [prefix, clientId, secret] = apiKey.split('_');
+
+  if (prefix !== API_KEY_PREFIX || !clientId || !secret) {
+    return null;
+  }
+
+  return { clientId };
+}
+
+export class ApiClientStore {
+  constructor(private readonly _store: KeyValueStore) {}
+
+  async register(options: {
+    name: string;
+    scopes: ApiScope[];
+    requireSignedPayloads?: boolean;
+  }): Promise<RegisteredApiClient> {
+    const id = randomToken(8);
+    const apiKey = `${API_KEY_PREFIX}_${id}_${randomToken(24)}`;
+    const client: ApiClient = {
+      id,
+      name: options.name,
+      scopes: options.scopes,
+      apiKeyHash: await sha256Hex(apiKey),
+      webhookSecret: randomToken(32),
+      requireSignedPayloads: options.requireSignedPayloads ?? false,
+      createdAt: Date.now(),
+    };
+
+    await this._store.put(clientKey(id), client);
+    logger.info('Registered API client', { id, name: client.name, scopes: client.scopes });
+
+    return { client: toApiClientInfo(client), apiKey, webhookSecret: client.webhookSecret };
+  }
+
+  async get(id: string): Promise<ApiClient | null> {
+    return this._store.get<ApiClient>(clientKey(id));
+  }
+
+  async list(): Promise<ApiClientInfo[]> {
+    const keys = await this._store.list(`${KEY_PREFIX}:`);
+    const clients = await Promise.all(
+      keys.map(async (key) => {
+        const client = await this._store.get<ApiClient>(key);
+        const lastUsedAt = client ? await this._store.get<number>(usageKey(client.id)) : null;
+
+        return client && lastUsedAt ? { ...client, lastUsedAt } : client;
+      }),
+    );
+
+    return clients
+      .filter((client): client is ApiClient => client !== null)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(toApiClientInfo);
+  }
+
+  async revoke(id: string): Promise<ApiClientInfo | null> {
+    const client = await this.get(id);
+
+    if (!client) {
+      return null;
+    }
+
+    const revoked = { ...client, revokedAt: Date.now() };
+    await this._store.put(clientKey(id), revoked);
+    logger.info('Revoked API client', { id });
+
+    return toApiClientInfo(revoked);
+  }
+
+  /**
+   * Resolves an API key to its active client, or `null` when the key is unknown,
+   * malformed or revoked.
+   */
+  async authenticate(apiKey: string): Promise<ApiClient | null> {
+    const parsed = parseApiKey(apiKey);
+
+    if (!parsed) {
+      return null;
+    }
+
+    const client = await this.get(parsed.clientId);
+
+    if (!client || client.revokedAt) {
+      return null;
+    }
+
+    if (!timingSafeEqual(client.apiKeyHash, await sha256Hex(apiKey))) {
+      return null;
+    }
+
+    await this._recordUsage(client.id);
+
+    return client;
+  }
+
+  // best effort, a failed or skipped write only leaves `lastUsedAt` behind
+  private async _recordUsage(id: string) {
+    const now = Date.now();
+
+    if (now - (usageWrites.get(id) ?? 0) < USAGE_WRITE_INTERVAL) {
+      return;
+    }
+
+    usageWrites.set(id, now);
+
+    try {
+      await this._store.put(usageKey(id), now);
+    } catch (error) {
+      logger.warn('Failed to record API client usage', { id, error });
+    }
+  }
+}
+
+function clientKey(id: string) {
+  return `${KEY_PREFIX}:${id}`;
+}
+
+function usageKey(id: string) {
+  return `${USAGE_KEY_PREFIX}:${id}`;
+}
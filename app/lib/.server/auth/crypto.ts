@@ -0,0 +1,36 @@
+const encoder = new TextEncoder();
+
+export function toHex(buffer: ArrayBuffer) {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function sha256Hex(value: string) {
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(value)));
+}
+
+export async function hmacSha256Hex(secret: string, payload: string) {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+  ]);
+
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(payload)));
+}
+
+export function randomToken(byteLength = 24) {
+  return toHex(crypto.getRandomValues(new Uint8Array(byteLength)).buffer);
+}
+
+// compares two strings without short-circuiting on the first mismatch
+export function timingSafeEqual(a: string, b: string) {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let mismatch = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+
+  return mismatch === 0;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { signWebhookPayload, verifyWebhookSignature } from './webhook-signature';
+
+describe('webhook signatures', () => {
+  const secret = 'test-secret';
+  const body = JSON.stringify({ content: 'Build a todo app' });
+  const now = Date.UTC(2025, 0, 1);
+  const timestamp = Math.floor(now / 1000);
+
+  it('should accept a payload signed with the client secret', async () => {
+    const signature = await signWebhookPayload(secret, body, timestamp);
+
+    expect(await verifyWebhookSignature({ secret, body, signature, timestamp: String(timestamp), now })).toEqual({
+      valid: true,
+    });
+  });
+
+  it('should reject a tampered payload', async () => {
+    const signature = await signWebhookPayload(secret, body, timestamp);
+    const result = await verifyWebhookSignature({
+      secret,
+      body: body.replace('todo', 'crypto'),
+      signature,
+      timestamp: String(timestamp),
+      now,
+    });
+
+    expect(result.valid).toBe(false);
+  });
+
+  it('should reject stale signatures', async () => {
+    const signature = await signWebhookPayload(secret, body, timestamp);
+    const result = await verifyWebhookSignature({
+      secret,
+      body,
+      signature,
+      timestamp: String(timestamp),
+      now: now + 10 * 60 * 1000,
+    });
+
+    expect(result.valid).toBe(false);
+  });
+});
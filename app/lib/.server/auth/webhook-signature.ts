@@ -0,0 +1,46 @@
+import { hmacSha256Hex, timingSafeEqual } from './crypto';
+
+export const SIGNATURE_HEADER = 'X-Pom-Signature';
+export const TIMESTAMP_HEADER = 'X-Pom-Timestamp';
+
+// signed requests older than this are rejected to limit replays
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Signs `<timestamp>.<body>` with HMAC-SHA256. Senders put the result in the
+ * `X-Pom-Signature` header as `sha256=<hex>` alongside `X-Pom-Timestamp`.
+ */
+export async function signWebhookPayload(secret: string, body: string, timestamp: number) {
+  return `sha256=${await hmacSha256Hex(secret, `${timestamp}.${body}`)}`;
+}
+
+export type SignatureVerification = { valid: true } | { valid: false; reason: string };
+
+export async function verifyWebhookSignature(options: {
+  secret: string;
+  body: string;
+  signature: string | null;
+  timestamp: string | null;
+  now?: number;
+}): Promise<SignatureVerification> {
+  const { secret, body, signature, timestamp } = options;
+
+  if (!signature || !timestamp) {
+    return { valid: false, reason: `Missing ${SIGNATURE_HEADER} or ${TIMESTAMP_HEADER} header` };
+  }
+
+  const sentAt = Number(timestamp);
+  const now = Math.floor((options.now ?? Date.now()) / 1000);
+
+  if (!Number.isFinite(sentAt) || Math.abs(now - sentAt) > SIGNATURE_TOLERANCE_SECONDS) {
+    return { valid: false, reason: 'Signature timestamp is outside the allowed window' };
+  }
+
+  const expected = await signWebhookPayload(secret, body, sentAt);
+
+  if (!timingSafeEqual(expected, signature.trim())) {
+    return { valid: false, reason: 'Signature does not match payload' };
+  }
+
+  return { valid: true };
+}
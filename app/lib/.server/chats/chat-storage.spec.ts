@@ -0,0 +1,91 @@
+import type { Message } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { MemoryKeyValueStore } from '~/lib/.server/storage';
+import { KeyValueChatStorage } from './chat-storage';
+
+const message = (id: string): Message => ({ id, role: 'user', content: id });
+
+const chat = (updatedAt: string, messages: Message[], description = 'Chat') => ({
+  id: 'chat-1',
+  description,
+  messages,
+  timestamp: '2026-01-01T00:00:00.000Z',
+  updatedAt,
+});
+
+describe('KeyValueChatStorage', () => {
+  it('should replace the chat when the device saw the latest revision', async () => {
+    const chats = new KeyValueChatStorage(new MemoryKeyValueStore());
+
+    await chats.pushChat('default', {
+      chat: chat('2026-01-01T01:00:00Z', [message('a'), message('b')]),
+      baseRevision: 0,
+    });
+
+    const { chat: saved, merged } = await chats.pushChat('default', {
+      chat: chat('2026-01-01T02:00:00Z', [message('a')]),
+      baseRevision: 1,
+    });
+
+    expect(merged).toBe(false);
+    expect(saved.revision).toBe(2);
+    expect(saved.messages.map((item) => item.id)).toEqual(['a']);
+    expect(await chats.listChats('default')).toEqual([
+      { id: 'chat-1', revision: 2, updatedAt: '2026-01-01T02:00:00Z', deleted: undefined },
+    ]);
+  });
+
+  it('should append new messages and keep the newer metadata on conflicts', async () => {
+    const chats = new KeyValueChatStorage(new MemoryKeyValueStore());
+
+    await chats.pushChat('default', { chat: chat('2026-01-01T01:00:00Z', [message('a')]), baseRevision: 0 });
+    await chats.pushChat('default', {
+      chat: chat('2026-01-01T03:00:00Z', [message('a'), message('b')], 'Renamed'),
+      baseRevision: 1,
+    });
+
+    const { chat: saved, merged } = await chats.pushChat('default', {
+      chat: chat('2026-01-01T02:00:00Z', [message('a'), message('c')]),
+      baseRevision: 1,
+    });
+
+    expect(merged).toBe(true);
+    expect(saved.revision).toBe(3);
+    expect(saved.description).toBe('Renamed');
+    expect(saved.messages.map((item) => item.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should keep deletions unless the chat changed afterwards', async () => {
+    const chats = new KeyValueChatStorage(new MemoryKeyValueStore());
+
+    await chats.pushChat('default', { chat: chat('2026-01-01T01:00:00Z', [message('a')]), baseRevision: 0 });
+
+    expect(await chats.deleteChat('default', 'chat-1', '2026-01-01T00:30:00Z')).toMatchObject({ revision: 1 });
+    expect(await chats.deleteChat('default', 'chat-1', '2026-01-01T02:00:00Z')).toMatchObject({
+      revision: 2,
+      deleted: true,
+      messages: [],
+    });
+
+    const stale = await chats.pushChat('default', {
+      chat: chat('2026-01-01T01:30:00Z', [message('b')]),
+      baseRevision: 1,
+    });
+
+    expect(stale.chat.deleted).toBe(true);
+    await expect(chats.getChat('../default', 'chat-1')).rejects.toThrow('Invalid space');
+  });
+
+  it('should list every chat pushed at the same time from different devices', async () => {
+    const chats = new KeyValueChatStorage(new MemoryKeyValueStore());
+
+    await Promise.all(
+      ['chat-1', 'chat-2', 'chat-3'].map((id) =>
+        chats.pushChat('default', { chat: { ...chat('2026-01-01T01:00:00Z', [message('a')]), id }, baseRevision: 0 }),
+      ),
+    );
+
+    expect((await chats.listChats('default')).map((info) => info.id).sort()).toEqual(['chat-1', 'chat-2', 'chat-3']);
+    expect(await chats.listChats('other')).toEqual([]);
+  });
+});
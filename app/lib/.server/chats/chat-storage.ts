@@ -0,0 +1,102 @@
+import type { KeyValueStore } from '~/lib/.server/storage';
+import type { ChatPushRequest, ChatPushResponse, ChatSyncInfo, SyncedChat } from '~/types/chat-sync';
+import { mergeChats } from '~/utils/chat-sync';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('chat-storage');
+
+const KEY_PREFIX = 'chats';
+
+// one key per chat with its revision, so pushes of different chats never write the same key
+const INFO_KEY_PREFIX = 'chat-revisions';
+
+const ID_PATTERN = /^[\w-]{1,128}$/;
+
+export function isValidChatId(id: string) {
+  return ID_PATTERN.test(id);
+}
+
+function assertId(kind: string, id: string) {
+  if (!isValidChatId(id)) {
+    throw new Error(`Invalid ${kind}: ${id}`);
+  }
+}
+
+function toSyncInfo({ id, revision, updatedAt, deleted }: SyncedChat): ChatSyncInfo {
+  return { id, revision, updatedAt, deleted };
+}
+
+/**
+ * Chat history synced between browsers, on top of any `KeyValueStore`. Chats are grouped in spaces,
+ * one per API client, browsers sync with the key of a client. The revision of each chat is also kept
+ * under its own key so devices can find the chats that changed without loading them.
+ */
+export class KeyValueChatStorage {
+  constructor(private readonly _store: KeyValueStore) {}
+
+  async listChats(space: string): Promise<ChatSyncInfo[]> {
+    assertId('space', space);
+
+    const keys = await this._store.list(`${INFO_KEY_PREFIX}:${space}:`);
+    const infos = await Promise.all(keys.map((key) => this._store.get<ChatSyncInfo>(key)));
+
+    return infos.filter((info): info is ChatSyncInfo => info !== null);
+  }
+
+  async getChat(space: string, id: string): Promise<SyncedChat | null> {
+    assertId('space', space);
+    assertId('chat id', id);
+
+    return this._store.get<SyncedChat>(`${KEY_PREFIX}:${space}:${id}`);
+  }
+
+  /**
+   * Stores the device's version of a chat. When the device saw the latest revision its version replaces
+   * the stored one, otherwise both are merged with `mergeChats`. A deletion made later than the device's
+   * change wins and is returned instead.
+   */
+  async pushChat(space: string, { chat, baseRevision }: ChatPushRequest): Promise<ChatPushResponse> {
+    const existing = await this.getChat(space, chat.id);
+
+    if (!existing || existing.revision === baseRevision) {
+      return { chat: await this._save(space, chat, existing), merged: false };
+    }
+
+    if (existing.deleted) {
+      return Date.parse(chat.updatedAt) > Date.parse(existing.updatedAt)
+        ? { chat: await this._save(space, chat, existing), merged: false }
+        : { chat: existing, merged: true };
+    }
+
+    logger.debug('Merging concurrent changes', { space, id: chat.id, baseRevision, revision: existing.revision });
+
+    return { chat: await this._save(space, mergeChats(existing, chat), existing), merged: true };
+  }
+
+  // replaces the chat with a tombstone, unless it was changed after the deletion
+  async deleteChat(space: string, id: string, deletedAt: string): Promise<SyncedChat | null> {
+    const existing = await this.getChat(space, id);
+
+    if (!existing || existing.deleted || Date.parse(existing.updatedAt) > Date.parse(deletedAt)) {
+      return existing;
+    }
+
+    return this._save(space, { id, messages: [], timestamp: existing.timestamp, updatedAt: deletedAt }, existing, true);
+  }
+
+  private async _save(
+    space: string,
+    chat: Omit<SyncedChat, 'revision'>,
+    existing: SyncedChat | null,
+    deleted?: boolean,
+  ): Promise<SyncedChat> {
+    const { deleted: _deleted, ...fields } = chat;
+    const saved: SyncedChat = { ...fields, revision: (existing?.revision ?? 0) + 1, ...(deleted ? { deleted } : {}) };
+
+    // the chat is written before its revision is listed
+    await this._store.put(`${KEY_PREFIX}:${space}:${chat.id}`, saved);
+    await this._store.put(`${INFO_KEY_PREFIX}:${space}:${chat.id}`, toSyncInfo(saved));
+
+    return saved;
+  }
+}
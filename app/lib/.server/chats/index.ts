@@ -0,0 +1,8 @@
+import { getObjectStore } from '~/lib/.server/storage';
+import { KeyValueChatStorage } from './chat-storage';
+
+export { KeyValueChatStorage, isValidChatId } from './chat-storage';
+
+export function getChatStorage(env?: Partial<Env>) {
+  return new KeyValueChatStorage(getObjectStore(env));
+}
@@ -0,0 +1,93 @@
+import type { AppLoadContext, LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { describe, expect, it } from 'vitest';
+import { ApiClientStore } from '~/lib/.server/auth/api-clients';
+import { getKeyValueStore } from '~/lib/.server/storage';
+import { action, loader as providersLoader } from '~/routes/api.deploy';
+import { loader } from '~/routes/api.deploy.$id';
+
+// route modules can't have specs next to them, Remix would pick those up as routes
+
+// without bindings deployments live in the in-memory store of the worker
+const context = { cloudflare: { env: { NETLIFY_AUTH_TOKEN: 'server-token' } } } as unknown as AppLoadContext;
+
+function deploy(body: unknown, headers: Record<string, string> = {}) {
+  const request = new Request('https://bolt.example.com/api/deploy', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+
+  return action({ request, context, params: {} }) as Promise<Response>;
+}
+
+function getDeployment(id: string, query = '', headers: Record<string, string> = {}) {
+  const request = new Request(`https://bolt.example.com/api/deploy/${id}${query}`, { headers });
+
+  return loader({ request, context, params: { id } }) as Promise<Response>;
+}
+
+describe('deploy routes', () => {
+  it('should reject unknown providers and empty deploys', async () => {
+    const unknown = await deploy({ provider: 'ftp', files: { 'index.html': '' }, chatId: 'chat' });
+    const empty = await deploy({ provider: 'static', files: {}, chatId: 'chat' });
+
+    expect(unknown.status).toBe(400);
+    expect(await unknown.json()).toEqual({ error: 'Unknown deployment provider: ftp' });
+    expect(empty.status).toBe(400);
+  });
+
+  it('should not deploy to the server accounts for callers without the deploy scope', async () => {
+    const clients = new ApiClientStore(getKeyValueStore());
+    const reader = await clients.register({ name: 'reader', scopes: ['status:read'] });
+    const anonymous = await deploy({ provider: 'netlify', files: { 'index.html': '' }, chatId: 'chat' });
+    const providers = await providersLoader({
+      request: new Request('https://bolt.example.com/api/deploy', { headers: { 'X-API-Key': reader.apiKey } }),
+      context,
+      params: {},
+    } as LoaderFunctionArgs);
+
+    expect(anonymous.status).toBe(401);
+    expect(await anonymous.json()).toEqual({ error: 'Not connected to Netlify' });
+    expect(await (providers as Response).json()).toMatchObject({
+      providers: expect.arrayContaining([{ name: 'netlify', label: 'Netlify', configured: false }]),
+    });
+  });
+
+  it('should record a static export and serve its status and archive', async () => {
+    const response = await deploy({
+      provider: 'static',
+      siteName: 'demo',
+      chatId: 'chat',
+      files: { 'index.html': '<h1>Hello</h1>', 'logo.png': { content: btoa('\x89PNG'), encoding: 'base64' } },
+    });
+    const { deploy: started } = await response.json<{ deploy: { id: string; state: string } }>();
+
+    expect(response.status).toBe(202);
+    expect(started.state).toBe('ready');
+
+    const status = await getDeployment(started.id);
+
+    expect(await status.json()).toMatchObject({ deploy: { id: started.id, provider: 'static', chatId: 'chat' } });
+
+    const archive = await getDeployment(started.id, '?download=zip');
+
+    expect(archive.headers.get('Content-Type')).toBe('application/zip');
+    expect(archive.headers.get('Content-Disposition')).toBe('attachment; filename="demo.zip"');
+  });
+
+  it('should hide deployments of other API clients', async () => {
+    const clients = new ApiClientStore(getKeyValueStore());
+    const owner = await clients.register({ name: 'owner', scopes: ['deploy', 'status:read'] });
+    const other = await clients.register({ name: 'other', scopes: ['status:read'] });
+
+    const response = await deploy(
+      { provider: 'static', chatId: 'chat', files: { 'index.html': '' } },
+      { Authorization: `Bearer ${owner.apiKey}` },
+    );
+    const { deploy: started } = await response.json<{ deploy: { id: string } }>();
+
+    expect((await getDeployment(started.id, '', { Authorization: `Bearer ${owner.apiKey}` })).status).toBe(200);
+    expect((await getDeployment(started.id, '', { Authorization: `Bearer ${other.apiKey}` })).status).toBe(404);
+    expect((await getDeployment(started.id)).status).toBe(404);
+  });
+});
@@ -0,0 +1,58 @@
+import type { DeploymentResult } from '~/lib/modules/deployment/types';
+import type { KeyValueStore } from '~/lib/.server/storage';
+
+const KEY_PREFIX = 'deployments';
+
+// deployment records are only needed while polling and for a short history
+const DEPLOYMENT_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export interface DeploymentRecord extends DeploymentResult {
+  chatId?: string;
+
+  // Cloudflare account or Vercel team the deployment was created in
+  accountId?: string;
+
+  // API client that started the deployment
+  clientId?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Remembers which provider and site a deploy id belongs to, so its status can
+ * be polled with nothing but the id.
+ */
+export class DeploymentStore {
+  constructor(private readonly _store: KeyValueStore) {}
+
+  async create(result: DeploymentResult, options: Pick<DeploymentRecord, 'chatId' | 'clientId' | 'accountId'> = {}) {
+    const now = Date.now();
+    const record: DeploymentRecord = { ...result, ...options, createdAt: now, updatedAt: now };
+
+    await this._save(record);
+
+    return record;
+  }
+
+  async get(id: string): Promise<DeploymentRecord | null> {
+    return this._store.get<DeploymentRecord>(`${KEY_PREFIX}:${id}`);
+  }
+
+  async update(record: DeploymentRecord, result: DeploymentResult): Promise<DeploymentRecord> {
+    const updated: DeploymentRecord = {
+      ...record,
+      state: result.state,
+      url: result.url ?? record.url,
+      error: result.error,
+      updatedAt: Date.now(),
+    };
+
+    await this._save(updated);
+
+    return updated;
+  }
+
+  private async _save(record: DeploymentRecord) {
+    await this._store.put(`${KEY_PREFIX}:${record.id}`, record, { expirationTtl: DEPLOYMENT_TTL_SECONDS });
+  }
+}
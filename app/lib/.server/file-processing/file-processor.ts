@@ -1,6 +1,14 @@
 import { type Message } from 'ai';
 import { createScopedLogger } from '~/utils/logger';
 import { WORK_DIR } from '~/utils/constants';
+import {
+  countStories,
+  formatRequirementSetAsMarkdown,
+  formatRequirementSetAsText,
+  isEmptyRequirementSet,
+  parseRequirements,
+  type RequirementSet,
+} from './requirements-parser';
 
 const logger = createScopedLogger('file-processor');
 
@@ -11,28 +19,35 @@ export interface FileProcessorResult {
   projectType?: string;
   dependencies?: Record<string, string>;
   isExistingProject?: boolean;
+  requirementSet?: RequirementSet;
 }
 
 export class FileProcessor {
-  static async processContent(content: string, isExistingProject: boolean = false): Promise<FileProcessorResult> {
+  static async processContent(
+    content: string,
+    isExistingProject: boolean = false,
+    fileName?: string,
+  ): Promise<FileProcessorResult> {
     try {
-      logger.info('Starting file content processing', { isExistingProject });
+      logger.info('Starting file content processing', { isExistingProject, fileName });
 
-      // Process requirements line by line
-      const requirements = content
-        .split('\n')
-        .filter((line) => line.trim())
-        .map((line) => line.trim());
+      // Parse the document into epics, stories and acceptance criteria
+      const requirementSet = parseRequirements(content, fileName);
 
-      logger.info(`Found ${requirements.length} requirements in file`, { isExistingProject });
+      logger.info(`Found ${countStories(requirementSet)} requirements in ${requirementSet.format} document`, {
+        epics: requirementSet.epics.length,
+        isExistingProject,
+      });
 
-      if (requirements.length === 0) {
+      if (isEmptyRequirementSet(requirementSet)) {
         logger.warn('No valid requirements found in the file');
         throw new Error('No valid requirements found in the file');
       }
 
       // Log requirements for debugging
-      logger.debug('Processed requirements:', requirements);
+      logger.debug('Processed requirements:', requirementSet);
+
+      const formattedRequirements = formatRequirementSetAsMarkdown(requirementSet);
 
       /*
        * Create a structured system message for code generation
@@ -100,12 +115,12 @@ The code should be organized in a way that follows best practices and is easy to
         content: isExistingProject
           ? `Feature requests for the existing project:
 
-${requirements.map((req, index) => `${index + 1}. ${req}`).join('\n')}
+${formattedRequirements}
 
 Please analyze these feature requests and provide an implementation plan that integrates with the existing codebase. Make sure to maintain the project's architecture and coding style.`
-          : `Requirements to implement:
+          : `Requirements to implement${requirementSet.title ? ` for ${requirementSet.title}` : ''}:
 
-${requirements.map((req, index) => `${index + 1}. ${req}`).join('\n')}
+${formattedRequirements}
 
 Please analyze these requirements and provide a complete implementation plan with code. The code should be organized in a way that follows best practices and is easy to maintain.`,
       };
@@ -117,11 +132,12 @@ Please analyze these requirements and provide a complete implementation plan wit
         messages: [systemMessage, userMessage],
         contextOptimization: true,
         isExistingProject,
+        requirementSet,
         files: {
-          [`${WORK_DIR}/requirements.txt`]: requirements.join('\n'),
+          [`${WORK_DIR}/requirements.txt`]: formatRequirementSetAsText(requirementSet),
           [`${WORK_DIR}/README.md`]: isExistingProject
-            ? `# Feature Requests\n\n${requirements.map((req, index) => `${index + 1}. ${req}`).join('\n')}`
-            : `# Project Requirements\n\n${requirements.map((req, index) => `${index + 1}. ${req}`).join('\n')}`,
+            ? `# Feature Requests\n\n${formattedRequirements}`
+            : `# ${requirementSet.title ?? 'Project Requirements'}\n\n${formattedRequirements}`,
         },
       };
 
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { formatRequirementSetAsText, parseRequirements } from './requirements-parser';
+
+const PRD = `# Todo App
+
+A small app to track tasks.
+
+## Task management
+
+Users manage their daily tasks.
+
+- Create a task
+  - title is required
+  - Acceptance criteria:
+    - empty titles are rejected
+- Complete a task
+
+### Acceptance criteria
+
+- tasks persist after reload
+
+## API
+
+\`\`\`ts
+interface Task {
+  id: string;
+
+  title: string;
+}
+\`\`\`
+`;
+
+describe('parseRequirements', () => {
+  it('should turn a markdown PRD into epics, stories and acceptance criteria', () => {
+    const set = parseRequirements(PRD, 'prd.md');
+
+    expect(set.title).toBe('Todo App');
+    expect(set.overview).toBe('A small app to track tasks.');
+    expect(set.epics.map((epic) => epic.title)).toEqual(['Task management', 'API']);
+
+    const [tasks, api] = set.epics;
+
+    expect(tasks.description).toBe('Users manage their daily tasks.');
+    expect(tasks.stories).toEqual([
+      { title: 'Create a task', details: ['title is required'], acceptanceCriteria: ['empty titles are rejected'] },
+      { title: 'Complete a task', details: [], acceptanceCriteria: [] },
+    ]);
+    expect(tasks.acceptanceCriteria).toEqual(['tasks persist after reload']);
+    expect(api.codeBlocks).toEqual([
+      { language: 'ts', content: 'interface Task {\n  id: string;\n\n  title: string;\n}' },
+    ]);
+  });
+
+  it('should parse JSON requirement documents', () => {
+    const set = parseRequirements(
+      JSON.stringify({
+        title: 'Shop',
+        features: [{ name: 'Cart', stories: ['Add item', { title: 'Remove item', acceptanceCriteria: ['undo'] }] }],
+      }),
+    );
+
+    expect(set.format).toBe('json');
+    expect(set.epics[0].title).toBe('Cart');
+    expect(set.epics[0].stories.map((story) => story.title)).toEqual(['Add item', 'Remove item']);
+    expect(set.epics[0].stories[1].acceptanceCriteria).toEqual(['undo']);
+  });
+
+  it('should parse YAML requirement documents', () => {
+    const set = parseRequirements(
+      [
+        'title: Blog',
+        'epics:',
+        '  - title: Posts',
+        '    stories:',
+        '      - Write a post',
+        '      - Publish a post',
+      ].join('\n'),
+      'requirements.yaml',
+    );
+
+    expect(set.format).toBe('yaml');
+    expect(set.epics[0].stories.map((story) => story.title)).toEqual(['Write a post', 'Publish a post']);
+  });
+
+  it('should read markdown with front matter as markdown', () => {
+    const set = parseRequirements(`---\ntitle: Todo App\nstatus: draft\n---\n\n${PRD}`);
+
+    expect(set.format).toBe('markdown');
+    expect(set.title).toBe('Todo App');
+    expect(set.overview).toBe('A small app to track tasks.');
+  });
+
+  it('should fall back to text when a document only looks like YAML', () => {
+    const plain = parseRequirements('requirements: build a todo app: with auth\nUse React');
+    const markdown = parseRequirements('title: Todo App\n- Create a task\n- Complete a task\n');
+
+    expect(plain.format).toBe('text');
+    expect(plain.epics[0].stories.map((story) => story.title)).toEqual([
+      'requirements: build a todo app: with auth',
+      'Use React',
+    ]);
+    expect(markdown.format).toBe('markdown');
+    expect(markdown.epics[0].stories.map((story) => story.title)).toEqual(['Create a task', 'Complete a task']);
+  });
+
+  it('should keep treating plain text as one requirement per line', () => {
+    const set = parseRequirements('Build a todo app\nUse React\n');
+
+    expect(set.format).toBe('text');
+    expect(formatRequirementSetAsText(set)).toBe('Build a todo app\nUse React');
+  });
+});
@@ -0,0 +1,509 @@
+import { parse as parseYaml } from 'yaml';
+
+export type RequirementFormat = 'markdown' | 'json' | 'yaml' | 'text';
+
+export interface CodeBlock {
+  language?: string;
+  content: string;
+}
+
+export interface UserStory {
+  title: string;
+
+  // nested bullets and notes, kept in document order
+  details: string[];
+  acceptanceCriteria: string[];
+}
+
+export interface Epic {
+  title: string;
+  description?: string;
+  stories: UserStory[];
+  acceptanceCriteria: string[];
+  codeBlocks: CodeBlock[];
+}
+
+export interface RequirementSet {
+  format: RequirementFormat;
+  title?: string;
+  overview?: string;
+  epics: Epic[];
+
+  // criteria that apply to the whole document rather than a single epic
+  acceptanceCriteria: string[];
+  codeBlocks: CodeBlock[];
+}
+
+const DEFAULT_EPIC_TITLE = 'Requirements';
+const ACCEPTANCE_CRITERIA_PATTERN =
+  /^(?:\*\*|__)?(acceptance criteria|acceptance|ac)(?:\*\*|__)?\s*:?\s*(?:\*\*|__)?$/i;
+const BULLET_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)\s*([\w+-]*)\s*$/;
+const FRONT_MATTER_PATTERN = /^---[ \t]*\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/;
+const YAML_KEY_PATTERN = /^(title|epics|features|stories|requirements):/m;
+
+export function countStories(set: RequirementSet) {
+  return set.epics.reduce((total, epic) => total + epic.stories.length, 0);
+}
+
+export function isEmptyRequirementSet(set: RequirementSet) {
+  return countStories(set) === 0 && set.acceptanceCriteria.length === 0 && !set.overview;
+}
+
+export function detectRequirementFormat(content: string, fileName?: string): RequirementFormat {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+
+  if (extension === 'json') {
+    return 'json';
+  }
+
+  if (extension === 'yaml' || extension === 'yml') {
+    return 'yaml';
+  }
+
+  if (extension === 'md' || extension === 'markdown') {
+    return 'markdown';
+  }
+
+  const trimmed = stripFrontMatter(content).trim();
+
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      JSON.parse(trimmed);
+      return 'json';
+    } catch {
+      // not JSON, fall through to the text based formats
+    }
+  }
+
+  // prose can look like YAML too, only documents that parse into a mapping or list count
+  if (
+    (/^---\s*$/.test(trimmed.split('\n')[0] ?? '') || YAML_KEY_PATTERN.test(trimmed)) &&
+    parseYamlDocument(trimmed) !== undefined
+  ) {
+    return 'yaml';
+  }
+
+  return isMarkdown(trimmed) ? 'markdown' : 'text';
+}
+
+function isMarkdown(content: string) {
+  return content
+    .split('\n')
+    .some((line) => HEADING_PATTERN.test(line) || BULLET_PATTERN.test(line) || FENCE_PATTERN.test(line));
+}
+
+// drops the YAML front matter of a markdown document, unless there is nothing else in it
+function stripFrontMatter(content: string) {
+  const body = content.replace(FRONT_MATTER_PATTERN, '');
+  return body.trim() ? body : content;
+}
+
+// the parsed mapping or list, undefined when `content` isn't valid YAML or only holds a scalar
+function parseYamlDocument(content: string): object | undefined {
+  try {
+    const data: unknown = parseYaml(content);
+    return data && typeof data === 'object' ? data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parses a requirements document (Markdown PRD, JSON, YAML or plain lines) into a
+ * `RequirementSet`: headings become epics, bullets become stories, fenced code
+ * blocks are preserved verbatim and "Acceptance criteria" sections are collected
+ * on the epic or story they belong to.
+ */
+export function parseRequirements(content: string, fileName?: string): RequirementSet {
+  const format = detectRequirementFormat(content, fileName);
+  const body = stripFrontMatter(content);
+
+  switch (format) {
+    case 'json': {
+      return normalizeStructuredRequirements(JSON.parse(content), 'json');
+    }
+    case 'yaml': {
+      const data = parseYamlDocument(content);
+
+      // `.yaml` files that don't parse are still read as text rather than failing the generation
+      if (data !== undefined) {
+        return normalizeStructuredRequirements(data, 'yaml');
+      }
+
+      return isMarkdown(body) ? parseMarkdownRequirements(body) : parsePlainRequirements(body);
+    }
+    case 'markdown': {
+      return parseMarkdownRequirements(body);
+    }
+    default: {
+      return parsePlainRequirements(body);
+    }
+  }
+}
+
+function createEpic(title: string, description?: string): Epic {
+  return { title, description, stories: [], acceptanceCriteria: [], codeBlocks: [] };
+}
+
+function parsePlainRequirements(content: string): RequirementSet {
+  const epic = createEpic(DEFAULT_EPIC_TITLE);
+
+  epic.stories = content
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((title) => ({ title, details: [], acceptanceCriteria: [] }));
+
+  return { format: 'text', epics: epic.stories.length ? [epic] : [], acceptanceCriteria: [], codeBlocks: [] };
+}
+
+export function parseMarkdownRequirements(content: string): RequirementSet {
+  const set: RequirementSet = { format: 'markdown', epics: [], acceptanceCriteria: [], codeBlocks: [] };
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  const headingLevels = lines
+    .map((line) => line.match(HEADING_PATTERN)?.[1].length)
+    .filter((level): level is number => level !== undefined);
+
+  // a single top-level heading above the others is the document title, not an epic
+  const titleLevel = headingLevels.filter((level) => level === 1).length === 1 && headingLevels.length > 1 ? 1 : 0;
+
+  let epic: Epic | undefined;
+  let story: UserStory | undefined;
+  let storyIndent = 0;
+
+  // acceptance criteria mode: section heading (epic level) or nested bullet (story level)
+  let criteriaScope: { target: 'epic' | 'story'; level: number } | undefined;
+
+  const currentEpic = () => {
+    if (!epic) {
+      epic = createEpic(set.title ?? DEFAULT_EPIC_TITLE);
+      set.epics.push(epic);
+    }
+
+    return epic;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(FENCE_PATTERN);
+
+    if (fence) {
+      const body: string[] = [];
+      let j = i + 1;
+
+      while (j < lines.length && !lines[j].trim().startsWith(fence[1])) {
+        body.push(lines[j]);
+        j++;
+      }
+
+      const block: CodeBlock = { language: fence[2] || undefined, content: body.join('\n') };
+      (epic ? epic.codeBlocks : set.codeBlocks).push(block);
+      i = j;
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+
+    if (heading) {
+      const level = heading[1].length;
+      const text = stripInlineMarkup(heading[2]);
+      story = undefined;
+
+      if (level === titleLevel) {
+        set.title = text;
+        criteriaScope = undefined;
+      } else if (ACCEPTANCE_CRITERIA_PATTERN.test(text)) {
+        criteriaScope = { target: 'epic', level };
+      } else {
+        criteriaScope = undefined;
+        epic = createEpic(text);
+        set.epics.push(epic);
+      }
+
+      continue;
+    }
+
+    const bullet = line.match(BULLET_PATTERN);
+
+    if (bullet) {
+      const indent = bullet[1].replace(/\t/g, '  ').length;
+      const text = stripInlineMarkup(bullet[2]);
+
+      if (criteriaScope?.target === 'story' && story && indent > criteriaScope.level) {
+        story.acceptanceCriteria.push(text);
+        continue;
+      }
+
+      if (criteriaScope?.target === 'epic') {
+        (epic ?? set).acceptanceCriteria.push(text);
+        continue;
+      }
+
+      if (story && indent > storyIndent) {
+        if (ACCEPTANCE_CRITERIA_PATTERN.test(text)) {
+          criteriaScope = { target: 'story', level: indent };
+        } else {
+          criteriaScope = undefined;
+          story.details.push(`${' '.repeat(Math.max(0, indent - storyIndent - 2))}${text}`);
+        }
+
+        continue;
+      }
+
+      criteriaScope = undefined;
+      story = { title: text, details: [], acceptanceCriteria: [] };
+      storyIndent = indent;
+      currentEpic().stories.push(story);
+      continue;
+    }
+
+    const text = line.trim();
+
+    if (!text) {
+      continue;
+    }
+
+    if (ACCEPTANCE_CRITERIA_PATTERN.test(text)) {
+      // an indented "Acceptance criteria:" label belongs to the story above it, otherwise to the epic
+      criteriaScope =
+        story && /^\s/.test(line) ? { target: 'story', level: storyIndent } : { target: 'epic', level: 0 };
+      continue;
+    }
+
+    if (criteriaScope?.target === 'epic') {
+      (epic ?? set).acceptanceCriteria.push(stripInlineMarkup(text));
+      continue;
+    }
+
+    criteriaScope = undefined;
+
+    if (story && /^\s/.test(line)) {
+      story.details.push(stripInlineMarkup(text));
+    } else if (epic) {
+      epic.description = epic.description ? `${epic.description}\n${text}` : text;
+      story = undefined;
+    } else {
+      set.overview = set.overview ? `${set.overview}\n${text}` : text;
+    }
+  }
+
+  return set;
+}
+
+function stripInlineMarkup(text: string) {
+  return text
+    .replace(/^\[[ xX]\]\s+/, '')
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/__(.+?)__/g, '$1')
+    .trim();
+}
+
+type StructuredValue = string | number | boolean | null | undefined | StructuredValue[] | StructuredObject;
+type StructuredObject = { [key: string]: StructuredValue };
+
+function isObject(value: StructuredValue): value is StructuredObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function pick(source: StructuredObject, ...keys: string[]): StructuredValue {
+  for (const key of keys) {
+    if (source[key] !== undefined) {
+      return source[key];
+    }
+  }
+
+  return undefined;
+}
+
+function toText(value: StructuredValue): string | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+
+  return typeof value === 'string' ? value.trim() : String(value);
+}
+
+function toTextList(value: StructuredValue): string[] {
+  if (Array.isArray(value)) {
+    return value.map(toText).filter((item): item is string => !!item);
+  }
+
+  const text = toText(value as StructuredValue);
+
+  return text ? [text] : [];
+}
+
+function toStory(value: StructuredValue): UserStory | undefined {
+  if (!isObject(value)) {
+    const title = toText(value);
+    return title ? { title, details: [], acceptanceCriteria: [] } : undefined;
+  }
+
+  const title = toText(pick(value, 'title', 'name', 'story', 'summary'));
+
+  if (!title) {
+    return undefined;
+  }
+
+  return {
+    title,
+    details: [...toTextList(pick(value, 'description', 'details', 'notes')), ...toTextList(value.tasks)],
+    acceptanceCriteria: toTextList(pick(value, 'acceptanceCriteria', 'acceptance_criteria', 'criteria')),
+  };
+}
+
+function toStories(value: StructuredValue): UserStory[] {
+  return (Array.isArray(value) ? value : []).map(toStory).filter((story): story is UserStory => !!story);
+}
+
+function toEpic(value: StructuredValue): Epic | undefined {
+  if (!isObject(value)) {
+    const title = toText(value);
+    return title ? createEpic(title) : undefined;
+  }
+
+  const epic = createEpic(
+    toText(pick(value, 'title', 'name', 'epic', 'feature')) ?? DEFAULT_EPIC_TITLE,
+    toText(pick(value, 'description', 'summary')),
+  );
+
+  epic.stories = toStories(pick(value, 'stories', 'userStories', 'user_stories', 'requirements'));
+  epic.acceptanceCriteria = toTextList(pick(value, 'acceptanceCriteria', 'acceptance_criteria', 'criteria'));
+  epic.codeBlocks = toTextList(value.examples).map((content) => ({ content }));
+
+  return epic;
+}
+
+/**
+ * Accepts the shapes we see from JSON/YAML PRDs: a bare list of requirements,
+ * `{ requirements: [...] }`, or `{ title, overview, epics|features: [{ title, stories }] }`.
+ */
+export function normalizeStructuredRequirements(data: unknown, format: 'json' | 'yaml'): RequirementSet {
+  const value = data as StructuredValue;
+  const set: RequirementSet = { format, epics: [], acceptanceCriteria: [], codeBlocks: [] };
+
+  if (Array.isArray(value)) {
+    const epic = createEpic(DEFAULT_EPIC_TITLE);
+    epic.stories = toStories(value);
+    set.epics = epic.stories.length ? [epic] : [];
+
+    return set;
+  }
+
+  if (!isObject(value)) {
+    const text = toText(value);
+    return text ? parseMarkdownRequirements(text) : set;
+  }
+
+  set.title = toText(pick(value, 'title', 'name', 'project'));
+  set.overview = toText(pick(value, 'overview', 'description', 'summary'));
+  set.acceptanceCriteria = toTextList(pick(value, 'acceptanceCriteria', 'acceptance_criteria'));
+  set.epics = (
+    (Array.isArray(pick(value, 'epics', 'features')) ? pick(value, 'epics', 'features') : []) as StructuredValue[]
+  )
+    .map(toEpic)
+    .filter((epic): epic is Epic => !!epic);
+
+  const looseStories = toStories(pick(value, 'stories', 'userStories', 'user_stories', 'requirements'));
+
+  if (looseStories.length > 0) {
+    const epic = createEpic(set.title ?? DEFAULT_EPIC_TITLE);
+    epic.stories = looseStories;
+    set.epics.push(epic);
+  }
+
+  return set;
+}
+
+function renderCodeBlock(block: CodeBlock) {
+  return `\`\`\`${block.language ?? ''}\n${block.content}\n\`\`\``;
+}
+
+/**
+ * Markdown rendering used for the prompt and the generated README. Stories are
+ * numbered `<epic>.<story>` so the model can refer back to them.
+ */
+export function formatRequirementSetAsMarkdown(set: RequirementSet, headingLevel = 2): string {
+  if (set.format === 'text') {
+    // plain line lists keep their original numbered form
+    return (set.epics[0]?.stories ?? []).map((story, index) => `${index + 1}. ${story.title}`).join('\n');
+  }
+
+  const heading = '#'.repeat(headingLevel);
+  const sections: string[] = [];
+
+  if (set.overview) {
+    sections.push(set.overview);
+  }
+
+  set.epics.forEach((epic, epicIndex) => {
+    const lines = [`${heading} ${epicIndex + 1}. ${epic.title}`];
+
+    if (epic.description) {
+      lines.push('', epic.description);
+    }
+
+    if (epic.stories.length > 0) {
+      lines.push('');
+      epic.stories.forEach((story, storyIndex) => {
+        lines.push(`- ${epicIndex + 1}.${storyIndex + 1} ${story.title}`);
+        story.details.forEach((detail) => lines.push(`  - ${detail}`));
+
+        if (story.acceptanceCriteria.length > 0) {
+          lines.push('  - Acceptance criteria:');
+          story.acceptanceCriteria.forEach((criterion) => lines.push(`    - [ ] ${criterion}`));
+        }
+      });
+    }
+
+    if (epic.acceptanceCriteria.length > 0) {
+      lines.push('', '**Acceptance criteria**', '');
+      epic.acceptanceCriteria.forEach((criterion) => lines.push(`- [ ] ${criterion}`));
+    }
+
+    epic.codeBlocks.forEach((block) => lines.push('', renderCodeBlock(block)));
+    sections.push(lines.join('\n'));
+  });
+
+  if (set.acceptanceCriteria.length > 0) {
+    sections.push(
+      [`${heading} Acceptance criteria`, '', ...set.acceptanceCriteria.map((criterion) => `- [ ] ${criterion}`)].join(
+        '\n',
+      ),
+    );
+  }
+
+  if (set.codeBlocks.length > 0) {
+    sections.push([`${heading} Reference`, ...set.codeBlocks.map(renderCodeBlock)].join('\n\n'));
+  }
+
+  return sections.join('\n\n');
+}
+
+// flat, one-line-per-item rendering used for `requirements.txt`
+export function formatRequirementSetAsText(set: RequirementSet): string {
+  if (set.format === 'text') {
+    return (set.epics[0]?.stories ?? []).map((story) => story.title).join('\n');
+  }
+
+  const lines: string[] = [];
+
+  set.epics.forEach((epic, epicIndex) => {
+    lines.push(`${epicIndex + 1}. ${epic.title}`);
+
+    epic.stories.forEach((story, storyIndex) => {
+      lines.push(`  ${epicIndex + 1}.${storyIndex + 1} ${story.title}`);
+      story.details.forEach((detail) => lines.push(`      ${detail}`));
+      story.acceptanceCriteria.forEach((criterion) => lines.push(`      AC: ${criterion}`));
+    });
+
+    epic.acceptanceCriteria.forEach((criterion) => lines.push(`  AC: ${criterion}`));
+  });
+
+  set.acceptanceCriteria.forEach((criterion) => lines.push(`AC: ${criterion}`));
+
+  return lines.join('\n');
+}
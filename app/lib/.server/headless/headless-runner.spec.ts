@@ -0,0 +1,77 @@
+import { formatDataStreamPart } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { HeadlessRunner } from './headless-runner';
+
+function createChatStream(chunks: string[]) {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(formatDataStreamPart('text', chunk)));
+      }
+
+      controller.close();
+    },
+  });
+}
+
+describe('HeadlessRunner', () => {
+  it('should write file actions to the virtual filesystem and record commands', async () => {
+    const runner = new HeadlessRunner({ initialFiles: { '/home/project/requirements.txt': 'todo app' } });
+
+    const result = await runner.run(
+      createChatStream([
+        'Here you go <boltArtifact id="todo" title="Todo App">',
+        '<boltAction type="file" filePath="src/index.js">console.log',
+        '("hi");</boltAction>',
+        '<boltAction type="shell">npm install</boltAction>',
+        '<boltAction type="start">npm run dev</boltAction></boltArtifact>',
+      ]),
+    );
+
+    expect(result.files).toEqual({
+      'requirements.txt': 'todo app',
+      'src/index.js': 'console.log("hi");\n',
+    });
+    expect(result.buildPlan.map((step) => [step.type, step.command])).toEqual([
+      ['shell', 'npm install'],
+      ['start', 'npm run dev'],
+    ]);
+    expect(result.artifacts).toMatchObject([
+      { id: 'todo', title: 'Todo App', files: ['src/index.js'], commands: ['npm install', 'npm run dev'] },
+    ]);
+  });
+
+  it('should apply delete and rename actions', async () => {
+    const runner = new HeadlessRunner({
+      initialFiles: { 'old.js': 'old', 'src/a.js': 'a', 'src/util/b.js': 'b', 'keep.js': 'keep' },
+    });
+
+    const result = await runner.run(
+      createChatStream([
+        '<boltArtifact id="cleanup" title="Cleanup">',
+        '<boltAction type="delete" filePath="old.js" />',
+        '<boltAction type="rename" filePath="src" newFilePath="lib"></boltAction>',
+        '</boltArtifact>',
+      ]),
+    );
+
+    expect(result.files).toEqual({ 'keep.js': 'keep', 'lib/a.js': 'a', 'lib/util/b.js': 'b' });
+    expect(result.artifacts[0].files).toEqual(['lib/a.js', 'lib/util/b.js']);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should reject file paths outside the project', async () => {
+    const runner = new HeadlessRunner();
+
+    const result = await runner.run(
+      createChatStream([
+        '<boltArtifact id="a" title="A"><boltAction type="file" filePath="../etc/passwd">x</boltAction></boltArtifact>',
+      ]),
+    );
+
+    expect(result.files).toEqual({});
+    expect(result.errors).toHaveLength(1);
+  });
+});
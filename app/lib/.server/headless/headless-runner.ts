@@ -0,0 +1,185 @@
+import { processDataStream, type JSONValue } from 'ai';
+import { StreamingMessageParser, type ActionCallbackData } from '~/lib/runtime/message-parser';
+import type { BoltArtifactData } from '~/types/artifact';
+import { createScopedLogger } from '~/utils/logger';
+import { applyPatch } from '~/utils/patch';
+import { VirtualFileSystem } from './virtual-fs';
+
+const logger = createScopedLogger('headless-runner');
+
+export interface BuildStep {
+  type: 'shell' | 'start' | 'build';
+  command: string;
+  artifactId: string;
+  actionId: string;
+}
+
+export interface HeadlessArtifact extends BoltArtifactData {
+  files: string[];
+  commands: string[];
+}
+
+export interface HeadlessRunResult {
+  text: string;
+  files: Record<string, string>;
+  buildPlan: BuildStep[];
+  artifacts: HeadlessArtifact[];
+  errors: string[];
+}
+
+export interface HeadlessRunnerOptions {
+  // files that exist before generation starts, e.g. an existing project or the requirements file
+  initialFiles?: Record<string, string>;
+  messageId?: string;
+  onData?: (data: JSONValue[]) => void | Promise<void>;
+  onAnnotations?: (annotations: JSONValue[]) => void | Promise<void>;
+  onArtifactClose?: (artifact: HeadlessArtifact) => void | Promise<void>;
+}
+
+/**
+ * Server-side counterpart of the workbench: consumes a `/api/chat` data stream,
+ * runs the assistant text through `StreamingMessageParser` and applies the
+ * resulting actions to a `VirtualFileSystem` instead of a WebContainer.
+ *
+ * `file`, `patch`, `delete` and `rename` actions are applied to the virtual filesystem,
+ * `shell`/`start`/`build` actions are recorded as a build plan since there is nothing
+ * to execute them on.
+ */
+export class HeadlessRunner {
+  readonly fs: VirtualFileSystem;
+  #messageId: string;
+  #text = '';
+  #buildPlan: BuildStep[] = [];
+  #artifacts = new Map<string, HeadlessArtifact>();
+  #errors: string[] = [];
+  #parser: StreamingMessageParser;
+
+  constructor(private _options: HeadlessRunnerOptions = {}) {
+    this.fs = new VirtualFileSystem(_options.initialFiles);
+    this.#messageId = _options.messageId ?? 'headless';
+    this.#parser = new StreamingMessageParser({
+      callbacks: {
+        onArtifactOpen: (data) => {
+          this.#artifacts.set(data.id, { id: data.id, title: data.title, type: data.type, files: [], commands: [] });
+        },
+        onArtifactClose: (data) => {
+          const artifact = this.#artifacts.get(data.id);
+
+          if (artifact) {
+            this._options.onArtifactClose?.(artifact);
+          }
+        },
+        onActionClose: (data) => this.#applyAction(data),
+      },
+    });
+  }
+
+  async run(stream: ReadableStream<Uint8Array>): Promise<HeadlessRunResult> {
+    await processDataStream({
+      stream,
+      onTextPart: (text) => {
+        this.#text += text;
+        this.#parser.parse(this.#messageId, this.#text);
+      },
+      onDataPart: (data) => this._options.onData?.(data),
+      onMessageAnnotationsPart: (annotations) => this._options.onAnnotations?.(annotations),
+      onErrorPart: (error) => {
+        logger.error('Chat stream reported an error', error);
+        this.#errors.push(error);
+      },
+    });
+
+    return this.getResult();
+  }
+
+  getResult(): HeadlessRunResult {
+    return {
+      text: this.#text,
+      files: this.fs.toRecord(),
+      buildPlan: [...this.#buildPlan],
+      artifacts: Array.from(this.#artifacts.values()),
+      errors: [...this.#errors],
+    };
+  }
+
+  #applyAction({ artifactId, actionId, action }: ActionCallbackData) {
+    const artifact = this.#artifacts.get(artifactId);
+
+    switch (action.type) {
+      case 'file': {
+        try {
+          this.fs.writeFile(action.filePath, action.content);
+          artifact?.files.push(VirtualFileSystem.normalizePath(action.filePath));
+          logger.debug(`Wrote ${action.filePath}`);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          logger.warn('Skipping file action', message);
+          this.#errors.push(message);
+        }
+
+        break;
+      }
+      case 'patch': {
+        try {
+          const current = this.fs.readFile(action.filePath);
+
+          if (current === undefined) {
+            throw new Error(`Cannot patch missing file ${action.filePath}`);
+          }
+
+          this.fs.writeFile(action.filePath, applyPatch(current, action.content));
+          artifact?.files.push(VirtualFileSystem.normalizePath(action.filePath));
+          logger.debug(`Patched ${action.filePath}`);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          logger.warn('Failed to apply patch action', message);
+          this.#errors.push(`${action.filePath}: ${message}`);
+        }
+
+        break;
+      }
+      case 'delete': {
+        try {
+          const removed = this.fs.deletePath(action.filePath);
+          logger.debug(`Deleted ${action.filePath} (${removed} files)`);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          logger.warn('Skipping delete action', message);
+          this.#errors.push(message);
+        }
+
+        break;
+      }
+      case 'rename': {
+        try {
+          const moved = this.fs.movePath(action.filePath, action.newFilePath);
+
+          if (moved.length === 0) {
+            throw new Error(`Cannot rename missing file ${action.filePath}`);
+          }
+
+          artifact?.files.push(...moved);
+          logger.debug(`Renamed ${action.filePath} to ${action.newFilePath}`);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          logger.warn('Failed to apply rename action', message);
+          this.#errors.push(`${action.filePath}: ${message}`);
+        }
+
+        break;
+      }
+      case 'shell':
+      case 'start':
+      case 'build': {
+        const command = action.content.trim();
+
+        this.#buildPlan.push({ type: action.type, command, artifactId, actionId });
+        artifact?.commands.push(command);
+        break;
+      }
+      default: {
+        logger.warn('Unsupported action type in headless mode', (action as { type?: string }).type);
+      }
+    }
+  }
+}
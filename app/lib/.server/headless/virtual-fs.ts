@@ -0,0 +1,116 @@
+import type { FileMap } from '~/lib/.server/llm/constants';
+import { WORK_DIR } from '~/utils/constants';
+import { path } from '~/utils/path';
+
+/**
+ * In-memory file tree used when code is generated without a browser/WebContainer.
+ *
+ * Paths are stored relative to the project root, so `/home/project/src/App.tsx`,
+ * `src/App.tsx` and `./src/App.tsx` all address the same file.
+ */
+export class VirtualFileSystem {
+  #files = new Map<string, string>();
+
+  constructor(initialFiles: Record<string, string> = {}) {
+    for (const [filePath, content] of Object.entries(initialFiles)) {
+      this.writeFile(filePath, content);
+    }
+  }
+
+  static normalizePath(filePath: string) {
+    let normalized = path.normalize(filePath.trim());
+
+    if (normalized.startsWith(`${WORK_DIR}/`)) {
+      normalized = normalized.slice(WORK_DIR.length + 1);
+    }
+
+    normalized = normalized.replace(/^(\.\/|\/)+/, '');
+
+    if (!normalized || normalized === '.' || normalized.startsWith('..')) {
+      throw new Error(`Invalid file path: ${filePath}`);
+    }
+
+    return normalized;
+  }
+
+  writeFile(filePath: string, content: string) {
+    this.#files.set(VirtualFileSystem.normalizePath(filePath), content);
+  }
+
+  readFile(filePath: string): string | undefined {
+    return this.#files.get(VirtualFileSystem.normalizePath(filePath));
+  }
+
+  exists(filePath: string) {
+    return this.#files.has(VirtualFileSystem.normalizePath(filePath));
+  }
+
+  deleteFile(filePath: string) {
+    return this.#files.delete(VirtualFileSystem.normalizePath(filePath));
+  }
+
+  // deletes a file or every file below a folder, returns the number of removed files
+  deletePath(filePath: string) {
+    const paths = this.#pathsUnder(VirtualFileSystem.normalizePath(filePath));
+
+    for (const entry of paths) {
+      this.#files.delete(entry);
+    }
+
+    return paths.length;
+  }
+
+  // moves a file or folder, returns the new paths of the moved files
+  movePath(filePath: string, newFilePath: string) {
+    const from = VirtualFileSystem.normalizePath(filePath);
+    const to = VirtualFileSystem.normalizePath(newFilePath);
+    const moved: string[] = [];
+
+    for (const entry of this.#pathsUnder(from)) {
+      const target = to + entry.slice(from.length);
+
+      this.#files.set(target, this.#files.get(entry)!);
+      this.#files.delete(entry);
+      moved.push(target);
+    }
+
+    return moved;
+  }
+
+  #pathsUnder(normalizedPath: string) {
+    return Array.from(this.#files.keys()).filter(
+      (entry) => entry === normalizedPath || entry.startsWith(`${normalizedPath}/`),
+    );
+  }
+
+  get size() {
+    return this.#files.size;
+  }
+
+  listFiles() {
+    return Array.from(this.#files.keys()).sort();
+  }
+
+  // plain `relativePath -> content` record, suitable for JSON serialisation
+  toRecord(): Record<string, string> {
+    return Object.fromEntries(this.listFiles().map((filePath) => [filePath, this.#files.get(filePath)!]));
+  }
+
+  // the `FileMap` shape used by the chat endpoint, rooted at `WORK_DIR`
+  toFileMap(): FileMap {
+    const fileMap: FileMap = {};
+
+    for (const filePath of this.listFiles()) {
+      let dir = path.dirname(filePath);
+
+      while (dir !== '.') {
+        fileMap[`${WORK_DIR}/${dir}`] = { type: 'folder' };
+        dir = path.dirname(dir);
+      }
+
+      fileMap[`${WORK_DIR}/${filePath}`] = { type: 'file', content: this.#files.get(filePath)!, isBinary: false };
+    }
+
+    return fileMap;
+  }
+}
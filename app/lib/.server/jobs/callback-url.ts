@@ -0,0 +1,84 @@
+/*
+ * Completion callbacks are POSTed by the server, so a callback url must not point into the network the
+ * server runs in. Hosts are checked as written, names that resolve to private addresses are not caught,
+ * which is why only authenticated API clients may register callbacks at all.
+ */
+
+const PRIVATE_HOST_SUFFIXES = ['.localhost', '.local', '.internal', '.localdomain', '.home.arpa'];
+
+// 0.0.0.0/8, 10/8, 100.64/10, 127/8, 169.254/16, 172.16/12, 192.168/16 and the multicast/reserved ranges
+function isPrivateIPv4(host: string) {
+  const octets = host.split('.').map(Number);
+
+  if (octets.length !== 4 || octets.some((octet) => !Number.isInteger(octet) || octet < 0 || octet > 255)) {
+    return false;
+  }
+
+  const [a, b] = octets;
+
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168)
+  );
+}
+
+// loopback, unspecified, unique local (fc00::/7), link-local (fe80::/10) and IPv4-mapped addresses
+function isPrivateIPv6(host: string) {
+  const address = host.toLowerCase();
+
+  return (
+    address === '::' ||
+    address === '::1' ||
+    /^f[cd][0-9a-f]{2}:/.test(address) ||
+    /^fe[89ab][0-9a-f]:/.test(address) ||
+    address.startsWith('::ffff:')
+  );
+}
+
+function isPrivateHost(hostname: string) {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+
+  if (host.startsWith('[') && host.endsWith(']')) {
+    return isPrivateIPv6(host.slice(1, -1));
+  }
+
+  // single label names like `metadata` only resolve inside a network
+  return (
+    !host.includes('.') ||
+    host === 'localhost' ||
+    PRIVATE_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix)) ||
+    isPrivateIPv4(host)
+  );
+}
+
+/**
+ * Why `value` can't be used as a completion callback, `undefined` if it can: it has to be an `https:` url
+ * on a public host without credentials.
+ */
+export function getCallbackUrlError(value: unknown): string | undefined {
+  if (typeof value !== 'string' || !URL.canParse(value)) {
+    return 'callbackUrl must be an absolute URL';
+  }
+
+  const url = new URL(value);
+
+  if (url.protocol !== 'https:') {
+    return 'callbackUrl must use https';
+  }
+
+  if (url.username || url.password) {
+    return 'callbackUrl must not contain credentials';
+  }
+
+  if (isPrivateHost(url.hostname)) {
+    return 'callbackUrl must point to a public host';
+  }
+
+  return undefined;
+}
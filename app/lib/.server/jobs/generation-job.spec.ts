@@ -0,0 +1,208 @@
+import type { AppLoadContext } from '@remix-run/cloudflare';
+import { formatDataStreamPart } from 'ai';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, verifyWebhookSignature } from '~/lib/.server/auth/webhook-signature';
+import { getProjectStorage } from '~/lib/.server/projects';
+import { getKeyValueStore } from '~/lib/.server/storage';
+import type { ProgressAnnotation } from '~/types/context';
+import { GenerationJob, type GenerationJobInput } from './generation-job';
+import { JobStore } from './job-store';
+
+const REQUIREMENTS = `# Todo App
+
+## Tasks
+
+- Create a task
+- Complete a task
+`;
+
+const CALLBACK_URL = 'https://hooks.example.com/jobs';
+
+const progress: ProgressAnnotation = {
+  type: 'progress',
+  label: 'response',
+  status: 'in-progress',
+  order: 1,
+  message: 'Generating Response',
+};
+
+// without bindings jobs and projects live in the in-memory store of the worker
+const context = { cloudflare: { env: {} } } as unknown as AppLoadContext;
+const jobs = new JobStore(getKeyValueStore());
+const projects = getProjectStorage();
+
+function createJob(input: Partial<GenerationJobInput> = {}) {
+  return GenerationJob.create({
+    request: new Request('https://bolt.example.com/api/jobs', { method: 'POST' }),
+    context,
+    input: { content: REQUIREMENTS, ...input },
+  });
+}
+
+function encode(parts: string[]) {
+  return new TextEncoder().encode(parts.join(''));
+}
+
+// the chat stream of an artifact that creates `src/index.js`
+function chatResponse() {
+  return new Response(
+    encode([
+      formatDataStreamPart('data', [progress]),
+      formatDataStreamPart('text', '<boltArtifact id="todo" title="Todo App">'),
+      formatDataStreamPart('text', '<boltAction type="file" filePath="src/index.js">console.log(1);</boltAction>'),
+      formatDataStreamPart('text', '</boltArtifact>'),
+    ]),
+  );
+}
+
+// a chat stream that sends progress and then waits until the request is aborted
+function pendingChatResponse(signal: AbortSignal) {
+  return new Response(
+    new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encode([formatDataStreamPart('data', [progress])]));
+        signal.addEventListener('abort', () => controller.error(new Error('aborted')));
+      },
+    }),
+  );
+}
+
+describe('GenerationJob', () => {
+  const callbacks: Request[] = [];
+  let chat: (init: RequestInit) => Response;
+
+  beforeEach(() => {
+    callbacks.length = 0;
+    chat = () => chatResponse();
+
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (input: string | URL, init: RequestInit) => {
+        const url = String(input);
+
+        if (url === CALLBACK_URL) {
+          callbacks.push(new Request(url, init));
+          return new Response(null, { status: 204 });
+        }
+
+        expect(url).toBe('https://bolt.example.com/api/chat');
+
+        return chat(init);
+      }),
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should record progress and the generated files of a completed job', async () => {
+    const generation = await createJob();
+
+    expect(generation.job.status).toBe('queued');
+
+    const job = await generation.run();
+
+    expect(job).toMatchObject({ status: 'completed', progress: [progress] });
+    expect(job?.result?.files).toMatchObject({ 'src/index.js': 'console.log(1);\n' });
+    expect(await jobs.get(generation.id)).toEqual(job);
+  });
+
+  it('should generate on top of the stored project and save the result as its next snapshot', async () => {
+    const base = await projects.saveSnapshot('todo-app', { 'src/App.js': 'export default 1;\n' });
+    let chatFiles: Record<string, unknown> = {};
+
+    chat = (init) => {
+      chatFiles = JSON.parse(init.body as string).files;
+      return chatResponse();
+    };
+
+    const job = await (await createJob({ projectId: 'todo-app' })).run();
+    const latest = await projects.getLatestSnapshot('todo-app');
+
+    expect(Object.keys(chatFiles)).toContain('/home/project/src/App.js');
+    expect(job).toMatchObject({ baseSnapshotId: base.id, snapshotId: latest?.id });
+    expect(latest).toMatchObject({ parentId: base.id, source: `job:${job?.id}`, message: 'Todo App' });
+    expect(latest?.files).toMatchObject({ 'src/App.js': 'export default 1;\n', 'src/index.js': 'console.log(1);\n' });
+  });
+
+  it('should start projects without stored code from scratch', async () => {
+    const job = await (await createJob({ projectId: 'new-app' })).run();
+    const snapshots = await projects.listSnapshots('new-app');
+
+    expect(job?.baseSnapshotId).toBeUndefined();
+    expect(snapshots).toHaveLength(1);
+    expect(snapshots[0]).toMatchObject({ id: job?.snapshotId });
+    expect(snapshots[0].parentId).toBeUndefined();
+  });
+
+  it('should fail jobs on projects of other API clients without touching them', async () => {
+    await projects.saveSnapshot('other-app', { 'src/App.js': 'export default 1;\n' }, { clientId: 'client_owner' });
+
+    const generation = await createJob({ projectId: 'other-app', clientId: 'client_other' });
+
+    await expect(generation.run()).rejects.toThrow('Project other-app not found');
+    expect(fetch).not.toHaveBeenCalled();
+    expect(await projects.listSnapshots('other-app')).toHaveLength(1);
+  });
+
+  it('should call back with the final record signed with the webhook secret', async () => {
+    const generation = await createJob({ callbackUrl: CALLBACK_URL, webhookSecret: 'secret' });
+    const job = await generation.run();
+
+    expect(callbacks).toHaveLength(1);
+
+    const [callback] = callbacks;
+    const body = await callback.text();
+
+    expect(JSON.parse(body)).toEqual(job);
+    expect(callback.redirect).toBe('manual');
+    expect(
+      await verifyWebhookSignature({
+        secret: 'secret',
+        body,
+        signature: callback.headers.get(SIGNATURE_HEADER),
+        timestamp: callback.headers.get(TIMESTAMP_HEADER),
+      }),
+    ).toEqual({ valid: true });
+  });
+
+  it('should not call private callback urls stored with a job', async () => {
+    const generation = await createJob({ callbackUrl: 'https://169.254.169.254/latest' });
+
+    await generation.run();
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail the job and report the failure when the chat request fails', async () => {
+    chat = () => new Response('overloaded', { status: 503, statusText: 'Service Unavailable' });
+
+    const generation = await createJob({ callbackUrl: CALLBACK_URL });
+
+    await expect(generation.run()).rejects.toThrow('Chat request failed: 503');
+
+    const job = await jobs.get(generation.id);
+
+    expect(job).toMatchObject({ status: 'failed', error: 'Chat request failed: 503 Service Unavailable' });
+    expect(JSON.parse(await callbacks[0].text())).toMatchObject({ id: generation.id, status: 'failed' });
+  });
+
+  it('should stop a running job when it is cancelled', async () => {
+    let started: () => void;
+    const chatStarted = new Promise<void>((resolve) => (started = resolve));
+
+    chat = (init) => {
+      started();
+      return pendingChatResponse(init.signal!);
+    };
+
+    const generation = await createJob();
+    const run = generation.run();
+
+    await chatStarted;
+    await GenerationJob.cancel(jobs, generation.id);
+
+    expect(await run).toMatchObject({ status: 'cancelled' });
+  });
+});
@@ -0,0 +1,275 @@
+import type { AppLoadContext } from '@remix-run/cloudflare';
+import type { JSONValue } from 'ai';
+import { signWebhookPayload, SIGNATURE_HEADER, TIMESTAMP_HEADER } from '~/lib/.server/auth/webhook-signature';
+import { FileProcessor } from '~/lib/.server/file-processing/file-processor';
+import {
+  HeadlessRunner,
+  type HeadlessRunnerOptions,
+  type HeadlessRunResult,
+} from '~/lib/.server/headless/headless-runner';
+import { VirtualFileSystem } from '~/lib/.server/headless/virtual-fs';
+import { canAccessProject, getProjectStorage, type ProjectSnapshot, type ProjectStorage } from '~/lib/.server/projects';
+import { getKeyValueStore } from '~/lib/.server/storage';
+import type { ProgressAnnotation } from '~/types/context';
+import { createScopedLogger } from '~/utils/logger';
+import { getCallbackUrlError } from './callback-url';
+import { JobStore, type JobRecord, type JobUsage } from './job-store';
+
+const logger = createScopedLogger('generation-job');
+
+// abort handles for jobs running in this worker instance
+const activeJobs = new Map<string, AbortController>();
+
+export interface GenerationJobInput {
+  content: string;
+  fileName?: string;
+  projectId?: string;
+  callbackUrl?: string;
+  clientId?: string;
+
+  // used to sign the completion callback
+  webhookSecret?: string;
+}
+
+type StreamHandlers = Pick<HeadlessRunnerOptions, 'onData' | 'onAnnotations' | 'onArtifactClose'>;
+
+function isProgressAnnotation(value: JSONValue): value is ProgressAnnotation & JSONValue {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && value.type === 'progress';
+}
+
+function isUsageAnnotation(value: JSONValue): value is { type: 'usage'; value: JobUsage } & JSONValue {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && value.type === 'usage';
+}
+
+/**
+ * A code generation run that is not tied to a browser session: turns requirements
+ * into chat messages, streams `/api/chat` through a `HeadlessRunner` and persists
+ * progress, token usage and the resulting files as a `JobRecord`.
+ */
+export class GenerationJob {
+  #abortController = new AbortController();
+
+  private constructor(
+    readonly job: JobRecord,
+    private readonly _jobs: JobStore,
+    private readonly _projects: ProjectStorage,
+    private readonly _input: GenerationJobInput,
+    private readonly _request: Request,
+  ) {}
+
+  static async create(options: { request: Request; context: AppLoadContext; input: GenerationJobInput }) {
+    const { request, context, input } = options;
+    const env = context.cloudflare?.env;
+    const jobs = new JobStore(getKeyValueStore(env));
+    const job = await jobs.create({
+      projectId: input.projectId,
+      clientId: input.clientId,
+      callbackUrl: input.callbackUrl,
+      input: {
+        fileName: input.fileName || 'webhook-requirements.txt',
+        contentLength: input.content.length,
+      },
+    });
+
+    return new GenerationJob(job, jobs, getProjectStorage(env), input, request);
+  }
+
+  /**
+   * Cancels a job. Jobs running in this worker are aborted immediately, jobs running
+   * elsewhere notice the cancelled status when they next write their progress.
+   */
+  static async cancel(jobs: JobStore, id: string) {
+    activeJobs.get(id)?.abort();
+    return jobs.cancel(id);
+  }
+
+  get id() {
+    return this.job.id;
+  }
+
+  async run(handlers: StreamHandlers = {}): Promise<JobRecord | null> {
+    const { id } = this.job;
+    let runner: HeadlessRunner | undefined;
+
+    activeJobs.set(id, this.#abortController);
+
+    try {
+      await this._jobs.start(id);
+
+      const base = await this.#loadProject();
+      const isExistingProject = !!base;
+      const processed = await FileProcessor.processContent(
+        this._input.content,
+        isExistingProject,
+        this.job.input.fileName,
+      );
+      const { messages, contextOptimization } = processed;
+
+      /*
+       * existing projects are generated on top of their stored code, the chat endpoint
+       * picks the relevant files for the prompt with selectContext/createFilesContext
+       */
+      const files = base ? base.files : processed.files;
+
+      const chatResponse = await fetch(new URL('/api/chat', this._request.url), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Cookie: this._request.headers.get('Cookie') || '',
+        },
+        body: JSON.stringify({
+          messages,
+          contextOptimization,
+
+          // the chat endpoint expects a FileMap rooted at WORK_DIR
+          files: new VirtualFileSystem(files).toFileMap(),
+          promptId: 'file-input',
+          projectId: this._input.projectId,
+        }),
+        signal: this.#abortController.signal,
+      });
+
+      if (!chatResponse.ok || !chatResponse.body) {
+        throw new Error(`Chat request failed: ${chatResponse.status} ${chatResponse.statusText}`);
+      }
+
+      runner = new HeadlessRunner({
+        initialFiles: files,
+        messageId: id,
+        onData: async (data) => {
+          await handlers.onData?.(data);
+
+          for (const item of data.filter(isProgressAnnotation)) {
+            const updated = await this._jobs.addProgress(id, item);
+
+            if (updated?.status === 'cancelled') {
+              this.#abortController.abort();
+            }
+          }
+        },
+        onAnnotations: async (annotations) => {
+          await handlers.onAnnotations?.(annotations);
+
+          for (const annotation of annotations.filter(isUsageAnnotation)) {
+            await this._jobs.setUsage(id, annotation.value);
+          }
+        },
+        onArtifactClose: handlers.onArtifactClose,
+      });
+
+      const result = await runner.run(chatResponse.body);
+
+      return await this.#finish(result, base);
+    } catch (error) {
+      if (this.#abortController.signal.aborted) {
+        logger.info('Job cancelled', { id });
+        return this._jobs.flush(id);
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      const failed = await this._jobs.fail(id, message, runner?.getResult());
+      await this.#notify(failed);
+
+      throw error;
+    } finally {
+      activeJobs.delete(id);
+    }
+  }
+
+  async #loadProject(): Promise<ProjectSnapshot | null> {
+    const { projectId, clientId } = this._input;
+
+    if (!projectId) {
+      return null;
+    }
+
+    // projects of other API clients are reported as unknown, the job fails instead of writing to them
+    if (!canAccessProject(await this._projects.getProject(projectId), clientId)) {
+      throw new Error(`Project ${projectId} not found`);
+    }
+
+    const snapshot = await this._projects.getLatestSnapshot(projectId);
+
+    if (!snapshot) {
+      logger.warn('No stored code for project, generating from scratch', { projectId });
+      return null;
+    }
+
+    logger.info('Loaded project snapshot', { projectId, snapshotId: snapshot.id, fileCount: snapshot.fileCount });
+    await this._jobs.setBaseSnapshot(this.job.id, snapshot.id);
+
+    return snapshot;
+  }
+
+  async #finish(result: HeadlessRunResult, base: ProjectSnapshot | null) {
+    const { id } = this.job;
+    const failed = result.errors.length > 0 && result.artifacts.length === 0;
+    const snapshotId = failed ? undefined : await this.#saveSnapshot(result, base);
+    const finished = failed
+      ? await this._jobs.fail(id, result.errors.join('\n'), result)
+      : await this._jobs.complete(id, result, snapshotId);
+
+    logger.info('Generation finished', {
+      jobId: id,
+      status: finished?.status,
+      fileCount: Object.keys(result.files).length,
+      buildSteps: result.buildPlan.length,
+    });
+
+    await this.#notify(finished);
+
+    return finished;
+  }
+
+  // stores the generated code as the project's next snapshot
+  async #saveSnapshot(result: HeadlessRunResult, base: ProjectSnapshot | null) {
+    const { projectId } = this._input;
+
+    if (!projectId || result.artifacts.length === 0) {
+      return undefined;
+    }
+
+    const snapshot = await this._projects.saveSnapshot(projectId, result.files, {
+      parentId: base?.id ?? null,
+      message: result.artifacts.map((artifact) => artifact.title).join(', '),
+      source: `job:${this.job.id}`,
+      clientId: this._input.clientId,
+    });
+
+    return snapshot.id;
+  }
+
+  async #notify(job: JobRecord | null) {
+    if (!job?.callbackUrl) {
+      return;
+    }
+
+    // checked again for jobs stored before callback urls were validated
+    const callbackError = getCallbackUrlError(job.callbackUrl);
+
+    if (callbackError) {
+      logger.warn('Skipping job callback', { id: job.id, reason: callbackError });
+      return;
+    }
+
+    const body = JSON.stringify(job);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    if (this._input.webhookSecret) {
+      const timestamp = Math.floor(Date.now() / 1000);
+      headers[SIGNATURE_HEADER] = await signWebhookPayload(this._input.webhookSecret, body, timestamp);
+      headers[TIMESTAMP_HEADER] = String(timestamp);
+    }
+
+    try {
+      // redirects could lead the request to a private host after all
+      const response = await fetch(job.callbackUrl, { method: 'POST', headers, body, redirect: 'manual' });
+
+      if (!response.ok) {
+        logger.warn('Job callback returned non-OK status', { id: job.id, status: response.status });
+      }
+    } catch (error) {
+      logger.warn('Failed to deliver job callback', { id: job.id, error });
+    }
+  }
+}
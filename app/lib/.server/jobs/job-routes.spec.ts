@@ -0,0 +1,49 @@
+import type { AppLoadContext } from '@remix-run/cloudflare';
+import { describe, expect, it } from 'vitest';
+import { ApiClientStore } from '~/lib/.server/auth/api-clients';
+import { getKeyValueStore } from '~/lib/.server/storage';
+import { loader as listJobs } from '~/routes/api.jobs';
+import { loader as getJob } from '~/routes/api.jobs.$id';
+import { JobStore } from './job-store';
+
+// route modules can't have specs next to them, Remix would pick those up as routes
+
+// without bindings jobs live in the in-memory store of the worker
+const context = { cloudflare: { env: {} } } as unknown as AppLoadContext;
+const INPUT = { fileName: 'requirements.md', contentLength: 42 };
+
+function request(path: string, apiKey?: string) {
+  return new Request(`https://bolt.example.com${path}`, { headers: apiKey ? { 'X-API-Key': apiKey } : {} });
+}
+
+describe('job routes', () => {
+  it('should only show the jobs of an API client to that client', async () => {
+    const clients = new ApiClientStore(getKeyValueStore());
+    const owner = await clients.register({ name: 'owner', scopes: ['status:read'] });
+    const other = await clients.register({ name: 'other', scopes: ['status:read'] });
+    const job = await new JobStore(getKeyValueStore()).create({
+      projectId: 'scoped-jobs',
+      clientId: owner.client.id,
+      input: INPUT,
+    });
+
+    const read = (apiKey?: string) =>
+      getJob({ request: request(`/api/jobs/${job.id}`, apiKey), context, params: { id: job.id } }) as Promise<Response>;
+    const list = async (apiKey?: string) => {
+      const response = (await listJobs({
+        request: request('/api/jobs?projectId=scoped-jobs', apiKey),
+        context,
+        params: {},
+      })) as Response;
+
+      return (await response.json<{ jobs: { id: string }[] }>()).jobs.map((item) => item.id);
+    };
+
+    expect((await read(owner.apiKey)).status).toBe(200);
+    expect((await read(other.apiKey)).status).toBe(404);
+    expect((await read()).status).toBe(404);
+    expect(await list(owner.apiKey)).toEqual([job.id]);
+    expect(await list(other.apiKey)).toEqual([]);
+    expect(await list()).toEqual([]);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MemoryKeyValueStore } from '~/lib/.server/storage';
+import type { ProgressAnnotation } from '~/types/context';
+import { JobStore } from './job-store';
+
+const INPUT = { fileName: 'requirements.md', contentLength: 42 };
+
+const progress: ProgressAnnotation = {
+  type: 'progress',
+  label: 'response',
+  status: 'in-progress',
+  order: 1,
+  message: 'Generating Response',
+};
+
+describe('JobStore', () => {
+  it('should create queued jobs and record their progress and usage', async () => {
+    const jobs = new JobStore(new MemoryKeyValueStore());
+    const job = await jobs.create({ projectId: 'demo', clientId: 'client_1', input: INPUT });
+
+    expect(job).toMatchObject({ status: 'queued', projectId: 'demo', clientId: 'client_1', progress: [] });
+    expect(job.id).toMatch(/^job_/);
+
+    await jobs.start(job.id);
+    await jobs.addProgress(job.id, progress);
+    await jobs.setUsage(job.id, { promptTokens: 10, completionTokens: 5, totalTokens: 15 });
+
+    const updated = await jobs.flush(job.id);
+
+    expect(updated).toMatchObject({ status: 'running', progress: [progress], usage: { totalTokens: 15 } });
+    expect(updated?.startedAt).toBeTypeOf('number');
+  });
+
+  it('should buffer progress between writes and keep it when the job finishes', async () => {
+    const store = new MemoryKeyValueStore();
+    const jobs = new JobStore(store);
+    const job = await jobs.create({ input: INPUT });
+
+    await jobs.start(job.id);
+
+    const put = vi.spyOn(store, 'put');
+
+    for (let i = 0; i < 5; i++) {
+      expect(await jobs.addProgress(job.id, { ...progress, order: i })).toBeUndefined();
+    }
+
+    expect(put).not.toHaveBeenCalled();
+    expect((await jobs.get(job.id))?.progress).toEqual([]);
+
+    const cancelled = await new JobStore(store).cancel(job.id);
+    const completed = await jobs.complete(job.id, { text: '', files: {}, artifacts: [], buildPlan: [], errors: [] });
+
+    expect(cancelled?.status).toBe('cancelled');
+    expect(completed?.status).toBe('cancelled');
+    expect(completed?.progress.map((item) => item.order)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('should keep the first terminal state of a job', async () => {
+    const jobs = new JobStore(new MemoryKeyValueStore());
+    const job = await jobs.create({ input: INPUT });
+
+    await jobs.start(job.id);
+
+    const cancelled = await jobs.cancel(job.id);
+    const failed = await jobs.fail(job.id, 'aborted');
+
+    expect(cancelled?.status).toBe('cancelled');
+    expect(cancelled?.completedAt).toBeTypeOf('number');
+    expect(failed?.status).toBe('cancelled');
+    expect(failed?.error).toBeUndefined();
+  });
+
+  it('should store the error of failed jobs', async () => {
+    const jobs = new JobStore(new MemoryKeyValueStore());
+    const job = await jobs.create({ input: INPUT });
+
+    expect(await jobs.fail(job.id, 'Chat request failed')).toMatchObject({
+      status: 'failed',
+      error: 'Chat request failed',
+    });
+    expect(await jobs.fail('job_missing', 'nothing')).toBeNull();
+  });
+
+  it('should list jobs newest first, filtered by project, client and status', async () => {
+    const jobs = new JobStore(new MemoryKeyValueStore());
+    const first = await jobs.create({ projectId: 'demo', clientId: 'client_1', input: INPUT });
+    const second = await jobs.create({ projectId: 'demo', clientId: 'client_2', input: INPUT });
+
+    await jobs.create({ projectId: 'other', input: INPUT });
+    await jobs.start(second.id);
+
+    expect((await jobs.list({ projectId: 'demo' })).map((job) => job.id).sort()).toEqual([first.id, second.id].sort());
+    expect((await jobs.list({ clientId: 'client_1' })).map((job) => job.id)).toEqual([first.id]);
+    expect((await jobs.list({ projectId: 'other', clientId: null })).map((job) => job.id)).toHaveLength(1);
+    expect(await jobs.list({ projectId: 'demo', clientId: null })).toEqual([]);
+    expect((await jobs.list({ status: 'running' })).map((job) => job.id)).toEqual([second.id]);
+    expect(await jobs.list({ limit: 1 })).toHaveLength(1);
+  });
+});
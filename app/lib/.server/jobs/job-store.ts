@@ -0,0 +1,210 @@
+import type { HeadlessRunResult } from '~/lib/.server/headless/headless-runner';
+import type { KeyValueStore } from '~/lib/.server/storage';
+import type { ProgressAnnotation } from '~/types/context';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('job-store');
+
+const KEY_PREFIX = 'jobs';
+
+// finished jobs are kept for a week
+const JOB_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// progress and usage of a running job are written at most this often, KV allows one write per second per key
+const FLUSH_INTERVAL_MS = 3000;
+
+export const JOB_STATUSES = ['queued', 'running', 'completed', 'failed', 'cancelled'] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+export interface JobUsage {
+  completionTokens: number;
+  promptTokens: number;
+  totalTokens: number;
+}
+
+export interface JobRecord {
+  id: string;
+  projectId?: string;
+
+  // API client that created the job, jobs created from the UI have none
+  clientId?: string;
+  status: JobStatus;
+  input: {
+    fileName: string;
+    contentLength: number;
+  };
+
+  // completion webhook, called with the final job record
+  callbackUrl?: string;
+  progress: ProgressAnnotation[];
+  usage?: JobUsage;
+  result?: HeadlessRunResult;
+
+  // project snapshot the generation started from and the one it produced
+  baseSnapshotId?: string;
+  snapshotId?: string;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+  startedAt?: number;
+  completedAt?: number;
+}
+
+export interface ListJobsOptions {
+  projectId?: string;
+
+  // `null` only matches jobs without a client
+  clientId?: string | null;
+  status?: JobStatus;
+  limit?: number;
+}
+
+export function isJobStatus(value: string): value is JobStatus {
+  return (JOB_STATUSES as readonly string[]).includes(value);
+}
+
+export function isFinished(job: JobRecord) {
+  return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+interface PendingUpdate {
+  progress: ProgressAnnotation[];
+  usage?: JobUsage;
+}
+
+export class JobStore {
+  // progress and usage not written yet, and when each job was last written by this store
+  #pending = new Map<string, PendingUpdate>();
+  #lastWrite = new Map<string, number>();
+
+  constructor(private readonly _store: KeyValueStore) {}
+
+  async create(options: Pick<JobRecord, 'projectId' | 'clientId' | 'callbackUrl' | 'input'>): Promise<JobRecord> {
+    const now = Date.now();
+    const job: JobRecord = {
+      ...options,
+      id: `job_${now.toString(36)}_${crypto.randomUUID().slice(0, 8)}`,
+      status: 'queued',
+      progress: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this._save(job);
+    logger.info('Created job', { id: job.id, projectId: job.projectId || 'new project' });
+
+    return job;
+  }
+
+  async get(id: string): Promise<JobRecord | null> {
+    return this._store.get<JobRecord>(jobKey(id));
+  }
+
+  // newest first
+  async list(options: ListJobsOptions = {}): Promise<JobRecord[]> {
+    const keys = await this._store.list(`${KEY_PREFIX}:`);
+    const jobs = await Promise.all(keys.map((key) => this._store.get<JobRecord>(key)));
+
+    return jobs
+      .filter((job): job is JobRecord => job !== null)
+      .filter((job) => options.projectId === undefined || job.projectId === options.projectId)
+      .filter((job) => options.clientId === undefined || job.clientId === (options.clientId ?? undefined))
+      .filter((job) => !options.status || job.status === options.status)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, options.limit);
+  }
+
+  async start(id: string): Promise<JobRecord | null> {
+    return this._update(id, (job) => ({ ...job, status: 'running', startedAt: Date.now() }));
+  }
+
+  /**
+   * Progress and usage are buffered and written together at most every `FLUSH_INTERVAL_MS`, and with the
+   * next update of the job. Resolves to `undefined` while the update is only buffered.
+   */
+  async addProgress(id: string, progress: ProgressAnnotation): Promise<JobRecord | null | undefined> {
+    this.#getPending(id).progress.push(progress);
+    return this.#flushThrottled(id);
+  }
+
+  async setUsage(id: string, usage: JobUsage): Promise<JobRecord | null | undefined> {
+    this.#getPending(id).usage = usage;
+    return this.#flushThrottled(id);
+  }
+
+  // writes buffered progress and usage right away
+  async flush(id: string): Promise<JobRecord | null> {
+    return this.#pending.has(id) ? this._update(id, (job) => job) : this.get(id);
+  }
+
+  async setBaseSnapshot(id: string, baseSnapshotId: string): Promise<JobRecord | null> {
+    return this._update(id, (job) => ({ ...job, baseSnapshotId }));
+  }
+
+  async complete(id: string, result: HeadlessRunResult, snapshotId?: string): Promise<JobRecord | null> {
+    return this._finish(id, (job) => ({ ...job, status: 'completed', result, snapshotId }));
+  }
+
+  async fail(id: string, error: string, result?: HeadlessRunResult): Promise<JobRecord | null> {
+    logger.error('Job failed', { id, error });
+    return this._finish(id, (job) => ({ ...job, status: 'failed', error, result }));
+  }
+
+  async cancel(id: string): Promise<JobRecord | null> {
+    return this._finish(id, (job) => ({ ...job, status: 'cancelled' }));
+  }
+
+  // a job that already finished keeps its terminal state, e.g. a late failure after cancellation
+  private async _finish(id: string, update: (job: JobRecord) => JobRecord) {
+    return this._update(id, (job) => (isFinished(job) ? job : { ...update(job), completedAt: Date.now() }));
+  }
+
+  private async _update(id: string, update: (job: JobRecord) => JobRecord): Promise<JobRecord | null> {
+    const job = await this.get(id);
+    const pending = this.#pending.get(id);
+
+    this.#pending.delete(id);
+
+    if (!job) {
+      return null;
+    }
+
+    const buffered = pending
+      ? { ...job, progress: [...job.progress, ...pending.progress], usage: pending.usage ?? job.usage }
+      : job;
+    const updated = { ...update(buffered), updatedAt: Date.now() };
+
+    this.#lastWrite.set(id, updated.updatedAt);
+    await this._save(updated);
+
+    return updated;
+  }
+
+  #getPending(id: string) {
+    let pending = this.#pending.get(id);
+
+    if (!pending) {
+      pending = { progress: [] };
+      this.#pending.set(id, pending);
+    }
+
+    return pending;
+  }
+
+  async #flushThrottled(id: string) {
+    if (Date.now() - (this.#lastWrite.get(id) ?? 0) < FLUSH_INTERVAL_MS) {
+      return undefined;
+    }
+
+    return this.flush(id);
+  }
+
+  private async _save(job: JobRecord) {
+    await this._store.put(jobKey(job.id), job, { expirationTtl: JOB_TTL_SECONDS });
+  }
+}
+
+function jobKey(id: string) {
+  return `${KEY_PREFIX}:${id}`;
+}
@@ -0,0 +1,42 @@
+import type { Message } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { countAgentSteps, getAgentStepLimit, getAgentTools, MAX_AGENT_STEPS } from './agent-tools';
+
+const invocation = (step: number) => ({
+  state: 'result' as const,
+  step,
+  toolCallId: `call-${step}`,
+  toolName: 'read_file',
+  args: { path: 'index.js' },
+  result: { output: '' },
+});
+
+describe('countAgentSteps', () => {
+  it('should count the tool round-trips after the last user message', () => {
+    const messages: Omit<Message, 'id'>[] = [
+      { role: 'user', content: 'first' },
+      { role: 'assistant', content: '', toolInvocations: [invocation(0), invocation(1)] },
+      { role: 'user', content: 'second' },
+      { role: 'assistant', content: '', toolInvocations: [invocation(0), invocation(1), invocation(2)] },
+    ];
+
+    expect(countAgentSteps(messages)).toBe(3);
+    expect(countAgentSteps(messages.slice(0, 3))).toBe(0);
+  });
+});
+
+describe('getAgentStepLimit', () => {
+  it('should clamp the requested steps to the server limit', () => {
+    expect(getAgentStepLimit(3)).toBe(3);
+    expect(getAgentStepLimit(1_000_000)).toBe(MAX_AGENT_STEPS);
+    expect(getAgentStepLimit(-2)).toBe(0);
+    expect(getAgentStepLimit('10')).toBe(0);
+    expect(getAgentStepLimit(Infinity)).toBe(0);
+  });
+});
+
+describe('getAgentTools', () => {
+  it('should only return the requested tools', () => {
+    expect(Object.keys(getAgentTools(['read_file', 'run_command']))).toEqual(['read_file', 'run_command']);
+  });
+});
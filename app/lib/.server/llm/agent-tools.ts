@@ -0,0 +1,80 @@
+import { tool, type Message } from 'ai';
+import { z } from 'zod';
+import type { AgentToolName } from '~/types/agent';
+
+/*
+ * Tools offered to the model in agent mode. None of them has an `execute` function: the tool calls
+ * are streamed to the browser, which runs them against the user's WebContainer and sends the results
+ * back with the next request.
+ */
+export const AGENT_TOOLS = {
+  read_file: tool({
+    description: 'Read a text file of the project.',
+    parameters: z.object({
+      path: z.string().describe('Path relative to the project root, e.g. src/App.tsx'),
+    }),
+  }),
+  list_dir: tool({
+    description: 'List the files and folders directly inside a folder of the project. Folders end with a slash.',
+    parameters: z.object({
+      path: z.string().describe('Folder relative to the project root, use . for the root'),
+    }),
+  }),
+  search_code: tool({
+    description: 'Search the text files of the project and return the matching lines with their paths.',
+    parameters: z.object({
+      query: z.string().describe('Text to look for, or a regular expression when regex is true'),
+      regex: z.boolean().optional(),
+    }),
+  }),
+  write_file: tool({
+    description: 'Create a file or replace all of its content. Missing folders are created.',
+    parameters: z.object({
+      path: z.string().describe('Path relative to the project root'),
+      content: z.string().describe('The complete new content of the file'),
+    }),
+  }),
+  apply_patch: tool({
+    description:
+      'Change part of an existing file with SEARCH/REPLACE blocks or a unified diff, the same format as a patch action.',
+    parameters: z.object({
+      path: z.string().describe('Path relative to the project root'),
+      patch: z.string(),
+    }),
+  }),
+  run_command: tool({
+    description:
+      'Run a shell command in the project root and return its output. Do not use it for long-running dev servers.',
+    parameters: z.object({
+      command: z.string(),
+    }),
+  }),
+} satisfies Record<AgentToolName, unknown>;
+
+// the most tool round-trips a client may ask for per user message
+export const MAX_AGENT_STEPS = 10;
+
+export function getAgentStepLimit(requested: unknown) {
+  const steps = typeof requested === 'number' && Number.isFinite(requested) ? Math.floor(requested) : 0;
+
+  return Math.min(Math.max(steps, 0), MAX_AGENT_STEPS);
+}
+
+export function getAgentTools(names: AgentToolName[]) {
+  return Object.fromEntries(names.filter((name) => name in AGENT_TOOLS).map((name) => [name, AGENT_TOOLS[name]]));
+}
+
+// tool round-trips made since the last user message
+export function countAgentSteps(messages: Omit<Message, 'id'>[]) {
+  let steps = 0;
+
+  for (let i = messages.length - 1; i >= 0 && messages[i].role !== 'user'; i--) {
+    const invocations = messages[i].toolInvocations ?? [];
+
+    if (invocations.length > 0) {
+      steps += Math.max(...invocations.map((invocation) => invocation.step ?? 0)) + 1;
+    }
+  }
+
+  return steps;
+}
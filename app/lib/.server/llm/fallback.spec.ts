@@ -0,0 +1,43 @@
+import { APICallError } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { classifyError, DEFAULT_RETRY_POLICY, getBackoffDelay, parseFallbackChain } from './fallback';
+
+function apiError(statusCode: number, message = 'failed') {
+  return new APICallError({ message, url: 'https://example.com', requestBodyValues: {}, statusCode });
+}
+
+describe('classifyError', () => {
+  it('should classify provider responses by status code', () => {
+    expect(classifyError(apiError(429))).toBe('rate_limit');
+    expect(classifyError(apiError(503))).toBe('server');
+    expect(classifyError(apiError(401))).toBe('auth');
+    expect(classifyError(apiError(400, 'prompt is too long: 210000 tokens'))).toBe('context_length');
+    expect(classifyError(apiError(400))).toBe('bad_request');
+  });
+
+  it('should recognize network failures', () => {
+    expect(classifyError(new TypeError('fetch failed'))).toBe('network');
+    expect(classifyError(new Error('something else'))).toBe('unknown');
+  });
+});
+
+describe('getBackoffDelay', () => {
+  it('should grow exponentially up to the maximum delay', () => {
+    const noJitter = () => 1;
+
+    expect(getBackoffDelay(0, DEFAULT_RETRY_POLICY, noJitter)).toBe(1000);
+    expect(getBackoffDelay(2, DEFAULT_RETRY_POLICY, noJitter)).toBe(4000);
+    expect(getBackoffDelay(10, DEFAULT_RETRY_POLICY, noJitter)).toBe(DEFAULT_RETRY_POLICY.maxDelayMs);
+  });
+});
+
+describe('parseFallbackChain', () => {
+  it('should parse provider and optional model entries', () => {
+    expect(parseFallbackChain('Anthropic:claude-3-5-sonnet-latest, OpenAI:gpt-4o ,Ollama')).toEqual([
+      { provider: 'Anthropic', model: 'claude-3-5-sonnet-latest' },
+      { provider: 'OpenAI', model: 'gpt-4o' },
+      { provider: 'Ollama' },
+    ]);
+    expect(parseFallbackChain(undefined)).toEqual([]);
+  });
+});
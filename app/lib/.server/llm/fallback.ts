@@ -0,0 +1,162 @@
+import { APICallError, LoadAPIKeyError, RetryError } from 'ai';
+
+export interface ModelRef {
+  provider: string;
+  model: string;
+}
+
+// a chain entry without a model uses the provider's first model
+export interface FallbackTarget {
+  provider: string;
+  model?: string;
+}
+
+export type LLMErrorClass =
+  | 'rate_limit'
+  | 'server'
+  | 'network'
+  | 'auth'
+  | 'context_length'
+  | 'bad_request'
+  | 'aborted'
+  | 'unknown';
+
+export interface RetryRule {
+  // retry the same model with backoff
+  retry: boolean;
+
+  // move on to the next model of the chain once retries are exhausted
+  fallback: boolean;
+}
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  rules: Record<LLMErrorClass, RetryRule>;
+}
+
+export interface FallbackEvent {
+  from: ModelRef;
+  to: ModelRef;
+  errorClass: LLMErrorClass;
+  error: string;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+  rules: {
+    rate_limit: { retry: true, fallback: true },
+    server: { retry: true, fallback: true },
+    network: { retry: true, fallback: true },
+    auth: { retry: false, fallback: true },
+
+    // another model may have a larger context window
+    context_length: { retry: false, fallback: true },
+    bad_request: { retry: false, fallback: false },
+    aborted: { retry: false, fallback: false },
+    unknown: { retry: false, fallback: true },
+  },
+};
+
+const CONTEXT_LENGTH_PATTERN = /context length|context window|too many tokens|maximum context|prompt is too long/i;
+const NETWORK_PATTERN = /fetch failed|network|ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENOTFOUND|socket hang up/i;
+
+export function classifyError(error: unknown): LLMErrorClass {
+  if (RetryError.isInstance(error)) {
+    return classifyError(error.lastError);
+  }
+
+  if (error instanceof Error && error.name === 'AbortError') {
+    return 'aborted';
+  }
+
+  if (LoadAPIKeyError.isInstance(error)) {
+    return 'auth';
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (APICallError.isInstance(error) && error.statusCode !== undefined) {
+    const { statusCode } = error;
+
+    if (statusCode === 429) {
+      return 'rate_limit';
+    }
+
+    if (statusCode === 401 || statusCode === 403) {
+      return 'auth';
+    }
+
+    if (statusCode >= 500 || statusCode === 408) {
+      return 'server';
+    }
+
+    if (CONTEXT_LENGTH_PATTERN.test(message) || CONTEXT_LENGTH_PATTERN.test(error.responseBody ?? '')) {
+      return 'context_length';
+    }
+
+    return 'bad_request';
+  }
+
+  if (CONTEXT_LENGTH_PATTERN.test(message)) {
+    return 'context_length';
+  }
+
+  if (/rate limit|overloaded/i.test(message)) {
+    return 'rate_limit';
+  }
+
+  if (NETWORK_PATTERN.test(message)) {
+    return 'network';
+  }
+
+  if (/api key|unauthorized/i.test(message)) {
+    return 'auth';
+  }
+
+  return 'unknown';
+}
+
+// exponential backoff with full jitter, attempt starts at 0
+export function getBackoffDelay(attempt: number, policy: RetryPolicy, random = Math.random) {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + (random() * ceiling) / 2);
+}
+
+// parses a fallback chain like `Anthropic:claude-3-5-sonnet-latest,OpenAI:gpt-4o,Ollama`
+export function parseFallbackChain(value?: string): FallbackTarget[] {
+  if (!value) {
+    return [];
+  }
+
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+
+      if (separator === -1) {
+        return { provider: entry };
+      }
+
+      return { provider: entry.slice(0, separator).trim(), model: entry.slice(separator + 1).trim() || undefined };
+    });
+}
+
+// policy overrides from the server environment
+export function getRetryPolicy(env?: Record<string, string | undefined>): RetryPolicy {
+  const read = (key: string, fallback: number) => {
+    const value = Number(env?.[key] ?? process?.env?.[key]);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    maxRetries: read('LLM_MAX_RETRIES', DEFAULT_RETRY_POLICY.maxRetries),
+    baseDelayMs: read('LLM_RETRY_BASE_DELAY_MS', DEFAULT_RETRY_POLICY.baseDelayMs),
+  };
+}
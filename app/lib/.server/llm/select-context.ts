@@ -21,9 +21,12 @@ export async function selectContext(props: {
   promptId?: string;
   contextOptimization?: boolean;
   summary: string;
+
+  // relative paths the model may choose from, e.g. the files ranked highest by the retrieval index
+  candidatePaths?: string[];
   onFinish?: (resp: GenerateTextResult<Record<string, CoreTool<any, any>>, never>) => void;
 }) {
-  const { messages, env: serverEnv, apiKeys, files, providerSettings, summary, onFinish } = props;
+  const { messages, env: serverEnv, apiKeys, files, providerSettings, summary, candidatePaths, onFinish } = props;
   let currentModel = DEFAULT_MODEL;
   let currentProvider = DEFAULT_PROVIDER.name;
   const processedMessages = messages.map((message) => {
@@ -81,7 +84,7 @@ export async function selectContext(props: {
   let filePaths = getFilePaths(files || {});
   filePaths = filePaths.filter((x) => {
     const relPath = x.replace('/home/project/', '');
-    return !ig.ignores(relPath);
+    return !ig.ignores(relPath) && (!candidatePaths || candidatePaths.includes(relPath));
   });
 
   let context = '';
@@ -0,0 +1,155 @@
+import { APICallError, type LanguageModelV1 } from 'ai';
+import { MockLanguageModelV1, simulateReadableStream } from 'ai/test';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { TokenBudgetAnnotation } from '~/types/context';
+import { PROVIDER_LIST } from '~/utils/constants';
+import { DEFAULT_RETRY_POLICY, type FallbackEvent } from './fallback';
+import { streamText } from './stream-text';
+
+const retryPolicy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 10, maxDelayMs: 20 };
+
+function getProvider(name: string) {
+  return PROVIDER_LIST.find((provider) => provider.name === name)!;
+}
+
+function userMessage(provider: string, model: string) {
+  return { role: 'user' as const, content: `[Model: ${model}]\n\n[Provider: ${provider}]\n\nBuild a todo app` };
+}
+
+// a model that answers with `text`, `doStream` records the calls
+function answeringModel(text: string) {
+  const doStream = vi.fn<LanguageModelV1['doStream']>(async () => ({
+    stream: simulateReadableStream({
+      chunks: [
+        { type: 'text-delta' as const, textDelta: text },
+        { type: 'finish' as const, finishReason: 'stop' as const, usage: { promptTokens: 1, completionTokens: 1 } },
+      ],
+    }),
+    rawCall: { rawPrompt: null, rawSettings: {} },
+  }));
+
+  return Object.assign(new MockLanguageModelV1({ doStream }), { doStream });
+}
+
+// a model whose calls fail with `statusCode`
+function failingModel(statusCode: number) {
+  const doStream = vi.fn<LanguageModelV1['doStream']>(async () => {
+    throw new APICallError({ message: 'failed', url: 'https://example.com', requestBodyValues: {}, statusCode });
+  });
+
+  return Object.assign(new MockLanguageModelV1({ doStream }), { doStream });
+}
+
+async function readText(result: Awaited<ReturnType<typeof streamText>>) {
+  let text = '';
+
+  for await (const delta of result.textStream) {
+    text += delta;
+  }
+
+  return text;
+}
+
+describe('streamText', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should keep prompt and output within the context window of the model', async () => {
+    const model = answeringModel('Hello');
+    const budgets: TokenBudgetAnnotation[] = [];
+
+    vi.spyOn(getProvider('OpenAI'), 'getModelInstance').mockReturnValue(model);
+
+    const result = await streamText({
+      messages: [userMessage('OpenAI', 'gpt-4')],
+      onTokenBudget: (annotation) => budgets.push(annotation),
+    });
+
+    expect(await readText(result)).toBe('Hello');
+
+    // gpt-4 allows 8000 output tokens but only has a 8192 token window
+    const { maxTokens } = model.doStream.mock.calls[0][0];
+
+    expect(maxTokens).toBeLessThanOrEqual(4096);
+    expect(budgets[0]).toMatchObject({ contextWindow: 8192, outputTokens: maxTokens });
+    expect(budgets[0].total + maxTokens!).toBeLessThanOrEqual(8192);
+  });
+
+  it('should retry with backoff and then fall back to the next model of the chain', async () => {
+    const primary = failingModel(429);
+    const fallback = answeringModel('Hello from Claude');
+    const events: FallbackEvent[] = [];
+    const setTimeoutSpy = vi.spyOn(globalThis, 'setTimeout');
+
+    // no jitter
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+
+    vi.spyOn(getProvider('OpenAI'), 'getModelInstance').mockReturnValue(primary);
+    vi.spyOn(getProvider('Anthropic'), 'getModelInstance').mockReturnValue(fallback);
+
+    const result = await streamText({
+      messages: [userMessage('OpenAI', 'gpt-4o')],
+      fallbackChain: [{ provider: 'Anthropic', model: 'claude-3-5-sonnet-latest' }],
+      retryPolicy,
+      onFallback: (event) => events.push(event),
+    });
+
+    expect(await readText(result)).toBe('Hello from Claude');
+    expect(primary.doStream).toHaveBeenCalledTimes(retryPolicy.maxRetries + 1);
+    expect(fallback.doStream).toHaveBeenCalledTimes(1);
+
+    // one backoff per retry, doubling with each attempt
+    const delays = setTimeoutSpy.mock.calls.map(([, delay]) => delay).filter(Boolean);
+
+    expect(delays).toEqual([10, 20]);
+
+    expect(events).toEqual([
+      {
+        from: { provider: 'OpenAI', model: 'gpt-4o' },
+        to: { provider: 'Anthropic', model: 'claude-3-5-sonnet-latest' },
+        errorClass: 'rate_limit',
+        error: 'failed',
+      },
+    ]);
+  });
+
+  it('should fall back after server errors when retries are turned off', async () => {
+    const primary = failingModel(503);
+    const fallback = answeringModel('Hello');
+
+    vi.spyOn(getProvider('OpenAI'), 'getModelInstance').mockReturnValue(primary);
+    vi.spyOn(getProvider('Anthropic'), 'getModelInstance').mockReturnValue(fallback);
+
+    const result = await streamText({
+      messages: [userMessage('OpenAI', 'gpt-4o')],
+      fallbackChain: [{ provider: 'Anthropic', model: 'claude-3-5-sonnet-latest' }],
+      retryPolicy: { ...retryPolicy, maxRetries: 0 },
+    });
+
+    expect(await readText(result)).toBe('Hello');
+    expect(primary.doStream).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw bad requests without retrying or falling back', async () => {
+    const primary = failingModel(400);
+    const fallback = answeringModel('Hello');
+    const onFallback = vi.fn();
+
+    vi.spyOn(getProvider('OpenAI'), 'getModelInstance').mockReturnValue(primary);
+    vi.spyOn(getProvider('Anthropic'), 'getModelInstance').mockReturnValue(fallback);
+
+    await expect(
+      streamText({
+        messages: [userMessage('OpenAI', 'gpt-4o')],
+        fallbackChain: [{ provider: 'Anthropic' }],
+        retryPolicy,
+        onFallback,
+      }),
+    ).rejects.toMatchObject({ statusCode: 400 });
+
+    expect(primary.doStream).toHaveBeenCalledTimes(1);
+    expect(fallback.doStream).not.toHaveBeenCalled();
+    expect(onFallback).not.toHaveBeenCalled();
+  });
+});
@@ -1,6 +1,8 @@
 import { convertToCoreMessages, streamText as _streamText, type Message } from 'ai';
+import type { BaseProvider } from '~/lib/modules/llm/base-provider';
+import type { ModelInfo } from '~/lib/modules/llm/types';
 import { MAX_TOKENS, type FileMap } from './constants';
-import { getSystemPrompt } from '~/lib/common/prompts/prompts';
+import { getAgentPrompt, getRepairPrompt, getSystemPrompt } from '~/lib/common/prompts/prompts';
 import { DEFAULT_MODEL, DEFAULT_PROVIDER, MODIFICATIONS_TAG_NAME, PROVIDER_LIST, WORK_DIR } from '~/utils/constants';
 import type { IProviderSetting } from '~/types/model';
 import { PromptLibrary } from '~/lib/common/prompt-library';
@@ -8,7 +10,20 @@ import { allowedHTMLElements } from '~/utils/markdown';
 import { LLMManager } from '~/lib/modules/llm/manager';
 import { createScopedLogger } from '~/utils/logger';
 import { createFilesContext, extractPropertiesFromMessage } from './utils';
+import type { RepairRequest, TokenBudgetAnnotation } from '~/types/context';
+import type { AgentRequest } from '~/types/agent';
+import { countAgentSteps, getAgentStepLimit, getAgentTools } from './agent-tools';
 import { getFilePaths } from './select-context';
+import { fitToBudget, getContextWindow, type BudgetResult, type ContextFile } from './token-budget';
+import {
+  classifyError,
+  getBackoffDelay,
+  getRetryPolicy,
+  parseFallbackChain,
+  type FallbackEvent,
+  type FallbackTarget,
+  type RetryPolicy,
+} from './fallback';
 
 export type Messages = Message[];
 
@@ -16,6 +31,80 @@ export type StreamingOptions = Omit<Parameters<typeof _streamText>[0], 'model'>;
 
 const logger = createScopedLogger('stream-text');
 
+// smallest answer a model is asked for, even when the prompt leaves less of its context window
+const MIN_OUTPUT_TOKENS = 1024;
+
+interface ResolvedModel {
+  provider: BaseProvider;
+  modelDetails: ModelInfo;
+}
+
+async function resolveModel(
+  provider: BaseProvider,
+  modelName: string | undefined,
+  options: { apiKeys?: Record<string, string>; providerSettings?: Record<string, IProviderSetting>; serverEnv?: Env },
+): Promise<ResolvedModel> {
+  const { apiKeys, providerSettings, serverEnv } = options;
+  const staticModels = LLMManager.getInstance().getStaticModelListFromProvider(provider);
+  let modelDetails = staticModels.find((m) => m.name === modelName);
+
+  if (!modelDetails) {
+    const modelsList = [
+      ...(provider.staticModels || []),
+      ...(await LLMManager.getInstance().getModelListFromProvider(provider, {
+        apiKeys,
+        providerSettings,
+        serverEnv: serverEnv as any,
+      })),
+    ];
+
+    if (!modelsList.length) {
+      throw new Error(`No models found for provider ${provider.name}`);
+    }
+
+    modelDetails = modelsList.find((m) => m.name === modelName);
+
+    if (!modelDetails) {
+      // Fallback to first model
+      logger.warn(
+        `MODEL [${modelName}] not found in provider [${provider.name}]. Falling back to first model. ${modelsList[0].name}`,
+      );
+      modelDetails = modelsList[0];
+    }
+  }
+
+  return { provider, modelDetails };
+}
+
+/*
+ * Resolves with the error of a stream that fails before producing any output, or undefined
+ * once the model starts answering. `fullStream` is a tee of the result, reading it here
+ * doesn't take anything away from the consumers of the returned result.
+ */
+async function waitForFirstChunk(result: ReturnType<typeof _streamText>): Promise<unknown> {
+  const reader = result.fullStream.getReader();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+
+      if (done) {
+        return undefined;
+      }
+
+      if (value.type === 'error') {
+        return value.error ?? new Error('Unknown stream error');
+      }
+
+      if (value.type !== 'step-start') {
+        return undefined;
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+}
+
 export async function streamText(props: {
   messages: Omit<Message, 'id'>[];
   env?: Env;
@@ -28,6 +117,20 @@ export async function streamText(props: {
   contextFiles?: FileMap;
   summary?: string;
   messageSliceId?: number;
+
+  // models to try when the requested one keeps failing, defaults to LLM_FALLBACK_CHAIN
+  fallbackChain?: FallbackTarget[];
+  retryPolicy?: RetryPolicy;
+  onFallback?: (event: FallbackEvent) => void;
+
+  // set when auto-fix sent the last message, adds the repair instructions to the system prompt
+  repair?: RepairRequest;
+
+  // set when agent mode is on, models of providers that support tools get the agent tools
+  agent?: AgentRequest;
+
+  // receives how the prompt was fitted to the context window of the model that answers
+  onTokenBudget?: (annotation: TokenBudgetAnnotation) => void;
 }) {
   const {
     messages,
@@ -40,6 +143,10 @@ export async function streamText(props: {
     contextOptimization,
     contextFiles,
     summary,
+    onFallback,
+    repair,
+    agent,
+    onTokenBudget,
   } = props;
   let currentModel = DEFAULT_MODEL;
   let currentProvider = DEFAULT_PROVIDER.name;
@@ -62,51 +169,182 @@ export async function streamText(props: {
   });
 
   const provider = PROVIDER_LIST.find((p) => p.name === currentProvider) || DEFAULT_PROVIDER;
-  const staticModels = LLMManager.getInstance().getStaticModelListFromProvider(provider);
-  let modelDetails = staticModels.find((m) => m.name === currentModel);
+  const primary = await resolveModel(provider, currentModel, { apiKeys, providerSettings, serverEnv });
 
-  if (!modelDetails) {
-    const modelsList = [
-      ...(provider.staticModels || []),
-      ...(await LLMManager.getInstance().getModelListFromProvider(provider, {
-        apiKeys,
-        providerSettings,
-        serverEnv: serverEnv as any,
-      })),
-    ];
+  const basePrompt =
+    PromptLibrary.getPropmtFromLibrary(promptId || 'default', {
+      cwd: WORK_DIR,
+      allowedHtmlElements: allowedHTMLElements,
+      modificationTagName: MODIFICATIONS_TAG_NAME,
+    }) ?? getSystemPrompt();
+  const repairPrompt = repair ? getRepairPrompt(repair.attempt, repair.maxAttempts) : undefined;
+  const useContextBuffer = !!(files && contextFiles && contextOptimization);
 
-    if (!modelsList.length) {
-      throw new Error(`No models found for provider ${provider.name}`);
+  // most relevant first, the order the files were selected in
+  const bufferFiles: ContextFile[] = useContextBuffer
+    ? Object.entries(contextFiles!).flatMap(([path, dirent]) =>
+        dirent?.type === 'file' && !dirent.isBinary ? [{ path, content: dirent.content }] : [],
+      )
+    : [];
+
+  if (useContextBuffer && summary) {
+    if (props.messageSliceId) {
+      processedMessages = processedMessages.slice(props.messageSliceId);
+    } else {
+      const lastMessage = processedMessages.pop();
+
+      if (lastMessage) {
+        processedMessages = [lastMessage];
+      }
     }
+  }
 
-    modelDetails = modelsList.find((m) => m.name === currentModel);
+  const fallbackChain = (
+    props.fallbackChain ?? parseFallbackChain(serverEnv?.LLM_FALLBACK_CHAIN ?? process?.env?.LLM_FALLBACK_CHAIN)
+  ).filter((target) => target.provider !== primary.provider.name || target.model !== primary.modelDetails.name);
+  const retryPolicy = props.retryPolicy ?? getRetryPolicy(serverEnv as unknown as Record<string, string | undefined>);
+
+  /*
+   * once the step limit is reached the model has to answer without calling tools, the tools stay
+   * declared because providers like Anthropic reject tool parts in the history without them
+   */
+  const agentStepsLeft = agent
+    ? Math.max(getAgentStepLimit(agent.maxSteps) - countAgentSteps(processedMessages), 0)
+    : 0;
+  const agentTools = agent && agent.tools.length > 0 ? getAgentTools(agent.tools) : undefined;
+  const toolChoice = agentStepsLeft > 0 ? ('auto' as const) : ('none' as const);
+
+  let current: ResolvedModel | undefined = primary;
+  let remaining = fallbackChain;
+  let lastError: unknown;
+
+  while (current) {
+    const { provider: modelProvider, modelDetails } = current;
+    const dynamicMaxTokens = modelDetails && modelDetails.maxTokenAllowed ? modelDetails.maxTokenAllowed : MAX_TOKENS;
+    const tools = modelProvider.supportsTools ? agentTools : undefined;
+    const instructions = [repairPrompt, tools && agentStepsLeft > 0 && getAgentPrompt(agentStepsLeft)]
+      .filter(Boolean)
+      .join('\n');
+
+    /*
+     * the prompt is fitted to each model, a fallback may have a smaller context window, and the output is
+     * capped to what is left of the window so that prompt and answer fit together
+     */
+    const contextWindow = getContextWindow(modelDetails);
+    const outputLimit = Math.min(dynamicMaxTokens, Math.floor(contextWindow / 2));
+    const fitted = fitToBudget({
+      budget: contextWindow - outputLimit,
+      system: `${basePrompt}\n${instructions}`,
+      summary: useContextBuffer ? summary : undefined,
+      filePaths: useContextBuffer ? getFilePaths(files!) : [],
+      files: bufferFiles,
+      messages: processedMessages,
+    });
+    const promptTokens = Object.values(fitted.sections).reduce((sum, tokens) => sum + tokens, 0);
+
+    // parts that are never trimmed, like the system prompt, can overrun the budget, the answer gets what is left
+    const outputTokens = Math.max(Math.min(outputLimit, contextWindow - promptTokens), MIN_OUTPUT_TOKENS);
+    const systemPrompt = buildSystemPrompt(basePrompt, instructions, useContextBuffer, fitted);
+    const coreMessages = convertToCoreMessages(fitted.messages as any);
+
+    for (let attempt = 0; ; attempt++) {
+      logger.info(`Sending llm call to ${modelProvider.name} with model ${modelDetails.name}`);
+
+      try {
+        const result = _streamText({
+          model: modelProvider.getModelInstance({
+            model: modelDetails.name,
+            serverEnv,
+            apiKeys,
+            providerSettings,
+          }),
+          system: systemPrompt,
+          maxTokens: outputTokens,
+          messages: coreMessages,
+
+          // retries are handled below so that they can end in a fallback
+          maxRetries: 0,
+          ...options,
+          ...(tools && { tools, toolChoice }),
+        });
+
+        lastError = await waitForFirstChunk(result);
+
+        if (lastError === undefined) {
+          onTokenBudget?.({
+            type: 'tokenBudget',
+            model: modelDetails.name,
+            contextWindow,
+            outputTokens,
+            total: promptTokens,
+            estimated: true,
+            sections: fitted.sections,
+            trimmed: fitted.trimmed,
+          });
+
+          return result;
+        }
+      } catch (error) {
+        lastError = error;
+      }
+
+      const errorClass = classifyError(lastError);
+      const rule = retryPolicy.rules[errorClass];
 
-    if (!modelDetails) {
-      // Fallback to first model
       logger.warn(
-        `MODEL [${currentModel}] not found in provider [${provider.name}]. Falling back to first model. ${modelsList[0].name}`,
+        `${modelProvider.name}/${modelDetails.name} failed (${errorClass}, attempt ${attempt + 1})`,
+        lastError,
       );
-      modelDetails = modelsList[0];
+
+      if (rule.retry && attempt < retryPolicy.maxRetries) {
+        await new Promise((resolve) => setTimeout(resolve, getBackoffDelay(attempt, retryPolicy)));
+        continue;
+      }
+
+      if (!rule.fallback) {
+        throw lastError;
+      }
+
+      const next = await resolveFallback(remaining, { apiKeys, providerSettings, serverEnv });
+      current = next?.model;
+      remaining = next?.remaining ?? [];
+
+      if (current) {
+        onFallback?.({
+          from: { provider: modelProvider.name, model: modelDetails.name },
+          to: { provider: current.provider.name, model: current.modelDetails.name },
+          errorClass,
+          error: lastError instanceof Error ? lastError.message : String(lastError),
+        });
+      }
+
+      break;
     }
   }
 
-  const dynamicMaxTokens = modelDetails && modelDetails.maxTokenAllowed ? modelDetails.maxTokenAllowed : MAX_TOKENS;
+  throw lastError;
+}
 
-  let systemPrompt =
-    PromptLibrary.getPropmtFromLibrary(promptId || 'default', {
-      cwd: WORK_DIR,
-      allowedHtmlElements: allowedHTMLElements,
-      modificationTagName: MODIFICATIONS_TAG_NAME,
-    }) ?? getSystemPrompt();
+function buildSystemPrompt(
+  basePrompt: string,
+  instructions: string,
+  useContextBuffer: boolean,
+  fitted: BudgetResult<Omit<Message, 'id'>>,
+) {
+  let systemPrompt = basePrompt;
 
-  if (files && contextFiles && contextOptimization) {
-    const codeContext = createFilesContext(contextFiles, true);
-    const filePaths = getFilePaths(files);
+  if (useContextBuffer) {
+    const codeContext = createFilesContext(
+      Object.fromEntries(
+        fitted.files.map(({ path, content }) => [path, { type: 'file' as const, content, isBinary: false }]),
+      ),
+      true,
+    );
 
     systemPrompt = `${systemPrompt}
 Below are all the files present in the project:
 ---
-${filePaths.join('\n')}
+${fitted.filePaths.join('\n')}
 ---
 
 Below is the artifact containing the context loaded into context buffer for you to have knowledge of and might need changes to fullfill current user request.
@@ -116,41 +354,43 @@ ${codeContext}
 ---
 `;
 
-    if (summary) {
+    if (fitted.summary) {
       systemPrompt = `${systemPrompt}
       below is the chat history till now
 CHAT SUMMARY:
 ---
-${props.summary}
+${fitted.summary}
 ---
 `;
+    }
+  }
 
-      if (props.messageSliceId) {
-        processedMessages = processedMessages.slice(props.messageSliceId);
-      } else {
-        const lastMessage = processedMessages.pop();
+  if (fitted.trimmed.messages > 0) {
+    systemPrompt = `${systemPrompt}\n${fitted.trimmed.messages} earlier messages of the chat were left out to fit the context window.`;
+  }
 
-        if (lastMessage) {
-          processedMessages = [lastMessage];
-        }
-      }
+  return instructions ? `${systemPrompt}\n${instructions}` : systemPrompt;
+}
+
+// first usable entry of the remaining chain, entries with unknown providers are skipped
+async function resolveFallback(
+  chain: FallbackTarget[],
+  options: { apiKeys?: Record<string, string>; providerSettings?: Record<string, IProviderSetting>; serverEnv?: Env },
+) {
+  for (const [index, target] of chain.entries()) {
+    const provider = PROVIDER_LIST.find((p) => p.name === target.provider);
+
+    if (!provider) {
+      logger.warn(`Unknown provider [${target.provider}] in fallback chain, skipping`);
+      continue;
+    }
+
+    try {
+      return { model: await resolveModel(provider, target.model, options), remaining: chain.slice(index + 1) };
+    } catch (error) {
+      logger.warn(`Could not resolve fallback model ${target.provider}/${target.model ?? 'default'}`, error);
     }
   }
 
-  logger.info(`Sending llm call to ${provider.name} with model ${modelDetails.name}`);
-
-  // console.log(systemPrompt,processedMessages);
-
-  return await _streamText({
-    model: provider.getModelInstance({
-      model: modelDetails.name,
-      serverEnv,
-      apiKeys,
-      providerSettings,
-    }),
-    system: systemPrompt,
-    maxTokens: dynamicMaxTokens,
-    messages: convertToCoreMessages(processedMessages as any),
-    ...options,
-  });
+  return undefined;
 }
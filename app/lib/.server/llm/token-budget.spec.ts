@@ -0,0 +1,104 @@
+import type { Message } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { PROVIDER_LIST } from '~/utils/constants';
+import { estimateTokens, fitToBudget, getContextWindow, outlineFile } from './token-budget';
+
+const model = (name: string, contextWindow?: number) => ({
+  name,
+  label: name,
+  provider: 'Test',
+  maxTokenAllowed: 8000,
+  contextWindow,
+});
+
+const words = (count: number) => Array.from({ length: count }, (_, i) => `word${i % 10}`).join(' ');
+
+describe('estimateTokens', () => {
+  it('should count words, digit groups and symbols', () => {
+    expect(estimateTokens('hello world')).toBe(2);
+    expect(estimateTokens('1234567')).toBe(3);
+    expect(estimateTokens('a(b);')).toBe(5);
+    expect(estimateTokens('')).toBe(0);
+  });
+});
+
+describe('getContextWindow', () => {
+  it('should use the context window of the model info', () => {
+    expect(getContextWindow(model('claude-3-5-sonnet-latest', 200_000))).toBe(200_000);
+    expect(getContextWindow(model('llama3.1:8b', 4096))).toBe(4096);
+    expect(getContextWindow(model('some-local-model'))).toBe(32_768);
+  });
+
+  it('should know the context window of every static model', () => {
+    const models = PROVIDER_LIST.flatMap((provider) => provider.staticModels);
+
+    expect(models.filter((info) => !info.contextWindow).map((info) => info.name)).toEqual([]);
+  });
+});
+
+describe('outlineFile', () => {
+  it('should keep the declarations', () => {
+    const outline = outlineFile("import a from 'a';\n\nexport function run() {\n  return a;\n}\n");
+
+    expect(outline.split('\n').slice(1)).toEqual(["import a from 'a';", 'export function run() {']);
+  });
+});
+
+describe('fitToBudget', () => {
+  const messages: Omit<Message, 'id'>[] = [
+    { role: 'user', content: words(200) },
+    { role: 'assistant', content: words(200) },
+    { role: 'user', content: 'change the header' },
+  ];
+  const files = [
+    { path: 'src/Header.tsx', content: `export function Header() {}\n${words(300)}` },
+    { path: 'src/Footer.tsx', content: `export function Footer() {}\n${words(300)}` },
+  ];
+
+  it('should leave everything in place when it fits', () => {
+    const result = fitToBudget({ budget: 100_000, system: 'system', filePaths: [], files, messages });
+
+    expect(result.messages).toHaveLength(3);
+    expect(result.files).toEqual(files);
+    expect(result.trimmed).toEqual({
+      messages: 0,
+      fileListEntries: 0,
+      outlinedFiles: [],
+      droppedFiles: [],
+      summary: false,
+    });
+  });
+
+  it('should drop old messages before touching the context files', () => {
+    const result = fitToBudget({ budget: 1500, system: 'system', filePaths: [], files, messages });
+
+    expect(result.messages).toEqual([messages[2]]);
+    expect(result.trimmed.messages).toBe(2);
+    expect(result.trimmed.outlinedFiles).toEqual([]);
+  });
+
+  it('should outline and then drop the least relevant files', () => {
+    const outlined = fitToBudget({ budget: 700, system: 'system', filePaths: [], files, messages });
+
+    expect(outlined.trimmed.outlinedFiles).toEqual(['src/Footer.tsx']);
+    expect(outlined.files[1].content).toContain('export function Footer() {}');
+
+    const dropped = fitToBudget({ budget: 20, system: 'system', filePaths: [], files, messages });
+
+    expect(dropped.trimmed.droppedFiles).toEqual(['src/Footer.tsx', 'src/Header.tsx']);
+    expect(dropped.files).toEqual([]);
+    expect(dropped.messages).toEqual([messages[2]]);
+  });
+
+  it('should keep the paths of the context files when cutting the file list', () => {
+    const filePaths = [
+      '/home/project/src/Header.tsx',
+      ...Array.from({ length: 200 }, (_, i) => `/home/project/src/other${i}.ts`),
+    ];
+    const result = fitToBudget({ budget: 1500, system: 'system', filePaths, files, messages: [messages[2]] });
+
+    expect(result.filePaths[0]).toBe('/home/project/src/Header.tsx');
+    expect(result.filePaths.at(-1)).toBe(`... ${result.trimmed.fileListEntries} more files`);
+    expect(result.trimmed.outlinedFiles).toEqual([]);
+  });
+});
@@ -0,0 +1,201 @@
+import type { Message } from 'ai';
+import type { ModelInfo } from '~/lib/modules/llm/types';
+import type { TokenBudgetSections, TokenBudgetTrimmed } from '~/types/context';
+
+/*
+ * Measures the parts of a prompt and shortens the least important ones until it fits the context
+ * window of the model: older messages go first, then the list of project files, then the context
+ * files are reduced to outlines and dropped, least relevant first, and last the chat summary.
+ */
+
+const DEFAULT_CONTEXT_WINDOW = 32_768;
+
+// role markers and separators the providers add around each message
+const MESSAGE_OVERHEAD = 4;
+
+// what providers charge for an image of common screenshot size
+const IMAGE_TOKENS = 1_000;
+
+// declarations kept when a context file is reduced to its outline
+const OUTLINE_REGEX =
+  /^\s{0,2}(export|import|function|async function|class|interface|type|enum|const|let|var|def|module\.exports)\b/;
+
+// models that don't report their context window, e.g. local ones, get a conservative default
+export function getContextWindow(model: ModelInfo) {
+  return model.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Estimated token count of a text. No tokenizer is bundled, their vocabularies would take a large part
+ * of the worker size limit. This comes close to what the BPE tokenizers of the common providers produce:
+ * short words are one token together with the space before them, long identifiers are split,
+ * numbers are split into groups of three digits and every other symbol is a token of its own.
+ */
+export function estimateTokens(text: string) {
+  let tokens = 0;
+
+  for (const [piece] of text.matchAll(/[A-Za-z]+|\d+|\s+|[^\sA-Za-z\d]/g)) {
+    if (/^[A-Za-z]/.test(piece)) {
+      tokens += Math.ceil(piece.length / 6);
+    } else if (/^\d/.test(piece)) {
+      tokens += Math.ceil(piece.length / 3);
+    } else if (/^\s/.test(piece)) {
+      // a single space joins the next word, indentation and line breaks are tokens
+      tokens += piece === ' ' ? 0 : 1;
+    } else {
+      tokens++;
+    }
+  }
+
+  return tokens;
+}
+
+export function estimateMessageTokens(message: Omit<Message, 'id'>) {
+  const content = message.content as string | { type: string; text?: string }[];
+  let tokens = MESSAGE_OVERHEAD;
+
+  if (typeof content === 'string') {
+    tokens += estimateTokens(content);
+  } else if (Array.isArray(content)) {
+    for (const part of content) {
+      tokens += part.type === 'text' ? estimateTokens(part.text ?? '') : IMAGE_TOKENS;
+    }
+  }
+
+  if (message.toolInvocations?.length) {
+    tokens += estimateTokens(JSON.stringify(message.toolInvocations));
+  }
+
+  return tokens;
+}
+
+// the declarations of a file, used in place of its content when the whole file doesn't fit
+export function outlineFile(content: string) {
+  const lines = content.split('\n');
+  const outline = lines.filter((line) => OUTLINE_REGEX.test(line));
+
+  return [
+    `// outline of ${lines.length} lines, the full file did not fit in the context window, read it before changing it`,
+    ...outline,
+  ].join('\n');
+}
+
+export interface ContextFile {
+  path: string;
+  content: string;
+}
+
+export interface BudgetInput<M extends Omit<Message, 'id'>> {
+  // tokens the prompt may take, the context window minus what is kept free for the answer
+  budget: number;
+  system: string;
+  summary?: string;
+  filePaths: string[];
+
+  // the context buffer, most relevant first
+  files: ContextFile[];
+
+  // oldest first, the messages from the last user message on are always kept
+  messages: M[];
+}
+
+export interface BudgetResult<M extends Omit<Message, 'id'>> {
+  summary?: string;
+  filePaths: string[];
+  files: ContextFile[];
+  messages: M[];
+  sections: TokenBudgetSections;
+  trimmed: TokenBudgetTrimmed;
+}
+
+export function fitToBudget<M extends Omit<Message, 'id'>>(input: BudgetInput<M>): BudgetResult<M> {
+  const { budget, system } = input;
+  const messageTokens = input.messages.map(estimateMessageTokens);
+  const lastUserIndex = input.messages.findLastIndex((message) => message.role === 'user');
+  const requiredFrom = lastUserIndex >= 0 ? lastUserIndex : input.messages.length - 1;
+  const files = input.files.map((file) => ({ ...file, tokens: estimateTokens(file.content) + MESSAGE_OVERHEAD }));
+  const contextPaths = new Set(input.files.map((file) => file.path));
+  const trimmed: TokenBudgetTrimmed = {
+    messages: 0,
+    fileListEntries: 0,
+    outlinedFiles: [],
+    droppedFiles: [],
+    summary: false,
+  };
+
+  let summary = input.summary;
+  let filePaths = input.filePaths;
+  let firstMessage = 0;
+
+  const systemTokens = estimateTokens(system);
+  let summaryTokens = summary ? estimateTokens(summary) : 0;
+  let fileListTokens = estimateTokens(filePaths.join('\n'));
+
+  const sections = (): TokenBudgetSections => ({
+    system: systemTokens,
+    summary: summaryTokens,
+    fileList: fileListTokens,
+    files: files.reduce((sum, file) => sum + file.tokens, 0),
+    history: messageTokens.slice(firstMessage).reduce((sum, tokens) => sum + tokens, 0),
+  });
+  const total = () => Object.values(sections()).reduce((sum, tokens) => sum + tokens, 0);
+
+  while (total() > budget && firstMessage < requiredFrom) {
+    firstMessage++;
+    trimmed.messages++;
+  }
+
+  if (total() > budget && filePaths.length > 0) {
+    // the paths of the context files stay listed, the other ones are cut from the end
+    const excess = total() - budget;
+    const listed = filePaths.filter((filePath) => contextPaths.has(filePath.replace(/^\/home\/project\//, '')));
+    const others = filePaths.filter((filePath) => !listed.includes(filePath));
+    let freed = 0;
+
+    while (others.length > 0 && freed < excess) {
+      freed += estimateTokens(others.pop()!) + 1;
+      trimmed.fileListEntries++;
+    }
+
+    filePaths = [...listed, ...others];
+
+    if (trimmed.fileListEntries > 0) {
+      filePaths.push(`... ${trimmed.fileListEntries} more files`);
+    }
+
+    fileListTokens = estimateTokens(filePaths.join('\n'));
+  }
+
+  for (let i = files.length - 1; i >= 0 && total() > budget; i--) {
+    const content = outlineFile(files[i].content);
+
+    files[i] = { ...files[i], content, tokens: estimateTokens(content) + MESSAGE_OVERHEAD };
+    trimmed.outlinedFiles.push(files[i].path);
+  }
+
+  while (files.length > 0 && total() > budget) {
+    const dropped = files.pop()!;
+
+    trimmed.droppedFiles.push(dropped.path);
+    trimmed.outlinedFiles = trimmed.outlinedFiles.filter((filePath) => filePath !== dropped.path);
+  }
+
+  if (summary && total() > budget) {
+    // the end of the summary is about the latest messages, it is kept
+    const available = budget - (total() - summaryTokens);
+    const keep = available > 0 ? Math.floor(summary.length * (available / summaryTokens)) : 0;
+
+    summary = keep > 0 ? summary.slice(-keep) : undefined;
+    summaryTokens = summary ? estimateTokens(summary) : 0;
+    trimmed.summary = true;
+  }
+
+  return {
+    summary,
+    filePaths,
+    files: files.map(({ path, content }) => ({ path, content })),
+    messages: input.messages.slice(firstMessage),
+    sections: sections(),
+    trimmed,
+  };
+}
@@ -0,0 +1,16 @@
+import { getObjectStore } from '~/lib/.server/storage';
+import { KeyValueProjectStorage } from './project-storage';
+import type { ProjectStorage } from './types';
+
+export * from './types';
+export {
+  KeyValueProjectStorage,
+  canAccessProject,
+  diffProjectFiles,
+  diffSnapshots,
+  isValidProjectId,
+} from './project-storage';
+
+export function getProjectStorage(env?: Partial<Env>): ProjectStorage {
+  return new KeyValueProjectStorage(getObjectStore(env));
+}
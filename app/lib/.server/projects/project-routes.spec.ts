@@ -0,0 +1,54 @@
+import type { AppLoadContext } from '@remix-run/cloudflare';
+import { describe, expect, it } from 'vitest';
+import { ApiClientStore } from '~/lib/.server/auth/api-clients';
+import { getKeyValueStore } from '~/lib/.server/storage';
+import { action as writeFile, loader as readFile } from '~/routes/api.fs.$';
+import { loader as listSnapshots } from '~/routes/api.projects.$id.snapshots';
+
+// route modules can't have specs next to them, Remix would pick those up as routes
+
+// without bindings projects live in the in-memory store of the worker
+const context = { cloudflare: { env: {} } } as unknown as AppLoadContext;
+
+function fsRequest(apiKey: string | undefined, init: RequestInit = {}) {
+  return new Request('https://bolt.example.com/api/fs/index.js?projectId=scoped-project', {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(apiKey ? { 'X-API-Key': apiKey } : {}) },
+  });
+}
+
+describe('project routes', () => {
+  it('should only let the API client that created a project read and write it', async () => {
+    const clients = new ApiClientStore(getKeyValueStore());
+    const scopes = ['status:read' as const, 'requirements:submit' as const];
+    const owner = await clients.register({ name: 'owner', scopes });
+    const other = await clients.register({ name: 'other', scopes });
+    const params = { '*': 'index.js' };
+
+    const write = (apiKey?: string) =>
+      writeFile({
+        request: fsRequest(apiKey, { method: 'POST', body: JSON.stringify({ content: 'console.log(1);' }) }),
+        context,
+        params,
+      }) as Promise<Response>;
+    const read = (apiKey?: string) => readFile({ request: fsRequest(apiKey), context, params }) as Promise<Response>;
+
+    expect((await write(owner.apiKey)).status).toBe(200);
+    expect(await (await read(owner.apiKey)).text()).toBe('console.log(1);');
+
+    expect((await write(other.apiKey)).status).toBe(404);
+    expect((await write()).status).toBe(404);
+    expect((await read(other.apiKey)).status).toBe(404);
+    expect((await read()).status).toBe(404);
+
+    const history = (await listSnapshots({
+      request: new Request('https://bolt.example.com/api/projects/scoped-project/snapshots', {
+        headers: { 'X-API-Key': other.apiKey },
+      }),
+      context,
+      params: { id: 'scoped-project' },
+    })) as Response;
+
+    expect(history.status).toBe(404);
+  });
+});
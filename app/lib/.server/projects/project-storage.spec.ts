@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryKeyValueStore } from '~/lib/.server/storage';
+import { canAccessProject, diffSnapshots, KeyValueProjectStorage } from './project-storage';
+
+describe('KeyValueProjectStorage', () => {
+  it('should chain snapshots to the latest one by default', async () => {
+    const projects = new KeyValueProjectStorage(new MemoryKeyValueStore());
+
+    const first = await projects.saveSnapshot('demo', { 'index.js': 'one' });
+    const second = await projects.saveSnapshot('demo', { 'index.js': 'two' }, { message: 'update' });
+
+    expect(first.parentId).toBeUndefined();
+    expect(second.parentId).toBe(first.id);
+    expect((await projects.listSnapshots('demo')).map((snapshot) => snapshot.id)).toEqual([first.id, second.id]);
+    expect((await projects.getLatestSnapshot('demo'))?.files).toEqual({ 'index.js': 'two' });
+    expect((await projects.getSnapshot('demo', first.id))?.files).toEqual({ 'index.js': 'one' });
+    expect((await projects.getProject('demo'))?.snapshotCount).toBe(2);
+  });
+
+  it('should reject unknown parents and invalid project ids', async () => {
+    const projects = new KeyValueProjectStorage(new MemoryKeyValueStore());
+
+    await expect(projects.saveSnapshot('demo', {}, { parentId: 'missing' })).rejects.toThrow('does not exist');
+    await expect(projects.saveSnapshot('../demo', {})).rejects.toThrow('Invalid project id');
+  });
+
+  it('should keep projects of an API client to that client', async () => {
+    const projects = new KeyValueProjectStorage(new MemoryKeyValueStore());
+
+    await projects.saveSnapshot('owned', { 'index.js': 'one' }, { clientId: 'client_1' });
+    await projects.saveSnapshot('owned', { 'index.js': 'two' }, { clientId: 'client_1' });
+
+    const project = await projects.getProject('owned');
+
+    expect(project?.clientId).toBe('client_1');
+    expect(canAccessProject(project, 'client_1')).toBe(true);
+    expect(canAccessProject(project, 'client_2')).toBe(false);
+    expect(canAccessProject(project, undefined)).toBe(false);
+    expect(canAccessProject(null, 'client_2')).toBe(true);
+    await expect(projects.saveSnapshot('owned', {}, { clientId: 'client_2' })).rejects.toThrow('another API client');
+    await expect(projects.saveSnapshot('owned', {})).rejects.toThrow('another API client');
+  });
+
+  it('should diff the files of two snapshots', async () => {
+    const projects = new KeyValueProjectStorage(new MemoryKeyValueStore());
+
+    const first = await projects.saveSnapshot('demo', { 'a.txt': 'a\n', 'b.txt': 'b\n' });
+    const second = await projects.saveSnapshot('demo', { 'a.txt': 'changed\n', 'c.txt': 'c\n' });
+
+    const diff = diffSnapshots(
+      await projects.getSnapshot('demo', first.id),
+      (await projects.getSnapshot('demo', second.id))!,
+    );
+
+    expect(diff.from).toBe(first.id);
+    expect(diff.files.map(({ path, status }) => [path, status])).toEqual([
+      ['a.txt', 'modified'],
+      ['b.txt', 'removed'],
+      ['c.txt', 'added'],
+    ]);
+  });
+});
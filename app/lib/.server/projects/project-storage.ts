@@ -0,0 +1,162 @@
+import type { KeyValueStore } from '~/lib/.server/storage';
+import { diffFiles } from '~/utils/diff';
+import { createScopedLogger } from '~/utils/logger';
+import type {
+  FileDiff,
+  ProjectFiles,
+  ProjectInfo,
+  ProjectSnapshot,
+  ProjectStorage,
+  SaveSnapshotOptions,
+  SnapshotDiff,
+  SnapshotInfo,
+} from './types';
+
+const logger = createScopedLogger('project-storage');
+
+const KEY_PREFIX = 'projects';
+const PROJECT_ID_PATTERN = /^[\w.-]{1,128}$/;
+
+export function isValidProjectId(projectId: string) {
+  return PROJECT_ID_PATTERN.test(projectId) && !projectId.startsWith('.');
+}
+
+function assertProjectId(projectId: string) {
+  if (!isValidProjectId(projectId)) {
+    throw new Error(`Invalid project id: ${projectId}`);
+  }
+}
+
+/**
+ * Whether `clientId` may read and write a project. Like jobs, projects of an API client are only visible to
+ * that client, and projects created without a key to callers without one. Unknown projects can be created.
+ */
+export function canAccessProject(project: ProjectInfo | null, clientId: string | undefined) {
+  return !project || project.clientId === clientId;
+}
+
+function toSnapshotInfo({ files: _files, ...info }: ProjectSnapshot): SnapshotInfo {
+  return info;
+}
+
+/**
+ * `ProjectStorage` on top of any `KeyValueStore` (memory, KV, R2 or local disk).
+ *
+ * Each snapshot is stored as a single object holding the full file tree; a per
+ * project index keeps the snapshot metadata so history can be listed without
+ * loading every tree.
+ */
+export class KeyValueProjectStorage implements ProjectStorage {
+  constructor(private readonly _store: KeyValueStore) {}
+
+  async getProject(projectId: string): Promise<ProjectInfo | null> {
+    assertProjectId(projectId);
+    return this._store.get<ProjectInfo>(`${KEY_PREFIX}:${projectId}:info`);
+  }
+
+  // oldest first
+  async listSnapshots(projectId: string): Promise<SnapshotInfo[]> {
+    assertProjectId(projectId);
+    return (await this._store.get<SnapshotInfo[]>(`${KEY_PREFIX}:${projectId}:index`)) ?? [];
+  }
+
+  async getSnapshot(projectId: string, snapshotId: string): Promise<ProjectSnapshot | null> {
+    assertProjectId(projectId);
+    return this._store.get<ProjectSnapshot>(snapshotKey(projectId, snapshotId));
+  }
+
+  async getLatestSnapshot(projectId: string): Promise<ProjectSnapshot | null> {
+    const project = await this.getProject(projectId);
+
+    if (!project?.latestSnapshotId) {
+      return null;
+    }
+
+    return this.getSnapshot(projectId, project.latestSnapshotId);
+  }
+
+  async saveSnapshot(projectId: string, files: ProjectFiles, options: SaveSnapshotOptions = {}): Promise<SnapshotInfo> {
+    assertProjectId(projectId);
+
+    const now = Date.now();
+    const project = await this.getProject(projectId);
+
+    if (!canAccessProject(project, options.clientId)) {
+      throw new Error(`Project ${projectId} belongs to another API client`);
+    }
+
+    const parentId = options.parentId === undefined ? project?.latestSnapshotId : (options.parentId ?? undefined);
+
+    if (parentId && !(await this.getSnapshot(projectId, parentId))) {
+      throw new Error(`Parent snapshot ${parentId} does not exist in project ${projectId}`);
+    }
+
+    const snapshot: ProjectSnapshot = {
+      id: `snap_${now.toString(36)}_${crypto.randomUUID().slice(0, 8)}`,
+      projectId,
+      parentId,
+      message: options.message,
+      source: options.source,
+      fileCount: Object.keys(files).length,
+      createdAt: now,
+      files,
+    };
+
+    // the snapshot is written before it becomes reachable from the index and project info
+    await this._store.put(snapshotKey(projectId, snapshot.id), snapshot);
+    await this._store.put(`${KEY_PREFIX}:${projectId}:index`, [
+      ...(await this.listSnapshots(projectId)),
+      toSnapshotInfo(snapshot),
+    ]);
+    await this._store.put<ProjectInfo>(`${KEY_PREFIX}:${projectId}:info`, {
+      id: projectId,
+      clientId: project ? project.clientId : options.clientId,
+      latestSnapshotId: snapshot.id,
+      snapshotCount: (project?.snapshotCount ?? 0) + 1,
+      createdAt: project?.createdAt ?? now,
+      updatedAt: now,
+    });
+
+    logger.info('Saved project snapshot', {
+      projectId,
+      snapshotId: snapshot.id,
+      parentId,
+      fileCount: snapshot.fileCount,
+    });
+
+    return toSnapshotInfo(snapshot);
+  }
+}
+
+function snapshotKey(projectId: string, snapshotId: string) {
+  return `${KEY_PREFIX}:${projectId}:snapshots:${snapshotId}`;
+}
+
+/**
+ * Compares two file trees. `from` may be omitted to describe a first snapshot,
+ * in which case every file is reported as added.
+ */
+export function diffProjectFiles(from: ProjectFiles | undefined, to: ProjectFiles): FileDiff[] {
+  const previous = from ?? {};
+  const paths = new Set([...Object.keys(previous), ...Object.keys(to)]);
+  const diffs: FileDiff[] = [];
+
+  for (const path of Array.from(paths).sort()) {
+    const before = previous[path];
+    const after = to[path];
+
+    if (before === undefined) {
+      diffs.push({ path, status: 'added', patch: diffFiles(path, '', after) });
+    } else if (after === undefined) {
+      diffs.push({ path, status: 'removed', patch: diffFiles(path, before, '') });
+    } else if (before !== after) {
+      diffs.push({ path, status: 'modified', patch: diffFiles(path, before, after) });
+    }
+  }
+
+  return diffs;
+}
+
+export function diffSnapshots(from: ProjectSnapshot | null, to: ProjectSnapshot): SnapshotDiff {
+  return { from: from?.id, to: to.id, files: diffProjectFiles(from?.files, to.files) };
+}
@@ -0,0 +1,68 @@
+// relative file path -> file content
+export type ProjectFiles = Record<string, string>;
+
+export interface ProjectInfo {
+  id: string;
+
+  // API client that created the project, projects created without a key have none
+  clientId?: string;
+  latestSnapshotId?: string;
+  snapshotCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SnapshotInfo {
+  id: string;
+  projectId: string;
+
+  // the snapshot this one was derived from, undefined for the first snapshot of a project
+  parentId?: string;
+  message?: string;
+
+  // what produced the snapshot, e.g. `job:<id>`, `api` or `restore:<snapshotId>`
+  source?: string;
+  fileCount: number;
+  createdAt: number;
+}
+
+export interface ProjectSnapshot extends SnapshotInfo {
+  files: ProjectFiles;
+}
+
+export interface SaveSnapshotOptions {
+  // defaults to the latest snapshot of the project
+  parentId?: string | null;
+  message?: string;
+  source?: string;
+
+  // API client saving the snapshot, only a project's own client can add to it
+  clientId?: string;
+}
+
+export interface FileDiff {
+  path: string;
+  status: 'added' | 'removed' | 'modified';
+
+  // unified diff without header, absent for binary-sized or identical content
+  patch?: string;
+}
+
+export interface SnapshotDiff {
+  from?: string;
+  to: string;
+  files: FileDiff[];
+}
+
+/**
+ * Server-side storage for generated code. Every save produces a new immutable
+ * snapshot of the complete file tree that points at its parent, so history can
+ * be listed, diffed and restored.
+ */
+export interface ProjectStorage {
+  getProject(projectId: string): Promise<ProjectInfo | null>;
+  listSnapshots(projectId: string): Promise<SnapshotInfo[]>;
+  getSnapshot(projectId: string, snapshotId: string): Promise<ProjectSnapshot | null>;
+  getLatestSnapshot(projectId: string): Promise<ProjectSnapshot | null>;
+  saveSnapshot(projectId: string, files: ProjectFiles, options?: SaveSnapshotOptions): Promise<SnapshotInfo>;
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryKeyValueStore } from '~/lib/.server/storage';
+import { RequirementsQueue } from './requirements-queue';
+
+describe('RequirementsQueue', () => {
+  it('should keep every submission instead of overwriting the previous one', async () => {
+    const queue = new RequirementsQueue(new MemoryKeyValueStore());
+
+    await queue.enqueue('first', 'project-a');
+    await queue.enqueue('second', 'project-a');
+    await queue.enqueue('third', 'project-b');
+
+    expect((await queue.list({ projectId: 'project-a' })).map((item) => item.content)).toEqual(['first', 'second']);
+    expect(await queue.list()).toHaveLength(3);
+  });
+
+  it('should claim pending items oldest first', async () => {
+    const queue = new RequirementsQueue(new MemoryKeyValueStore());
+
+    await queue.enqueue('first');
+    await queue.enqueue('second');
+
+    expect((await queue.claim())?.content).toBe('first');
+    expect((await queue.claim())?.content).toBe('second');
+    expect(await queue.claim()).toBeNull();
+  });
+
+  it('should never hand the same item to concurrent claims', async () => {
+    const queue = new RequirementsQueue(new MemoryKeyValueStore());
+    const item = await queue.enqueue('only one', 'project-a');
+
+    const claims = await Promise.all([queue.claim({ id: item.id }), queue.claim({ id: item.id })]);
+
+    expect(claims.filter(Boolean)).toHaveLength(1);
+    expect((await queue.get(item.id))?.status).toBe('processing');
+  });
+
+  it('should record completion and failure in the history', async () => {
+    const queue = new RequirementsQueue(new MemoryKeyValueStore());
+    const done = await queue.enqueue('works', 'project-a');
+    const failed = await queue.enqueue('breaks', 'project-a');
+
+    await queue.complete(done.id);
+    await queue.fail(failed.id, 'boom', 'project-a');
+
+    expect((await queue.list({ status: 'done' })).map((item) => item.id)).toEqual([done.id]);
+    expect((await queue.get(failed.id))?.error).toBe('boom');
+  });
+});
@@ -0,0 +1,191 @@
+import type { KeyValueStore } from '~/lib/.server/storage';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('requirements-queue');
+
+const KEY_PREFIX = 'requirements';
+
+// requirements submitted without a projectId are queued for a new project
+export const NEW_PROJECT_QUEUE = '__new__';
+
+export type RequirementStatus = 'pending' | 'processing' | 'done' | 'failed';
+
+export interface RequirementItem {
+  id: string;
+  projectId?: string;
+  content: string;
+  status: RequirementStatus;
+  createdAt: number;
+  updatedAt: number;
+  claimedAt?: number;
+  completedAt?: number;
+  claimToken?: string;
+  error?: string;
+}
+
+export interface ListRequirementsOptions {
+  projectId?: string;
+  status?: RequirementStatus;
+  limit?: number;
+}
+
+export class RequirementsQueue {
+  // serialises claims handled by this isolate, claims of other isolates are not seen
+  private static _claimLock: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly _store: KeyValueStore) {}
+
+  async enqueue(content: string, projectId?: string): Promise<RequirementItem> {
+    const now = Date.now();
+    const item: RequirementItem = {
+      id: createRequirementId(now),
+      projectId,
+      content,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this._store.put(itemKey(item.projectId, item.id), item);
+    logger.info('Queued requirements', { id: item.id, projectId: projectId || 'new project' });
+
+    return item;
+  }
+
+  async get(id: string, projectId?: string): Promise<RequirementItem | null> {
+    if (projectId !== undefined) {
+      return this._store.get<RequirementItem>(itemKey(projectId, id));
+    }
+
+    // fall back to scanning all queues when the caller does not know the project
+    const key = (await this._store.list(`${KEY_PREFIX}:`)).find((candidate) => candidate.endsWith(`:${id}`));
+
+    return key ? this._store.get<RequirementItem>(key) : null;
+  }
+
+  /**
+   * Lists queued items ordered from oldest to newest. When `projectId` is omitted
+   * the items of every project are returned.
+   */
+  async list(options: ListRequirementsOptions = {}): Promise<RequirementItem[]> {
+    const prefix =
+      options.projectId !== undefined ? `${KEY_PREFIX}:${queueName(options.projectId)}:` : `${KEY_PREFIX}:`;
+    const keys = await this._store.list(prefix);
+    const items = await Promise.all(keys.map((key) => this._store.get<RequirementItem>(key)));
+
+    let result = items
+      .filter((item): item is RequirementItem => item !== null)
+      .filter((item) => !options.status || item.status === options.status)
+      .sort((a, b) => a.createdAt - b.createdAt || a.id.localeCompare(b.id));
+
+    if (options.limit !== undefined) {
+      result = result.slice(-options.limit);
+    }
+
+    return result;
+  }
+
+  async peek(projectId?: string): Promise<RequirementItem | null> {
+    const [next] = await this.list({ projectId, status: 'pending' });
+    return next ?? null;
+  }
+
+  /**
+   * Moves the oldest pending item (or the given one) to `processing` and returns it.
+   * Returns `null` when there is nothing left to claim or when another consumer won
+   * the race.
+   *
+   * Claims are only exclusive within one isolate. KV has no compare-and-set and is
+   * eventually consistent, so consumers in different isolates or locations can both
+   * read back their own token and claim the same item. Consumers that need
+   * exactly-once processing must run in a single isolate.
+   */
+  async claim(options: { projectId?: string; id?: string } = {}): Promise<RequirementItem | null> {
+    const claim = RequirementsQueue._claimLock.then(() => this._claim(options));
+
+    RequirementsQueue._claimLock = claim.catch(() => undefined);
+
+    return claim;
+  }
+
+  async complete(id: string, projectId?: string): Promise<RequirementItem | null> {
+    return this._update(id, projectId, (item) => ({ ...item, status: 'done', completedAt: Date.now() }));
+  }
+
+  async fail(id: string, error: string, projectId?: string): Promise<RequirementItem | null> {
+    return this._update(id, projectId, (item) => ({ ...item, status: 'failed', completedAt: Date.now(), error }));
+  }
+
+  private async _claim({ projectId, id }: { projectId?: string; id?: string }): Promise<RequirementItem | null> {
+    const candidate = id ? await this.get(id, projectId) : await this.peek(projectId);
+
+    if (!candidate || candidate.status !== 'pending') {
+      return null;
+    }
+
+    const now = Date.now();
+    const claimToken = createRequirementId(now);
+    const claimed: RequirementItem = {
+      ...candidate,
+      status: 'processing',
+      claimedAt: now,
+      updatedAt: now,
+      claimToken,
+    };
+    const key = itemKey(candidate.projectId, candidate.id);
+
+    await this._store.put(key, claimed);
+
+    /*
+     * Catches a concurrent write that already reached this location, this narrows the
+     * race between isolates but does not close it (see `claim`).
+     */
+    const stored = await this._store.get<RequirementItem>(key);
+
+    if (stored?.claimToken !== claimToken) {
+      logger.warn('Lost claim race for requirements', { id: candidate.id });
+      return null;
+    }
+
+    logger.info('Claimed requirements', { id: candidate.id, projectId: candidate.projectId || 'new project' });
+
+    return claimed;
+  }
+
+  private async _update(
+    id: string,
+    projectId: string | undefined,
+    update: (item: RequirementItem) => RequirementItem,
+  ): Promise<RequirementItem | null> {
+    const item = await this.get(id, projectId);
+
+    if (!item) {
+      return null;
+    }
+
+    const updated = { ...update(item), updatedAt: Date.now() };
+    await this._store.put(itemKey(item.projectId, item.id), updated);
+
+    return updated;
+  }
+}
+
+function queueName(projectId?: string) {
+  return projectId || NEW_PROJECT_QUEUE;
+}
+
+function itemKey(projectId: string | undefined, id: string) {
+  return `${KEY_PREFIX}:${queueName(projectId)}:${id}`;
+}
+
+let lastTimestamp = 0;
+let sequence = 0;
+
+function createRequirementId(timestamp: number) {
+  // items created in the same millisecond keep their order through the sequence
+  sequence = timestamp === lastTimestamp ? sequence + 1 : 0;
+  lastTimestamp = timestamp;
+
+  // time and sequence prefix keeps keys ordered when listed lexicographically
+  return `${timestamp.toString(36)}-${sequence.toString(36).padStart(4, '0')}-${crypto.randomUUID().slice(0, 8)}`;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { Bm25Index } from './bm25';
+import { chunkFile, tokenize } from './chunks';
+
+describe('tokenize', () => {
+  it('should split identifiers into their words', () => {
+    expect(tokenize('export function UserProfileCard() { return user_name; }')).toEqual([
+      'userprofilecard',
+      'user',
+      'profile',
+      'card',
+      'user_name',
+      'user',
+      'name',
+    ]);
+  });
+});
+
+describe('chunkFile', () => {
+  it('should cover the file with overlapping windows', () => {
+    const content = Array.from({ length: 120 }, (_, i) => `line ${i + 1}`).join('\n');
+
+    expect(chunkFile('a.ts', content).map(({ startLine, endLine }) => [startLine, endLine])).toEqual([
+      [1, 60],
+      [51, 110],
+      [101, 120],
+    ]);
+  });
+});
+
+describe('Bm25Index', () => {
+  it('should rank the documents mentioning rare query terms first', () => {
+    const index = new Bm25Index(
+      [
+        'src/components/Header.tsx export function Header() { return <nav>logo menu</nav> }',
+        'src/components/LoginForm.tsx export function LoginForm() { password email submit }',
+        'src/App.tsx import Header import LoginForm export function App()',
+      ].map(tokenize),
+    );
+
+    const scores = index.score(tokenize('the login form should validate the email'));
+
+    expect(scores[1]).toBeGreaterThan(scores[2]);
+    expect(scores[2]).toBeGreaterThan(scores[0]);
+    expect(scores[0]).toBe(0);
+  });
+});
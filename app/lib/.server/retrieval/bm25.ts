@@ -0,0 +1,58 @@
+/**
+ * Okapi BM25 over tokenized documents. Used as the retrieval index when no embedding provider is
+ * configured or reachable, it needs no model and no network.
+ */
+export class Bm25Index {
+  #documents: Map<string, number>[];
+  #lengths: number[];
+  #averageLength: number;
+  #documentFrequency = new Map<string, number>();
+
+  constructor(
+    documents: string[][],
+    private readonly _k1 = 1.2,
+    private readonly _b = 0.75,
+  ) {
+    this.#documents = documents.map((tokens) => {
+      const frequencies = new Map<string, number>();
+
+      for (const token of tokens) {
+        frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+      }
+
+      for (const token of frequencies.keys()) {
+        this.#documentFrequency.set(token, (this.#documentFrequency.get(token) ?? 0) + 1);
+      }
+
+      return frequencies;
+    });
+    this.#lengths = documents.map((tokens) => tokens.length);
+    this.#averageLength = this.#lengths.reduce((sum, length) => sum + length, 0) / (documents.length || 1);
+  }
+
+  // score of every document for the query, in the order the documents were given
+  score(query: string[]): number[] {
+    const terms = [...new Set(query)];
+    const count = this.#documents.length;
+
+    return this.#documents.map((frequencies, index) => {
+      const lengthRatio = this.#lengths[index] / (this.#averageLength || 1);
+      let score = 0;
+
+      for (const term of terms) {
+        const frequency = frequencies.get(term);
+
+        if (!frequency) {
+          continue;
+        }
+
+        const documentFrequency = this.#documentFrequency.get(term) ?? 0;
+        const idf = Math.log(1 + (count - documentFrequency + 0.5) / (documentFrequency + 0.5));
+
+        score += (idf * frequency * (this._k1 + 1)) / (frequency + this._k1 * (1 - this._b + this._b * lengthRatio));
+      }
+
+      return score;
+    });
+  }
+}
@@ -0,0 +1,84 @@
+/*
+ * Splits project files into overlapping windows of lines, the unit the retrieval index scores. Files
+ * are ranked by their best chunk so that a match deep inside a long file still counts.
+ */
+
+export interface Chunk {
+  path: string;
+
+  // 1-based, inclusive
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+const CHUNK_LINES = 60;
+const CHUNK_OVERLAP = 10;
+
+// words too common in code and requests to tell files apart
+const STOP_WORDS = new Set([
+  'the',
+  'and',
+  'for',
+  'with',
+  'that',
+  'this',
+  'from',
+  'import',
+  'export',
+  'const',
+  'let',
+  'var',
+  'return',
+  'function',
+  'new',
+  'true',
+  'false',
+  'null',
+  'undefined',
+  'please',
+  'can',
+  'you',
+  'add',
+  'make',
+]);
+
+export function chunkFile(path: string, content: string): Chunk[] {
+  const lines = content.split('\n');
+  const chunks: Chunk[] = [];
+
+  for (let start = 0; start < lines.length; start += CHUNK_LINES - CHUNK_OVERLAP) {
+    const end = Math.min(start + CHUNK_LINES, lines.length);
+
+    chunks.push({ path, startLine: start + 1, endLine: end, text: lines.slice(start, end).join('\n') });
+
+    if (end === lines.length) {
+      break;
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Lower-cased terms of a text. Identifiers are also split into their parts, so `UserProfileCard` and
+ * `user_profile` match a request that mentions the "user profile".
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const word of text.match(/[A-Za-z0-9_$]+/g) ?? []) {
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_$]+/);
+
+    for (const term of new Set([word, ...parts].map((part) => part.toLowerCase()))) {
+      if (term.length > 1 && !STOP_WORDS.has(term)) {
+        tokens.push(term);
+      }
+    }
+  }
+
+  return tokens;
+}
@@ -0,0 +1,65 @@
+import type { EmbeddingModel } from 'ai';
+import { describe, expect, it, vi } from 'vitest';
+import { MemoryKeyValueStore } from '~/lib/.server/storage';
+import { chunkFile } from './chunks';
+import { embedFiles, type EmbeddableFile } from './embeddings';
+
+// embeds each value as its length, enough to tell the vectors apart
+function createModel() {
+  const doEmbed = vi.fn(async ({ values }: { values: string[] }) => ({
+    embeddings: values.map((value) => [value.length, 1]),
+  }));
+  const model: EmbeddingModel<string> = {
+    specificationVersion: 'v1',
+    provider: 'test',
+    modelId: 'embedding',
+    maxEmbeddingsPerCall: 100,
+    supportsParallelCalls: true,
+    doEmbed,
+  };
+
+  return { model, doEmbed };
+}
+
+const embeddable = (path: string, content: string, hash: string): EmbeddableFile => ({
+  path,
+  hash,
+  chunks: chunkFile(path, content),
+});
+
+describe('embedFiles', () => {
+  it('should embed only the files whose content was not embedded before', async () => {
+    const store = new MemoryKeyValueStore();
+    const { model, doEmbed } = createModel();
+    const app = embeddable('src/App.tsx', 'export const App = () => null;', 'hash-app');
+    const header = embeddable('src/Header.tsx', 'export const Header = () => null;', 'hash-header');
+
+    const first = await embedFiles(model, store, [app, header]);
+
+    expect(doEmbed).toHaveBeenCalledTimes(1);
+    expect(first.get('src/App.tsx')).toEqual([[`src/App.tsx\n${app.chunks[0].text}`.length, 1]]);
+
+    const changed = embeddable('src/Header.tsx', 'export const Header = () => <h1 />;', 'hash-header-2');
+    const second = await embedFiles(model, store, [app, changed]);
+
+    expect(doEmbed).toHaveBeenCalledTimes(2);
+    expect(doEmbed.mock.calls[1][0].values).toEqual([`src/Header.tsx\n${changed.chunks[0].text}`]);
+    expect(second.get('src/App.tsx')).toEqual(first.get('src/App.tsx'));
+
+    await embedFiles(model, store, [app, changed]);
+
+    expect(doEmbed).toHaveBeenCalledTimes(2);
+  });
+
+  it('should embed cached files again when their chunks no longer match', async () => {
+    const store = new MemoryKeyValueStore();
+    const { model, doEmbed } = createModel();
+    const app = embeddable('src/App.tsx', 'export const App = () => null;', 'hash-app');
+
+    await store.put('embeddings:test:embedding:hash-app', []);
+    await embedFiles(model, store, [app]);
+
+    expect(doEmbed).toHaveBeenCalledTimes(1);
+    expect(await store.get('embeddings:test:embedding:hash-app')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,75 @@
+import { embed, embedMany, type EmbeddingModel } from 'ai';
+import type { KeyValueStore } from '~/lib/.server/storage';
+import { createScopedLogger } from '~/utils/logger';
+import type { Chunk } from './chunks';
+
+const logger = createScopedLogger('retrieval-embeddings');
+
+// vectors are looked up by the hash of the file content, so they only expire for files nobody edits
+const CACHE_TTL_SECONDS = 60 * 60 * 24 * 30;
+
+export interface EmbeddableFile {
+  path: string;
+  hash: string;
+  chunks: Chunk[];
+}
+
+function cacheKey(model: EmbeddingModel<string>, hash: string) {
+  return `embeddings:${model.provider}:${model.modelId}:${hash}`;
+}
+
+/**
+ * Embeds the chunks of every file, one vector per chunk in the order of `file.chunks`. Files whose
+ * content was embedded before with the same model are read from the store instead.
+ */
+export async function embedFiles(
+  model: EmbeddingModel<string>,
+  store: KeyValueStore,
+  files: EmbeddableFile[],
+): Promise<Map<string, number[][]>> {
+  const vectors = new Map<string, number[][]>();
+  const cached = await Promise.all(files.map((file) => store.get<number[][]>(cacheKey(model, file.hash))));
+  const missing = files.filter((file, index) => {
+    const fileVectors = cached[index];
+
+    if (fileVectors && fileVectors.length === file.chunks.length) {
+      vectors.set(file.path, fileVectors);
+      return false;
+    }
+
+    return true;
+  });
+
+  if (missing.length === 0) {
+    return vectors;
+  }
+
+  logger.debug(`Embedding ${missing.length} files, ${files.length - missing.length} cached`);
+
+  // embedMany splits the values into as many calls as the model needs
+  const { embeddings } = await embedMany({
+    model,
+    values: missing.flatMap((file) => file.chunks.map((chunk) => `${chunk.path}\n${chunk.text}`)),
+  });
+
+  let offset = 0;
+
+  await Promise.all(
+    missing.map((file) => {
+      const fileVectors = embeddings.slice(offset, offset + file.chunks.length);
+
+      offset += file.chunks.length;
+      vectors.set(file.path, fileVectors);
+
+      return store.put(cacheKey(model, file.hash), fileVectors, { expirationTtl: CACHE_TTL_SECONDS });
+    }),
+  );
+
+  return vectors;
+}
+
+export async function embedQuery(model: EmbeddingModel<string>, query: string) {
+  const { embedding } = await embed({ model, value: query });
+
+  return embedding;
+}
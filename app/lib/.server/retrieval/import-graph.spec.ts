@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { buildImportGraph, extractImports, getImportNeighbors, resolveImport } from './import-graph';
+
+describe('extractImports', () => {
+  it('should find static, dynamic and require imports', () => {
+    const content = [
+      "import React from 'react';",
+      "import { Button } from './Button';",
+      "export * from '../utils';",
+      "const Page = lazy(() => import('./Page'));",
+      "const config = require('./config.json');",
+    ].join('\n');
+
+    expect(extractImports(content)).toEqual(['react', './Button', '../utils', './Page', './config.json']);
+  });
+});
+
+describe('resolveImport', () => {
+  const paths = new Set(['src/App.tsx', 'src/utils/index.ts', 'src/lib/api.ts', 'src/config.json']);
+
+  it('should resolve relative imports, index files and aliases', () => {
+    expect(resolveImport('src/components/Header.tsx', '../App', paths)).toBe('src/App.tsx');
+    expect(resolveImport('src/App.tsx', './utils', paths)).toBe('src/utils/index.ts');
+    expect(resolveImport('src/App.tsx', './lib/api.js', paths)).toBe('src/lib/api.ts');
+    expect(resolveImport('src/App.tsx', '@/config.json', paths)).toBe('src/config.json');
+    expect(resolveImport('src/App.tsx', 'react', paths)).toBeUndefined();
+  });
+});
+
+describe('getImportNeighbors', () => {
+  it('should return the imports and importers of the given files', () => {
+    const graph = buildImportGraph({
+      'src/main.tsx': "import App from './App';",
+      'src/App.tsx': "import { Header } from './Header';",
+      'src/Header.tsx': 'export const Header = () => null;',
+      'src/unused.ts': '',
+    });
+
+    expect(getImportNeighbors(graph, ['src/App.tsx'])).toEqual(['src/main.tsx', 'src/Header.tsx']);
+    expect(getImportNeighbors(graph, ['src/App.tsx', 'src/Header.tsx'])).toEqual(['src/main.tsx']);
+  });
+});
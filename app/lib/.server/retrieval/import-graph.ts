@@ -0,0 +1,99 @@
+import { path } from '~/utils/path';
+
+/*
+ * Which project files import each other. Files next to a retrieved one in the graph are added to the
+ * context, since a change to a component usually needs the modules it uses or the pages rendering it.
+ */
+
+const IMPORT_REGEX =
+  /(?:import|export)\s[^'"`;]*?from\s*['"]([^'"]+)['"]|import\s*\(?\s*['"]([^'"]+)['"]|require\(\s*['"]([^'"]+)['"]\s*\)/g;
+
+const RESOLVE_SUFFIXES = [
+  '',
+  '.ts',
+  '.tsx',
+  '.js',
+  '.jsx',
+  '.mjs',
+  '.cjs',
+  '.vue',
+  '.svelte',
+  '/index.ts',
+  '/index.tsx',
+  '/index.js',
+  '/index.jsx',
+];
+
+// roots tried for the `~/` and `@/` aliases most templates set up
+const ALIAS_ROOTS = ['src', 'app'];
+
+// adjacency of the files by relative path, edges go both ways
+export type ImportGraph = Map<string, Set<string>>;
+
+export function extractImports(content: string): string[] {
+  return Array.from(content.matchAll(IMPORT_REGEX), (match) => match[1] ?? match[2] ?? match[3]);
+}
+
+// project file an import points to, undefined for packages and files that don't exist
+export function resolveImport(from: string, specifier: string, paths: Set<string>) {
+  let bases: string[];
+
+  if (specifier.startsWith('./') || specifier.startsWith('../')) {
+    bases = [path.join(path.dirname(from), specifier)];
+  } else if (specifier.startsWith('~/') || specifier.startsWith('@/')) {
+    bases = ALIAS_ROOTS.map((root) => path.join(root, specifier.slice(2)));
+  } else if (specifier.startsWith('/')) {
+    bases = [specifier.slice(1)];
+  } else {
+    return undefined;
+  }
+
+  for (const base of bases) {
+    // TypeScript sources import each other with the extension of the compiled file
+    const candidates = [base, base.replace(/\.(m|c)?js$/, '')];
+
+    for (const candidate of candidates) {
+      for (const suffix of RESOLVE_SUFFIXES) {
+        if (paths.has(candidate + suffix)) {
+          return candidate + suffix;
+        }
+      }
+    }
+  }
+
+  return undefined;
+}
+
+export function buildImportGraph(files: Record<string, string>): ImportGraph {
+  const paths = new Set(Object.keys(files));
+  const graph: ImportGraph = new Map([...paths].map((filePath) => [filePath, new Set<string>()]));
+
+  for (const [filePath, content] of Object.entries(files)) {
+    for (const specifier of extractImports(content)) {
+      const target = resolveImport(filePath, specifier, paths);
+
+      if (target && target !== filePath) {
+        graph.get(filePath)!.add(target);
+        graph.get(target)!.add(filePath);
+      }
+    }
+  }
+
+  return graph;
+}
+
+// files linked to any of the given ones that aren't among them, in the order they were reached
+export function getImportNeighbors(graph: ImportGraph, filePaths: string[]) {
+  const selected = new Set(filePaths);
+  const neighbors = new Set<string>();
+
+  for (const filePath of filePaths) {
+    for (const neighbor of graph.get(filePath) ?? []) {
+      if (!selected.has(neighbor)) {
+        neighbors.add(neighbor);
+      }
+    }
+  }
+
+  return [...neighbors];
+}
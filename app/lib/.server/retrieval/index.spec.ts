@@ -0,0 +1,49 @@
+import type { Message } from 'ai';
+import { describe, expect, it } from 'vitest';
+import type { FileMap } from '~/lib/.server/llm/constants';
+import { retrieveContext } from './index';
+
+const file = (content: string, isBinary = false) => ({ type: 'file' as const, content, isBinary });
+
+const files: FileMap = {
+  '/home/project/src': { type: 'folder' },
+  '/home/project/src/LoginForm.tsx': file(
+    "import { createSession } from './session';\n\nexport function LoginForm() {\n  // validate the password before login\n  return validatePassword();\n}\n",
+  ),
+  '/home/project/src/session.ts': file('export function createSession(user) {\n  return { user };\n}\n'),
+  '/home/project/src/TodoList.tsx': file('export function TodoList({ todos }) {\n  return todos.map(renderTodo);\n}\n'),
+  '/home/project/src/logo.png': file('', true),
+  '/home/project/node_modules/react/index.js': file('module.exports = login;'),
+};
+
+describe('retrieveContext', () => {
+  it('should pick the matching files and the files they import', async () => {
+    const messages: Message[] = [{ id: '1', role: 'user', content: 'The login form accepts an empty password' }];
+    const context = await retrieveContext({ messages, files });
+
+    expect(Object.keys(context)).toEqual(['src/LoginForm.tsx', 'src/session.ts']);
+    expect(context['src/LoginForm.tsx']).toBe(files['/home/project/src/LoginForm.tsx']);
+  });
+
+  it('should read the query from the text part of messages with images', async () => {
+    const messages = [
+      {
+        id: '1',
+        role: 'user',
+        content: [
+          { type: 'image', image: 'data:image/png;base64,' },
+          { type: 'text', text: 'render each todo' },
+        ],
+      },
+    ] as unknown as Message[];
+
+    expect(Object.keys(await retrieveContext({ messages, files, maxFiles: 1 }))).toEqual(['src/TodoList.tsx']);
+  });
+
+  it('should return nothing for queries without matches', async () => {
+    const messages: Message[] = [{ id: '1', role: 'user', content: 'kubernetes' }];
+
+    expect(await retrieveContext({ messages, files })).toEqual({});
+    await expect(retrieveContext({ messages: [], files })).rejects.toThrow('No user message found');
+  });
+});
@@ -0,0 +1,173 @@
+import { cosineSimilarity, type Message, type TextPart } from 'ai';
+import { sha256Hex } from '~/lib/.server/auth/crypto';
+import type { FileMap } from '~/lib/.server/llm/constants';
+import { getFilePaths } from '~/lib/.server/llm/select-context';
+import { extractPropertiesFromMessage } from '~/lib/.server/llm/utils';
+import { getKeyValueStore } from '~/lib/.server/storage';
+import type { IProviderSetting } from '~/types/model';
+import type { RetrievalRequest } from '~/types/retrieval';
+import { PROVIDER_LIST, WORK_DIR } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+import { Bm25Index } from './bm25';
+import { chunkFile, tokenize, type Chunk } from './chunks';
+import { embedFiles, embedQuery } from './embeddings';
+import { buildImportGraph, getImportNeighbors } from './import-graph';
+
+export { Bm25Index } from './bm25';
+export { chunkFile, tokenize } from './chunks';
+export { buildImportGraph, extractImports, getImportNeighbors, resolveImport } from './import-graph';
+
+const logger = createScopedLogger('retrieval');
+
+export const LEXICAL_PROVIDER = 'bm25';
+
+// files picked by similarity, and how many of their imports or importers may join them
+const DEFAULT_MAX_FILES = 5;
+const MAX_NEIGHBORS = 3;
+
+// files the model chooses from in hybrid mode
+export const HYBRID_CANDIDATE_FILES = 20;
+
+// generated bundles and data dumps are left out, they drown the index
+const MAX_FILE_LENGTH = 100_000;
+
+// above this the first request of a project would take too long to embed, the lexical index is used
+const MAX_EMBEDDED_CHUNKS = 2_000;
+
+interface IndexedFile {
+  path: string;
+  content: string;
+  chunks: Chunk[];
+}
+
+/**
+ * Picks the files relevant to the last user message without a model call: the project files are
+ * chunked and scored against the message by embedding similarity, or by BM25 when no embedding
+ * provider is set up, then the best files are joined by the files they import or are imported by.
+ * Returns the files keyed by their path relative to the project, like `selectContext`.
+ */
+export async function retrieveContext(props: {
+  messages: Message[];
+  files: FileMap;
+  env?: Env;
+  apiKeys?: Record<string, string>;
+  providerSettings?: Record<string, IProviderSetting>;
+  retrieval?: RetrievalRequest;
+  maxFiles?: number;
+}): Promise<FileMap> {
+  const { messages, files, maxFiles = DEFAULT_MAX_FILES } = props;
+  const lastUserMessage = messages.filter((message) => message.role === 'user').pop();
+
+  if (!lastUserMessage) {
+    throw new Error('No user message found');
+  }
+
+  const { content } = extractPropertiesFromMessage(lastUserMessage);
+
+  // messages with images carry their text in a part
+  const query: string = Array.isArray(content) ? (content.find(isTextPart)?.text ?? '') : content;
+  const indexedFiles = getIndexedFiles(files);
+
+  if (indexedFiles.length === 0 || !query.trim()) {
+    return {};
+  }
+
+  const scores = await scoreFiles(indexedFiles, query, props);
+  const ranked = indexedFiles
+    .map((file, index) => ({ path: file.path, score: scores[index] }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score);
+  const selected = ranked.slice(0, maxFiles).map(({ path }) => path);
+
+  const graph = buildImportGraph(Object.fromEntries(indexedFiles.map((file) => [file.path, file.content])));
+  const rank = new Map(ranked.map(({ path }, index) => [path, index]));
+  const neighbors = getImportNeighbors(graph, selected)
+    .sort((a, b) => (rank.get(a) ?? Infinity) - (rank.get(b) ?? Infinity))
+    .slice(0, MAX_NEIGHBORS);
+
+  logger.debug(`Retrieved ${JSON.stringify(selected)} with neighbors ${JSON.stringify(neighbors)}`);
+
+  return Object.fromEntries([...selected, ...neighbors].map((path) => [path, files[`${WORK_DIR}/${path}`]]));
+}
+
+function isTextPart(part: unknown): part is TextPart {
+  return (
+    typeof part === 'object' &&
+    part !== null &&
+    (part as TextPart).type === 'text' &&
+    typeof (part as TextPart).text === 'string'
+  );
+}
+
+function getIndexedFiles(files: FileMap): IndexedFile[] {
+  const indexedFiles: IndexedFile[] = [];
+
+  for (const fullPath of getFilePaths(files)) {
+    const dirent = files[fullPath];
+
+    if (dirent?.type !== 'file' || dirent.isBinary || dirent.content.length > MAX_FILE_LENGTH) {
+      continue;
+    }
+
+    const path = fullPath.replace(`${WORK_DIR}/`, '');
+
+    indexedFiles.push({ path, content: dirent.content, chunks: chunkFile(path, dirent.content) });
+  }
+
+  return indexedFiles;
+}
+
+// score of each file, the best score of its chunks
+async function scoreFiles(
+  indexedFiles: IndexedFile[],
+  query: string,
+  props: Parameters<typeof retrieveContext>[0],
+): Promise<number[]> {
+  const { env, apiKeys, providerSettings, retrieval } = props;
+  const providerName = retrieval?.embeddingProvider || env?.EMBEDDING_PROVIDER || LEXICAL_PROVIDER;
+
+  if (providerName !== LEXICAL_PROVIDER) {
+    const provider = PROVIDER_LIST.find((p) => p.name === providerName);
+    const chunkCount = indexedFiles.reduce((count, file) => count + file.chunks.length, 0);
+
+    if (!provider?.getEmbeddingModel) {
+      logger.warn(`${providerName} can't embed text, using the lexical index`);
+    } else if (chunkCount > MAX_EMBEDDED_CHUNKS) {
+      logger.warn(`${chunkCount} chunks are too many to embed, using the lexical index`);
+    } else {
+      try {
+        const model = provider.getEmbeddingModel({
+          model: retrieval?.embeddingModel || env?.EMBEDDING_MODEL,
+          serverEnv: env,
+          apiKeys,
+          providerSettings,
+        });
+        const embeddableFiles = await Promise.all(
+          indexedFiles.map(async (file) => ({ ...file, hash: await sha256Hex(file.content) })),
+        );
+        const [vectors, queryVector] = await Promise.all([
+          embedFiles(model, getKeyValueStore(env), embeddableFiles),
+          embedQuery(model, query),
+        ]);
+
+        return indexedFiles.map((file) =>
+          Math.max(0, ...(vectors.get(file.path) ?? []).map((vector) => cosineSimilarity(vector, queryVector))),
+        );
+      } catch (error) {
+        // e.g. Ollama isn't running, the lexical index still gives a useful answer
+        logger.warn(`Embedding with ${providerName} failed, using the lexical index`, error);
+      }
+    }
+  }
+
+  const chunks = indexedFiles.flatMap((file, fileIndex) => file.chunks.map((chunk) => ({ chunk, fileIndex })));
+  const index = new Bm25Index(chunks.map(({ chunk }) => tokenize(`${chunk.path}\n${chunk.text}`)));
+  const scores = new Array<number>(indexedFiles.length).fill(0);
+
+  index.score(tokenize(query)).forEach((score, chunkIndex) => {
+    const { fileIndex } = chunks[chunkIndex];
+    scores[fileIndex] = Math.max(scores[fileIndex], score);
+  });
+
+  return scores;
+}
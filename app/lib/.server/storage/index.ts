@@ -0,0 +1,53 @@
+import { createScopedLogger } from '~/utils/logger';
+import { CloudflareKeyValueStore } from './kv-store';
+import { LocalDiskStore } from './local-disk-store';
+import { MemoryKeyValueStore } from './memory-store';
+import { CloudflareR2Store } from './r2-store';
+import type { KeyValueStore } from './types';
+
+export type { KeyValueStore, PutOptions } from './types';
+export { MemoryKeyValueStore } from './memory-store';
+export { CloudflareKeyValueStore } from './kv-store';
+export { CloudflareR2Store } from './r2-store';
+export { LocalDiskStore } from './local-disk-store';
+
+const logger = createScopedLogger('storage');
+
+// shared across requests handled by the same worker instance
+let memoryStore: MemoryKeyValueStore | undefined;
+
+/**
+ * Returns the key/value store for the current environment. The KV binding is
+ * preferred when present, otherwise an in-memory store is used.
+ */
+export function getKeyValueStore(env?: Partial<Env>): KeyValueStore {
+  if (env?.POM_BOLT_KV) {
+    return new CloudflareKeyValueStore(env.POM_BOLT_KV);
+  }
+
+  if (!memoryStore) {
+    logger.warn('No POM_BOLT_KV binding found, falling back to in-memory storage');
+    memoryStore = new MemoryKeyValueStore();
+  }
+
+  return memoryStore;
+}
+
+/**
+ * Returns the store for large objects such as project snapshots: the R2 bucket
+ * when bound, a directory on disk when `POM_BOLT_DATA_DIR` is set (Node.js only),
+ * otherwise the key/value store.
+ */
+export function getObjectStore(env?: Partial<Env>): KeyValueStore {
+  if (env?.POM_BOLT_R2) {
+    return new CloudflareR2Store(env.POM_BOLT_R2);
+  }
+
+  const dataDir = env?.POM_BOLT_DATA_DIR || (typeof process !== 'undefined' ? process.env?.POM_BOLT_DATA_DIR : '');
+
+  if (dataDir) {
+    return new LocalDiskStore(dataDir);
+  }
+
+  return getKeyValueStore(env);
+}
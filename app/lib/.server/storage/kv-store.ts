@@ -0,0 +1,36 @@
+import type { KeyValueStore, PutOptions } from './types';
+
+/**
+ * Cloudflare KV backed store, used for deployments where the `POM_BOLT_KV`
+ * namespace is bound to the worker.
+ */
+export class CloudflareKeyValueStore implements KeyValueStore {
+  readonly name = 'cloudflare-kv';
+
+  constructor(private readonly _namespace: KVNamespace) {}
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    return (await this._namespace.get<T>(key, 'json')) ?? null;
+  }
+
+  async put<T = unknown>(key: string, value: T, options?: PutOptions): Promise<void> {
+    await this._namespace.put(key, JSON.stringify(value), options?.expirationTtl ? options : undefined);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this._namespace.delete(key);
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor: string | undefined = undefined;
+
+    do {
+      const page: KVNamespaceListResult<unknown, string> = await this._namespace.list({ prefix, cursor });
+      keys.push(...page.keys.map((key) => key.name));
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    return keys;
+  }
+}
@@ -0,0 +1,95 @@
+import type { KeyValueStore } from './types';
+
+/**
+ * Stores each key as a JSON file below `rootDir`, for local development and
+ * Docker deployments where data should survive restarts. Only available when
+ * running on Node.js.
+ */
+export class LocalDiskStore implements KeyValueStore {
+  readonly name = 'local-disk';
+
+  constructor(private readonly _rootDir: string) {}
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    const fs = await import('node:fs/promises');
+
+    try {
+      return JSON.parse(await fs.readFile(await this._filePath(key), 'utf-8')) as T;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return null;
+      }
+
+      throw error;
+    }
+  }
+
+  async put<T = unknown>(key: string, value: T): Promise<void> {
+    const fs = await import('node:fs/promises');
+    const { dirname } = await import('node:path');
+    const filePath = await this._filePath(key);
+
+    await fs.mkdir(dirname(filePath), { recursive: true });
+
+    // write to a temporary file first so readers never see a partial value
+    await fs.writeFile(`${filePath}.tmp`, JSON.stringify(value), 'utf-8');
+    await fs.rename(`${filePath}.tmp`, filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    const fs = await import('node:fs/promises');
+    await fs.rm(await this._filePath(key), { force: true });
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const fs = await import('node:fs/promises');
+    const { join, relative, sep } = await import('node:path');
+    const keys: string[] = [];
+
+    const walk = async (dir: string) => {
+      let entries: Array<{ name: string; isDirectory(): boolean }>;
+
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+
+      for (const entry of entries) {
+        const entryPath = join(dir, entry.name);
+
+        if (entry.isDirectory()) {
+          await walk(entryPath);
+        } else if (entry.name.endsWith('.json')) {
+          const key = decodeKey(relative(this._rootDir, entryPath).slice(0, -'.json'.length).split(sep).join(':'));
+
+          if (key.startsWith(prefix)) {
+            keys.push(key);
+          }
+        }
+      }
+    };
+
+    await walk(this._rootDir);
+
+    return keys.sort();
+  }
+
+  private async _filePath(key: string) {
+    const { join } = await import('node:path');
+
+    // every `:` separated key segment becomes a directory level
+    return `${join(this._rootDir, ...key.split(':').map(encodeKeySegment))}.json`;
+  }
+}
+
+function encodeKeySegment(segment: string) {
+  return encodeURIComponent(segment).replace(/\./g, '%2E');
+}
+
+function decodeKey(key: string) {
+  return key
+    .split(':')
+    .map((segment) => decodeURIComponent(segment))
+    .join(':');
+}
@@ -0,0 +1,48 @@
+import type { KeyValueStore, PutOptions } from './types';
+
+interface MemoryEntry {
+  value: string;
+  expiresAt?: number;
+}
+
+/**
+ * Process-local store used in development and as a fallback when no KV binding
+ * is configured. Data is lost when the worker restarts.
+ */
+export class MemoryKeyValueStore implements KeyValueStore {
+  readonly name = 'memory';
+  private _entries = new Map<string, MemoryEntry>();
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    const entry = this._entries.get(key);
+
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt && entry.expiresAt <= Date.now()) {
+      this._entries.delete(key);
+      return null;
+    }
+
+    // values are stored serialised so callers never share references with the store
+    return JSON.parse(entry.value) as T;
+  }
+
+  async put<T = unknown>(key: string, value: T, options?: PutOptions): Promise<void> {
+    this._entries.set(key, {
+      value: JSON.stringify(value),
+      expiresAt: options?.expirationTtl ? Date.now() + options.expirationTtl * 1000 : undefined,
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    this._entries.delete(key);
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    return Array.from(this._entries.keys())
+      .filter((key) => key.startsWith(prefix))
+      .sort();
+  }
+}
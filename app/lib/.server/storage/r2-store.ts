@@ -0,0 +1,38 @@
+import type { KeyValueStore } from './types';
+
+/**
+ * Cloudflare R2 backed store. Better suited than KV for large values such as
+ * project snapshots (no 25 MiB value limit, strongly consistent reads).
+ */
+export class CloudflareR2Store implements KeyValueStore {
+  readonly name = 'cloudflare-r2';
+
+  constructor(private readonly _bucket: R2Bucket) {}
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    const object = await this._bucket.get(key);
+    return object ? await object.json<T>() : null;
+  }
+
+  async put<T = unknown>(key: string, value: T): Promise<void> {
+    // R2 has no per-object expiry, lifecycle rules on the bucket take care of that
+    await this._bucket.put(key, JSON.stringify(value), { httpMetadata: { contentType: 'application/json' } });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this._bucket.delete(key);
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor: string | undefined = undefined;
+
+    do {
+      const page: R2Objects = await this._bucket.list({ prefix, cursor });
+      keys.push(...page.objects.map((object) => object.key));
+      cursor = page.truncated ? page.cursor : undefined;
+    } while (cursor);
+
+    return keys;
+  }
+}
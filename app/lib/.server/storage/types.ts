@@ -0,0 +1,19 @@
+/**
+ * Minimal key/value contract shared by the server-side persistence features
+ * (requirements queue, API clients, jobs, project snapshots).
+ *
+ * Values are JSON-serialisable. Keys are namespaced with `:` separators so that
+ * `list(prefix)` can be used to enumerate a collection.
+ */
+export interface KeyValueStore {
+  readonly name: string;
+  get<T = unknown>(key: string): Promise<T | null>;
+  put<T = unknown>(key: string, value: T, options?: PutOptions): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(prefix: string): Promise<string[]>;
+}
+
+export interface PutOptions {
+  // time-to-live in seconds, ignored by backends without expiry support
+  expirationTtl?: number;
+}
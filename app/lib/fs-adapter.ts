@@ -1,13 +1,13 @@
 /**
  * FileSystem Adapter
- * 
+ *
  * This adapter provides a unified interface for filesystem operations across different
  * environments (browser and Cloudflare Pages). It handles the differences between
  * WebContainer's filesystem in the browser and Cloudflare's storage in production.
- * 
+ *
  * Usage:
  * ```typescript
- * const fs = new FileSystemAdapter();
+ * const fs = new FileSystemAdapter('my-project'); // Cloudflare storage is scoped to a project
  * await fs.initialize(webcontainer); // In browser environment
  * const content = await fs.readFile('path/to/file');
  * ```
@@ -20,14 +20,17 @@ import { createScopedLogger } from '~/utils/logger';
 const logger = createScopedLogger('FileSystemAdapter');
 
 export class FileSystemAdapter {
-  private webcontainer: WebContainer | null = null;
-  private isCloudflare: boolean;
+  private _webcontainer: WebContainer | null = null;
+  private _isCloudflare: boolean;
 
-  constructor() {
+  /**
+   * @param _projectId - The server-side project whose latest snapshot is read and written in Cloudflare
+   */
+  constructor(private readonly _projectId?: string) {
     // Detect if we're running in Cloudflare Pages environment
-    this.isCloudflare = environment.isCloudflare;
-    
-    if (this.isCloudflare) {
+    this._isCloudflare = environment.isCloudflare;
+
+    if (this._isCloudflare) {
       logger.info('Initializing FileSystemAdapter in Cloudflare environment');
     }
   }
@@ -37,26 +40,37 @@ export class FileSystemAdapter {
    * This is required for browser environments
    */
   async initialize(container?: WebContainer) {
-    if (container && !this.isCloudflare) {
-      this.webcontainer = container;
+    if (container && !this._isCloudflare) {
+      this._webcontainer = container;
       logger.debug('Initialized with WebContainer');
     }
   }
 
+  private _storageUrl(path: string, suffix = '') {
+    if (!this._projectId) {
+      throw new Error('No project selected for Cloudflare storage');
+    }
+
+    return `/api/fs/${encodeURIComponent(path)}${suffix}?projectId=${encodeURIComponent(this._projectId)}`;
+  }
+
   /**
    * Read a file from either WebContainer or Cloudflare storage
    * @param path - The path to the file
    * @returns The file contents as a string
    */
   async readFile(path: string): Promise<string> {
-    if (this.isCloudflare) {
+    if (this._isCloudflare) {
       // In Cloudflare, fetch from our storage API
       try {
         logger.debug(`Reading file from Cloudflare storage: ${path}`);
-        const response = await fetch(`/api/fs/${encodeURIComponent(path)}`);
+
+        const response = await fetch(this._storageUrl(path));
+
         if (!response.ok) {
           throw new Error(`Failed to read file: ${path}`);
         }
+
         return await response.text();
       } catch (error) {
         logger.error(`Error reading file from Cloudflare storage: ${path}`, { error });
@@ -65,10 +79,12 @@ export class FileSystemAdapter {
     }
 
     // In browser, use WebContainer's filesystem
-    if (this.webcontainer) {
+    if (this._webcontainer) {
       try {
         logger.debug(`Reading file from WebContainer: ${path}`);
-        const file = await this.webcontainer.fs.readFile(path, 'utf-8');
+
+        const file = await this._webcontainer.fs.readFile(path, 'utf-8');
+
         return file;
       } catch (error) {
         logger.error(`Error reading file from WebContainer: ${path}`, { error });
@@ -85,27 +101,32 @@ export class FileSystemAdapter {
    * @param content - The content to write
    */
   async writeFile(path: string, content: string): Promise<void> {
-    if (this.isCloudflare) {
+    if (this._isCloudflare) {
       // In Cloudflare, write to our storage API
       try {
         logger.debug(`Writing file to Cloudflare storage: ${path}`);
-        await fetch(`/api/fs/${encodeURIComponent(path)}`, {
+
+        const response = await fetch(this._storageUrl(path), {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({ content }),
         });
+
+        if (!response.ok) {
+          throw new Error(`Failed to write file: ${path}`);
+        }
       } catch (error) {
         logger.error(`Error writing file to Cloudflare storage: ${path}`, { error });
         throw error;
       }
     } else {
       // In browser, use WebContainer's filesystem
-      if (this.webcontainer) {
+      if (this._webcontainer) {
         try {
           logger.debug(`Writing file to WebContainer: ${path}`);
-          await this.webcontainer.fs.writeFile(path, content, 'utf-8');
+          await this._webcontainer.fs.writeFile(path, content, 'utf-8');
         } catch (error) {
           logger.error(`Error writing file to WebContainer: ${path}`, { error });
           throw error;
@@ -120,10 +141,12 @@ export class FileSystemAdapter {
    * @returns Whether the file exists
    */
   async exists(path: string): Promise<boolean> {
-    if (this.isCloudflare) {
+    if (this._isCloudflare) {
       try {
         logger.debug(`Checking if file exists in Cloudflare storage: ${path}`);
-        const response = await fetch(`/api/fs/${encodeURIComponent(path)}/exists`);
+
+        const response = await fetch(this._storageUrl(path, '/exists'));
+
         return response.ok;
       } catch (error) {
         logger.error(`Error checking file existence in Cloudflare storage: ${path}`, { error });
@@ -131,20 +154,21 @@ export class FileSystemAdapter {
       }
     }
 
-    if (this.webcontainer) {
+    if (this._webcontainer) {
       try {
         logger.debug(`Checking if file exists in WebContainer: ${path}`);
+
         // Use try-catch with stat API
         try {
           // Access the internal fs stat method, wrapped in try/catch since it might not be publicly typed
-          const stats = await (this.webcontainer.fs as any).stat(path);
+          const stats = await (this._webcontainer.fs as any).stat(path);
           return stats !== null;
-        } catch (statError) {
+        } catch {
           // Alternatively, try to read the file and see if it errors
-          await this.webcontainer.fs.readFile(path);
+          await this._webcontainer.fs.readFile(path);
           return true;
         }
-      } catch (error) {
+      } catch {
         logger.debug(`File does not exist in WebContainer: ${path}`);
         return false;
       }
@@ -162,24 +186,25 @@ export class FileSystemAdapter {
    */
   async watch(path: string, options: { persistent?: boolean } = {}): Promise<any> {
     // In Cloudflare, return a dummy watcher that does nothing
-    if (this.isCloudflare) {
+    if (this._isCloudflare) {
       logger.warn(`File watching not supported in Cloudflare environment: ${path}`);
+
       // Return a dummy watcher object that does nothing
       return {
-        addEventListener: (event: string, callback: () => void) => {
+        addEventListener: (event: string, _callback: () => void) => {
           logger.debug(`Dummy watcher addEventListener called with event: ${event}`);
         },
         close: () => {
           logger.debug('Dummy watcher close called');
-        }
+        },
       };
     }
 
     // In browser, use WebContainer's filesystem watcher if available
-    if (this.webcontainer) {
+    if (this._webcontainer) {
       try {
         logger.debug(`Setting up file watcher in WebContainer: ${path}`);
-        return await this.webcontainer.fs.watch(path, options);
+        return await this._webcontainer.fs.watch(path, options);
       } catch (error) {
         logger.error(`Error setting up file watcher in WebContainer: ${path}`, { error });
         return null;
@@ -188,4 +213,4 @@ export class FileSystemAdapter {
 
     return null;
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,71 @@
+import type { AuthCallback, AuthFailureCallback, AuthSuccessCallback, GitAuth } from 'isomorphic-git';
+import Cookies from 'js-cookie';
+import { toast } from 'react-toastify';
+import { getLocalStorage } from '~/lib/persistence/localStorage';
+
+export const lookupSavedPassword = (url: string) => {
+  const domain = url.split('/')[2];
+  const gitCreds = Cookies.get(`git:${domain}`);
+
+  if (!gitCreds) {
+    return null;
+  }
+
+  try {
+    const { username, password } = JSON.parse(gitCreds || '{}');
+    return { username, password };
+  } catch (error) {
+    console.log(`Failed to parse Git Cookie ${error}`);
+    return null;
+  }
+};
+
+export const saveGitAuth = (url: string, auth: GitAuth) => {
+  const domain = url.split('/')[2];
+  Cookies.set(`git:${domain}`, JSON.stringify(auth));
+};
+
+// the token of the GitHub connection in the settings
+export const getGitHubToken = (): string | undefined =>
+  getLocalStorage('github_connection')?.token || Cookies.get('githubToken');
+
+// the GitHub token works for git over https too
+const lookupGitHubToken = (url: string) => {
+  if (url.split('/')[2] !== 'github.com') {
+    return null;
+  }
+
+  const token = getGitHubToken();
+
+  return token ? { username: token, password: 'x-oauth-basic' } : null;
+};
+
+const onAuth: AuthCallback = (url) => {
+  let auth = lookupSavedPassword(url) ?? lookupGitHubToken(url);
+
+  if (auth) {
+    return auth;
+  }
+
+  if (confirm('This repo is password protected. Ready to enter a username & password?')) {
+    auth = {
+      username: prompt('Enter username'),
+      password: prompt('Enter password'),
+    };
+    return auth;
+  } else {
+    return { cancel: true };
+  }
+};
+
+const onAuthFailure: AuthFailureCallback = (url, _auth) => {
+  toast.error(`Error Authenticating with ${url.split('/')[2]}`);
+  throw `Error Authenticating with ${url.split('/')[2]}`;
+};
+
+const onAuthSuccess: AuthSuccessCallback = (url, auth) => {
+  saveGitAuth(url, auth);
+};
+
+// callbacks of every isomorphic-git operation that talks to a remote through `/api/git-proxy`
+export const gitAuthCallbacks = { onAuth, onAuthFailure, onAuthSuccess };
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { parseGitHubUrl } from './github';
+
+describe('parseGitHubUrl', () => {
+  it('should read the owner and repository of clone and browser urls', () => {
+    expect(parseGitHubUrl('https://github.com/stackblitz/bolt.new.git')).toEqual({
+      owner: 'stackblitz',
+      repo: 'bolt.new',
+    });
+    expect(parseGitHubUrl('https://github.com/stackblitz/bolt.new#main')).toEqual({
+      owner: 'stackblitz',
+      repo: 'bolt.new',
+    });
+  });
+
+  it('should ignore other hosts', () => {
+    expect(parseGitHubUrl('https://gitlab.com/group/project.git')).toBeUndefined();
+  });
+});
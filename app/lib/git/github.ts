@@ -0,0 +1,51 @@
+import { Octokit } from '@octokit/rest';
+import { getGitHubToken } from './auth';
+
+export interface PullRequestOptions {
+  // the repository url, like `https://github.com/owner/repo.git`
+  url: string;
+  head: string;
+
+  // the default branch of the repository if not given
+  base?: string;
+  title: string;
+  body: string;
+}
+
+// owner and name of a GitHub repository url, other hosts have no pull request api here
+export function parseGitHubUrl(url: string) {
+  const match = url.match(/^https?:\/\/github\.com\/([^/]+)\/([^/#?]+?)(?:\.git)?\/?(?:[#?].*)?$/);
+  return match ? { owner: match[1], repo: match[2] } : undefined;
+}
+
+/**
+ * Opens a pull request from a pushed branch with the token of the GitHub connection, returns its url.
+ */
+export async function createPullRequest({ url, head, base, title, body }: PullRequestOptions) {
+  const repository = parseGitHubUrl(url);
+
+  if (!repository) {
+    throw new Error('Pull requests can only be opened for GitHub repositories');
+  }
+
+  const token = getGitHubToken();
+
+  if (!token) {
+    throw new Error('Connect your GitHub account in the settings to open pull requests');
+  }
+
+  const octokit = new Octokit({ auth: token });
+
+  if (!base) {
+    const { data } = await octokit.repos.get(repository);
+    base = data.default_branch;
+  }
+
+  if (base === head) {
+    throw new Error(`Push to a branch other than ${base} to open a pull request`);
+  }
+
+  const { data: pullRequest } = await octokit.pulls.create({ ...repository, head, base, title, body });
+
+  return pullRequest.html_url;
+}
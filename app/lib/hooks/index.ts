@@ -3,6 +3,7 @@ export * from './usePromptEnhancer';
 export * from './useShortcuts';
 export * from './useSnapScroll';
 export * from './useEditChatDescription';
+export * from './useAutoFix';
 export { default } from './useViewport';
 export { useUpdateCheck } from './useUpdateCheck';
 export { useFeatures } from './useFeatures';
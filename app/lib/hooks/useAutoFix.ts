@@ -0,0 +1,126 @@
+import { useStore } from '@nanostores/react';
+import type { Message } from 'ai';
+import { useCallback, useEffect, useRef } from 'react';
+import { toast } from 'react-toastify';
+import { autoFixMaxAttemptsStore, autoFixStore } from '~/lib/stores/settings';
+import { workbenchStore } from '~/lib/stores/workbench';
+import type { ActionAlert } from '~/types/actions';
+import type { AutoFixAnnotation, RepairRequest } from '~/types/context';
+import { diffFileMaps } from '~/utils/diff';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('useAutoFix');
+
+// long build logs are cut from the top, the actual error is usually at the end
+const MAX_ERROR_OUTPUT_LENGTH = 6000;
+
+// the files store follows the WebContainer through a buffered watcher
+const FILE_WATCHER_DELAY = 300;
+
+interface UseAutoFixOptions {
+  messages: Message[];
+  isLoading: boolean;
+  setMessages: (messages: Message[] | ((messages: Message[]) => Message[])) => void;
+  sendRepairMessage: (content: string, repair: RepairRequest) => void;
+}
+
+export function getRepairMessage(alert: ActionAlert, { attempt, maxAttempts, source }: RepairRequest) {
+  const language = source === 'preview' ? 'js' : source === 'patch' ? 'diff' : 'sh';
+  const output =
+    alert.content.length > MAX_ERROR_OUTPUT_LENGTH
+      ? `...\n${alert.content.slice(-MAX_ERROR_OUTPUT_LENGTH)}`
+      : alert.content;
+  const description = alert.description ? `${alert.description}\n` : '';
+
+  return `*Auto-fix attempt ${attempt}/${maxAttempts}: fix this ${source} error*\n${description}\`\`\`${language}\n${output}\n\`\`\`\n`;
+}
+
+/**
+ * Opt-in loop that sends failing commands and preview errors back to the model instead of waiting
+ * for the user to click "Ask Bolt". Once an attempt has been answered and its actions ran, the
+ * changes it made are attached to the answer as an `autoFix` annotation so every attempt stays
+ * visible in the chat. Attempts are counted until the user sends a message again.
+ */
+export function useAutoFix({ messages, isLoading, setMessages, sendRepairMessage }: UseAutoFixOptions) {
+  const enabled = useStore(autoFixStore);
+  const maxAttempts = useStore(autoFixMaxAttemptsStore);
+  const alert = useStore(workbenchStore.alert);
+
+  const attempts = useRef(0);
+  const pending = useRef<RepairRequest | undefined>(undefined);
+  const gaveUp = useRef(false);
+
+  useEffect(() => {
+    const repair = pending.current;
+
+    if (isLoading || !repair) {
+      return;
+    }
+
+    pending.current = undefined;
+
+    const lastMessage = messages[messages.length - 1];
+
+    if (lastMessage?.role !== 'assistant') {
+      return;
+    }
+
+    const messageId = lastMessage.id;
+
+    workbenchStore
+      .waitForIdle()
+      .then(() => new Promise((resolve) => setTimeout(resolve, FILE_WATCHER_DELAY)))
+      .then(() => {
+        const checkpoint = workbenchStore.artifacts.get()[messageId]?.checkpoint;
+        const annotation: AutoFixAnnotation = {
+          type: 'autoFix',
+          ...repair,
+          diff: checkpoint ? diffFileMaps(checkpoint, workbenchStore.files.get()) : '',
+        };
+
+        setMessages((current) =>
+          current.map((message) =>
+            message.id === messageId
+              ? { ...message, annotations: [...(message.annotations ?? []), annotation] }
+              : message,
+          ),
+        );
+      })
+      .catch((error) => logger.error('Failed to record auto-fix attempt', error));
+  }, [isLoading]);
+
+  useEffect(() => {
+    if (!enabled || !alert || isLoading || pending.current) {
+      return;
+    }
+
+    if (attempts.current >= maxAttempts) {
+      // the alert stays up so the user can take over
+      if (!gaveUp.current) {
+        gaveUp.current = true;
+        toast.warning(`Auto-fix stopped after ${maxAttempts} attempts`);
+      }
+
+      return;
+    }
+
+    const repair: RepairRequest = {
+      attempt: ++attempts.current,
+      maxAttempts,
+      source: alert.source ?? 'terminal',
+    };
+
+    logger.info(`Sending ${repair.source} error back for auto-fix attempt ${repair.attempt}/${maxAttempts}`);
+
+    pending.current = repair;
+    workbenchStore.clearAlert();
+    sendRepairMessage(getRepairMessage(alert, repair), repair);
+  }, [alert, isLoading, enabled]);
+
+  const resetAutoFix = useCallback(() => {
+    attempts.current = 0;
+    gaveUp.current = false;
+  }, []);
+
+  return { resetAutoFix };
+}
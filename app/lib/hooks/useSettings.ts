@@ -7,6 +7,15 @@ import {
   latestBranchStore,
   autoSelectStarterTemplate,
   enableContextOptimizationStore,
+  autoFixStore,
+  autoFixMaxAttemptsStore,
+  agentModeStore,
+  chatSyncStore,
+  chatSyncKeyStore,
+  toolApprovalPolicyStore,
+  retrievalStore,
+  pricingOverridesStore,
+  spendLimitsStore,
   tabConfigurationStore,
   updateTabConfiguration as updateTabConfig,
   resetTabConfiguration as resetTabConfig,
@@ -16,11 +25,23 @@ import {
   updateContextOptimization,
   updateEventLogs,
   updatePromptId,
+  updateAutoFix,
+  updateAutoFixMaxAttempts,
+  updateAgentMode,
+  updateChatSync,
+  updateChatSyncKey,
+  updateToolApproval,
+  updateRetrieval,
+  updatePricingOverride,
+  updateSpendLimits,
 } from '~/lib/stores/settings';
 import { useCallback, useEffect, useState } from 'react';
 import Cookies from 'js-cookie';
 import type { IProviderSetting, ProviderInfo, IProviderConfig } from '~/types/model';
 import type { TabWindowConfig, TabVisibilityConfig } from '~/components/@settings/core/types';
+import type { AgentToolName, ToolApproval, ToolApprovalPolicy } from '~/types/agent';
+import type { RetrievalRequest } from '~/types/retrieval';
+import type { ModelPricing, PricingOverrides, SpendLimits } from '~/types/cost';
 import { logStore } from '~/lib/stores/logs';
 import { getLocalStorage, setLocalStorage } from '~/lib/persistence';
 
@@ -59,6 +80,24 @@ export interface UseSettingsReturn {
   setAutoSelectTemplate: (enabled: boolean) => void;
   contextOptimizationEnabled: boolean;
   enableContextOptimization: (enabled: boolean) => void;
+  autoFixEnabled: boolean;
+  enableAutoFix: (enabled: boolean) => void;
+  autoFixMaxAttempts: number;
+  setAutoFixMaxAttempts: (attempts: number) => void;
+  agentModeEnabled: boolean;
+  enableAgentMode: (enabled: boolean) => void;
+  chatSyncEnabled: boolean;
+  enableChatSync: (enabled: boolean) => void;
+  chatSyncKey: string;
+  setChatSyncKey: (key: string) => void;
+  toolApprovalPolicy: ToolApprovalPolicy;
+  setToolApproval: (tool: AgentToolName, approval: ToolApproval) => void;
+  retrieval: RetrievalRequest;
+  setRetrieval: (settings: Partial<RetrievalRequest>) => void;
+  pricingOverrides: PricingOverrides;
+  setPricingOverride: (key: string, pricing: ModelPricing | undefined) => void;
+  spendLimits: SpendLimits;
+  setSpendLimits: (limits: SpendLimits) => void;
 
   // Tab configuration
   tabConfiguration: TabWindowConfig;
@@ -80,6 +119,15 @@ export function useSettings(): UseSettingsReturn {
   const autoSelectTemplate = useStore(autoSelectStarterTemplate);
   const [activeProviders, setActiveProviders] = useState<ProviderInfo[]>([]);
   const contextOptimizationEnabled = useStore(enableContextOptimizationStore);
+  const autoFixEnabled = useStore(autoFixStore);
+  const autoFixMaxAttempts = useStore(autoFixMaxAttemptsStore);
+  const agentModeEnabled = useStore(agentModeStore);
+  const chatSyncEnabled = useStore(chatSyncStore);
+  const chatSyncKey = useStore(chatSyncKeyStore);
+  const toolApprovalPolicy = useStore(toolApprovalPolicyStore);
+  const retrieval = useStore(retrievalStore);
+  const pricingOverrides = useStore(pricingOverridesStore);
+  const spendLimits = useStore(spendLimitsStore);
   const tabConfiguration = useStore(tabConfigurationStore);
   const [settings, setSettings] = useState<Settings>(() => {
     const storedSettings = getLocalStorage('settings');
@@ -145,6 +193,51 @@ export function useSettings(): UseSettingsReturn {
     logStore.logSystem(`Context optimization ${enabled ? 'enabled' : 'disabled'}`);
   }, []);
 
+  const enableAutoFix = useCallback((enabled: boolean) => {
+    updateAutoFix(enabled);
+    logStore.logSystem(`Auto-fix ${enabled ? 'enabled' : 'disabled'}`);
+  }, []);
+
+  const setAutoFixMaxAttempts = useCallback((attempts: number) => {
+    updateAutoFixMaxAttempts(attempts);
+    logStore.logSystem(`Auto-fix attempts set to ${attempts}`);
+  }, []);
+
+  const enableAgentMode = useCallback((enabled: boolean) => {
+    updateAgentMode(enabled);
+    logStore.logSystem(`Agent mode ${enabled ? 'enabled' : 'disabled'}`);
+  }, []);
+
+  const enableChatSync = useCallback((enabled: boolean) => {
+    updateChatSync(enabled);
+    logStore.logSystem(`Chat sync ${enabled ? 'enabled' : 'disabled'}`);
+  }, []);
+
+  const setChatSyncKey = useCallback((key: string) => {
+    updateChatSyncKey(key);
+    logStore.logSystem(`Chat sync key ${key ? 'updated' : 'removed'}`);
+  }, []);
+
+  const setToolApproval = useCallback((tool: AgentToolName, approval: ToolApproval) => {
+    updateToolApproval(tool, approval);
+    logStore.logSystem(`Tool ${tool} set to ${approval}`);
+  }, []);
+
+  const setRetrieval = useCallback((settings: Partial<RetrievalRequest>) => {
+    updateRetrieval(settings);
+    logStore.logSystem(`Retrieval settings updated: ${JSON.stringify(settings)}`);
+  }, []);
+
+  const setPricingOverride = useCallback((key: string, pricing: ModelPricing | undefined) => {
+    updatePricingOverride(key, pricing);
+    logStore.logSystem(pricing ? `Pricing of ${key} set` : `Pricing of ${key} reset`);
+  }, []);
+
+  const setSpendLimits = useCallback((limits: SpendLimits) => {
+    updateSpendLimits(limits);
+    logStore.logSystem(`Spending limits updated: ${JSON.stringify(limits)}`);
+  }, []);
+
   const setTheme = useCallback(
     (theme: Settings['theme']) => {
       saveSettings({ theme });
@@ -199,6 +292,24 @@ export function useSettings(): UseSettingsReturn {
     setAutoSelectTemplate,
     contextOptimizationEnabled,
     enableContextOptimization,
+    autoFixEnabled,
+    enableAutoFix,
+    autoFixMaxAttempts,
+    setAutoFixMaxAttempts,
+    agentModeEnabled,
+    enableAgentMode,
+    chatSyncEnabled,
+    enableChatSync,
+    chatSyncKey,
+    setChatSyncKey,
+    toolApprovalPolicy,
+    setToolApproval,
+    retrieval,
+    setRetrieval,
+    pricingOverrides,
+    setPricingOverride,
+    spendLimits,
+    setSpendLimits,
     setTheme,
     setLanguage,
     setNotifications,
@@ -0,0 +1,106 @@
+import type {
+  DeploymentCredentials,
+  DeploymentFile,
+  DeploymentProvider,
+  DeploymentProviderConfig,
+  DeploymentResult,
+  DeploymentStatusOptions,
+  DeployOptions,
+} from './types';
+
+export class DeploymentError extends Error {
+  constructor(
+    message: string,
+    readonly status = 500,
+  ) {
+    super(message);
+    this.name = 'DeploymentError';
+  }
+}
+
+export abstract class BaseDeploymentProvider implements DeploymentProvider {
+  abstract name: string;
+  abstract label: string;
+  config: DeploymentProviderConfig = {};
+
+  abstract deploy(options: DeployOptions): Promise<DeploymentResult>;
+  abstract getStatus(options: DeploymentStatusOptions): Promise<DeploymentResult>;
+
+  /**
+   * Credentials sent with the request win over the server configuration. The server's own accounts are only
+   * used when `useServerCredentials` is set, callers without it have to bring their own token.
+   */
+  resolveCredentials(
+    credentials: DeploymentCredentials = {},
+    serverEnv: Record<string, string | undefined> | undefined,
+    useServerCredentials: boolean,
+  ) {
+    const { tokenKey, accountIdKey } = this.config;
+    const fromServer = (key?: string) =>
+      useServerCredentials && key ? serverEnv?.[key] || process?.env?.[key] : undefined;
+    const resolved: DeploymentCredentials = {
+      token: credentials.token || fromServer(tokenKey),
+      accountId: credentials.accountId || fromServer(accountIdKey),
+    };
+
+    if (this.config.requiresToken && !resolved.token) {
+      throw new DeploymentError(`Not connected to ${this.label}`, 401);
+    }
+
+    if (this.config.requiresAccountId && !resolved.accountId) {
+      throw new DeploymentError(`Missing ${accountIdKey ?? 'account id'} for ${this.label}`, 400);
+    }
+
+    return resolved;
+  }
+
+  isConfigured(serverEnv?: Record<string, string | undefined>) {
+    const { tokenKey } = this.config;
+    return !this.config.requiresToken || !!(tokenKey && (serverEnv?.[tokenKey] || process?.env?.[tokenKey]));
+  }
+
+  protected async fetchJson<T>(url: string, init: RequestInit, errorMessage: string): Promise<T> {
+    const response = await fetch(url, init);
+
+    if (!response.ok) {
+      const details = await response.text().catch(() => '');
+      throw new DeploymentError(`${errorMessage}: ${response.status} ${details}`.trim(), response.status);
+    }
+
+    return response.json<T>();
+  }
+
+  // deploy paths always start with a slash
+  protected normalizePath(filePath: string) {
+    return filePath.startsWith('/') ? filePath : `/${filePath}`;
+  }
+}
+
+const encoder = new TextEncoder();
+
+export function toBytes(file: DeploymentFile): Uint8Array {
+  if (typeof file === 'string') {
+    return encoder.encode(file);
+  }
+
+  return Uint8Array.from(atob(file.content), (char) => char.charCodeAt(0));
+}
+
+export function toBase64(file: DeploymentFile) {
+  if (typeof file !== 'string') {
+    return file.content;
+  }
+
+  let binary = '';
+
+  for (const byte of encoder.encode(file)) {
+    binary += String.fromCharCode(byte);
+  }
+
+  return btoa(binary);
+}
+
+export async function digestHex(algorithm: 'SHA-1' | 'SHA-256', content: string | Uint8Array) {
+  const digest = await crypto.subtle.digest(algorithm, typeof content === 'string' ? encoder.encode(content) : content);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { DeploymentError } from './base-provider';
+import { DeploymentManager } from './manager';
+import NetlifyDeploymentProvider from './providers/netlify';
+import StaticExportDeploymentProvider from './providers/static-export';
+import VercelDeploymentProvider from './providers/vercel';
+
+describe('DeploymentManager', () => {
+  it('should register every provider of the registry under its name', () => {
+    const manager = DeploymentManager.getInstance();
+
+    expect(manager.getProvider('netlify')).toBeInstanceOf(NetlifyDeploymentProvider);
+    expect(manager.getProvider('vercel')).toBeInstanceOf(VercelDeploymentProvider);
+    expect(manager.getProvider('static')).toBeInstanceOf(StaticExportDeploymentProvider);
+    expect(manager.getProvider('unknown')).toBeUndefined();
+    expect(
+      manager
+        .getAllProviders()
+        .map((provider) => provider.name)
+        .sort(),
+    ).toEqual(['cloudflare-pages', 'netlify', 'static', 'vercel']);
+  });
+
+  it('should prefer request credentials over the server configuration', () => {
+    const vercel = DeploymentManager.getInstance().getProvider('vercel')!;
+    const serverEnv = { VERCEL_TOKEN: 'server-token', VERCEL_TEAM_ID: 'team_server' };
+
+    expect(vercel.resolveCredentials({}, serverEnv, true)).toEqual({ token: 'server-token', accountId: 'team_server' });
+    expect(vercel.resolveCredentials({ token: 'user-token' }, serverEnv, true)).toMatchObject({ token: 'user-token' });
+    expect(() => vercel.resolveCredentials({}, {}, true)).toThrow(DeploymentError);
+    expect(vercel.isConfigured(serverEnv)).toBe(true);
+  });
+
+  it('should only fall back to the server configuration when allowed to', () => {
+    const vercel = DeploymentManager.getInstance().getProvider('vercel')!;
+    const serverEnv = { VERCEL_TOKEN: 'server-token', VERCEL_TEAM_ID: 'team_server' };
+
+    expect(() => vercel.resolveCredentials({}, serverEnv, false)).toThrow('Not connected to Vercel');
+    expect(vercel.resolveCredentials({ token: 'user-token' }, serverEnv, false)).toEqual({ token: 'user-token' });
+  });
+});
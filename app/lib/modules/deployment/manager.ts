@@ -0,0 +1,48 @@
+import { BaseDeploymentProvider } from './base-provider';
+import * as providers from './registry';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('DeploymentManager');
+
+export class DeploymentManager {
+  private static _instance: DeploymentManager;
+  private _providers: Map<string, BaseDeploymentProvider> = new Map();
+
+  private constructor() {
+    this._registerProvidersFromRegistry();
+  }
+
+  static getInstance(): DeploymentManager {
+    if (!DeploymentManager._instance) {
+      DeploymentManager._instance = new DeploymentManager();
+    }
+
+    return DeploymentManager._instance;
+  }
+
+  private _registerProvidersFromRegistry() {
+    for (const exportedItem of Object.values(providers)) {
+      if (typeof exportedItem === 'function' && exportedItem.prototype instanceof BaseDeploymentProvider) {
+        this.registerProvider(new exportedItem());
+      }
+    }
+  }
+
+  registerProvider(provider: BaseDeploymentProvider) {
+    if (this._providers.has(provider.name)) {
+      logger.warn(`Deployment provider ${provider.name} is already registered. Skipping.`);
+      return;
+    }
+
+    logger.info('Registering deployment provider: ', provider.name);
+    this._providers.set(provider.name, provider);
+  }
+
+  getProvider(name: string): BaseDeploymentProvider | undefined {
+    return this._providers.get(name);
+  }
+
+  getAllProviders(): BaseDeploymentProvider[] {
+    return Array.from(this._providers.values());
+  }
+}
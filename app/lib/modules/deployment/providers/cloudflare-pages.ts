@@ -0,0 +1,217 @@
+import { BaseDeploymentProvider, DeploymentError, digestHex, toBase64 } from '~/lib/modules/deployment/base-provider';
+import type {
+  DeploymentResult,
+  DeploymentState,
+  DeploymentStatusOptions,
+  DeployOptions,
+} from '~/lib/modules/deployment/types';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('cloudflare-pages-deploy');
+
+const API_URL = 'https://api.cloudflare.com/client/v4';
+const UPLOAD_BATCH_SIZE = 50;
+
+interface CloudflareResponse<T> {
+  success: boolean;
+  result: T;
+  errors?: { message: string }[];
+}
+
+interface PagesProject {
+  name: string;
+  subdomain?: string;
+}
+
+interface PagesDeployment {
+  id: string;
+  url?: string;
+  project_name?: string;
+  latest_stage?: { name: string; status: string };
+}
+
+interface PagesAsset {
+  hash: string;
+  base64: string;
+  contentType: string;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  html: 'text/html',
+  css: 'text/css',
+  js: 'application/javascript',
+  mjs: 'application/javascript',
+  json: 'application/json',
+  svg: 'image/svg+xml',
+  txt: 'text/plain',
+  xml: 'application/xml',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  ico: 'image/x-icon',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+  wasm: 'application/wasm',
+};
+
+function toDeploymentState(stage?: PagesDeployment['latest_stage']): DeploymentState {
+  if (!stage) {
+    return 'queued';
+  }
+
+  if (stage.status === 'failure') {
+    return 'error';
+  }
+
+  if (stage.name === 'deploy' && stage.status === 'success') {
+    return 'ready';
+  }
+
+  return stage.status === 'idle' || stage.name === 'queued' ? 'queued' : 'building';
+}
+
+/**
+ * Direct upload to Cloudflare Pages, following the same asset API wrangler uses:
+ * upload missing assets with a project scoped JWT, then create a deployment
+ * from a path -> hash manifest.
+ */
+export default class CloudflarePagesDeploymentProvider extends BaseDeploymentProvider {
+  name = 'cloudflare-pages';
+  label = 'Cloudflare Pages';
+
+  config = {
+    tokenKey: 'CLOUDFLARE_API_TOKEN',
+    accountIdKey: 'CLOUDFLARE_ACCOUNT_ID',
+    requiresToken: true,
+    requiresAccountId: true,
+  };
+
+  async deploy({ files, siteId, siteName, credentials }: DeployOptions): Promise<DeploymentResult> {
+    const token = credentials.token!;
+    const projectUrl = `${API_URL}/accounts/${credentials.accountId}/pages/projects`;
+    const project = await this._getOrCreateProject(token, projectUrl, siteId || siteName);
+
+    const manifest: Record<string, string> = {};
+    const assets = new Map<string, PagesAsset>();
+
+    for (const [filePath, file] of Object.entries(files)) {
+      const path = this.normalizePath(filePath);
+      const extension = path.split('.').pop() ?? '';
+      const base64 = toBase64(file);
+      const hash = (await digestHex('SHA-256', base64 + extension)).slice(0, 32);
+
+      manifest[path] = hash;
+      assets.set(hash, { hash, base64, contentType: CONTENT_TYPES[extension] ?? 'application/octet-stream' });
+    }
+
+    const { jwt } = await this._api<{ jwt: string }>(token, `${projectUrl}/${project.name}/upload-token`, {});
+    const missing = await this._api<string[]>(jwt, `${API_URL}/pages/assets/check-missing`, {
+      method: 'POST',
+      body: JSON.stringify({ hashes: Array.from(assets.keys()) }),
+    });
+
+    for (let i = 0; i < missing.length; i += UPLOAD_BATCH_SIZE) {
+      const batch = missing.slice(i, i + UPLOAD_BATCH_SIZE).map((hash) => assets.get(hash)!);
+
+      await this._api(jwt, `${API_URL}/pages/assets/upload`, {
+        method: 'POST',
+        body: JSON.stringify(
+          batch.map((asset) => ({
+            key: asset.hash,
+            value: asset.base64,
+            metadata: { contentType: asset.contentType },
+            base64: true,
+          })),
+        ),
+      });
+    }
+
+    await this._api(jwt, `${API_URL}/pages/assets/upsert-hashes`, {
+      method: 'POST',
+      body: JSON.stringify({ hashes: Array.from(assets.keys()) }),
+    });
+
+    const form = new FormData();
+    form.append('manifest', JSON.stringify(manifest));
+
+    const deployment = await this._api<PagesDeployment>(token, `${projectUrl}/${project.name}/deployments`, {
+      method: 'POST',
+      body: form,
+    });
+
+    logger.info('Created Cloudflare Pages deployment', {
+      project: project.name,
+      deployId: deployment.id,
+      uploaded: missing.length,
+    });
+
+    return {
+      ...this._toResult(deployment, project.name),
+      siteName: project.name,
+      siteUrl: project.subdomain ? `https://${project.subdomain}` : undefined,
+    };
+  }
+
+  async getStatus({ deployId, siteId, credentials }: DeploymentStatusOptions): Promise<DeploymentResult> {
+    if (!siteId) {
+      throw new DeploymentError('The Pages project name is required to check a deployment', 400);
+    }
+
+    const deployment = await this._api<PagesDeployment>(
+      credentials.token!,
+      `${API_URL}/accounts/${credentials.accountId}/pages/projects/${siteId}/deployments/${deployId}`,
+      {},
+    );
+
+    return this._toResult(deployment, siteId);
+  }
+
+  private _toResult(deployment: PagesDeployment, projectName: string): DeploymentResult {
+    return {
+      id: deployment.id,
+      provider: this.name,
+      state: toDeploymentState(deployment.latest_stage),
+      url: deployment.url,
+      siteId: projectName,
+    };
+  }
+
+  private async _getOrCreateProject(token: string, projectUrl: string, name?: string) {
+    if (!name) {
+      throw new DeploymentError('A Pages project name is required', 400);
+    }
+
+    const response = await fetch(`${projectUrl}/${name}`, { headers: { Authorization: `Bearer ${token}` } });
+
+    if (response.ok) {
+      return (await response.json<CloudflareResponse<PagesProject>>()).result;
+    }
+
+    return this._api<PagesProject>(token, projectUrl, {
+      method: 'POST',
+      body: JSON.stringify({ name, production_branch: 'main' }),
+    });
+  }
+
+  private async _api<T>(token: string, url: string, init: RequestInit): Promise<T> {
+    const headers: Record<string, string> = { Authorization: `Bearer ${token}` };
+
+    if (typeof init.body === 'string') {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    const response = await this.fetchJson<CloudflareResponse<T>>(
+      url,
+      { ...init, headers },
+      'Cloudflare Pages request failed',
+    );
+
+    if (!response.success) {
+      throw new DeploymentError(response.errors?.map((error) => error.message).join(', ') || 'Cloudflare API error');
+    }
+
+    return response.result;
+  }
+}
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryKeyValueStore } from '~/lib/.server/storage';
+import { digestHex } from '~/lib/modules/deployment/base-provider';
+import NetlifyDeploymentProvider from './netlify';
+
+const API_URL = 'https://api.netlify.com/api/v1';
+
+// a few bytes that aren't valid UTF-8
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+
+const files = {
+  'index.html': '<h1>Hello</h1>',
+  'about.html': '<h1>About</h1>',
+  'logo.png': { content: btoa(String.fromCharCode(...PNG_BYTES)), encoding: 'base64' as const },
+};
+
+describe('NetlifyDeploymentProvider', () => {
+  const uploads: Record<string, Uint8Array> = {};
+  let deployRequest: { files: Record<string, string> } | undefined;
+  let required: string[] = [];
+
+  beforeEach(() => {
+    deployRequest = undefined;
+
+    for (const path of Object.keys(uploads)) {
+      delete uploads[path];
+    }
+
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string, init: RequestInit) => {
+        if (url === `${API_URL}/sites`) {
+          return Response.json({ id: 'site_1', name: 'demo', url: 'http://demo.netlify.app' });
+        }
+
+        if (url === `${API_URL}/sites/site_1/deploys`) {
+          deployRequest = JSON.parse(init.body as string);
+          return Response.json({ id: 'deploy_1', site_id: 'site_1', state: 'uploading', required });
+        }
+
+        if (url.startsWith(`${API_URL}/deploys/deploy_1/files/`)) {
+          uploads[url.slice(`${API_URL}/deploys/deploy_1/files`.length)] = init.body as Uint8Array;
+          return new Response(null, { status: 200 });
+        }
+
+        throw new Error(`Unexpected request: ${url}`);
+      }),
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should only upload the files whose digests Netlify requires', async () => {
+    required = [await digestHex('SHA-1', files['about.html'])];
+
+    const result = await new NetlifyDeploymentProvider().deploy({
+      files,
+      siteName: 'demo',
+      credentials: { token: 'token' },
+      store: new MemoryKeyValueStore(),
+    });
+
+    expect(Object.keys(deployRequest!.files).sort()).toEqual(['/about.html', '/index.html', '/logo.png']);
+    expect(Object.keys(uploads)).toEqual(['/about.html']);
+    expect(new TextDecoder().decode(uploads['/about.html'])).toBe('<h1>About</h1>');
+    expect(result).toMatchObject({ id: 'deploy_1', state: 'building', siteId: 'site_1', siteName: 'demo' });
+  });
+
+  it('should digest and upload base64 assets as their decoded bytes', async () => {
+    const digest = await digestHex('SHA-1', PNG_BYTES);
+
+    required = [digest];
+
+    await new NetlifyDeploymentProvider().deploy({
+      files,
+      siteName: 'demo',
+      credentials: { token: 'token' },
+      store: new MemoryKeyValueStore(),
+    });
+
+    expect(deployRequest!.files['/logo.png']).toBe(digest);
+    expect(uploads['/logo.png']).toEqual(PNG_BYTES);
+  });
+});
@@ -0,0 +1,79 @@
+import JSZip from 'jszip';
+import { BaseDeploymentProvider, DeploymentError } from '~/lib/modules/deployment/base-provider';
+import type { DeploymentResult, DeploymentStatusOptions, DeployOptions } from '~/lib/modules/deployment/types';
+import type { KeyValueStore } from '~/lib/.server/storage';
+
+// exports are kept for a week
+const ARCHIVE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+interface StaticArchive {
+  fileCount: number;
+  createdAt: number;
+
+  // base64 encoded zip
+  data: string;
+}
+
+function archiveKey(deployId: string) {
+  return `deployments:static:${deployId}`;
+}
+
+/**
+ * Packs the files into a zip archive kept in the app's own storage, for hosting
+ * targets without an API. The archive is served from `/api/deploy/:id?download=zip`.
+ */
+export default class StaticExportDeploymentProvider extends BaseDeploymentProvider {
+  name = 'static';
+  label = 'Static export (zip)';
+
+  async deploy({ files, siteName, store }: DeployOptions): Promise<DeploymentResult> {
+    const zip = new JSZip();
+
+    for (const [filePath, file] of Object.entries(files)) {
+      const path = this.normalizePath(filePath).slice(1);
+
+      if (typeof file === 'string') {
+        zip.file(path, file);
+      } else {
+        zip.file(path, file.content, { base64: true });
+      }
+    }
+
+    const id = `static_${Date.now().toString(36)}_${crypto.randomUUID().slice(0, 8)}`;
+    const archive: StaticArchive = {
+      fileCount: Object.keys(files).length,
+      createdAt: Date.now(),
+      data: await zip.generateAsync({ type: 'base64', compression: 'DEFLATE' }),
+    };
+
+    await store.put(archiveKey(id), archive, { expirationTtl: ARCHIVE_TTL_SECONDS });
+
+    return {
+      id,
+      provider: this.name,
+      state: 'ready',
+      url: `/api/deploy/${id}?download=zip`,
+      siteName,
+    };
+  }
+
+  async getStatus({ deployId, store }: DeploymentStatusOptions): Promise<DeploymentResult> {
+    const archive = await store.get<StaticArchive>(archiveKey(deployId));
+
+    if (!archive) {
+      throw new DeploymentError('Export not found or expired', 404);
+    }
+
+    return { id: deployId, provider: this.name, state: 'ready', url: `/api/deploy/${deployId}?download=zip` };
+  }
+
+  async getArchive(store: KeyValueStore, deployId: string): Promise<Uint8Array | null> {
+    const archive = await store.get<StaticArchive>(archiveKey(deployId));
+
+    if (!archive) {
+      return null;
+    }
+
+    return Uint8Array.from(atob(archive.data), (char) => char.charCodeAt(0));
+  }
+}
@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MemoryKeyValueStore } from '~/lib/.server/storage';
+import { digestHex } from '~/lib/modules/deployment/base-provider';
+import VercelDeploymentProvider from './vercel';
+
+const files = {
+  'index.html': '<h1>Hello</h1>',
+  'app.js': 'console.log(1);',
+};
+
+describe('VercelDeploymentProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should upload the missing files and create the deployment again', async () => {
+    const missing = await digestHex('SHA-1', files['app.js']);
+    const requests: { url: URL; init: RequestInit }[] = [];
+    let deployments = 0;
+
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (input: string, init: RequestInit) => {
+        const url = new URL(input);
+
+        requests.push({ url, init });
+
+        if (url.pathname === '/v2/files') {
+          return new Response(null, { status: 200 });
+        }
+
+        // Vercel doesn't know the content of `app.js` on the first attempt
+        if (deployments++ === 0) {
+          return Response.json({ error: { code: 'missing_files', missing: [missing] } }, { status: 400 });
+        }
+
+        return Response.json({ id: 'dpl_1', name: 'demo', url: 'demo.vercel.app', readyState: 'QUEUED' });
+      }),
+    );
+
+    const result = await new VercelDeploymentProvider().deploy({
+      files,
+      siteName: 'demo',
+      credentials: { token: 'token', accountId: 'team_1' },
+      store: new MemoryKeyValueStore(),
+    });
+
+    expect(requests.map(({ url }) => url.pathname)).toEqual(['/v13/deployments', '/v2/files', '/v13/deployments']);
+    expect(requests.every(({ url }) => url.searchParams.get('teamId') === 'team_1')).toBe(true);
+
+    const upload = requests[1].init;
+
+    expect((upload.headers as Record<string, string>)['x-vercel-digest']).toBe(missing);
+    expect(new TextDecoder().decode(upload.body as Uint8Array)).toBe('console.log(1);');
+    expect(result).toEqual({
+      id: 'dpl_1',
+      provider: 'vercel',
+      state: 'queued',
+      url: 'https://demo.vercel.app',
+      siteId: undefined,
+      siteName: 'demo',
+      error: undefined,
+    });
+  });
+
+  it('should fail when the deployment is rejected for another reason', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => Response.json({ error: { code: 'forbidden' } }, { status: 403 })),
+    );
+
+    await expect(
+      new VercelDeploymentProvider().deploy({
+        files,
+        credentials: { token: 'token' },
+        store: new MemoryKeyValueStore(),
+      }),
+    ).rejects.toMatchObject({ status: 403 });
+  });
+});
@@ -0,0 +1,159 @@
+import { BaseDeploymentProvider, DeploymentError, digestHex, toBytes } from '~/lib/modules/deployment/base-provider';
+import type {
+  DeploymentCredentials,
+  DeploymentResult,
+  DeploymentState,
+  DeploymentStatusOptions,
+  DeployOptions,
+} from '~/lib/modules/deployment/types';
+
+const API_URL = 'https://api.vercel.com';
+
+interface VercelFileReference {
+  file: string;
+  sha: string;
+  size: number;
+}
+
+interface VercelErrorResponse {
+  error?: { code?: string; message?: string; missing?: string[] };
+}
+
+interface VercelDeploymentResponse {
+  id: string;
+  name: string;
+  url: string;
+  projectId?: string;
+  readyState?: string;
+  errorMessage?: string;
+}
+
+function toDeploymentState(readyState?: string): DeploymentState {
+  switch (readyState) {
+    case 'READY':
+      return 'ready';
+    case 'ERROR':
+      return 'error';
+    case 'CANCELED':
+      return 'cancelled';
+    case 'QUEUED':
+    case 'INITIALIZING':
+      return 'queued';
+    default:
+      return 'building';
+  }
+}
+
+export default class VercelDeploymentProvider extends BaseDeploymentProvider {
+  name = 'vercel';
+  label = 'Vercel';
+
+  config = {
+    tokenKey: 'VERCEL_TOKEN',
+    accountIdKey: 'VERCEL_TEAM_ID',
+    requiresToken: true,
+  };
+
+  /*
+   * Files are referenced by SHA1, Vercel answers with `missing_files` for content it
+   * doesn't have yet. Only those are uploaded before the deployment is created again.
+   * Vercel creates the project on first deploy.
+   */
+  async deploy({ files, siteId, siteName, credentials }: DeployOptions): Promise<DeploymentResult> {
+    const references: VercelFileReference[] = [];
+    const contentBySha = new Map<string, Uint8Array>();
+
+    for (const [filePath, file] of Object.entries(files)) {
+      const bytes = toBytes(file);
+      const sha = await digestHex('SHA-1', bytes);
+
+      references.push({ file: this.normalizePath(filePath).slice(1), sha, size: bytes.byteLength });
+      contentBySha.set(sha, bytes);
+    }
+
+    const body = JSON.stringify({
+      name: siteName || siteId,
+      project: siteId,
+      target: 'production',
+      files: references,
+      projectSettings: { framework: null },
+    });
+
+    let response = await this._createDeployment(body, credentials);
+
+    if (response.status === 400) {
+      const { error } = await response.clone().json<VercelErrorResponse>();
+
+      if (error?.code === 'missing_files') {
+        for (const sha of error.missing ?? []) {
+          await this._uploadFile(sha, contentBySha.get(sha)!, credentials);
+        }
+
+        response = await this._createDeployment(body, credentials);
+      }
+    }
+
+    if (!response.ok) {
+      const details = await response.text().catch(() => '');
+      throw new DeploymentError(`Failed to create deployment: ${response.status} ${details}`.trim(), response.status);
+    }
+
+    return this._toResult(await response.json<VercelDeploymentResponse>());
+  }
+
+  async getStatus({ deployId, credentials }: DeploymentStatusOptions): Promise<DeploymentResult> {
+    const deployment = await this.fetchJson<VercelDeploymentResponse>(
+      this._url(`/v13/deployments/${deployId}`, credentials),
+      { headers: { Authorization: `Bearer ${credentials.token}` } },
+      'Failed to fetch deployment status',
+    );
+
+    return this._toResult(deployment);
+  }
+
+  private _createDeployment(body: string, credentials: DeploymentCredentials) {
+    return fetch(this._url('/v13/deployments?skipAutoDetectionConfirmation=1', credentials), {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${credentials.token}`, 'Content-Type': 'application/json' },
+      body,
+    });
+  }
+
+  private async _uploadFile(sha: string, content: Uint8Array, credentials: DeploymentCredentials) {
+    const response = await fetch(this._url('/v2/files', credentials), {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${credentials.token}`,
+        'Content-Type': 'application/octet-stream',
+        'x-vercel-digest': sha,
+      },
+      body: content,
+    });
+
+    if (!response.ok) {
+      throw new DeploymentError(`Failed to upload file ${sha}: ${response.status}`, response.status);
+    }
+  }
+
+  private _url(path: string, { accountId }: DeploymentCredentials) {
+    const url = new URL(path, API_URL);
+
+    if (accountId) {
+      url.searchParams.set('teamId', accountId);
+    }
+
+    return url.toString();
+  }
+
+  private _toResult(deployment: VercelDeploymentResponse): DeploymentResult {
+    return {
+      id: deployment.id,
+      provider: this.name,
+      state: toDeploymentState(deployment.readyState),
+      url: deployment.url ? `https://${deployment.url}` : undefined,
+      siteId: deployment.projectId,
+      siteName: deployment.name,
+      error: deployment.errorMessage,
+    };
+  }
+}
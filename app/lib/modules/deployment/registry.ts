@@ -0,0 +1,11 @@
+import CloudflarePagesDeploymentProvider from './providers/cloudflare-pages';
+import NetlifyDeploymentProvider from './providers/netlify';
+import StaticExportDeploymentProvider from './providers/static-export';
+import VercelDeploymentProvider from './providers/vercel';
+
+export {
+  CloudflarePagesDeploymentProvider,
+  NetlifyDeploymentProvider,
+  StaticExportDeploymentProvider,
+  VercelDeploymentProvider,
+};
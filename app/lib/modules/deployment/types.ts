@@ -0,0 +1,67 @@
+import type { KeyValueStore } from '~/lib/.server/storage';
+
+export const DEPLOYMENT_STATES = ['queued', 'uploading', 'building', 'ready', 'error', 'cancelled'] as const;
+
+export type DeploymentState = (typeof DEPLOYMENT_STATES)[number];
+
+// binary assets are sent base64 encoded
+export type DeploymentFile = string | { content: string; encoding: 'base64' };
+
+// deploy path (relative to the site root) -> file content
+export type DeploymentFiles = Record<string, DeploymentFile>;
+
+export interface DeploymentCredentials {
+  token?: string;
+
+  // Cloudflare account id or Vercel team id
+  accountId?: string;
+}
+
+export interface DeployOptions {
+  files: DeploymentFiles;
+
+  // existing site/project to deploy to, a new one is created when missing
+  siteId?: string;
+  siteName?: string;
+  credentials: DeploymentCredentials;
+
+  // for providers that keep deploy artifacts themselves, e.g. the static export
+  store: KeyValueStore;
+}
+
+export interface DeploymentStatusOptions {
+  deployId: string;
+  siteId?: string;
+  credentials: DeploymentCredentials;
+  store: KeyValueStore;
+}
+
+export interface DeploymentResult {
+  id: string;
+  provider: string;
+  state: DeploymentState;
+  url?: string;
+  siteId?: string;
+  siteName?: string;
+  siteUrl?: string;
+  error?: string;
+}
+
+export interface DeploymentProviderConfig {
+  // server env keys used when the request doesn't carry credentials
+  tokenKey?: string;
+  accountIdKey?: string;
+  requiresToken?: boolean;
+  requiresAccountId?: boolean;
+}
+
+export interface DeploymentProviderInfo {
+  name: string;
+  label: string;
+  config: DeploymentProviderConfig;
+}
+
+export interface DeploymentProvider extends DeploymentProviderInfo {
+  deploy(options: DeployOptions): Promise<DeploymentResult>;
+  getStatus(options: DeploymentStatusOptions): Promise<DeploymentResult>;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { addModelCost, computeCost, getModelPricing, getTotalCost } from './pricing';
+import type { ModelCost } from '~/types/cost';
+
+describe('getModelPricing', () => {
+  it('should match the most specific list price', () => {
+    expect(getModelPricing('OpenAI', 'gpt-4o-mini-2024-07-18')).toEqual({ input: 0.15, output: 0.6 });
+    expect(getModelPricing('OpenAI', 'gpt-4o-2024-08-06')).toEqual({ input: 2.5, output: 10 });
+    expect(getModelPricing('Anthropic', 'claude-3-5-sonnet-latest')).toEqual({ input: 3, output: 15 });
+  });
+
+  it('should prefer overrides, then the price reported by the provider', () => {
+    const model = { name: 'gpt-4o', label: 'GPT-4o', provider: 'OpenAI', maxTokenAllowed: 8000 };
+
+    expect(getModelPricing('OpenAI', { ...model, pricing: { input: 1, output: 2 } })).toEqual({ input: 1, output: 2 });
+    expect(
+      getModelPricing(
+        'OpenAI',
+        { ...model, pricing: { input: 1, output: 2 } },
+        { 'OpenAI/gpt-4o': { input: 0, output: 0 } },
+      ),
+    ).toEqual({ input: 0, output: 0 });
+  });
+
+  it('should price the models the providers ship', () => {
+    expect(getModelPricing('OpenAI', 'gpt-4')).toEqual({ input: 30, output: 60 });
+    expect(getModelPricing('OpenAI', 'gpt-4-0613')).toEqual({ input: 30, output: 60 });
+    expect(getModelPricing('OpenAI', 'gpt-4-turbo')).toEqual({ input: 10, output: 30 });
+    expect(getModelPricing('Google', 'gemini-2.0-flash-exp')).toEqual({ input: 0, output: 0 });
+    expect(getModelPricing('Google', 'gemini-1.5-pro-002')).toEqual({ input: 1.25, output: 5 });
+    expect(getModelPricing('Mistral', 'open-codestral-mamba')).toEqual({ input: 0.25, output: 0.25 });
+    expect(getModelPricing('Groq', 'llama-3.2-90b-vision-preview')).toEqual({ input: 0.9, output: 0.9 });
+    expect(getModelPricing('xAI', 'grok-2-1212')).toEqual({ input: 2, output: 10 });
+  });
+
+  it('should return undefined for unknown models', () => {
+    expect(getModelPricing('OpenAILike', 'my-model')).toBeUndefined();
+    expect(getModelPricing('OpenAI', 'gpt-4.1')).toBeUndefined();
+    expect(getModelPricing('OpenAI', 'gpt-4.5-preview')).toBeUndefined();
+    expect(getModelPricing('OpenAI', 'o1-pro')).toBeUndefined();
+  });
+});
+
+describe('addModelCost', () => {
+  it('should merge the calls of a model and keep unpriced models at null', () => {
+    const costs: ModelCost[] = [];
+
+    addModelCost(costs, { provider: 'OpenAI', model: 'gpt-4o' }, { promptTokens: 1_000_000, completionTokens: 0 });
+    addModelCost(costs, { provider: 'OpenAI', model: 'gpt-4o' }, { promptTokens: 0, completionTokens: 100_000 });
+    addModelCost(costs, { provider: 'OpenAILike', model: 'my-model' }, { promptTokens: 10, completionTokens: 10 });
+
+    expect(costs).toEqual([
+      { provider: 'OpenAI', model: 'gpt-4o', promptTokens: 1_000_000, completionTokens: 100_000, cost: 3.5 },
+      { provider: 'OpenAILike', model: 'my-model', promptTokens: 10, completionTokens: 10, cost: null },
+    ]);
+    expect(getTotalCost(costs)).toBe(3.5);
+  });
+
+  it('should compute the cost per million tokens', () => {
+    expect(computeCost({ promptTokens: 2000, completionTokens: 1000 }, { input: 3, output: 15 })).toBeCloseTo(0.021);
+  });
+});
@@ -0,0 +1,117 @@
+import type { ModelInfo } from './types';
+import type { ModelCost, ModelPricing, PricingOverrides } from '~/types/cost';
+
+/*
+ * List prices of the hosted models in US dollars per million tokens, matched against the model name.
+ * The first match wins so the more specific patterns come first. The patterns are anchored so that newer models
+ * of a family stay unpriced instead of getting the price of an older one. Models run locally cost nothing.
+ */
+export const MODEL_PRICING: Record<string, [RegExp, ModelPricing][]> = {
+  OpenAI: [
+    [/^gpt-4o-mini/, { input: 0.15, output: 0.6 }],
+    [/^(gpt-4o|chatgpt-4o)/, { input: 2.5, output: 10 }],
+    [/^gpt-4-(turbo|\d{4}-preview)/, { input: 10, output: 30 }],
+    [/^gpt-4-32k/, { input: 60, output: 120 }],
+    [/^gpt-4(-\d{4}|$)/, { input: 30, output: 60 }],
+    [/^gpt-3\.5-turbo/, { input: 0.5, output: 1.5 }],
+    [/^o\d-mini/, { input: 1.1, output: 4.4 }],
+    [/^o1(-\d{4}|-preview|$)/, { input: 15, output: 60 }],
+  ],
+  Anthropic: [
+    [/claude-3-5-haiku/, { input: 0.8, output: 4 }],
+    [/claude-3-haiku/, { input: 0.25, output: 1.25 }],
+    [/claude-3-opus/, { input: 15, output: 75 }],
+    [/claude-3-(5-|7-)?sonnet/, { input: 3, output: 15 }],
+  ],
+  Google: [
+    // the experimental models are free while they are in preview
+    [/^gemini-exp-|-exp(-|$)/, { input: 0, output: 0 }],
+    [/^gemini-1\.5-flash-8b/, { input: 0.0375, output: 0.15 }],
+    [/^gemini-1\.5-flash/, { input: 0.075, output: 0.3 }],
+    [/^gemini-2\.0-flash-lite/, { input: 0.075, output: 0.3 }],
+    [/^gemini-2\.0-flash/, { input: 0.1, output: 0.4 }],
+    [/^gemini-1\.5-pro/, { input: 1.25, output: 5 }],
+  ],
+  Deepseek: [
+    [/^deepseek-reasoner/, { input: 0.55, output: 2.19 }],
+    [/^deepseek-(chat|coder)/, { input: 0.27, output: 1.1 }],
+  ],
+  Mistral: [
+    [/^mistral-large/, { input: 2, output: 6 }],
+    [/^mistral-small/, { input: 0.2, output: 0.6 }],
+    [/^codestral/, { input: 0.3, output: 0.9 }],
+    [/^ministral-8b/, { input: 0.1, output: 0.1 }],
+    [/^open-mistral-nemo/, { input: 0.15, output: 0.15 }],
+    [/^open-mistral-7b/, { input: 0.25, output: 0.25 }],
+    [/^open-mixtral-8x7b/, { input: 0.7, output: 0.7 }],
+    [/^open-mixtral-8x22b/, { input: 2, output: 6 }],
+    [/^open-codestral-mamba/, { input: 0.25, output: 0.25 }],
+  ],
+  xAI: [
+    [/^grok-2(-\d{4}|-latest|$)/, { input: 2, output: 10 }],
+    [/^grok-beta/, { input: 5, output: 15 }],
+  ],
+  Groq: [
+    [/^llama-3\.[13]-70b/, { input: 0.59, output: 0.79 }],
+    [/^llama-3\.1-8b/, { input: 0.05, output: 0.08 }],
+    [/^llama-3\.2-90b/, { input: 0.9, output: 0.9 }],
+    [/^llama-3\.2-11b/, { input: 0.18, output: 0.18 }],
+    [/^llama-3\.2-3b/, { input: 0.06, output: 0.06 }],
+    [/^llama-3\.2-1b/, { input: 0.04, output: 0.04 }],
+    [/^deepseek-r1-distill-llama-70b/, { input: 0.75, output: 0.99 }],
+  ],
+  Ollama: [[/.*/, { input: 0, output: 0 }]],
+  LMStudio: [[/.*/, { input: 0, output: 0 }]],
+};
+
+export function getPricingKey(provider: string, model: string) {
+  return `${provider}/${model}`;
+}
+
+// the price set in the settings, then the one the provider reports, then the list price
+export function getModelPricing(
+  provider: string,
+  model: string | ModelInfo,
+  overrides?: PricingOverrides,
+): ModelPricing | undefined {
+  const name = typeof model === 'string' ? model : model.name;
+
+  return (
+    overrides?.[getPricingKey(provider, name)] ??
+    (typeof model === 'string' ? undefined : model.pricing) ??
+    MODEL_PRICING[provider]?.find(([pattern]) => pattern.test(name))?.[1]
+  );
+}
+
+export function computeCost(usage: { promptTokens: number; completionTokens: number }, pricing: ModelPricing) {
+  return (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Adds the usage of one call to the costs of a message, calls of the same model are merged. Once a
+ * model without a known price was used its cost stays null.
+ */
+export function addModelCost(
+  costs: ModelCost[],
+  target: { provider: string; model: string | ModelInfo },
+  usage: { promptTokens: number; completionTokens: number },
+  overrides?: PricingOverrides,
+) {
+  const model = typeof target.model === 'string' ? target.model : target.model.name;
+  const pricing = getModelPricing(target.provider, target.model, overrides);
+  const cost = pricing ? computeCost(usage, pricing) : null;
+  const entry = costs.find((item) => item.provider === target.provider && item.model === model);
+
+  if (!entry) {
+    costs.push({ provider: target.provider, model, ...usage, cost });
+    return;
+  }
+
+  entry.promptTokens += usage.promptTokens;
+  entry.completionTokens += usage.completionTokens;
+  entry.cost = entry.cost === null || cost === null ? null : entry.cost + cost;
+}
+
+export function getTotalCost(costs: ModelCost[]) {
+  return costs.reduce((sum, item) => sum + (item.cost ?? 0), 0);
+}
@@ -14,6 +14,7 @@ interface AWSBedRockConfig {
 export default class AmazonBedrockProvider extends BaseProvider {
   name = 'AmazonBedrock';
   getApiKeyLink = 'https://console.aws.amazon.com/iam/home';
+  supportsTools = true;
 
   config = {
     apiTokenKey: 'AWS_BEDROCK_CONFIG',
@@ -25,42 +26,49 @@ export default class AmazonBedrockProvider extends BaseProvider {
       label: 'Claude 3.5 Sonnet v2 (Bedrock)',
       provider: 'AmazonBedrock',
       maxTokenAllowed: 200000,
+      contextWindow: 200_000,
     },
     {
       name: 'anthropic.claude-3-5-sonnet-20240620-v1:0',
       label: 'Claude 3.5 Sonnet (Bedrock)',
       provider: 'AmazonBedrock',
       maxTokenAllowed: 4096,
+      contextWindow: 200_000,
     },
     {
       name: 'anthropic.claude-3-sonnet-20240229-v1:0',
       label: 'Claude 3 Sonnet (Bedrock)',
       provider: 'AmazonBedrock',
       maxTokenAllowed: 4096,
+      contextWindow: 200_000,
     },
     {
       name: 'anthropic.claude-3-haiku-20240307-v1:0',
       label: 'Claude 3 Haiku (Bedrock)',
       provider: 'AmazonBedrock',
       maxTokenAllowed: 4096,
+      contextWindow: 200_000,
     },
     {
       name: 'amazon.nova-pro-v1:0',
       label: 'Amazon Nova Pro (Bedrock)',
       provider: 'AmazonBedrock',
       maxTokenAllowed: 5120,
+      contextWindow: 300_000,
     },
     {
       name: 'amazon.nova-lite-v1:0',
       label: 'Amazon Nova Lite (Bedrock)',
       provider: 'AmazonBedrock',
       maxTokenAllowed: 5120,
+      contextWindow: 300_000,
     },
     {
       name: 'mistral.mistral-large-2402-v1:0',
       label: 'Mistral Large 24.02 (Bedrock)',
       provider: 'AmazonBedrock',
       maxTokenAllowed: 8192,
+      contextWindow: 32_000,
     },
   ];
 
@@ -13,16 +13,58 @@ export default class CohereProvider extends BaseProvider {
   };
 
   staticModels: ModelInfo[] = [
-    { name: 'command-r-plus-08-2024', label: 'Command R plus Latest', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'command-r-08-2024', label: 'Command R Latest', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'command-r-plus', label: 'Command R plus', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'command-r', label: 'Command R', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'command', label: 'Command', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'command-nightly', label: 'Command Nightly', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'command-light', label: 'Command Light', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'command-light-nightly', label: 'Command Light Nightly', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'c4ai-aya-expanse-8b', label: 'c4AI Aya Expanse 8b', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'c4ai-aya-expanse-32b', label: 'c4AI Aya Expanse 32b', provider: 'Cohere', maxTokenAllowed: 4096 },
+    {
+      name: 'command-r-plus-08-2024',
+      label: 'Command R plus Latest',
+      provider: 'Cohere',
+      maxTokenAllowed: 4096,
+      contextWindow: 128_000,
+    },
+    {
+      name: 'command-r-08-2024',
+      label: 'Command R Latest',
+      provider: 'Cohere',
+      maxTokenAllowed: 4096,
+      contextWindow: 128_000,
+    },
+    {
+      name: 'command-r-plus',
+      label: 'Command R plus',
+      provider: 'Cohere',
+      maxTokenAllowed: 4096,
+      contextWindow: 128_000,
+    },
+    { name: 'command-r', label: 'Command R', provider: 'Cohere', maxTokenAllowed: 4096, contextWindow: 128_000 },
+    { name: 'command', label: 'Command', provider: 'Cohere', maxTokenAllowed: 4096, contextWindow: 4_096 },
+    {
+      name: 'command-nightly',
+      label: 'Command Nightly',
+      provider: 'Cohere',
+      maxTokenAllowed: 4096,
+      contextWindow: 128_000,
+    },
+    { name: 'command-light', label: 'Command Light', provider: 'Cohere', maxTokenAllowed: 4096, contextWindow: 4_096 },
+    {
+      name: 'command-light-nightly',
+      label: 'Command Light Nightly',
+      provider: 'Cohere',
+      maxTokenAllowed: 4096,
+      contextWindow: 4_096,
+    },
+    {
+      name: 'c4ai-aya-expanse-8b',
+      label: 'c4AI Aya Expanse 8b',
+      provider: 'Cohere',
+      maxTokenAllowed: 4096,
+      contextWindow: 8_192,
+    },
+    {
+      name: 'c4ai-aya-expanse-32b',
+      label: 'c4AI Aya Expanse 32b',
+      provider: 'Cohere',
+      maxTokenAllowed: 4096,
+      contextWindow: 128_000,
+    },
   ];
 
   getModelInstance(options: {
@@ -7,15 +7,34 @@ import { createDeepSeek } from '@ai-sdk/deepseek';
 export default class DeepseekProvider extends BaseProvider {
   name = 'Deepseek';
   getApiKeyLink = 'https://platform.deepseek.com/apiKeys';
+  supportsTools = true;
 
   config = {
     apiTokenKey: 'DEEPSEEK_API_KEY',
   };
 
   staticModels: ModelInfo[] = [
-    { name: 'deepseek-coder', label: 'Deepseek-Coder', provider: 'Deepseek', maxTokenAllowed: 8000 },
-    { name: 'deepseek-chat', label: 'Deepseek-Chat', provider: 'Deepseek', maxTokenAllowed: 8000 },
-    { name: 'deepseek-reasoner', label: 'Deepseek-Reasoner', provider: 'Deepseek', maxTokenAllowed: 8000 },
+    {
+      name: 'deepseek-coder',
+      label: 'Deepseek-Coder',
+      provider: 'Deepseek',
+      maxTokenAllowed: 8000,
+      contextWindow: 64_000,
+    },
+    {
+      name: 'deepseek-chat',
+      label: 'Deepseek-Chat',
+      provider: 'Deepseek',
+      maxTokenAllowed: 8000,
+      contextWindow: 64_000,
+    },
+    {
+      name: 'deepseek-reasoner',
+      label: 'Deepseek-Reasoner',
+      provider: 'Deepseek',
+      maxTokenAllowed: 8000,
+      contextWindow: 64_000,
+    },
   ];
 
   getModelInstance(options: {
@@ -7,23 +7,61 @@ import { createOpenAI } from '@ai-sdk/openai';
 export default class GroqProvider extends BaseProvider {
   name = 'Groq';
   getApiKeyLink = 'https://console.groq.com/keys';
+  supportsTools = true;
 
   config = {
     apiTokenKey: 'GROQ_API_KEY',
   };
 
   staticModels: ModelInfo[] = [
-    { name: 'llama-3.1-8b-instant', label: 'Llama 3.1 8b (Groq)', provider: 'Groq', maxTokenAllowed: 8000 },
-    { name: 'llama-3.2-11b-vision-preview', label: 'Llama 3.2 11b (Groq)', provider: 'Groq', maxTokenAllowed: 8000 },
-    { name: 'llama-3.2-90b-vision-preview', label: 'Llama 3.2 90b (Groq)', provider: 'Groq', maxTokenAllowed: 8000 },
-    { name: 'llama-3.2-3b-preview', label: 'Llama 3.2 3b (Groq)', provider: 'Groq', maxTokenAllowed: 8000 },
-    { name: 'llama-3.2-1b-preview', label: 'Llama 3.2 1b (Groq)', provider: 'Groq', maxTokenAllowed: 8000 },
-    { name: 'llama-3.3-70b-versatile', label: 'Llama 3.3 70b (Groq)', provider: 'Groq', maxTokenAllowed: 8000 },
+    {
+      name: 'llama-3.1-8b-instant',
+      label: 'Llama 3.1 8b (Groq)',
+      provider: 'Groq',
+      maxTokenAllowed: 8000,
+      contextWindow: 131_072,
+    },
+    {
+      name: 'llama-3.2-11b-vision-preview',
+      label: 'Llama 3.2 11b (Groq)',
+      provider: 'Groq',
+      maxTokenAllowed: 8000,
+      contextWindow: 8_192,
+    },
+    {
+      name: 'llama-3.2-90b-vision-preview',
+      label: 'Llama 3.2 90b (Groq)',
+      provider: 'Groq',
+      maxTokenAllowed: 8000,
+      contextWindow: 8_192,
+    },
+    {
+      name: 'llama-3.2-3b-preview',
+      label: 'Llama 3.2 3b (Groq)',
+      provider: 'Groq',
+      maxTokenAllowed: 8000,
+      contextWindow: 8_192,
+    },
+    {
+      name: 'llama-3.2-1b-preview',
+      label: 'Llama 3.2 1b (Groq)',
+      provider: 'Groq',
+      maxTokenAllowed: 8000,
+      contextWindow: 8_192,
+    },
+    {
+      name: 'llama-3.3-70b-versatile',
+      label: 'Llama 3.3 70b (Groq)',
+      provider: 'Groq',
+      maxTokenAllowed: 8000,
+      contextWindow: 131_072,
+    },
     {
       name: 'deepseek-r1-distill-llama-70b',
       label: 'Deepseek R1 Distill Llama 70b (Groq)',
       provider: 'Groq',
       maxTokenAllowed: 131072,
+      contextWindow: 131_072,
     },
   ];
 
@@ -61,6 +99,7 @@ export default class GroqProvider extends BaseProvider {
       label: `${m.id} - context ${m.context_window ? Math.floor(m.context_window / 1000) + 'k' : 'N/A'} [ by ${m.owned_by}]`,
       provider: this.name,
       maxTokenAllowed: m.context_window || 8000,
+      contextWindow: m.context_window || undefined,
     }));
   }
 
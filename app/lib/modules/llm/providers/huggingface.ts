@@ -18,66 +18,77 @@ export default class HuggingFaceProvider extends BaseProvider {
       label: 'Qwen2.5-Coder-32B-Instruct (HuggingFace)',
       provider: 'HuggingFace',
       maxTokenAllowed: 8000,
+      contextWindow: 32_768,
     },
     {
       name: '01-ai/Yi-1.5-34B-Chat',
       label: 'Yi-1.5-34B-Chat (HuggingFace)',
       provider: 'HuggingFace',
       maxTokenAllowed: 8000,
+      contextWindow: 4_096,
     },
     {
       name: 'codellama/CodeLlama-34b-Instruct-hf',
       label: 'CodeLlama-34b-Instruct (HuggingFace)',
       provider: 'HuggingFace',
       maxTokenAllowed: 8000,
+      contextWindow: 16_384,
     },
     {
       name: 'NousResearch/Hermes-3-Llama-3.1-8B',
       label: 'Hermes-3-Llama-3.1-8B (HuggingFace)',
       provider: 'HuggingFace',
       maxTokenAllowed: 8000,
+      contextWindow: 131_072,
     },
     {
       name: 'Qwen/Qwen2.5-Coder-32B-Instruct',
       label: 'Qwen2.5-Coder-32B-Instruct (HuggingFace)',
       provider: 'HuggingFace',
       maxTokenAllowed: 8000,
+      contextWindow: 32_768,
     },
     {
       name: 'Qwen/Qwen2.5-72B-Instruct',
       label: 'Qwen2.5-72B-Instruct (HuggingFace)',
       provider: 'HuggingFace',
       maxTokenAllowed: 8000,
+      contextWindow: 32_768,
     },
     {
       name: 'meta-llama/Llama-3.1-70B-Instruct',
       label: 'Llama-3.1-70B-Instruct (HuggingFace)',
       provider: 'HuggingFace',
       maxTokenAllowed: 8000,
+      contextWindow: 131_072,
     },
     {
       name: 'meta-llama/Llama-3.1-405B',
       label: 'Llama-3.1-405B (HuggingFace)',
       provider: 'HuggingFace',
       maxTokenAllowed: 8000,
+      contextWindow: 131_072,
     },
     {
       name: '01-ai/Yi-1.5-34B-Chat',
       label: 'Yi-1.5-34B-Chat (HuggingFace)',
       provider: 'HuggingFace',
       maxTokenAllowed: 8000,
+      contextWindow: 4_096,
     },
     {
       name: 'codellama/CodeLlama-34b-Instruct-hf',
       label: 'CodeLlama-34b-Instruct (HuggingFace)',
       provider: 'HuggingFace',
       maxTokenAllowed: 8000,
+      contextWindow: 16_384,
     },
     {
       name: 'NousResearch/Hermes-3-Llama-3.1-8B',
       label: 'Hermes-3-Llama-3.1-8B (HuggingFace)',
       provider: 'HuggingFace',
       maxTokenAllowed: 8000,
+      contextWindow: 131_072,
     },
   ];
 
@@ -18,30 +18,35 @@ export default class HyperbolicProvider extends BaseProvider {
       label: 'Qwen 2.5 Coder 32B Instruct',
       provider: 'Hyperbolic',
       maxTokenAllowed: 8192,
+      contextWindow: 32_768,
     },
     {
       name: 'Qwen/Qwen2.5-72B-Instruct',
       label: 'Qwen2.5-72B-Instruct',
       provider: 'Hyperbolic',
       maxTokenAllowed: 8192,
+      contextWindow: 32_768,
     },
     {
       name: 'deepseek-ai/DeepSeek-V2.5',
       label: 'DeepSeek-V2.5',
       provider: 'Hyperbolic',
       maxTokenAllowed: 8192,
+      contextWindow: 131_072,
     },
     {
       name: 'Qwen/QwQ-32B-Preview',
       label: 'QwQ-32B-Preview',
       provider: 'Hyperbolic',
       maxTokenAllowed: 8192,
+      contextWindow: 32_768,
     },
     {
       name: 'Qwen/Qwen2-VL-72B-Instruct',
       label: 'Qwen2-VL-72B-Instruct',
       provider: 'Hyperbolic',
       maxTokenAllowed: 8192,
+      contextWindow: 32_768,
     },
   ];
 
@@ -78,6 +83,7 @@ export default class HyperbolicProvider extends BaseProvider {
       label: `${m.id} - context ${m.context_length ? Math.floor(m.context_length / 1000) + 'k' : 'N/A'}`,
       provider: this.name,
       maxTokenAllowed: m.context_length || 8000,
+      contextWindow: m.context_length || undefined,
     }));
   }
 
@@ -7,21 +7,70 @@ import { createMistral } from '@ai-sdk/mistral';
 export default class MistralProvider extends BaseProvider {
   name = 'Mistral';
   getApiKeyLink = 'https://console.mistral.ai/api-keys/';
+  supportsTools = true;
 
   config = {
     apiTokenKey: 'MISTRAL_API_KEY',
   };
 
   staticModels: ModelInfo[] = [
-    { name: 'open-mistral-7b', label: 'Mistral 7B', provider: 'Mistral', maxTokenAllowed: 8000 },
-    { name: 'open-mixtral-8x7b', label: 'Mistral 8x7B', provider: 'Mistral', maxTokenAllowed: 8000 },
-    { name: 'open-mixtral-8x22b', label: 'Mistral 8x22B', provider: 'Mistral', maxTokenAllowed: 8000 },
-    { name: 'open-codestral-mamba', label: 'Codestral Mamba', provider: 'Mistral', maxTokenAllowed: 8000 },
-    { name: 'open-mistral-nemo', label: 'Mistral Nemo', provider: 'Mistral', maxTokenAllowed: 8000 },
-    { name: 'ministral-8b-latest', label: 'Mistral 8B', provider: 'Mistral', maxTokenAllowed: 8000 },
-    { name: 'mistral-small-latest', label: 'Mistral Small', provider: 'Mistral', maxTokenAllowed: 8000 },
-    { name: 'codestral-latest', label: 'Codestral', provider: 'Mistral', maxTokenAllowed: 8000 },
-    { name: 'mistral-large-latest', label: 'Mistral Large Latest', provider: 'Mistral', maxTokenAllowed: 8000 },
+    { name: 'open-mistral-7b', label: 'Mistral 7B', provider: 'Mistral', maxTokenAllowed: 8000, contextWindow: 32_768 },
+    {
+      name: 'open-mixtral-8x7b',
+      label: 'Mistral 8x7B',
+      provider: 'Mistral',
+      maxTokenAllowed: 8000,
+      contextWindow: 32_768,
+    },
+    {
+      name: 'open-mixtral-8x22b',
+      label: 'Mistral 8x22B',
+      provider: 'Mistral',
+      maxTokenAllowed: 8000,
+      contextWindow: 65_536,
+    },
+    {
+      name: 'open-codestral-mamba',
+      label: 'Codestral Mamba',
+      provider: 'Mistral',
+      maxTokenAllowed: 8000,
+      contextWindow: 256_000,
+    },
+    {
+      name: 'open-mistral-nemo',
+      label: 'Mistral Nemo',
+      provider: 'Mistral',
+      maxTokenAllowed: 8000,
+      contextWindow: 128_000,
+    },
+    {
+      name: 'ministral-8b-latest',
+      label: 'Mistral 8B',
+      provider: 'Mistral',
+      maxTokenAllowed: 8000,
+      contextWindow: 128_000,
+    },
+    {
+      name: 'mistral-small-latest',
+      label: 'Mistral Small',
+      provider: 'Mistral',
+      maxTokenAllowed: 8000,
+      contextWindow: 32_768,
+    },
+    {
+      name: 'codestral-latest',
+      label: 'Codestral',
+      provider: 'Mistral',
+      maxTokenAllowed: 8000,
+      contextWindow: 256_000,
+    },
+    {
+      name: 'mistral-large-latest',
+      label: 'Mistral Large Latest',
+      provider: 'Mistral',
+      maxTokenAllowed: 8000,
+      contextWindow: 128_000,
+    },
   ];
 
   getModelInstance(options: {
@@ -1,8 +1,8 @@
 import { BaseProvider } from '~/lib/modules/llm/base-provider';
 import type { ModelInfo } from '~/lib/modules/llm/types';
 import type { IProviderSetting } from '~/types/model';
-import type { LanguageModelV1 } from 'ai';
-import { ollama } from 'ollama-ai-provider';
+import type { EmbeddingModel, LanguageModelV1 } from 'ai';
+import { createOllama, ollama } from 'ollama-ai-provider';
 import { logger } from '~/utils/logger';
 
 interface OllamaModelDetails {
@@ -40,6 +40,7 @@ export default class OllamaProvider extends BaseProvider {
   };
 
   staticModels: ModelInfo[] = [];
+  defaultEmbeddingModel = 'nomic-embed-text';
 
   async getDynamicModels(
     apiKeys?: Record<string, string>,
@@ -79,6 +80,7 @@ export default class OllamaProvider extends BaseProvider {
       label: `${model.name} (${model.details.parameter_size})`,
       provider: this.name,
       maxTokenAllowed: 8000,
+      contextWindow: DEFAULT_NUM_CTX,
     }));
   }
   getModelInstance: (options: {
@@ -87,7 +89,37 @@ export default class OllamaProvider extends BaseProvider {
     apiKeys?: Record<string, string>;
     providerSettings?: Record<string, IProviderSetting>;
   }) => LanguageModelV1 = (options) => {
-    const { apiKeys, providerSettings, serverEnv, model } = options;
+    const { model } = options;
+    const baseUrl = this._getServerBaseUrl(options);
+
+    logger.debug('Ollama Base Url used: ', baseUrl);
+
+    const ollamaInstance = ollama(model, {
+      numCtx: DEFAULT_NUM_CTX,
+    }) as LanguageModelV1 & { config: any };
+
+    ollamaInstance.config.baseURL = `${baseUrl}/api`;
+
+    return ollamaInstance;
+  };
+
+  getEmbeddingModel(options: {
+    model?: string;
+    serverEnv?: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }): EmbeddingModel<string> {
+    const baseUrl = this._getServerBaseUrl(options);
+
+    return createOllama({ baseURL: `${baseUrl}/api` }).textEmbeddingModel(options.model || this.defaultEmbeddingModel);
+  }
+
+  private _getServerBaseUrl(options: {
+    serverEnv?: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }) {
+    const { apiKeys, providerSettings, serverEnv } = options;
     let { baseUrl } = this.getProviderBaseUrlAndKey({
       apiKeys,
       providerSettings: providerSettings?.[this.name],
@@ -105,14 +137,6 @@ export default class OllamaProvider extends BaseProvider {
     baseUrl = isDocker ? baseUrl.replace('localhost', 'host.docker.internal') : baseUrl;
     baseUrl = isDocker ? baseUrl.replace('127.0.0.1', 'host.docker.internal') : baseUrl;
 
-    logger.debug('Ollama Base Url used: ', baseUrl);
-
-    const ollamaInstance = ollama(model, {
-      numCtx: DEFAULT_NUM_CTX,
-    }) as LanguageModelV1 & { config: any };
-
-    ollamaInstance.config.baseURL = `${baseUrl}/api`;
-
-    return ollamaInstance;
-  };
+    return baseUrl;
+  }
 }
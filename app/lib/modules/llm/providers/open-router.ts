@@ -21,6 +21,7 @@ interface OpenRouterModelsResponse {
 export default class OpenRouterProvider extends BaseProvider {
   name = 'OpenRouter';
   getApiKeyLink = 'https://openrouter.ai/settings/keys';
+  supportsTools = true;
 
   config = {
     apiTokenKey: 'OPEN_ROUTER_API_KEY',
@@ -32,45 +33,64 @@ export default class OpenRouterProvider extends BaseProvider {
       label: 'Anthropic: Claude 3.5 Sonnet (OpenRouter)',
       provider: 'OpenRouter',
       maxTokenAllowed: 8000,
+      contextWindow: 200_000,
     },
     {
       name: 'anthropic/claude-3-haiku',
       label: 'Anthropic: Claude 3 Haiku (OpenRouter)',
       provider: 'OpenRouter',
       maxTokenAllowed: 8000,
+      contextWindow: 200_000,
     },
     {
       name: 'deepseek/deepseek-coder',
       label: 'Deepseek-Coder V2 236B (OpenRouter)',
       provider: 'OpenRouter',
       maxTokenAllowed: 8000,
+      contextWindow: 128_000,
     },
     {
       name: 'google/gemini-flash-1.5',
       label: 'Google Gemini Flash 1.5 (OpenRouter)',
       provider: 'OpenRouter',
       maxTokenAllowed: 8000,
+      contextWindow: 1_000_000,
     },
     {
       name: 'google/gemini-pro-1.5',
       label: 'Google Gemini Pro 1.5 (OpenRouter)',
       provider: 'OpenRouter',
       maxTokenAllowed: 8000,
+      contextWindow: 2_000_000,
+    },
+    {
+      name: 'x-ai/grok-beta',
+      label: 'xAI Grok Beta (OpenRouter)',
+      provider: 'OpenRouter',
+      maxTokenAllowed: 8000,
+      contextWindow: 131_072,
     },
-    { name: 'x-ai/grok-beta', label: 'xAI Grok Beta (OpenRouter)', provider: 'OpenRouter', maxTokenAllowed: 8000 },
     {
       name: 'mistralai/mistral-nemo',
       label: 'OpenRouter Mistral Nemo (OpenRouter)',
       provider: 'OpenRouter',
       maxTokenAllowed: 8000,
+      contextWindow: 128_000,
     },
     {
       name: 'qwen/qwen-110b-chat',
       label: 'OpenRouter Qwen 110b Chat (OpenRouter)',
       provider: 'OpenRouter',
       maxTokenAllowed: 8000,
+      contextWindow: 32_768,
+    },
+    {
+      name: 'cohere/command',
+      label: 'Cohere Command (OpenRouter)',
+      provider: 'OpenRouter',
+      maxTokenAllowed: 4096,
+      contextWindow: 4_096,
     },
-    { name: 'cohere/command', label: 'Cohere Command (OpenRouter)', provider: 'OpenRouter', maxTokenAllowed: 4096 },
   ];
 
   async getDynamicModels(
@@ -94,6 +114,8 @@ export default class OpenRouterProvider extends BaseProvider {
           label: `${m.name} - in:$${(m.pricing.prompt * 1_000_000).toFixed(2)} out:$${(m.pricing.completion * 1_000_000).toFixed(2)} - context ${Math.floor(m.context_length / 1000)}k`,
           provider: this.name,
           maxTokenAllowed: 8000,
+          contextWindow: m.context_length || undefined,
+          pricing: { input: Number(m.pricing.prompt) * 1_000_000, output: Number(m.pricing.completion) * 1_000_000 },
         }));
     } catch (error) {
       console.error('Error getting OpenRouter models:', error);
@@ -18,18 +18,21 @@ export default class PerplexityProvider extends BaseProvider {
       label: 'Sonar Small Online',
       provider: 'Perplexity',
       maxTokenAllowed: 8192,
+      contextWindow: 127_072,
     },
     {
       name: 'llama-3.1-sonar-large-128k-online',
       label: 'Sonar Large Online',
       provider: 'Perplexity',
       maxTokenAllowed: 8192,
+      contextWindow: 127_072,
     },
     {
       name: 'llama-3.1-sonar-huge-128k-online',
       label: 'Sonar Huge Online',
       provider: 'Perplexity',
       maxTokenAllowed: 8192,
+      contextWindow: 127_072,
     },
   ];
 
@@ -7,14 +7,15 @@ import { createOpenAI } from '@ai-sdk/openai';
 export default class XAIProvider extends BaseProvider {
   name = 'xAI';
   getApiKeyLink = 'https://docs.x.ai/docs/quickstart#creating-an-api-key';
+  supportsTools = true;
 
   config = {
     apiTokenKey: 'XAI_API_KEY',
   };
 
   staticModels: ModelInfo[] = [
-    { name: 'grok-beta', label: 'xAI Grok Beta', provider: 'xAI', maxTokenAllowed: 8000 },
-    { name: 'grok-2-1212', label: 'xAI Grok2 1212', provider: 'xAI', maxTokenAllowed: 8000 },
+    { name: 'grok-beta', label: 'xAI Grok Beta', provider: 'xAI', maxTokenAllowed: 8000, contextWindow: 131_072 },
+    { name: 'grok-2-1212', label: 'xAI Grok2 1212', provider: 'xAI', maxTokenAllowed: 8000, contextWindow: 131_072 },
   ];
 
   getModelInstance(options: {
@@ -1,11 +1,18 @@
-import type { LanguageModelV1 } from 'ai';
+import type { EmbeddingModel, LanguageModelV1 } from 'ai';
 import type { IProviderSetting } from '~/types/model';
+import type { ModelPricing } from '~/types/cost';
 
 export interface ModelInfo {
   name: string;
   label: string;
   provider: string;
   maxTokenAllowed: number;
+
+  // tokens the model reads at most, the token budget assumes a small default when a provider doesn't say
+  contextWindow?: number;
+
+  // reported by providers that list their prices, see pricing.ts for the others
+  pricing?: ModelPricing;
 }
 
 export interface ProviderInfo {
@@ -25,6 +32,18 @@ export interface ProviderInfo {
   getApiKeyLink?: string;
   labelForGetApiKey?: string;
   icon?: string;
+
+  // whether the provider's models can be given tools, see agent mode
+  supportsTools?: boolean;
+
+  // set by providers that can embed text, see the retrieval index
+  defaultEmbeddingModel?: string;
+  getEmbeddingModel?: (options: {
+    model?: string;
+    serverEnv?: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }) => EmbeddingModel<string>;
 }
 export interface ProviderConfig {
   baseUrlKey?: string;
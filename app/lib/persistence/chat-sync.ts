@@ -0,0 +1,284 @@
+import type { ChatPushRequest, ChatPushResponse, ChatSyncInfo, SyncedChat } from '~/types/chat-sync';
+import { createScopedLogger } from '~/utils/logger';
+import { getMessagesById, getNextId, getUrlId, type ChatSyncState } from './db';
+import { removeFromSearchIndex, updateSearchIndex } from './search-index';
+import { removeGitFiles } from './git-files';
+
+/*
+ * Keeps the local chat history in sync with `/api/chats`. Local writes queue the chat in the `chatSync`
+ * store (see `setMessages` and `deleteById`), the queue is sent in the background and replayed once the
+ * browser is back online, then the chats changed on other devices are pulled. The server resolves
+ * conflicts, see `KeyValueChatStorage.pushChat`. Requests carry the sync key, the API key whose client
+ * the chats belong to, nothing is synced without one.
+ */
+
+const SYNC_INTERVAL = 60_000;
+
+// local changes are sent together once the chat stops changing for a moment
+const PUSH_DELAY = 2_000;
+
+const logger = createScopedLogger('ChatSync');
+
+interface ChatSyncOptions {
+  // the chat on screen isn't replaced by remote versions, its next push merges them on the server
+  getOpenChatId: () => string | undefined;
+  getSyncKey: () => string | undefined;
+}
+
+let activeSync: { db: IDBDatabase; options: ChatSyncOptions; interval: ReturnType<typeof setInterval> } | undefined;
+let running: Promise<void> | undefined;
+let scheduled: ReturnType<typeof setTimeout> | undefined;
+
+export function startChatSync(db: IDBDatabase, options: ChatSyncOptions) {
+  if (activeSync) {
+    return;
+  }
+
+  activeSync = { db, options, interval: setInterval(() => syncNow(), SYNC_INTERVAL) };
+  window.addEventListener('online', syncNow);
+  syncNow();
+}
+
+export function stopChatSync() {
+  if (!activeSync) {
+    return;
+  }
+
+  clearInterval(activeSync.interval);
+  clearTimeout(scheduled);
+  window.removeEventListener('online', syncNow);
+  activeSync = undefined;
+}
+
+// called after local changes, does nothing while sync is off
+export function requestChatSync() {
+  if (!activeSync) {
+    return;
+  }
+
+  clearTimeout(scheduled);
+  scheduled = setTimeout(syncNow, PUSH_DELAY);
+}
+
+function syncNow() {
+  if (!activeSync || running || !navigator.onLine) {
+    return;
+  }
+
+  const { db, options } = activeSync;
+
+  if (!options.getSyncKey()) {
+    logger.debug('No sync key set, skipping chat sync');
+    return;
+  }
+
+  running = syncChats(db, options)
+    .catch((error) => logger.warn('Chat sync failed, retrying later', error))
+    .finally(() => (running = undefined));
+}
+
+async function syncChats(db: IDBDatabase, options: ChatSyncOptions) {
+  await queueUnsyncedChats(db);
+
+  for (const state of await getSyncStates(db)) {
+    if (state.pending) {
+      await pushChat(db, state, options);
+    }
+  }
+
+  await pullChats(db, options);
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const headers = new Headers(init?.headers);
+  headers.set('Authorization', `Bearer ${activeSync?.options.getSyncKey() ?? ''}`);
+
+  const response = await fetch(url, { ...init, headers });
+
+  if (!response.ok) {
+    const body = (await response.json().catch(() => ({}))) as { error?: string };
+    throw new Error(body.error ?? `${init?.method ?? 'GET'} ${url} failed with status ${response.status}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+function toPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function getSyncStates(db: IDBDatabase) {
+  return toPromise<ChatSyncState[]>(db.transaction('chatSync', 'readonly').objectStore('chatSync').getAll());
+}
+
+function getSyncState(db: IDBDatabase, chatId: string) {
+  return toPromise<ChatSyncState | undefined>(
+    db.transaction('chatSync', 'readonly').objectStore('chatSync').get(chatId),
+  );
+}
+
+function putSyncState(db: IDBDatabase, state: ChatSyncState) {
+  return toPromise(db.transaction('chatSync', 'readwrite').objectStore('chatSync').put(state));
+}
+
+// chats stored before sync was turned on have no state yet and are uploaded once
+async function queueUnsyncedChats(db: IDBDatabase) {
+  const transaction = db.transaction(['chats', 'chatSync'], 'readwrite');
+  const chatIds = await toPromise(transaction.objectStore('chats').getAllKeys());
+  const synced = new Set(await toPromise(transaction.objectStore('chatSync').getAllKeys()));
+
+  for (const chatId of chatIds.filter((id) => !synced.has(id))) {
+    transaction.objectStore('chatSync').put({
+      chatId: chatId as string,
+      revision: 0,
+      updatedAt: new Date().toISOString(),
+      pending: 'push',
+    } satisfies ChatSyncState);
+  }
+
+  await transactionDone(transaction);
+}
+
+// gives a chat its server id, stored before the first push so a retry can't create the chat twice
+async function assignSyncId(db: IDBDatabase, chatId: string) {
+  const syncId = crypto.randomUUID();
+  const transaction = db.transaction('chatSync', 'readwrite');
+  const current = await toPromise<ChatSyncState | undefined>(transaction.objectStore('chatSync').get(chatId));
+
+  if (current) {
+    transaction.objectStore('chatSync').put({ ...current, syncId: current.syncId ?? syncId });
+  }
+
+  await transactionDone(transaction);
+
+  return current?.syncId ?? syncId;
+}
+
+async function pushChat(db: IDBDatabase, state: ChatSyncState, options: ChatSyncOptions) {
+  const syncId = state.syncId ?? (await assignSyncId(db, state.chatId));
+  const url = `/api/chats/${encodeURIComponent(syncId)}`;
+
+  if (state.pending === 'delete') {
+    await request(`${url}?deletedAt=${encodeURIComponent(state.updatedAt)}`, { method: 'DELETE' });
+    await toPromise(db.transaction('chatSync', 'readwrite').objectStore('chatSync').delete(state.chatId));
+
+    return;
+  }
+
+  const local = await getMessagesById(db, state.chatId);
+
+  if (!local) {
+    await toPromise(db.transaction('chatSync', 'readwrite').objectStore('chatSync').delete(state.chatId));
+    return;
+  }
+
+  const body: ChatPushRequest = {
+    chat: {
+      id: syncId,
+      urlId: local.urlId,
+      description: local.description,
+      messages: local.messages,
+      timestamp: local.timestamp,
+      metadata: local.metadata,
+      updatedAt: state.updatedAt,
+    },
+    baseRevision: state.revision,
+  };
+  const { chat, merged } = await request<ChatPushResponse>(url, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  // changes made while the request was running stay queued for the next round
+  const current = await getSyncState(db, state.chatId);
+  const changedMeanwhile = current?.updatedAt !== state.updatedAt;
+
+  if (merged && (changedMeanwhile || options.getOpenChatId() === state.chatId)) {
+    // keeping the old revision makes the next push of this chat merge again instead of overwriting
+    await putSyncState(db, { ...state, ...current, syncId, pending: changedMeanwhile ? current?.pending : undefined });
+  } else if (merged) {
+    await applyRemoteChat(db, chat, { ...state, syncId });
+  } else {
+    await putSyncState(db, {
+      ...state,
+      ...current,
+      syncId,
+      revision: chat.revision,
+      pending: changedMeanwhile ? current?.pending : undefined,
+    });
+  }
+}
+
+async function pullChats(db: IDBDatabase, options: ChatSyncOptions) {
+  const { chats } = await request<{ chats: ChatSyncInfo[] }>('/api/chats');
+  const states = new Map((await getSyncStates(db)).map((state) => [state.syncId, state]));
+
+  for (const info of chats) {
+    const state = states.get(info.id);
+
+    if (
+      (!state && info.deleted) ||
+      (state && (state.pending || state.revision >= info.revision || options.getOpenChatId() === state.chatId))
+    ) {
+      continue;
+    }
+
+    const { chat } = await request<{ chat: SyncedChat }>(`/api/chats/${encodeURIComponent(info.id)}`);
+
+    await applyRemoteChat(db, chat, state);
+  }
+}
+
+// writes the server's version of a chat without queueing it again
+async function applyRemoteChat(db: IDBDatabase, remote: SyncedChat, state?: ChatSyncState) {
+  const local = state ? await getMessagesById(db, state.chatId) : undefined;
+  const chatId = state?.chatId ?? (await getNextId(db));
+
+  if (remote.deleted) {
+    const transaction = db.transaction(['chats', 'snapshots', 'chatSync', 'searchIndex', 'gitFiles'], 'readwrite');
+
+    transaction.objectStore('chats').delete(chatId);
+    transaction.objectStore('snapshots').delete(chatId);
+    transaction.objectStore('chatSync').delete(chatId);
+    removeFromSearchIndex(transaction, chatId);
+    removeGitFiles(transaction, chatId);
+
+    return transactionDone(transaction);
+  }
+
+  // url ids are unique per browser, another local chat may already use the remote one
+  const urlId = local?.urlId === remote.urlId ? local?.urlId : await getUrlId(db, remote.urlId ?? chatId);
+  const transaction = db.transaction(['chats', 'chatSync', 'searchIndex'], 'readwrite');
+
+  transaction.objectStore('chats').put({
+    id: chatId,
+    urlId,
+    description: remote.description,
+    messages: remote.messages,
+    timestamp: remote.timestamp,
+    metadata: remote.metadata,
+  });
+  transaction.objectStore('chatSync').put({
+    chatId,
+    syncId: remote.id,
+    revision: remote.revision,
+    updatedAt: remote.updatedAt,
+  } satisfies ChatSyncState);
+  updateSearchIndex(transaction, chatId, remote.messages);
+
+  logger.debug(`Pulled revision ${remote.revision} of chat ${chatId}`);
+
+  return transactionDone(transaction);
+}
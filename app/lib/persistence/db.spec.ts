@@ -0,0 +1,63 @@
+import 'fake-indexeddb/auto';
+import type { Message } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { getMessages, openDatabase, setMessages, truncateChat } from './db';
+import { searchChatHistory } from './search-index';
+
+const messages: Message[] = [
+  { id: 'm1', role: 'user', content: 'Build a todo app' },
+  { id: 'm2', role: 'assistant', content: 'Here is the todo app.' },
+  { id: 'm3', role: 'user', content: 'Add a dark theme' },
+  { id: 'm4', role: 'assistant', content: 'The theme toggles between light and dark.' },
+];
+
+describe('truncateChat', () => {
+  it('should remove the message and everything after it', async () => {
+    const db = (await openDatabase())!;
+
+    await setMessages(db, '1', messages, 'todo-app', 'Todo app');
+
+    expect(await searchChatHistory(db, 'dark theme')).not.toEqual([]);
+
+    await truncateChat(db, 'todo-app', 'm3');
+
+    const chat = await getMessages(db, '1');
+
+    expect(chat.messages.map((message) => message.id)).toEqual(['m1', 'm2']);
+    expect(chat).toMatchObject({ urlId: 'todo-app', description: 'Todo app' });
+    expect(await searchChatHistory(db, 'dark theme')).toEqual([]);
+  });
+
+  it('should fail for unknown chats and messages', async () => {
+    const db = (await openDatabase())!;
+
+    await setMessages(db, '2', messages);
+
+    await expect(truncateChat(db, 'missing', 'm1')).rejects.toThrow('Chat not found');
+    await expect(truncateChat(db, '2', 'missing')).rejects.toThrow('Message not found');
+  });
+});
+
+describe('openDatabase', () => {
+  it('should close its connection when another tab upgrades the database', async () => {
+    await openDatabase();
+
+    const upgrade = indexedDB.open('boltHistory', 6);
+    const upgraded = await new Promise<IDBDatabase>((resolve, reject) => {
+      upgrade.onsuccess = () => resolve(upgrade.result);
+      upgrade.onblocked = () => reject(new Error('blocked'));
+    });
+
+    upgraded.close();
+    await new Promise((resolve) => (indexedDB.deleteDatabase('boltHistory').onsuccess = resolve));
+  });
+
+  it('should go on without a database while another tab blocks the upgrade', async () => {
+    const older = indexedDB.open('boltHistory', 4);
+    const connection = await new Promise<IDBDatabase>((resolve) => (older.onsuccess = () => resolve(older.result)));
+
+    expect(await openDatabase()).toBeUndefined();
+
+    connection.close();
+  });
+});
@@ -1,6 +1,8 @@
 import type { Message } from 'ai';
 import { createScopedLogger } from '~/utils/logger';
 import type { ChatHistoryItem } from './useChatHistory';
+import { removeFromSearchIndex, updateSearchIndex } from './search-index';
+import { removeGitFiles, saveGitFiles, type GitFileData } from './git-files';
 
 export interface IChatMetadata {
   gitUrl: string;
@@ -8,6 +10,21 @@ export interface IChatMetadata {
   netlifySiteId?: string;
 }
 
+// how far a chat is synced with the server, see chat-sync.ts
+export interface ChatSyncState {
+  chatId: string;
+
+  // id of the chat on the server, assigned on its first push
+  syncId?: string;
+
+  // the server revision the local chat is based on, 0 before the first push
+  revision: number;
+  updatedAt: string;
+
+  // local change waiting to be sent, kept until the server is reachable
+  pending?: 'push' | 'delete';
+}
+
 const logger = createScopedLogger('ChatHistory');
 
 // this is used at the top level and never rejects
@@ -18,7 +35,7 @@ export async function openDatabase(): Promise<IDBDatabase | undefined> {
   }
 
   return new Promise((resolve) => {
-    const request = indexedDB.open('boltHistory', 1);
+    const request = indexedDB.open('boltHistory', 5);
 
     request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
       const db = (event.target as IDBOpenDBRequest).result;
@@ -28,10 +45,61 @@ export async function openDatabase(): Promise<IDBDatabase | undefined> {
         store.createIndex('id', 'id', { unique: true });
         store.createIndex('urlId', 'urlId', { unique: true });
       }
+
+      // version 2 moved the workbench snapshots from localStorage into the database, see snapshots.ts
+      if (!db.objectStoreNames.contains('snapshots')) {
+        db.createObjectStore('snapshots', { keyPath: 'chatId' });
+      }
+
+      if (!db.objectStoreNames.contains('snapshotFiles')) {
+        db.createObjectStore('snapshotFiles', { keyPath: 'hash' });
+      }
+
+      // version 3 added the sync state of each chat
+      if (!db.objectStoreNames.contains('chatSync')) {
+        const store = db.createObjectStore('chatSync', { keyPath: 'chatId' });
+        store.createIndex('syncId', 'syncId', { unique: true });
+      }
+
+      // version 4 added the full-text index of the messages, see search-index.ts
+      if (!db.objectStoreNames.contains('searchIndex')) {
+        const store = db.createObjectStore('searchIndex', { keyPath: 'key' });
+        store.createIndex('chatId', 'chatId');
+        store.createIndex('terms', 'terms', { multiEntry: true });
+      }
+
+      // version 5 added the `.git` directories of the chats, see git-files.ts
+      if (!db.objectStoreNames.contains('gitFiles')) {
+        const store = db.createObjectStore('gitFiles', { keyPath: 'key' });
+        store.createIndex('chatId', 'chatId');
+      }
     };
 
+    let blocked = false;
+
     request.onsuccess = (event: Event) => {
-      resolve((event.target as IDBOpenDBRequest).result);
+      const db = (event.target as IDBOpenDBRequest).result;
+
+      // the app already went on without a database
+      if (blocked) {
+        db.close();
+        return;
+      }
+
+      // let a newer version opened in another tab upgrade the database, this tab keeps its loaded state
+      db.onversionchange = () => {
+        db.close();
+        logger.warn('The chat database was upgraded in another tab, reload this tab to keep saving chats');
+      };
+
+      resolve(db);
+    };
+
+    // another tab still has an older version open, waiting for it would hang the app
+    request.onblocked = () => {
+      blocked = true;
+      resolve(undefined);
+      logger.error('Opening the chat database is blocked by another tab with an older version of the app');
     };
 
     request.onerror = (event: Event) => {
@@ -62,15 +130,14 @@ export async function setMessages(
   metadata?: IChatMetadata,
 ): Promise<void> {
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction('chats', 'readwrite');
-    const store = transaction.objectStore('chats');
-
     if (timestamp && isNaN(Date.parse(timestamp))) {
       reject(new Error('Invalid timestamp'));
       return;
     }
 
-    const request = store.put({
+    const transaction = db.transaction(['chats', 'chatSync', 'searchIndex'], 'readwrite');
+
+    transaction.objectStore('chats').put({
       id,
       messages,
       urlId,
@@ -78,12 +145,37 @@ export async function setMessages(
       timestamp: timestamp ?? new Date().toISOString(),
       metadata,
     });
+    queueChatSync(transaction, id, 'push');
+    updateSearchIndex(transaction, id, messages);
 
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
   });
 }
 
+// marks a local change for the next sync, chats that never reached the server are just forgotten on delete
+function queueChatSync(transaction: IDBTransaction, chatId: string, pending: 'push' | 'delete') {
+  const store = transaction.objectStore('chatSync');
+  const request = store.get(chatId);
+
+  request.onsuccess = () => {
+    const state = request.result as ChatSyncState | undefined;
+
+    if (pending === 'delete' && !state?.syncId) {
+      store.delete(chatId);
+      return;
+    }
+
+    store.put({
+      ...state,
+      chatId,
+      revision: state?.revision ?? 0,
+      updatedAt: new Date().toISOString(),
+      pending,
+    } satisfies ChatSyncState);
+  };
+}
+
 export async function getMessages(db: IDBDatabase, id: string): Promise<ChatHistoryItem> {
   return (await getMessagesById(db, id)) || (await getMessagesByUrlId(db, id));
 }
@@ -111,14 +203,19 @@ export async function getMessagesById(db: IDBDatabase, id: string): Promise<Chat
   });
 }
 
+// the snapshot goes with the chat, its file contents are left to `pruneSnapshotFiles`
 export async function deleteById(db: IDBDatabase, id: string): Promise<void> {
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction('chats', 'readwrite');
-    const store = transaction.objectStore('chats');
-    const request = store.delete(id);
+    const transaction = db.transaction(['chats', 'snapshots', 'chatSync', 'searchIndex', 'gitFiles'], 'readwrite');
 
-    request.onsuccess = () => resolve(undefined);
-    request.onerror = () => reject(request.error);
+    transaction.objectStore('chats').delete(id);
+    transaction.objectStore('snapshots').delete(id);
+    queueChatSync(transaction, id, 'delete');
+    removeFromSearchIndex(transaction, id);
+    removeGitFiles(transaction, id);
+
+    transaction.oncomplete = () => resolve(undefined);
+    transaction.onerror = () => reject(transaction.error);
   });
 }
 
@@ -198,6 +295,31 @@ export async function forkChat(db: IDBDatabase, chatId: string, messageId: strin
   return createChatFromMessages(db, chat.description ? `${chat.description} (fork)` : 'Forked chat', messages);
 }
 
+// removes `messageId` and every message after it from a stored chat
+export async function truncateChat(db: IDBDatabase, chatId: string, messageId: string): Promise<void> {
+  const chat = await getMessages(db, chatId);
+
+  if (!chat) {
+    throw new Error('Chat not found');
+  }
+
+  const messageIndex = chat.messages.findIndex((msg) => msg.id === messageId);
+
+  if (messageIndex === -1) {
+    throw new Error('Message not found');
+  }
+
+  await setMessages(
+    db,
+    chat.id,
+    chat.messages.slice(0, messageIndex),
+    chat.urlId,
+    chat.description,
+    chat.timestamp,
+    chat.metadata,
+  );
+}
+
 export async function duplicateChat(db: IDBDatabase, id: string): Promise<string> {
   const chat = await getMessages(db, id);
 
@@ -213,6 +335,9 @@ export async function createChatFromMessages(
   description: string,
   messages: Message[],
   metadata?: IChatMetadata,
+
+  // the `.git` directory of a cloned repository, the history of the new chat
+  gitFiles?: Record<string, GitFileData>,
 ): Promise<string> {
   const newId = await getNextId(db);
   const newUrlId = await getUrlId(db, newId); // Get a new urlId for the duplicated chat
@@ -227,6 +352,10 @@ export async function createChatFromMessages(
     metadata,
   );
 
+  if (gitFiles) {
+    await saveGitFiles(db, newId, gitFiles);
+  }
+
   return newUrlId; // Return the urlId instead of id for navigation
 }
 
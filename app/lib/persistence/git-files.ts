@@ -0,0 +1,60 @@
+/*
+ * The WebContainer filesystem doesn't survive a reload, so the `.git` directory of each chat is kept in the
+ * `gitFiles` store, one record per file keyed by `<chatId>:<path>`. Objects are immutable, only the files
+ * changed by a git operation are written again, see `GitStore`.
+ */
+
+export type GitFileData = string | Uint8Array;
+
+interface StoredGitFile {
+  key: string;
+  chatId: string;
+  path: string;
+  data: GitFileData;
+}
+
+function toPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// paths are relative to the workdir, e.g. `.git/HEAD`, `removed` are files git deleted like `.git/MERGE_HEAD`
+export async function saveGitFiles(
+  db: IDBDatabase,
+  chatId: string,
+  files: Record<string, GitFileData>,
+  removed: string[] = [],
+) {
+  const transaction = db.transaction('gitFiles', 'readwrite');
+
+  for (const [path, data] of Object.entries(files)) {
+    transaction.objectStore('gitFiles').put({ key: `${chatId}:${path}`, chatId, path, data } satisfies StoredGitFile);
+  }
+
+  for (const path of removed) {
+    transaction.objectStore('gitFiles').delete(`${chatId}:${path}`);
+  }
+
+  await transactionDone(transaction);
+}
+
+export async function getGitFiles(db: IDBDatabase, chatId: string): Promise<Record<string, GitFileData>> {
+  const store = db.transaction('gitFiles', 'readonly').objectStore('gitFiles');
+  const stored = await toPromise<StoredGitFile[]>(store.index('chatId').getAll(chatId));
+
+  return Object.fromEntries(stored.map((file) => [file.path, file.data]));
+}
+
+export function removeGitFiles(transaction: IDBTransaction, chatId: string) {
+  transaction.objectStore('gitFiles').delete(IDBKeyRange.bound(`${chatId}:`, `${chatId}:\uffff`));
+}
@@ -1,3 +1,7 @@
 export * from './localStorage';
 export * from './db';
 export * from './useChatHistory';
+export * from './snapshots';
+export * from './chat-sync';
+export * from './search-index';
+export * from './git-files';
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { Message } from 'ai';
+import { getSearchDocument, rankSearchDocument, tokenizeSearchText } from './search-index';
+
+const assistantMessage: Message = {
+  id: 'm2',
+  role: 'assistant',
+  content: `Let me set up the project.
+
+<boltArtifact id="todo-app" title="Todo App with Vite">
+  <boltAction type="file" filePath="src/TodoList.tsx">export function TodoList() {}</boltAction>
+  <boltAction type="shell">npm install zustand</boltAction>
+  <boltAction type="start">npm run dev</boltAction>
+</boltArtifact>
+
+The todo list persists its items.`,
+};
+
+describe('getSearchDocument', () => {
+  it('should index artifact titles, file paths and commands apart from the text', () => {
+    const document = getSearchDocument('1', assistantMessage);
+
+    expect(document.key).toBe('1:m2');
+    expect(document.titles).toEqual(['Todo App with Vite']);
+    expect(document.files).toEqual(['src/TodoList.tsx']);
+    expect(document.commands).toEqual(['npm install zustand', 'npm run dev']);
+    expect(document.text).toBe('Let me set up the project. The todo list persists its items.');
+    expect(document.terms).toEqual(expect.arrayContaining(['zustand', 'todolist', 'tsx', 'vite', 'persists']));
+  });
+
+  it('should not index file contents or the model of user messages', () => {
+    const document = getSearchDocument('1', {
+      id: 'm1',
+      role: 'user',
+      content: '[Model: gpt-4o]\n\n[Provider: OpenAI]\n\nBuild a todo app',
+    });
+
+    expect(document.text).toBe('Build a todo app');
+    expect(getSearchDocument('1', assistantMessage).terms).not.toContain('export');
+  });
+});
+
+describe('rankSearchDocument', () => {
+  it('should weigh matches in titles and files above the text and point the snippet at them', () => {
+    const document = getSearchDocument('1', assistantMessage);
+
+    expect(rankSearchDocument(document, 'zustand')).toMatchObject({
+      field: 'commands',
+      snippet: 'npm install zustand · npm run dev',
+      score: 2,
+    });
+    expect(rankSearchDocument(document, 'todo')?.field).toBe('titles');
+    expect(rankSearchDocument(document, 'graphql')).toBeUndefined();
+  });
+
+  it('should tokenize unicode words and ignore single characters', () => {
+    expect(tokenizeSearchText('Größe: a 42 café_au_lait!')).toEqual(['größe', '42', 'café_au_lait']);
+  });
+});
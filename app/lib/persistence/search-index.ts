@@ -0,0 +1,272 @@
+import type { Message } from 'ai';
+import { MODEL_REGEX, PROVIDER_REGEX } from '~/utils/constants';
+
+/*
+ * Full-text index of the chat history in the `searchIndex` store, one document per message. Besides the
+ * text it holds what the message did: artifact titles, the paths of the files it touched and the commands
+ * it ran. File contents aren't indexed. Documents are updated together with the chat in `setMessages`.
+ */
+
+export interface SearchDocument {
+  // `<chatId>:<messageId>`
+  key: string;
+  chatId: string;
+  messageId: string;
+  role: Message['role'];
+  text: string;
+  titles: string[];
+  files: string[];
+  commands: string[];
+
+  // lower-cased words of all fields, looked up through the multi-entry `terms` index
+  terms: string[];
+
+  // length of the message content, tells whether a stored document is outdated
+  size: number;
+}
+
+export type SearchField = 'text' | 'titles' | 'files' | 'commands';
+
+export interface SearchResult {
+  chatId: string;
+  messageId: string;
+  role: Message['role'];
+  field: SearchField;
+  snippet: string;
+  score: number;
+}
+
+const MAX_CANDIDATES = 500;
+const SNIPPET_RADIUS = 60;
+
+// the parts of a match that weigh more than the message text
+const FIELD_WEIGHTS: Record<SearchField, number> = { titles: 3, files: 2, commands: 2, text: 1 };
+
+const ARTIFACT_REGEX = /<boltArtifact\b([^>]*)>([\s\S]*?)(?:<\/boltArtifact>|$)/g;
+const ACTION_REGEX = /<boltAction\b([^>]*?)(?:\/>|>([\s\S]*?)(?:<\/boltAction>|$))/g;
+const COMMAND_ACTIONS = new Set(['shell', 'start', 'build']);
+
+function getAttribute(tag: string, name: string) {
+  return tag.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+}
+
+export function tokenizeSearchText(text: string) {
+  return text.toLowerCase().match(/[\p{L}\p{N}_]{2,}/gu) ?? [];
+}
+
+export function getSearchDocument(chatId: string, message: Message): SearchDocument {
+  const content = typeof message.content === 'string' ? message.content : '';
+  const titles: string[] = [];
+  const files = new Set<string>();
+  const commands: string[] = [];
+
+  const text = content
+    .replace(MODEL_REGEX, '')
+    .replace(PROVIDER_REGEX, '')
+    .replace(ARTIFACT_REGEX, (_, artifactTag: string, body: string) => {
+      const title = getAttribute(artifactTag, 'title');
+
+      if (title) {
+        titles.push(title);
+      }
+
+      for (const [, actionTag, actionBody = ''] of body.matchAll(ACTION_REGEX)) {
+        const type = getAttribute(actionTag, 'type') ?? '';
+
+        for (const filePath of [getAttribute(actionTag, 'filePath'), getAttribute(actionTag, 'newFilePath')]) {
+          if (filePath) {
+            files.add(filePath);
+          }
+        }
+
+        if (COMMAND_ACTIONS.has(type) && actionBody.trim()) {
+          commands.push(actionBody.trim());
+        }
+      }
+
+      return ' ';
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  // agent mode works through tool calls instead of artifacts
+  for (const invocation of message.toolInvocations ?? []) {
+    const args = (invocation.args ?? {}) as Record<string, unknown>;
+
+    if (typeof args.path === 'string') {
+      files.add(args.path);
+    }
+
+    if (typeof args.command === 'string') {
+      commands.push(args.command);
+    }
+  }
+
+  const terms = new Set(tokenizeSearchText([text, ...titles, ...files, ...commands].join(' ')));
+
+  return {
+    key: `${chatId}:${message.id}`,
+    chatId,
+    messageId: message.id,
+    role: message.role,
+    text,
+    titles,
+    files: [...files],
+    commands,
+    terms: [...terms],
+    size: getMessageSize(message),
+  };
+}
+
+function getMessageSize(message: Message) {
+  return (typeof message.content === 'string' ? message.content.length : 0) + (message.toolInvocations?.length ?? 0);
+}
+
+// the hidden and `no-store` messages of restored chats aren't worth finding
+function isSearchable(message: Message) {
+  return !message.annotations?.includes('hidden') && !message.annotations?.includes('no-store');
+}
+
+/**
+ * Brings the documents of a chat up to date inside a transaction that includes `searchIndex`: new and
+ * changed messages are indexed, the documents of removed messages are deleted.
+ */
+export function updateSearchIndex(transaction: IDBTransaction, chatId: string, messages: Message[]) {
+  const store = transaction.objectStore('searchIndex');
+  const request = store.index('chatId').getAll(chatId);
+
+  request.onsuccess = () => {
+    const stored = new Map((request.result as SearchDocument[]).map((document) => [document.key, document]));
+
+    for (const message of messages.filter(isSearchable)) {
+      const key = `${chatId}:${message.id}`;
+      const document = stored.get(key);
+
+      stored.delete(key);
+
+      if (document?.size !== getMessageSize(message)) {
+        store.put(getSearchDocument(chatId, message));
+      }
+    }
+
+    for (const key of stored.keys()) {
+      store.delete(key);
+    }
+  };
+}
+
+export function removeFromSearchIndex(transaction: IDBTransaction, chatId: string) {
+  transaction.objectStore('searchIndex').delete(IDBKeyRange.bound(`${chatId}:`, `${chatId}:\uffff`));
+}
+
+function toPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// indexes the chats stored before the index existed
+export async function indexUnindexedChats(db: IDBDatabase): Promise<number> {
+  const transaction = db.transaction(['chats', 'searchIndex'], 'readwrite');
+  const chats = await toPromise<{ id: string; messages: Message[] }[]>(transaction.objectStore('chats').getAll());
+  const indexed = new Set(
+    (await toPromise(transaction.objectStore('searchIndex').index('chatId').getAllKeys())).map(
+      (key) => (key as string).split(':')[0],
+    ),
+  );
+  const missing = chats.filter((chat) => !indexed.has(chat.id));
+
+  for (const chat of missing) {
+    updateSearchIndex(transaction, chat.id, chat.messages);
+  }
+
+  await transactionDone(transaction);
+
+  return missing.length;
+}
+
+// scores a document by how often and where the words occur, the snippet shows the best placed match
+export function rankSearchDocument(document: SearchDocument, query: string): SearchResult | undefined {
+  const words = tokenizeSearchText(query);
+  const fields: [SearchField, string][] = [
+    ['titles', document.titles.join(' · ')],
+    ['files', document.files.join(' ')],
+    ['commands', document.commands.join(' · ')],
+    ['text', document.text],
+  ];
+
+  let score = 0;
+  let best: [SearchField, string, number] | undefined;
+
+  for (const [field, value] of fields) {
+    const lower = value.toLowerCase();
+
+    for (const word of words) {
+      let index = lower.indexOf(word);
+
+      if (index >= 0 && (!best || FIELD_WEIGHTS[field] > FIELD_WEIGHTS[best[0]])) {
+        best = [field, value, index];
+      }
+
+      while (index >= 0) {
+        score += FIELD_WEIGHTS[field];
+        index = lower.indexOf(word, index + word.length);
+      }
+    }
+  }
+
+  if (!best || score === 0) {
+    return undefined;
+  }
+
+  const [field, value, index] = best;
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(value.length, index + SNIPPET_RADIUS);
+  const snippet = `${start > 0 ? '…' : ''}${value.slice(start, end)}${end < value.length ? '…' : ''}`;
+
+  return { chatId: document.chatId, messageId: document.messageId, role: document.role, field, snippet, score };
+}
+
+/**
+ * Finds the messages containing every word of the query, the last word also matches as a prefix so
+ * results show up while typing.
+ */
+export async function searchChatHistory(db: IDBDatabase, query: string, limit = 50): Promise<SearchResult[]> {
+  const words = tokenizeSearchText(query);
+
+  if (words.length === 0) {
+    return [];
+  }
+
+  const terms = db.transaction('searchIndex', 'readonly').objectStore('searchIndex').index('terms');
+  const keySets = await Promise.all(
+    words.map((word, i) =>
+      toPromise(
+        terms.getAllKeys(
+          i === words.length - 1 ? IDBKeyRange.bound(word, `${word}\uffff`) : IDBKeyRange.only(word),
+          MAX_CANDIDATES,
+        ),
+      ),
+    ),
+  );
+
+  const [first, ...rest] = keySets.map((keys) => new Set(keys as string[]));
+  const matches = [...first].filter((key) => rest.every((keys) => keys.has(key)));
+  const store = db.transaction('searchIndex', 'readonly').objectStore('searchIndex');
+  const documents = await Promise.all(matches.map((key) => toPromise<SearchDocument>(store.get(key))));
+
+  return documents
+    .map((document) => document && rankSearchDocument(document, query))
+    .filter((result): result is SearchResult => !!result)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
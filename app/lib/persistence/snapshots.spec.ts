@@ -0,0 +1,60 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import { openDatabase } from './db';
+import { decodeContent, encodeContent, getSnapshot, hashContent, pruneSnapshotFiles, saveSnapshot } from './snapshots';
+
+describe('encodeContent', () => {
+  it('should gzip larger contents and restore them', async () => {
+    const content = 'export const value = 1;\n'.repeat(200);
+    const stored = await encodeContent(await hashContent(content), content);
+
+    expect(stored.compressed).toBe(true);
+    expect((stored.data as ArrayBuffer).byteLength).toBeLessThan(content.length);
+    expect(await decodeContent(stored)).toBe(content);
+  });
+
+  it('should keep small contents as they are', async () => {
+    const stored = await encodeContent('hash', 'hello');
+
+    expect(stored).toEqual({ hash: 'hash', data: 'hello', compressed: false });
+    expect(await decodeContent(stored)).toBe('hello');
+  });
+});
+
+describe('hashContent', () => {
+  it('should give equal contents the same key', async () => {
+    expect(await hashContent('a')).toBe(await hashContent('a'));
+    expect(await hashContent('a')).not.toBe(await hashContent('b'));
+    expect(await hashContent('')).toHaveLength(64);
+  });
+});
+
+describe('pruneSnapshotFiles', () => {
+  it('should not remove contents a snapshot that is being saved shares', async () => {
+    const db = (await openDatabase())!;
+    const files = {
+      '/home/project/index.js': { type: 'file' as const, content: 'export default 1;', isBinary: false },
+    };
+
+    await saveSnapshot(db, 'deleted-chat', { chatIndex: 'm1', files });
+    await new Promise((resolve) => {
+      db.transaction('snapshots', 'readwrite').objectStore('snapshots').delete('deleted-chat').onsuccess = resolve;
+    });
+
+    // the prune starts right after the save found the content already stored
+    const transaction = db.transaction.bind(db);
+    let prune: Promise<number> | undefined;
+
+    vi.spyOn(db, 'transaction').mockImplementation((stores, mode) => {
+      const started = transaction(stores, mode);
+      prune ??= mode === 'readonly' ? pruneSnapshotFiles(db) : undefined;
+
+      return started;
+    });
+
+    await saveSnapshot(db, 'new-chat', { chatIndex: 'm2', files });
+
+    expect(await prune).toBe(1);
+    expect((await getSnapshot(db, 'new-chat'))?.files).toEqual(files);
+  });
+});
@@ -0,0 +1,227 @@
+import { createScopedLogger } from '~/utils/logger';
+import type { FileMap } from '~/lib/stores/files';
+import { getMessages } from './db';
+import type { Snapshot } from './types';
+
+/*
+ * Workbench snapshots live in the `snapshots` store of the chat database, one per chat. File contents are
+ * stored once in `snapshotFiles`, keyed by their SHA-256 hash, so unchanged files are shared between the
+ * snapshots of all chats. Larger contents are gzipped when the browser supports `CompressionStream`.
+ */
+
+type SnapshotEntry = { type: 'folder' } | { type: 'file'; hash: string; isBinary: boolean };
+
+interface StoredSnapshot {
+  chatId: string;
+  chatIndex: string;
+  summary?: string;
+  files: Record<string, SnapshotEntry>;
+  timestamp: string;
+}
+
+export interface StoredContent {
+  hash: string;
+  data: string | ArrayBuffer;
+  compressed: boolean;
+}
+
+const LEGACY_PREFIX = 'snapshot:';
+
+// below this size gzip saves too little to be worth the CPU time
+const MIN_COMPRESSED_LENGTH = 1024;
+
+const logger = createScopedLogger('Snapshots');
+const encoder = new TextEncoder();
+
+export async function hashContent(content: string) {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(content));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function encodeContent(hash: string, content: string): Promise<StoredContent> {
+  if (typeof CompressionStream === 'undefined' || content.length < MIN_COMPRESSED_LENGTH) {
+    return { hash, data: content, compressed: false };
+  }
+
+  const stream = new Blob([content]).stream().pipeThrough(new CompressionStream('gzip'));
+
+  return { hash, data: await new Response(stream).arrayBuffer(), compressed: true };
+}
+
+export async function decodeContent({ data, compressed }: StoredContent) {
+  if (!compressed || typeof data === 'string') {
+    return data as string;
+  }
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('gzip'));
+
+  return new Response(stream).text();
+}
+
+function toPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function saveSnapshot(db: IDBDatabase, chatId: string, snapshot: Snapshot): Promise<void> {
+  const files: Record<string, SnapshotEntry> = {};
+  const contents = new Map<string, string>();
+
+  for (const [path, dirent] of Object.entries(snapshot.files)) {
+    if (dirent?.type === 'folder') {
+      files[path] = { type: 'folder' };
+    } else if (dirent?.type === 'file') {
+      const hash = await hashContent(dirent.content);
+
+      files[path] = { type: 'file', hash, isBinary: dirent.isBinary };
+      contents.set(hash, dirent.content);
+    }
+  }
+
+  const fileStore = db.transaction('snapshotFiles', 'readonly').objectStore('snapshotFiles');
+  const existing = await Promise.all([...contents.keys()].map((hash) => toPromise(fileStore.getKey(hash))));
+
+  // compression is async, so the new contents are encoded before the write transaction starts
+  const added = await Promise.all(
+    [...contents.entries()]
+      .filter((_, index) => existing[index] === undefined)
+      .map(([hash, content]) => encodeContent(hash, content)),
+  );
+
+  const transaction = db.transaction(['snapshots', 'snapshotFiles'], 'readwrite');
+  const contentStore = transaction.objectStore('snapshotFiles');
+
+  for (const content of added) {
+    contentStore.put(content);
+  }
+
+  /*
+   * a prune that ran since the check above may have removed contents this snapshot shares, they are checked
+   * again in this transaction, which prunes can't interleave with, and stored uncompressed when missing
+   */
+  for (const [index, [hash, content]] of [...contents.entries()].entries()) {
+    if (existing[index] === undefined) {
+      continue;
+    }
+
+    const request = contentStore.getKey(hash);
+
+    request.onsuccess = () => {
+      if (request.result === undefined) {
+        contentStore.put({ hash, data: content, compressed: false } satisfies StoredContent);
+      }
+    };
+  }
+
+  transaction.objectStore('snapshots').put({
+    chatId,
+    chatIndex: snapshot.chatIndex,
+    summary: snapshot.summary,
+    files,
+    timestamp: new Date().toISOString(),
+  } satisfies StoredSnapshot);
+
+  await transactionDone(transaction);
+}
+
+export async function getSnapshot(db: IDBDatabase, chatId: string): Promise<Snapshot | undefined> {
+  const transaction = db.transaction(['snapshots', 'snapshotFiles'], 'readonly');
+  const stored = await toPromise<StoredSnapshot | undefined>(transaction.objectStore('snapshots').get(chatId));
+
+  if (!stored) {
+    return undefined;
+  }
+
+  const entries = Object.entries(stored.files);
+  const contents = await Promise.all(
+    entries.map(([, entry]) =>
+      entry.type === 'file'
+        ? toPromise<StoredContent | undefined>(transaction.objectStore('snapshotFiles').get(entry.hash))
+        : undefined,
+    ),
+  );
+
+  const files: FileMap = {};
+
+  for (const [index, [path, entry]] of entries.entries()) {
+    if (entry.type === 'folder') {
+      files[path] = { type: 'folder' };
+      continue;
+    }
+
+    const content = contents[index];
+
+    if (!content) {
+      logger.warn(`Content of ${path} is missing from the snapshot of chat ${chatId}`);
+      continue;
+    }
+
+    files[path] = { type: 'file', content: await decodeContent(content), isBinary: entry.isBinary };
+  }
+
+  return { chatIndex: stored.chatIndex, files, summary: stored.summary };
+}
+
+// removes the file contents no snapshot refers to anymore, e.g. after chats were deleted
+export async function pruneSnapshotFiles(db: IDBDatabase): Promise<number> {
+  const transaction = db.transaction(['snapshots', 'snapshotFiles'], 'readwrite');
+  const snapshots = await toPromise<StoredSnapshot[]>(transaction.objectStore('snapshots').getAll());
+  const hashes = await toPromise(transaction.objectStore('snapshotFiles').getAllKeys());
+  const referenced = new Set<string>();
+
+  for (const snapshot of snapshots) {
+    for (const entry of Object.values(snapshot.files)) {
+      if (entry.type === 'file') {
+        referenced.add(entry.hash);
+      }
+    }
+  }
+
+  const unreferenced = hashes.filter((hash) => !referenced.has(hash as string));
+
+  for (const hash of unreferenced) {
+    transaction.objectStore('snapshotFiles').delete(hash);
+  }
+
+  await transactionDone(transaction);
+
+  return unreferenced.length;
+}
+
+/**
+ * Moves the snapshots older versions kept in localStorage (`snapshot:<urlId or id>`) into the database.
+ * Keys that can't be moved are kept so the migration is retried on the next start.
+ */
+export async function migrateLegacySnapshots(db: IDBDatabase): Promise<void> {
+  const keys = Object.keys(localStorage).filter((key) => key.startsWith(LEGACY_PREFIX));
+
+  for (const key of keys) {
+    try {
+      const chat = await getMessages(db, key.slice(LEGACY_PREFIX.length));
+      const snapshot: Snapshot | null = JSON.parse(localStorage.getItem(key) ?? 'null');
+
+      // snapshots of deleted chats can't be restored anymore
+      if (chat && snapshot?.files) {
+        await saveSnapshot(db, chat.id, snapshot);
+      }
+
+      localStorage.removeItem(key);
+    } catch (error) {
+      logger.error(`Failed to migrate ${key}`, error);
+    }
+  }
+
+  if (keys.length > 0) {
+    logger.info(`Migrated ${keys.length} snapshots from localStorage`);
+  }
+}
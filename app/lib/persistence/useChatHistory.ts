@@ -17,6 +17,11 @@ import {
 } from './db';
 import type { FileMap } from '~/lib/stores/files';
 import type { Snapshot } from './types';
+import { getSnapshot, migrateLegacySnapshots, pruneSnapshotFiles, saveSnapshot } from './snapshots';
+import { requestChatSync, startChatSync, stopChatSync } from './chat-sync';
+import { indexUnindexedChats } from './search-index';
+import type { GitFileData } from './git-files';
+import { chatSyncKeyStore, chatSyncStore } from '~/lib/stores/settings';
 import { webcontainer } from '~/lib/webcontainer';
 import { createCommandsMessage, detectProjectCommands } from '~/utils/projectCommands';
 import type { ContextAnnotation } from '~/types/context';
@@ -34,9 +39,27 @@ const persistenceEnabled = !import.meta.env.VITE_DISABLE_PERSISTENCE;
 
 export const db = persistenceEnabled ? await openDatabase() : undefined;
 
+if (db) {
+  await migrateLegacySnapshots(db);
+  pruneSnapshotFiles(db).catch((error) => logStore.logError('Failed to prune snapshot files', error));
+  indexUnindexedChats(db).catch((error) => logStore.logError('Failed to index the chat history', error));
+}
+
 export const chatId = atom<string | undefined>(undefined);
 export const description = atom<string | undefined>(undefined);
 export const chatMetadata = atom<IChatMetadata | undefined>(undefined);
+
+if (db && typeof window !== 'undefined') {
+  const database = db;
+
+  chatSyncStore.subscribe((enabled) =>
+    enabled
+      ? startChatSync(database, { getOpenChatId: () => chatId.get(), getSyncKey: () => chatSyncKeyStore.get() })
+      : stopChatSync(),
+  );
+  chatSyncKeyStore.listen(() => requestChatSync());
+}
+
 export function useChatHistory() {
   const navigate = useNavigate();
   const {
@@ -85,8 +108,7 @@ export function useChatHistory() {
       getMessages(db, mixedId)
         .then(async (storedMessages) => {
           if (storedMessages && storedMessages.messages.length > 0) {
-            const snapshotStr = localStorage.getItem(`snapshot:${mixedId}`);
-            const snapshot: Snapshot = snapshotStr ? JSON.parse(snapshotStr) : { chatIndex: 0, files: {} };
+            const snapshot: Snapshot = (await getSnapshot(db, storedMessages.id)) ?? { chatIndex: '', files: {} };
             const summary = snapshot.summary;
 
             const rewindId = searchParams.get('rewindTo');
@@ -200,7 +222,7 @@ ${value.content}
                   : []),
                 ...filteredMessages,
               ];
-              restoreSnapshot(mixedId);
+              restoreSnapshot(snapshot);
             }
 
             setInitialMessages(filteredMessages);
@@ -209,6 +231,9 @@ ${value.content}
             description.set(storedMessages.description);
             chatId.set(storedMessages.id);
             chatMetadata.set(storedMessages.metadata);
+            workbenchStore.git
+              .restore(storedMessages.id)
+              .catch((error) => logStore.logError('Failed to restore the git history', error));
           } else {
             navigate('/', { replace: true });
           }
@@ -224,35 +249,27 @@ ${value.content}
     }
   }, [mixedId]);
 
-  const takeSnapshot = useCallback(
-    async (chatIdx: string, files: FileMap, _chatId?: string | undefined, chatSummary?: string) => {
-      const id = _chatId || chatId;
+  const takeSnapshot = useCallback(async (chatIdx: string, files: FileMap, id: string, chatSummary?: string) => {
+    if (!db) {
+      return;
+    }
 
-      if (!id) {
-        return;
-      }
+    const snapshot: Snapshot = {
+      chatIndex: chatIdx,
+      files,
+      summary: chatSummary,
+    };
 
-      const snapshot: Snapshot = {
-        chatIndex: chatIdx,
-        files,
-        summary: chatSummary,
-      };
-      localStorage.setItem(`snapshot:${id}`, JSON.stringify(snapshot));
-    },
-    [chatId],
-  );
+    try {
+      await saveSnapshot(db, id, snapshot);
+    } catch (error) {
+      logStore.logError('Failed to save the workbench snapshot', error);
+    }
+  }, []);
 
-  const restoreSnapshot = useCallback(async (id: string) => {
-    const snapshotStr = localStorage.getItem(`snapshot:${id}`);
+  const restoreSnapshot = useCallback(async (snapshot: Snapshot) => {
     const container = await webcontainer;
 
-    // if (snapshotStr)setSnapshot(JSON.parse(snapshotStr));
-    const snapshot: Snapshot = snapshotStr ? JSON.parse(snapshotStr) : { chatIndex: 0, files: {} };
-
-    if (!snapshot?.files) {
-      return;
-    }
-
     Object.entries(snapshot.files).forEach(async ([key, value]) => {
       if (key.startsWith(container.workdir)) {
         key = key.replace(container.workdir, '');
@@ -291,6 +308,7 @@ ${value.content}
       try {
         await setMessages(db, id, initialMessages, urlId, description.get(), undefined, metadata);
         chatMetadata.set(metadata);
+        requestChatSync();
       } catch (error) {
         toast.error('Failed to update chat metadata');
         console.error(error);
@@ -304,11 +322,8 @@ ${value.content}
       const { firstArtifact } = workbenchStore;
       messages = messages.filter((m) => !m.annotations?.includes('no-store'));
 
-      let _urlId = urlId;
-
       if (!urlId && firstArtifact?.id) {
         const urlId = await getUrlId(db, firstArtifact.id);
-        _urlId = urlId;
         navigateChat(urlId);
         setUrlId(urlId);
       }
@@ -328,8 +343,6 @@ ${value.content}
         }
       }
 
-      takeSnapshot(messages[messages.length - 1].id, workbenchStore.files.get(), _urlId, chatSummary);
-
       if (!description.get() && firstArtifact?.title) {
         description.set(firstArtifact?.title);
       }
@@ -344,6 +357,8 @@ ${value.content}
         }
       }
 
+      takeSnapshot(lastMessage.id, workbenchStore.files.get(), chatId.get() as string, chatSummary);
+
       await setMessages(
         db,
         chatId.get() as string,
@@ -353,6 +368,7 @@ ${value.content}
         undefined,
         chatMetadata.get(),
       );
+      requestChatSync();
     },
     duplicateCurrentChat: async (listItemId: string) => {
       if (!db || (!mixedId && !listItemId)) {
@@ -368,13 +384,18 @@ ${value.content}
         console.log(error);
       }
     },
-    importChat: async (description: string, messages: Message[], metadata?: IChatMetadata) => {
+    importChat: async (
+      description: string,
+      messages: Message[],
+      metadata?: IChatMetadata,
+      gitFiles?: Record<string, GitFileData>,
+    ) => {
       if (!db) {
         return;
       }
 
       try {
-        const newId = await createChatFromMessages(db, description, messages, metadata);
+        const newId = await createChatFromMessages(db, description, messages, metadata, gitFiles);
         window.location.href = `/chat/${newId}`;
         toast.success('Chat imported successfully');
       } catch (error) {
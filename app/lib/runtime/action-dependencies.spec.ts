@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { BoltAction } from '~/types/actions';
+import { getActionDependencies, isInstallCommand, type ScheduledAction } from './action-dependencies';
+
+const scheduled = (...actions: BoltAction[]): ScheduledAction[] =>
+  actions.map((action, index) => ({ actionId: String(index), action }));
+
+describe('getActionDependencies', () => {
+  const earlier = scheduled(
+    { type: 'file', filePath: 'package.json', content: '{}' },
+    { type: 'shell', content: 'npm install' },
+    { type: 'file', filePath: 'src/App.tsx', content: '' },
+  );
+
+  it('should make commands wait for every earlier action', () => {
+    expect(getActionDependencies({ type: 'start', content: 'npm run dev' }, earlier)).toEqual(['0', '1', '2']);
+  });
+
+  it('should let file writes run alongside installs', () => {
+    expect(getActionDependencies({ type: 'file', filePath: 'src/main.tsx', content: '' }, earlier)).toEqual([]);
+  });
+
+  it('should order writes to the same path and to manifests', () => {
+    expect(getActionDependencies({ type: 'patch', filePath: './src/App.tsx', content: '' }, earlier)).toEqual(['2']);
+    expect(getActionDependencies({ type: 'delete', filePath: 'src', content: '' }, earlier)).toEqual(['2']);
+    expect(getActionDependencies({ type: 'file', filePath: 'package.json', content: '' }, earlier)).toEqual(['0', '1']);
+  });
+
+  it('should make file writes wait for commands other than installs', () => {
+    const actions = scheduled({ type: 'shell', content: 'npx create-vite@latest . --template react' });
+
+    expect(getActionDependencies({ type: 'file', filePath: 'src/App.tsx', content: '' }, actions)).toEqual(['0']);
+  });
+
+  it('should use declared dependencies and keep commands in order', () => {
+    const actions = scheduled(
+      { type: 'shell', content: 'npm install', id: 'install' },
+      { type: 'file', filePath: 'seed.js', content: '', id: 'seed' },
+      { type: 'file', filePath: 'other.js', content: '' },
+    );
+
+    expect(getActionDependencies({ type: 'shell', content: 'node seed.js', dependsOn: ['seed'] }, actions)).toEqual([
+      '0',
+      '1',
+    ]);
+    expect(getActionDependencies({ type: 'file', filePath: 'other.js', content: '', dependsOn: [] }, actions)).toEqual(
+      [],
+    );
+  });
+});
+
+describe('isInstallCommand', () => {
+  it('should only accept commands that install packages', () => {
+    expect(isInstallCommand('npm install')).toBe(true);
+    expect(isInstallCommand('pnpm add react && npm i -D vite')).toBe(true);
+    expect(isInstallCommand('npm install && npm run dev')).toBe(false);
+    expect(isInstallCommand('')).toBe(false);
+  });
+});
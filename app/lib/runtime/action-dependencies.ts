@@ -0,0 +1,104 @@
+import type { BoltAction } from '~/types/actions';
+
+/**
+ * Works out which earlier actions of an artifact an action has to wait for.
+ *
+ * Actions that declare `dependsOn` wait for the actions with those `id`s. The others are
+ * inferred: commands wait for everything before them, file actions only for earlier file
+ * actions on the same path and for earlier commands, except installs which don't touch
+ * the project files. Commands share the bolt terminal, so they always run one at a time.
+ */
+
+export interface ScheduledAction {
+  actionId: string;
+  action: BoltAction;
+}
+
+// files an install command writes besides node_modules
+const MANIFEST_FILES = ['package.json', 'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb'];
+
+const INSTALL_COMMAND = /^(npm|pnpm|yarn|bun)\s+(install|i|ci|add)\b/;
+
+export function isCommandAction(action: BoltAction) {
+  return action.type === 'shell' || action.type === 'start' || action.type === 'build';
+}
+
+export function isInstallCommand(command: string) {
+  const parts = command
+    .split(/&&|;|\n/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+
+  return parts.length > 0 && parts.every((part) => INSTALL_COMMAND.test(part) || part === 'yarn');
+}
+
+// paths an action writes to, relative to the project root and without a leading `./`
+export function getActionPaths(action: BoltAction): string[] {
+  switch (action.type) {
+    case 'file':
+    case 'patch':
+    case 'delete': {
+      return [normalizePath(action.filePath)];
+    }
+    case 'rename': {
+      return [normalizePath(action.filePath), normalizePath(action.newFilePath)];
+    }
+    default: {
+      return [];
+    }
+  }
+}
+
+export function getActionDependencies(action: BoltAction, earlier: ScheduledAction[]): string[] {
+  const command = isCommandAction(action);
+
+  if (action.dependsOn) {
+    const declared = new Set(action.dependsOn);
+
+    return earlier
+      .filter(
+        (other) => (other.action.id && declared.has(other.action.id)) || (command && isCommandAction(other.action)),
+      )
+      .map((other) => other.actionId);
+  }
+
+  if (command) {
+    return earlier.map((other) => other.actionId);
+  }
+
+  const paths = getActionPaths(action);
+
+  return earlier
+    .filter((other) => {
+      if (isCommandAction(other.action)) {
+        return (
+          other.action.type !== 'shell' ||
+          !isInstallCommand(other.action.content) ||
+          paths.some((filePath) => isManifestPath(filePath))
+        );
+      }
+
+      const otherPaths = getActionPaths(other.action);
+
+      return paths.some((filePath) => otherPaths.some((otherPath) => pathsOverlap(filePath, otherPath)));
+    })
+    .map((other) => other.actionId);
+}
+
+function normalizePath(filePath: string) {
+  return filePath
+    .trim()
+    .replace(/^(\.\/)+/, '')
+    .replace(/\/+$/, '');
+}
+
+function isManifestPath(filePath: string) {
+  const segments = filePath.split('/');
+
+  return MANIFEST_FILES.includes(segments[segments.length - 1]) || segments.includes('node_modules');
+}
+
+// same path, or one of them is a folder containing the other
+function pathsOverlap(a: string, b: string) {
+  return a === b || a.startsWith(`${b}/`) || b.startsWith(`${a}/`);
+}
@@ -6,6 +6,12 @@ import { createScopedLogger } from '~/utils/logger';
 import { unreachable } from '~/utils/unreachable';
 import type { ActionCallbackData } from './message-parser';
 import type { BoltShell } from '~/utils/shell';
+import { applyPatch, PatchApplyError } from '~/utils/patch';
+import { collectWebContainerFiles } from '~/utils/fileUtils';
+import { BUILD_OUTPUT_CANDIDATES, detectBuildOutputDir } from '~/utils/projectCommands';
+import { withResolvers } from '~/utils/promises';
+import { getActionDependencies } from './action-dependencies';
+import type { DeploymentFiles } from '~/lib/modules/deployment/types';
 
 const logger = createScopedLogger('ActionRunner');
 
@@ -16,6 +22,9 @@ export type BaseActionState = BoltAction & {
   abort: () => void;
   executed: boolean;
   abortSignal: AbortSignal;
+
+  // terminal output of a finished shell action
+  output?: string;
 };
 
 export type FailedActionState = BoltAction &
@@ -26,7 +35,7 @@ export type FailedActionState = BoltAction &
 
 export type ActionState = BaseActionState | FailedActionState;
 
-type BaseActionUpdate = Partial<Pick<BaseActionState, 'status' | 'abort' | 'executed'>>;
+type BaseActionUpdate = Partial<Pick<BaseActionState, 'status' | 'abort' | 'executed' | 'output'>>;
 
 export type ActionStateUpdate =
   | BaseActionUpdate
@@ -34,6 +43,33 @@ export type ActionStateUpdate =
 
 type ActionsMap = MapStore<Record<string, ActionState>>;
 
+// how long dependents of a `start` action wait for its server before running anyway
+const SERVER_READY_TIMEOUT = 15_000;
+
+interface ActionSchedule {
+  // the actions this one waits for
+  dependencies: string[];
+
+  // the last execution of the action, streamed file writes run one after the other
+  execution: Promise<void>;
+
+  // settles once the action ran to the end, was aborted, or its server is ready
+  done: Promise<void>;
+  settle: () => void;
+}
+
+export interface BuildOutput {
+  path: string;
+
+  // relative to the project root, e.g. `dist` or `build/client`
+  outputDir: string;
+  exitCode: number;
+  output: string;
+
+  // everything inside `outputDir`, keyed by `/relative/path`
+  files: DeploymentFiles;
+}
+
 class ActionCommandError extends Error {
   readonly _output: string;
   readonly _header: string;
@@ -65,21 +101,27 @@ class ActionCommandError extends Error {
 
 export class ActionRunner {
   #webcontainer: Promise<WebContainer>;
-  #currentExecutionPromise: Promise<void> = Promise.resolve();
+  #schedules = new Map<string, ActionSchedule>();
   #shellTerminal: () => BoltShell;
+  #waitForServer?: (signal: AbortSignal) => Promise<unknown>;
   runnerId = atom<string>(`${Date.now()}`);
   actions: ActionsMap = map({});
   onAlert?: (alert: ActionAlert) => void;
-  buildOutput?: { path: string; exitCode: number; output: string };
+  onBuildOutput?: (buildOutput: BuildOutput) => void;
+  buildOutput?: BuildOutput;
 
   constructor(
     webcontainerPromise: Promise<WebContainer>,
     getShellTerminal: () => BoltShell,
     onAlert?: (alert: ActionAlert) => void,
+    onBuildOutput?: (buildOutput: BuildOutput) => void,
+    waitForServer?: (signal: AbortSignal) => Promise<unknown>,
   ) {
     this.#webcontainer = webcontainerPromise;
     this.#shellTerminal = getShellTerminal;
     this.onAlert = onAlert;
+    this.onBuildOutput = onBuildOutput;
+    this.#waitForServer = waitForServer;
   }
 
   addAction(data: ActionCallbackData) {
@@ -94,6 +136,9 @@ export class ActionRunner {
     }
 
     const abortController = new AbortController();
+    const { promise: done, resolve: settle } = withResolvers<void>();
+    const earlier = [...this.#schedules.keys()].map((id) => ({ actionId: id, action: actions[id] }));
+    const dependencies = getActionDependencies(data.action as BoltAction, earlier);
 
     this.actions.setKey(actionId, {
       ...data.action,
@@ -102,20 +147,29 @@ export class ActionRunner {
       abort: () => {
         abortController.abort();
         this.#updateAction(actionId, { status: 'aborted' });
+        settle();
       },
       abortSignal: abortController.signal,
     });
 
-    this.#currentExecutionPromise.then(() => {
-      this.#updateAction(actionId, { status: 'running' });
+    const ready = Promise.all(dependencies.map((id) => this.#schedules.get(id)?.done)).then(() => undefined);
+
+    this.#schedules.set(actionId, { dependencies, execution: ready, done, settle });
+
+    ready.then(() => {
+      if (this.actions.get()[actionId]?.status === 'pending') {
+        this.#updateAction(actionId, { status: 'running' });
+      }
     });
   }
 
+  // resolves once the action ran, independent actions of the artifact run meanwhile
   async runAction(data: ActionCallbackData, isStreaming: boolean = false) {
     const { actionId } = data;
     const action = this.actions.get()[actionId];
+    const schedule = this.#schedules.get(actionId);
 
-    if (!action) {
+    if (!action || !schedule) {
       unreachable(`Action ${actionId} not found`);
     }
 
@@ -129,7 +183,7 @@ export class ActionRunner {
 
     this.#updateAction(actionId, { ...action, ...data.action, executed: !isStreaming });
 
-    this.#currentExecutionPromise = this.#currentExecutionPromise
+    schedule.execution = schedule.execution
       .then(() => {
         return this.#executeAction(actionId, isStreaming);
       })
@@ -137,11 +191,20 @@ export class ActionRunner {
         console.error('Action failed:', error);
       });
 
-    await this.#currentExecutionPromise;
+    if (!isStreaming) {
+      schedule.execution.then(schedule.settle);
+    }
+
+    await schedule.execution;
 
     return;
   }
 
+  // resolves once every action added so far has run
+  async waitForActions() {
+    await Promise.all([...this.#schedules.values()].map((schedule) => schedule.done));
+  }
+
   async #executeAction(actionId: string, isStreaming: boolean = false) {
     const action = this.actions.get()[actionId];
 
@@ -150,24 +213,40 @@ export class ActionRunner {
     try {
       switch (action.type) {
         case 'shell': {
-          await this.#runShellAction(action);
+          const resp = await this.#runShellAction(action);
+
+          this.#updateAction(actionId, { output: resp?.output });
           break;
         }
         case 'file': {
           await this.#runFileAction(action);
           break;
         }
+        case 'patch': {
+          await this.#runPatchAction(action);
+          break;
+        }
+        case 'delete': {
+          await this.#runDeleteAction(action);
+          break;
+        }
+        case 'rename': {
+          await this.#runRenameAction(action);
+          break;
+        }
         case 'build': {
           const buildOutput = await this.#runBuildAction(action);
 
           // Store build output for deployment
           this.buildOutput = buildOutput;
+          this.onBuildOutput?.(buildOutput);
           break;
         }
         case 'start': {
-          // making the start app non blocking
+          // making the start app non blocking, the actions that depend on it only wait for its server
+          const serverReady = this.#waitForServerReady(action);
 
-          this.#runStartAction(action)
+          const started = this.#runStartAction(action)
             .then(() => this.#updateAction(actionId, { status: 'complete' }))
             .catch((err: Error) => {
               if (action.abortSignal.aborted) {
@@ -189,11 +268,7 @@ export class ActionRunner {
               });
             });
 
-          /*
-           * adding a delay to avoid any race condition between 2 start actions
-           * i am up for a better approach
-           */
-          await new Promise((resolve) => setTimeout(resolve, 2000));
+          await Promise.race([serverReady, started]);
 
           return;
         }
@@ -207,9 +282,25 @@ export class ActionRunner {
         return;
       }
 
-      this.#updateAction(actionId, { status: 'failed', error: 'Action failed' });
+      this.#updateAction(actionId, {
+        status: 'failed',
+        error:
+          error instanceof ActionCommandError || error instanceof PatchApplyError ? error.message : 'Action failed',
+      });
       logger.error(`[${action.type}]:Action failed\n\n`, error);
 
+      if (error instanceof PatchApplyError && action.type === 'patch') {
+        this.onAlert?.({
+          type: 'error',
+          title: 'Patch Failed',
+          description: `Could not apply changes to ${action.filePath}`,
+          content: `${error.message}\n\nPatch:\n${action.content}`,
+          source: 'patch',
+        });
+
+        throw error;
+      }
+
       if (!(error instanceof ActionCommandError)) {
         return;
       }
@@ -247,6 +338,8 @@ export class ActionRunner {
     if (resp?.exitCode != 0) {
       throw new ActionCommandError(`Failed To Execute Shell Command`, resp?.output || 'No Output Available');
     }
+
+    return resp;
   }
 
   async #runStartAction(action: ActionState) {
@@ -278,6 +371,27 @@ export class ActionRunner {
     return resp;
   }
 
+  // resolves when a port opens, the action is aborted or the timeout passes, whichever comes first
+  async #waitForServerReady(action: ActionState) {
+    const timeout = new AbortController();
+    const signal = AbortSignal.any([action.abortSignal, timeout.signal]);
+    const timer = setTimeout(() => {
+      logger.debug(`No server ready after ${SERVER_READY_TIMEOUT}ms, continuing`);
+      timeout.abort();
+    }, SERVER_READY_TIMEOUT);
+
+    const aborted = new Promise<void>((resolve) => signal.addEventListener('abort', () => resolve()));
+
+    try {
+      await Promise.race([this.#waitForServer?.(signal) ?? aborted, aborted]);
+    } catch (error) {
+      logger.debug('Stopped waiting for the server', error);
+    } finally {
+      clearTimeout(timer);
+      timeout.abort();
+    }
+  }
+
   async #runFileAction(action: ActionState) {
     if (action.type !== 'file') {
       unreachable('Expected file action');
@@ -308,6 +422,57 @@ export class ActionRunner {
     }
   }
 
+  async #runPatchAction(action: ActionState) {
+    if (action.type !== 'patch') {
+      unreachable('Expected patch action');
+    }
+
+    const webcontainer = await this.#webcontainer;
+    const relativePath = nodePath.relative(webcontainer.workdir, action.filePath);
+
+    let original: string;
+
+    try {
+      original = await webcontainer.fs.readFile(relativePath, 'utf-8');
+    } catch {
+      throw new PatchApplyError(`File ${relativePath} does not exist`);
+    }
+
+    await webcontainer.fs.writeFile(relativePath, applyPatch(original, action.content));
+    logger.debug(`File patched ${relativePath}`);
+  }
+
+  async #runDeleteAction(action: ActionState) {
+    if (action.type !== 'delete') {
+      unreachable('Expected delete action');
+    }
+
+    const webcontainer = await this.#webcontainer;
+    const relativePath = nodePath.relative(webcontainer.workdir, action.filePath);
+
+    // deleting something that is already gone is not an error, `force` takes care of it
+    await webcontainer.fs.rm(relativePath, { recursive: true, force: true });
+    logger.debug(`Deleted ${relativePath}`);
+  }
+
+  async #runRenameAction(action: ActionState) {
+    if (action.type !== 'rename') {
+      unreachable('Expected rename action');
+    }
+
+    const webcontainer = await this.#webcontainer;
+    const relativePath = nodePath.relative(webcontainer.workdir, action.filePath);
+    const newRelativePath = nodePath.relative(webcontainer.workdir, action.newFilePath);
+    const folder = nodePath.dirname(newRelativePath).replace(/\/+$/g, '');
+
+    if (folder !== '.') {
+      await webcontainer.fs.mkdir(folder, { recursive: true });
+    }
+
+    await webcontainer.fs.rename(relativePath, newRelativePath);
+    logger.debug(`Renamed ${relativePath} to ${newRelativePath}`);
+  }
+
   #updateAction(id: string, newState: ActionStateUpdate) {
     const actions = this.actions.get();
 
@@ -343,38 +508,80 @@ export class ActionRunner {
     return nodePath.join('.history', filePath);
   }
 
-  async #runBuildAction(action: ActionState) {
+  async #runBuildAction(action: ActionState): Promise<BuildOutput> {
     if (action.type !== 'build') {
       unreachable('Expected build action');
     }
 
     const webcontainer = await this.#webcontainer;
+    const command = action.content.trim() || 'npm run build';
+
+    // the output goes to the bolt terminal without going through its shell, which is busy with the dev server
+    const terminal = this.#shellTerminal().terminal;
+    terminal?.write(`\x1b[1;36m$ ${command}\x1b[0m\r\n`);
+
+    const buildProcess = await webcontainer.spawn('jsh', ['-c', command]);
+    const abort = () => buildProcess.kill();
 
-    // Create a new terminal specifically for the build
-    const buildProcess = await webcontainer.spawn('npm', ['run', 'build']);
+    action.abortSignal.addEventListener('abort', abort);
 
     let output = '';
     buildProcess.output.pipeTo(
       new WritableStream({
         write(data) {
           output += data;
+          terminal?.write(data);
         },
       }),
     );
 
     const exitCode = await buildProcess.exit;
 
+    action.abortSignal.removeEventListener('abort', abort);
+
     if (exitCode !== 0) {
       throw new ActionCommandError('Build Failed', output || 'No Output Available');
     }
 
-    // Get the build output directory path
-    const buildDir = nodePath.join(webcontainer.workdir, 'dist');
+    const outputDir = await this.#findBuildOutputDir(webcontainer);
+
+    if (!outputDir) {
+      throw new ActionCommandError(
+        'Build Output Not Found',
+        `No build output found in ${BUILD_OUTPUT_CANDIDATES.join(', ')}\n\n${output}`,
+      );
+    }
 
     return {
-      path: buildDir,
+      path: nodePath.join(webcontainer.workdir, outputDir),
+      outputDir,
       exitCode,
       output,
+      files: await collectWebContainerFiles(webcontainer, `/${outputDir}`),
     };
   }
+
+  // the directory of the build tool listed in package.json if it exists, otherwise the first common one that does
+  async #findBuildOutputDir(webcontainer: WebContainer) {
+    let detected: string | undefined;
+
+    try {
+      detected = detectBuildOutputDir(JSON.parse(await webcontainer.fs.readFile('/package.json', 'utf-8')));
+    } catch (error) {
+      logger.debug('Could not read package.json to detect the build output', error);
+    }
+
+    const candidates = detected ? [detected, ...BUILD_OUTPUT_CANDIDATES] : BUILD_OUTPUT_CANDIDATES;
+
+    for (const candidate of candidates) {
+      try {
+        await webcontainer.fs.readdir(`/${candidate}`);
+        return candidate;
+      } catch {
+        // not there, try the next one
+      }
+    }
+
+    return undefined;
+  }
 }
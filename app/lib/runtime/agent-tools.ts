@@ -0,0 +1,175 @@
+import { workbenchStore } from '~/lib/stores/workbench';
+import type { AgentToolName, AgentToolResult } from '~/types/agent';
+import type { BoltAction } from '~/types/actions';
+import { WORK_DIR } from '~/utils/constants';
+import { path } from '~/utils/path';
+
+/*
+ * Runs the tool calls of agent mode in the browser. Reads go straight to the files store, changes
+ * and commands run as actions through the workbench so that they are tracked like artifact actions.
+ */
+
+export interface AgentToolCall {
+  toolCallId: string;
+  toolName: string;
+  args: unknown;
+}
+
+// keeps tool results from filling up the context window
+const MAX_OUTPUT_LENGTH = 20_000;
+const MAX_SEARCH_RESULTS = 100;
+const MAX_LINE_LENGTH = 200;
+
+export async function executeAgentTool({ toolCallId, toolName, args }: AgentToolCall): Promise<AgentToolResult> {
+  const params = (args ?? {}) as Record<string, any>;
+
+  try {
+    switch (toolName as AgentToolName) {
+      case 'read_file': {
+        return readFile(params.path);
+      }
+      case 'list_dir': {
+        return listDir(params.path);
+      }
+      case 'search_code': {
+        return searchCode(params.query, params.regex);
+      }
+      case 'write_file': {
+        const filePath = toProjectPath(params.path);
+        const result = await runAction(toolCallId, { type: 'file', filePath, content: params.content ?? '' });
+
+        return 'error' in result ? result : { output: `Wrote ${filePath}` };
+      }
+      case 'apply_patch': {
+        return await runAction(toolCallId, {
+          type: 'patch',
+          filePath: toProjectPath(params.path),
+          content: params.patch,
+        });
+      }
+      case 'run_command': {
+        return await runAction(toolCallId, { type: 'shell', content: params.command });
+      }
+      default: {
+        return { error: `Unknown tool ${toolName}` };
+      }
+    }
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// path relative to the project root, paths leaving the project are refused
+function toProjectPath(filePath: unknown) {
+  if (typeof filePath !== 'string') {
+    throw new Error('A path is required');
+  }
+
+  const fullPath = path.join(WORK_DIR, filePath.replace(/^\/+/, ''));
+
+  if (fullPath !== WORK_DIR && !fullPath.startsWith(`${WORK_DIR}/`)) {
+    throw new Error(`${filePath} is outside of the project`);
+  }
+
+  return path.relative(WORK_DIR, fullPath);
+}
+
+function truncate(output: string) {
+  return output.length > MAX_OUTPUT_LENGTH
+    ? `${output.slice(0, MAX_OUTPUT_LENGTH)}\n... (${output.length - MAX_OUTPUT_LENGTH} more characters)`
+    : output;
+}
+
+function readFile(filePath: unknown): AgentToolResult {
+  const relativePath = toProjectPath(filePath);
+  const dirent = workbenchStore.files.get()[path.join(WORK_DIR, relativePath)];
+
+  if (dirent?.type !== 'file') {
+    return { error: dirent ? `${relativePath} is a folder` : `${relativePath} does not exist` };
+  }
+
+  if (dirent.isBinary) {
+    return { error: `${relativePath} is a binary file` };
+  }
+
+  return { output: truncate(dirent.content) };
+}
+
+function listDir(dirPath: unknown): AgentToolResult {
+  const relativePath = toProjectPath(dirPath ?? '.');
+  const folder = relativePath ? path.join(WORK_DIR, relativePath) : WORK_DIR;
+  const entries: string[] = [];
+
+  for (const [filePath, dirent] of Object.entries(workbenchStore.files.get())) {
+    if (!dirent || !filePath.startsWith(`${folder}/`)) {
+      continue;
+    }
+
+    const name = filePath.slice(folder.length + 1);
+
+    if (!name.includes('/')) {
+      entries.push(dirent.type === 'folder' ? `${name}/` : name);
+    }
+  }
+
+  if (entries.length === 0 && folder !== WORK_DIR && workbenchStore.files.get()[folder]?.type !== 'folder') {
+    return { error: `${relativePath} is not a folder` };
+  }
+
+  return { output: entries.sort().join('\n') || '(empty)' };
+}
+
+function searchCode(query: unknown, regex?: boolean): AgentToolResult {
+  if (typeof query !== 'string' || !query) {
+    return { error: 'A query is required' };
+  }
+
+  const pattern = regex ? new RegExp(query) : undefined;
+  const results: string[] = [];
+
+  for (const [filePath, dirent] of Object.entries(workbenchStore.files.get())) {
+    if (dirent?.type !== 'file' || dirent.isBinary) {
+      continue;
+    }
+
+    const lines = dirent.content.split('\n');
+
+    for (let i = 0; i < lines.length && results.length < MAX_SEARCH_RESULTS; i++) {
+      if (pattern ? pattern.test(lines[i]) : lines[i].includes(query)) {
+        results.push(`${path.relative(WORK_DIR, filePath)}:${i + 1}: ${lines[i].trim().slice(0, MAX_LINE_LENGTH)}`);
+      }
+    }
+  }
+
+  if (results.length === 0) {
+    return { output: 'No matches' };
+  }
+
+  return {
+    output: results.length < MAX_SEARCH_RESULTS ? results.join('\n') : `${results.join('\n')}\n... (more matches)`,
+  };
+}
+
+async function runAction(toolCallId: string, action: BoltAction): Promise<AgentToolResult> {
+  workbenchStore.showWorkbench.set(true);
+
+  const state = await workbenchStore.runToolAction(toolCallId, action);
+
+  if (!state) {
+    return { error: 'The action could not be started' };
+  }
+
+  if (state.status === 'failed') {
+    return { error: truncate(state.error) };
+  }
+
+  if (state.status === 'aborted') {
+    return { error: 'The action was aborted' };
+  }
+
+  if (action.type === 'shell') {
+    return { output: truncate(state.output ?? '') || '(no output)' };
+  }
+
+  return { output: action.type === 'patch' ? `Patched ${action.filePath}` : 'Done' };
+}
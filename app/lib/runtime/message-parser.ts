@@ -1,4 +1,14 @@
-import type { ActionType, BoltAction, BoltActionData, FileAction, ShellAction } from '~/types/actions';
+import type {
+  ActionType,
+  BaseAction,
+  BoltAction,
+  BoltActionData,
+  DeleteAction,
+  FileAction,
+  PatchAction,
+  RenameAction,
+  ShellAction,
+} from '~/types/actions';
 import type { BoltArtifactData } from '~/types/artifact';
 import { createScopedLogger } from '~/utils/logger';
 import { unreachable } from '~/utils/unreachable';
@@ -118,6 +128,8 @@ export class StreamingMessageParser {
               }
 
               content += '\n';
+            } else if ('type' in currentAction && currentAction.type === 'patch') {
+              content = cleanEscapedTags(cleanoutMarkdownSyntax(content));
             }
 
             currentAction.content = content;
@@ -171,17 +183,29 @@ export class StreamingMessageParser {
             const actionEndIndex = input.indexOf('>', actionOpenIndex);
 
             if (actionEndIndex !== -1) {
-              state.insideAction = true;
-
-              state.currentAction = this.#parseActionTag(input, actionOpenIndex, actionEndIndex);
+              const action = this.#parseActionTag(input, actionOpenIndex, actionEndIndex);
+              const actionId = String(state.actionId++);
 
               this._options.callbacks?.onActionOpen?.({
                 artifactId: currentArtifact.id,
                 messageId,
-                actionId: String(state.actionId++),
-                action: state.currentAction as BoltAction,
+                actionId,
+                action: action as BoltAction,
               });
 
+              // self-closing actions like `<boltAction type="delete" filePath="a.js" />` have no content
+              if (input[actionEndIndex - 1] === '/') {
+                this._options.callbacks?.onActionClose?.({
+                  artifactId: currentArtifact.id,
+                  messageId,
+                  actionId,
+                  action: action as BoltAction,
+                });
+              } else {
+                state.insideAction = true;
+                state.currentAction = action;
+              }
+
               i = actionEndIndex + 1;
             } else {
               break;
@@ -288,28 +312,60 @@ export class StreamingMessageParser {
 
     const actionType = this.#extractAttribute(actionTag, 'type') as ActionType;
 
-    const actionAttributes = {
+    const actionAttributes: BaseAction & { type: ActionType } = {
       type: actionType,
       content: '',
     };
 
-    if (actionType === 'file') {
+    const id = this.#extractAttribute(actionTag, 'id');
+    const dependsOn = this.#extractAttribute(actionTag, 'dependsOn');
+
+    if (id) {
+      actionAttributes.id = id;
+    }
+
+    if (dependsOn !== undefined) {
+      actionAttributes.dependsOn = dependsOn
+        .split(',')
+        .map((name) => name.trim())
+        .filter(Boolean);
+    }
+
+    if (actionType === 'file' || actionType === 'patch') {
       const filePath = this.#extractAttribute(actionTag, 'filePath') as string;
 
       if (!filePath) {
         logger.debug('File path not specified');
       }
 
-      (actionAttributes as FileAction).filePath = filePath;
-    } else if (!['shell', 'start'].includes(actionType)) {
+      (actionAttributes as FileAction | PatchAction).filePath = filePath;
+    } else if (actionType === 'delete' || actionType === 'rename') {
+      const filePath = this.#extractAttribute(actionTag, 'filePath') as string;
+
+      if (!filePath) {
+        logger.debug('File path not specified');
+      }
+
+      (actionAttributes as DeleteAction | RenameAction).filePath = filePath;
+
+      if (actionType === 'rename') {
+        const newFilePath = this.#extractAttribute(actionTag, 'newFilePath') as string;
+
+        if (!newFilePath) {
+          logger.debug('New file path not specified');
+        }
+
+        (actionAttributes as RenameAction).newFilePath = newFilePath;
+      }
+    } else if (!['shell', 'start', 'build'].includes(actionType)) {
       logger.warn(`Unknown action type '${actionType}'`);
     }
 
-    return actionAttributes as FileAction | ShellAction;
+    return actionAttributes as FileAction | PatchAction | DeleteAction | RenameAction | ShellAction;
   }
 
   #extractAttribute(tag: string, attributeName: string): string | undefined {
-    const match = tag.match(new RegExp(`${attributeName}="([^"]*)"`, 'i'));
+    const match = tag.match(new RegExp(`\\s${attributeName}="([^"]*)"`, 'i'));
     return match ? match[1] : undefined;
   }
 }
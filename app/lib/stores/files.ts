@@ -27,6 +27,14 @@ type Dirent = File | Folder;
 
 export type FileMap = Record<string, Dirent | undefined>;
 
+/**
+ * Structural changes made by delete and rename actions, keyed by the path they affect.
+ * A deleted file keeps its last content, a moved file remembers where it came from.
+ */
+export type FileChange = { type: 'deleted'; content: string } | { type: 'moved'; from: string };
+
+export type FileChanges = Record<string, FileChange | undefined>;
+
 export class FilesStore {
   #webcontainer: Promise<WebContainer>;
 
@@ -47,6 +55,11 @@ export class FilesStore {
    */
   files: MapStore<FileMap> = import.meta.hot?.data.files ?? map({});
 
+  /**
+   * Deletions and moves since the page was loaded, used by the diff view.
+   */
+  fileChanges: MapStore<FileChanges> = import.meta.hot?.data.fileChanges ?? map({});
+
   get filesCount() {
     return this.#size;
   }
@@ -57,6 +70,7 @@ export class FilesStore {
     if (import.meta.hot) {
       import.meta.hot.data.files = this.files;
       import.meta.hot.data.modifiedFiles = this.#modifiedFiles;
+      import.meta.hot.data.fileChanges = this.fileChanges;
     }
 
     this.#init();
@@ -103,6 +117,10 @@ export class FilesStore {
     this.#modifiedFiles.clear();
   }
 
+  resetFileChanges() {
+    this.fileChanges.set({});
+  }
+
   async saveFile(filePath: string, content: string) {
     const webcontainer = await this.#webcontainer;
 
@@ -136,6 +154,90 @@ export class FilesStore {
     }
   }
 
+  /**
+   * Removes a file or folder from the store after it was deleted in the WebContainer.
+   * We don't wait for the watcher so the file tree and the editor reflect it right away.
+   */
+  deleteFile(filePath: string) {
+    const changes = this.fileChanges.get();
+
+    for (const [direntPath, dirent] of this.#entriesUnder(filePath)) {
+      this.files.setKey(direntPath, undefined);
+
+      if (dirent.type !== 'file') {
+        continue;
+      }
+
+      this.#size--;
+      this.#modifiedFiles.delete(direntPath);
+
+      // a file that was moved before is reported as deleted at its original location
+      const change = changes[direntPath];
+      const originalPath = change?.type === 'moved' ? change.from : direntPath;
+
+      this.fileChanges.setKey(direntPath, undefined);
+      this.fileChanges.setKey(originalPath, { type: 'deleted', content: dirent.content });
+    }
+  }
+
+  /**
+   * Moves a file or folder in the store after it was renamed in the WebContainer.
+   */
+  renameFile(filePath: string, newFilePath: string) {
+    const changes = this.fileChanges.get();
+
+    for (const folder of this.#parentFolders(newFilePath)) {
+      if (!this.files.get()[folder]) {
+        this.files.setKey(folder, { type: 'folder' });
+      }
+    }
+
+    for (const [direntPath, dirent] of this.#entriesUnder(filePath)) {
+      const newPath = newFilePath + direntPath.slice(filePath.length);
+
+      this.files.setKey(direntPath, undefined);
+      this.files.setKey(newPath, dirent);
+
+      if (dirent.type !== 'file') {
+        continue;
+      }
+
+      const originalContent = this.#modifiedFiles.get(direntPath);
+
+      if (originalContent !== undefined) {
+        this.#modifiedFiles.delete(direntPath);
+        this.#modifiedFiles.set(newPath, originalContent);
+      }
+
+      const change = changes[direntPath];
+      const originalPath = change?.type === 'moved' ? change.from : direntPath;
+
+      this.fileChanges.setKey(direntPath, undefined);
+
+      // moving a file back to where it started isn't a change anymore
+      this.fileChanges.setKey(newPath, originalPath === newPath ? undefined : { type: 'moved', from: originalPath });
+    }
+  }
+
+  #entriesUnder(filePath: string) {
+    return Object.entries(this.files.get()).filter(
+      (entry): entry is [string, Dirent] =>
+        entry[1] !== undefined && (entry[0] === filePath || entry[0].startsWith(`${filePath}/`)),
+    );
+  }
+
+  #parentFolders(filePath: string) {
+    const folders: string[] = [];
+    let folder = path.dirname(filePath);
+
+    while (folder.startsWith(`${WORK_DIR}/`)) {
+      folders.unshift(folder);
+      folder = path.dirname(folder);
+    }
+
+    return folders;
+  }
+
   async #init() {
     const webcontainer = await this.#webcontainer;
 
@@ -161,8 +263,8 @@ export class FilesStore {
         case 'remove_dir': {
           this.files.setKey(sanitizedPath, undefined);
 
-          for (const [direntPath] of Object.entries(this.files)) {
-            if (direntPath.startsWith(sanitizedPath)) {
+          for (const [direntPath] of Object.entries(this.files.get())) {
+            if (direntPath.startsWith(`${sanitizedPath}/`)) {
               this.files.setKey(direntPath, undefined);
             }
           }
@@ -171,7 +273,8 @@ export class FilesStore {
         }
         case 'add_file':
         case 'change': {
-          if (type === 'add_file') {
+          // the file may already be there when a rename action moved it in the store
+          if (type === 'add_file' && this.files.get()[sanitizedPath] === undefined) {
             this.#size++;
           }
 
@@ -191,10 +294,19 @@ export class FilesStore {
 
           this.files.setKey(sanitizedPath, { type: 'file', content, isBinary });
 
+          if (this.fileChanges.get()[sanitizedPath]?.type === 'deleted') {
+            // the file was written again after it had been deleted
+            this.fileChanges.setKey(sanitizedPath, undefined);
+          }
+
           break;
         }
         case 'remove_file': {
-          this.#size--;
+          // delete and rename actions remove files from the store before the watcher catches up
+          if (this.files.get()[sanitizedPath] !== undefined) {
+            this.#size--;
+          }
+
           this.files.setKey(sanitizedPath, undefined);
           break;
         }
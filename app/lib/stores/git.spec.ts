@@ -0,0 +1,139 @@
+import { mkdtemp, mkdir, readFile, rm, writeFile, readdir } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import type { WebContainer } from '@webcontainer/api';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { GitStore } from './git';
+
+// the part of the WebContainer filesystem the git client uses, backed by a temporary directory
+function createWebContainer(workdir: string) {
+  const resolvePath = (path: string) => resolve(workdir, path);
+
+  return {
+    workdir,
+    fs: {
+      readFile: (path: string, encoding?: BufferEncoding) => readFile(resolvePath(path), encoding),
+      writeFile: (path: string, data: string | Uint8Array, options?: { encoding?: BufferEncoding }) =>
+        writeFile(resolvePath(path), data, options),
+      mkdir: (path: string, options?: { recursive?: boolean }) => mkdir(resolvePath(path), options),
+      readdir: (path: string, options?: { withFileTypes?: boolean }) => readdir(resolvePath(path), options as any),
+      rm: (path: string, options?: { recursive?: boolean; force?: boolean }) => rm(resolvePath(path), options),
+    },
+  } as unknown as WebContainer;
+}
+
+describe('GitStore', () => {
+  let workdir: string;
+  let store: GitStore;
+
+  beforeEach(async () => {
+    workdir = await mkdtemp(join(tmpdir(), 'git-store-'));
+    store = new GitStore(Promise.resolve(createWebContainer(workdir)), {
+      getDatabase: () => undefined,
+      getChatId: () => undefined,
+    });
+  });
+
+  afterEach(async () => {
+    await rm(workdir, { recursive: true, force: true });
+  });
+
+  it('should commit every change with the given message and skip clean workdirs', async () => {
+    await writeFile(join(workdir, 'index.js'), 'console.log(1);\n');
+    await mkdir(join(workdir, 'node_modules'));
+    await writeFile(join(workdir, 'node_modules', 'dependency.js'), 'module.exports = {};\n');
+
+    const first = await store.commitAll('Create the app');
+
+    await writeFile(join(workdir, 'index.js'), 'console.log(2);\n');
+    await writeFile(join(workdir, 'README.md'), '# App\n');
+
+    const second = await store.commitAll('Update the app');
+
+    expect(await store.commitAll('Nothing')).toBeUndefined();
+    expect(store.commits.get().map(({ oid, message }) => ({ oid, message }))).toEqual([
+      { oid: second, message: 'Update the app' },
+      { oid: first, message: 'Create the app' },
+    ]);
+    expect(store.currentBranch.get()).toBe('main');
+    expect(await store.getCommitChanges(second!)).toEqual([
+      { path: 'README.md', type: 'added', before: '', after: '# App\n' },
+      { path: 'index.js', type: 'modified', before: 'console.log(1);\n', after: 'console.log(2);\n' },
+    ]);
+    expect((await store.getCommitChanges(first!)).map((change) => change.path)).toEqual(['index.js']);
+  });
+
+  it('should switch the workdir between branches', async () => {
+    await writeFile(join(workdir, 'index.js'), 'main\n');
+    await store.commitAll('Create the app');
+    await store.createBranch('feature');
+    await store.checkout('feature');
+    await writeFile(join(workdir, 'index.js'), 'feature\n');
+    await store.commitAll('Build the feature');
+
+    await store.checkout('main');
+
+    expect(await readFile(join(workdir, 'index.js'), 'utf8')).toBe('main\n');
+    expect(store.branches.get()).toEqual(['feature', 'main']);
+    expect(store.commits.get()).toHaveLength(1);
+  });
+
+  it('should fast-forward merges and check out the merged files', async () => {
+    await writeFile(join(workdir, 'index.js'), 'main\n');
+    await store.commitAll('Create the app');
+    await store.createBranch('feature');
+    await store.checkout('feature');
+    await writeFile(join(workdir, 'feature.js'), 'feature\n');
+    await store.commitAll('Build the feature');
+    await store.checkout('main');
+
+    expect(await store.merge('feature')).toBe('fast-forward');
+    expect(await readFile(join(workdir, 'feature.js'), 'utf8')).toBe('feature\n');
+    expect(await store.merge('feature')).toBe('up-to-date');
+  });
+
+  it('should keep conflicts in the workdir until they are resolved and committed', async () => {
+    await writeFile(join(workdir, 'index.js'), 'base\n');
+    await store.commitAll('Create the app');
+    await store.createBranch('feature');
+    await store.checkout('feature');
+    await writeFile(join(workdir, 'index.js'), 'feature\n');
+    await store.commitAll('Build the feature');
+    await store.checkout('main');
+    await writeFile(join(workdir, 'index.js'), 'main\n');
+    await store.commitAll('Change main');
+
+    expect(await store.merge('feature', "Merge branch 'feature'")).toBe('conflicts');
+    expect(store.merging.get()).toMatchObject({ message: "Merge branch 'feature'", conflicts: ['index.js'] });
+    expect(await readFile(join(workdir, 'index.js'), 'utf8')).toMatch(/^<{7} main\nmain\n={7}\nfeature\n>{7}/);
+    await expect(store.commitAll('Too early')).rejects.toThrow('Resolve the conflicts in index.js');
+
+    await writeFile(join(workdir, 'index.js'), 'main and feature\n');
+
+    const oid = await store.commitAll("Merge branch 'feature'");
+
+    expect(store.merging.get()).toBeUndefined();
+    expect(store.commits.get()[0]).toMatchObject({ oid, parents: [expect.any(String), expect.any(String)] });
+  });
+
+  it('should restore the last commit when a merge is aborted', async () => {
+    await writeFile(join(workdir, 'index.js'), 'base\n');
+    await store.commitAll('Create the app');
+    await store.createBranch('feature');
+    await store.checkout('feature');
+    await writeFile(join(workdir, 'index.js'), 'feature\n');
+    await writeFile(join(workdir, 'feature.js'), 'feature\n');
+    await store.commitAll('Build the feature');
+    await store.checkout('main');
+    await writeFile(join(workdir, 'index.js'), 'main\n');
+    await store.commitAll('Change main');
+    await store.merge('feature');
+
+    await store.abortMerge();
+
+    expect(store.merging.get()).toBeUndefined();
+    expect(await readFile(join(workdir, 'index.js'), 'utf8')).toBe('main\n');
+    expect(await readdir(workdir)).toEqual(['.git', 'index.js']);
+    expect(await store.commitAll('Nothing')).toBeUndefined();
+  });
+});
@@ -0,0 +1,565 @@
+import type { WebContainer } from '@webcontainer/api';
+import git, { Errors, TREE, type PromiseFsClient, type WalkerEntry } from 'isomorphic-git';
+import http from 'isomorphic-git/http/web';
+import { atom } from 'nanostores';
+import { gitAuthCallbacks } from '~/lib/git/auth';
+import { getFs, getRecordedGitFiles, type GitFileRecord } from '~/lib/git/fs';
+import { getGitFiles, saveGitFiles, type GitFileData } from '~/lib/persistence/git-files';
+import { profileStore } from '~/lib/stores/profile';
+import { path } from '~/utils/path';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('GitStore');
+
+export interface GitCommit {
+  oid: string;
+  message: string;
+  author: string;
+
+  // seconds since the epoch, like git itself
+  timestamp: number;
+  parents: string[];
+}
+
+export interface GitFileChange {
+  path: string;
+  type: 'added' | 'modified' | 'deleted';
+  before: string;
+  after: string;
+}
+
+// a merge that stopped at conflicts, the files keep the conflict markers until they are resolved and committed
+export interface GitMergeState {
+  // the commit merged into the current branch
+  theirs: string;
+  message: string;
+  conflicts: string[];
+}
+
+export type GitMergeResult = 'up-to-date' | 'fast-forward' | 'merged' | 'conflicts';
+
+// where the `.git` directory is persisted, the chat is unknown until its first message is stored
+interface GitStoreOptions {
+  getDatabase: () => IDBDatabase | undefined;
+  getChatId: () => string | undefined;
+}
+
+const GIT_DIR = '.git';
+const LOG_DEPTH = 200;
+const REMOTE = 'origin';
+const CORS_PROXY = '/api/git-proxy';
+
+// the merge in progress, stored like git itself so it survives reloads
+const MERGE_HEAD = path.join(GIT_DIR, 'MERGE_HEAD');
+const MERGE_MSG = path.join(GIT_DIR, 'MERGE_MSG');
+const CONFLICT_MARKER = /^<{7}( |$)/m;
+
+// dependencies are reinstalled from the lockfile, they never belong in the history
+const EXCLUDES = ['node_modules', '.DS_Store', ''].join('\n');
+
+const decoder = new TextDecoder();
+
+/**
+ * The git repository of the project in the WebContainer workdir, where `gitClone` also puts the history
+ * of imported repositories. Operations run one at a time, and the `.git` files each of them wrote are
+ * persisted for the current chat so the history survives reloads.
+ */
+export class GitStore {
+  #webcontainer: Promise<WebContainer>;
+  #options: GitStoreOptions;
+  #written: { current: GitFileRecord } = { current: {} };
+  #queue: Promise<unknown> = Promise.resolve();
+
+  // the chat whose `.git` directory is completely in the database, later operations only add their writes
+  #persistedChatId?: string;
+
+  commits = atom<GitCommit[]>([]);
+  branches = atom<string[]>([]);
+  currentBranch = atom<string | undefined>(undefined);
+  merging = atom<GitMergeState | undefined>(undefined);
+
+  constructor(webcontainerPromise: Promise<WebContainer>, options: GitStoreOptions) {
+    this.#webcontainer = webcontainerPromise;
+    this.#options = options;
+  }
+
+  #run<T>(operation: (fs: PromiseFsClient, dir: string) => Promise<T>): Promise<T> {
+    const result = this.#queue.then(async () => {
+      const wc = await this.#webcontainer;
+      return operation(getFs(wc, this.#written), wc.workdir);
+    });
+
+    this.#queue = result.catch(() => undefined);
+
+    return result;
+  }
+
+  // writes the `.git` directory stored for a chat back into the WebContainer
+  restore(id: string) {
+    return this.#run(async (fs, dir) => {
+      const db = this.#options.getDatabase();
+
+      if (!db) {
+        return;
+      }
+
+      const wc = await this.#webcontainer;
+      const files = await getGitFiles(db, id);
+
+      for (const [filePath, data] of Object.entries(files)) {
+        await wc.fs.mkdir(path.dirname(filePath), { recursive: true });
+        await wc.fs.writeFile(filePath, data);
+      }
+
+      this.#persistedChatId = id;
+
+      if (Object.keys(files).length > 0) {
+        logger.debug(`Restored ${Object.keys(files).length} git files of chat ${id}`);
+        await this.#checkoutMissingFiles(fs, dir);
+        await this.#refresh(fs, dir);
+      }
+    });
+  }
+
+  refresh() {
+    return this.#run((fs, dir) => this.#refresh(fs, dir));
+  }
+
+  /**
+   * Stages every change of the workdir and commits it on the current branch, initializing the repository
+   * first if needed. Returns the new commit, or `undefined` when nothing changed. During a merge the commit
+   * completes it, once no conflict markers are left.
+   */
+  commitAll(message: string) {
+    return this.#run(async (fs, dir) => {
+      await this.#ensureRepository(fs, dir);
+
+      const merging = await this.#readMergeState(fs, dir);
+
+      if (merging) {
+        const unresolved = await this.#findUnresolved(merging.conflicts);
+
+        if (unresolved.length > 0) {
+          throw new Error(`Resolve the conflicts in ${unresolved.join(', ')} before committing`);
+        }
+      }
+
+      const cache = {};
+      const changed = await this.#getChangedFiles(fs, dir, cache);
+
+      if (changed.length === 0 && !merging) {
+        return undefined;
+      }
+
+      const added = changed.filter(([, , workdir]) => workdir !== 0).map(([filepath]) => filepath);
+
+      if (added.length > 0) {
+        await git.add({ fs, dir, filepath: added, cache });
+      }
+
+      for (const [filepath] of changed.filter(([, , workdir]) => workdir === 0)) {
+        await git.remove({ fs, dir, filepath, cache });
+      }
+
+      const oid = await git.commit({
+        fs,
+        dir,
+        message,
+        author: this.#getAuthor(),
+        parent: merging ? [await git.resolveRef({ fs, dir, ref: 'HEAD' }), merging.theirs] : undefined,
+        cache,
+      });
+
+      if (merging) {
+        await this.#clearMergeState();
+      }
+
+      await this.#persist(merging ? [MERGE_HEAD, MERGE_MSG] : []);
+      await this.#refresh(fs, dir);
+
+      return oid;
+    });
+  }
+
+  createBranch(name: string, startPoint?: string) {
+    return this.#run(async (fs, dir) => {
+      await git.branch({ fs, dir, ref: name, object: startPoint });
+      await this.#persist();
+      await this.#refresh(fs, dir);
+    });
+  }
+
+  /**
+   * Switches the workdir to a branch. Fails with a `CheckoutConflictError` when uncommitted changes would be
+   * overwritten.
+   */
+  checkout(branch: string) {
+    return this.#run(async (fs, dir) => {
+      await git.checkout({ fs, dir, ref: branch });
+      await this.#persist();
+      await this.#refresh(fs, dir);
+    });
+  }
+
+  // the changes of a commit against its first parent
+  getCommitChanges(oid: string) {
+    return this.#run(async (fs, dir) => {
+      const { commit } = await git.readCommit({ fs, dir, oid });
+      const parent = commit.parent[0];
+      const trees = parent ? [TREE({ ref: parent }), TREE({ ref: oid })] : [TREE({ ref: oid })];
+
+      const changes: (GitFileChange | undefined)[] = await git.walk({
+        fs,
+        dir,
+        trees,
+        map: async (filepath, entries) => {
+          const [before, after] = parent ? entries : [null, entries[0]];
+
+          // unchanged files and folders, the latter with everything in them
+          if (before && after && (await before.oid()) === (await after.oid())) {
+            return null;
+          }
+
+          if ((await before?.type()) === 'tree' || (await after?.type()) === 'tree') {
+            return undefined;
+          }
+
+          return {
+            path: filepath,
+            type: !before ? 'added' : !after ? 'deleted' : 'modified',
+            before: await readText(before),
+            after: await readText(after),
+          } satisfies GitFileChange;
+        },
+      });
+
+      return changes.filter((change): change is GitFileChange => !!change);
+    });
+  }
+
+  /**
+   * Merges a branch or commit into the current branch and checks out the result. Conflicts are written into
+   * the workdir with conflict markers and the merge is kept in `merging` until `commitAll` or `abortMerge`.
+   */
+  merge(theirs: string, message?: string) {
+    return this.#run((fs, dir) => this.#merge(fs, dir, theirs, message ?? `Merge ${theirs}`));
+  }
+
+  /**
+   * Fetches `branch` of the repository at `url` into `origin/<branch>` through `/api/git-proxy`, the url is
+   * kept as the `origin` remote. Shallow clones stay shallow, only the new commits are downloaded.
+   */
+  fetch(url: string, branch: string) {
+    return this.#run(async (fs, dir) => {
+      await this.#fetch(fs, dir, url, branch);
+      await this.#persist();
+      await this.#refresh(fs, dir);
+    });
+  }
+
+  // fetches `branch` from `url` and merges it into the current branch, see `merge`
+  pull(url: string, branch: string) {
+    return this.#run(async (fs, dir) => {
+      await this.#fetch(fs, dir, url, branch);
+
+      return this.#merge(fs, dir, `${REMOTE}/${branch}`, `Merge branch '${branch}' of ${url}`);
+    });
+  }
+
+  // gives up a merge with conflicts, the workdir goes back to the last commit of the branch
+  abortMerge() {
+    return this.#run(async (fs, dir) => {
+      const merging = await this.#readMergeState(fs, dir);
+
+      if (!merging) {
+        return;
+      }
+
+      const wc = await this.#webcontainer;
+      const branch = await git.currentBranch({ fs, dir });
+      const theirFiles = new Set(await git.listFiles({ fs, dir, ref: merging.theirs }));
+
+      await git.checkout({ fs, dir, ref: branch ?? 'HEAD', force: true });
+
+      // the files the merge added are untracked now
+      for (const [filepath, head, workdir] of await git.statusMatrix({ fs, dir })) {
+        if (head === 0 && workdir === 2 && theirFiles.has(filepath)) {
+          await wc.fs.rm(filepath, { force: true });
+        }
+      }
+
+      await this.#clearMergeState();
+      await this.#persist([MERGE_HEAD, MERGE_MSG]);
+      await this.#refresh(fs, dir);
+    });
+  }
+
+  /**
+   * Pushes the current branch with its full history to `url` through `/api/git-proxy`, as `remoteBranch` if
+   * given. The url is kept as the `origin` remote.
+   */
+  push(url: string, remoteBranch?: string) {
+    return this.#run(async (fs, dir) => {
+      const branch = await git.currentBranch({ fs, dir });
+
+      if (!branch) {
+        throw new Error('Check out a branch before pushing');
+      }
+
+      await git.addRemote({ fs, dir, remote: REMOTE, url, force: true });
+
+      const result = await git.push({
+        fs,
+        http,
+        dir,
+        remote: REMOTE,
+        ref: branch,
+        remoteRef: remoteBranch || branch,
+        corsProxy: CORS_PROXY,
+        ...gitAuthCallbacks,
+      });
+
+      if (!result.ok) {
+        throw new Error(result.error ?? `Failed to push ${branch}`);
+      }
+
+      await this.#persist();
+    });
+  }
+
+  // the last committed content of a file, e.g. to compare a conflicted file with
+  readHeadFile(filepath: string) {
+    return this.#run(async (fs, dir) => {
+      try {
+        const { blob } = await git.readBlob({ fs, dir, oid: await git.resolveRef({ fs, dir, ref: 'HEAD' }), filepath });
+        return decoder.decode(blob);
+      } catch (error) {
+        if (error instanceof Errors.NotFoundError) {
+          return '';
+        }
+
+        throw error;
+      }
+    });
+  }
+
+  async #fetch(fs: PromiseFsClient, dir: string, url: string, branch: string) {
+    await git.addRemote({ fs, dir, remote: REMOTE, url, force: true });
+    await git.fetch({
+      fs,
+      http,
+      dir,
+      remote: REMOTE,
+      ref: branch,
+      singleBranch: true,
+      tags: false,
+      corsProxy: CORS_PROXY,
+      ...gitAuthCallbacks,
+    });
+  }
+
+  async #merge(fs: PromiseFsClient, dir: string, theirs: string, message: string): Promise<GitMergeResult> {
+    const ours = await git.currentBranch({ fs, dir });
+
+    if (!ours) {
+      throw new Error('Check out a branch before merging');
+    }
+
+    if (await this.#readMergeState(fs, dir)) {
+      throw new Error('Finish or abort the merge in progress first');
+    }
+
+    // a conflicted merge rewrites the workdir, uncommitted changes would be lost
+    if ((await this.#getChangedFiles(fs, dir, {})).length > 0) {
+      throw new Error('Commit your changes before merging');
+    }
+
+    try {
+      const result = await git.merge({
+        fs,
+        dir,
+        ours,
+        theirs,
+        message,
+        author: this.#getAuthor(),
+        abortOnConflict: false,
+      });
+
+      if (result.alreadyMerged) {
+        return 'up-to-date';
+      }
+
+      // merging only moves the branch, the workdir follows like after `git pull`
+      await git.checkout({ fs, dir, ref: ours });
+
+      return result.fastForward ? 'fast-forward' : 'merged';
+    } catch (error) {
+      if (!(error instanceof Errors.MergeConflictError)) {
+        throw error;
+      }
+
+      await this.#writeMergeState(fs, dir, {
+        theirs: await git.resolveRef({ fs, dir, ref: theirs }),
+        message,
+        conflicts: error.data.filepaths,
+      });
+
+      return 'conflicts';
+    } finally {
+      await this.#persist();
+      await this.#refresh(fs, dir);
+    }
+  }
+
+  // MERGE_MSG lists the conflicts in comments, like `git merge` does
+  async #writeMergeState(fs: PromiseFsClient, dir: string, { theirs, message, conflicts }: GitMergeState) {
+    const comments = ['', '# Conflicts:', ...conflicts.map((filepath) => `#\t${filepath}`), ''];
+
+    await fs.promises.writeFile(path.join(dir, MERGE_HEAD), `${theirs}\n`, { encoding: 'utf8' });
+    await fs.promises.writeFile(path.join(dir, MERGE_MSG), [message, ...comments].join('\n'), { encoding: 'utf8' });
+  }
+
+  async #readMergeState(fs: PromiseFsClient, dir: string): Promise<GitMergeState | undefined> {
+    try {
+      const theirs: string = await fs.promises.readFile(path.join(dir, MERGE_HEAD), { encoding: 'utf8' });
+      const lines: string[] = (await fs.promises.readFile(path.join(dir, MERGE_MSG), { encoding: 'utf8' })).split('\n');
+
+      return {
+        theirs: theirs.trim(),
+        message: lines
+          .filter((line) => !line.startsWith('#'))
+          .join('\n')
+          .trim(),
+        conflicts: lines.filter((line) => line.startsWith('#\t')).map((line) => line.slice(2)),
+      };
+    } catch {
+      return undefined;
+    }
+  }
+
+  async #clearMergeState() {
+    const wc = await this.#webcontainer;
+
+    await wc.fs.rm(MERGE_HEAD, { force: true });
+    await wc.fs.rm(MERGE_MSG, { force: true });
+  }
+
+  // conflicted files that still have conflict markers
+  async #findUnresolved(conflicts: string[]) {
+    const wc = await this.#webcontainer;
+    const unresolved: string[] = [];
+
+    for (const filepath of conflicts) {
+      const content = await wc.fs.readFile(filepath, 'utf8').catch(() => '');
+
+      if (CONFLICT_MARKER.test(content)) {
+        unresolved.push(filepath);
+      }
+    }
+
+    return unresolved;
+  }
+
+  async #getChangedFiles(fs: PromiseFsClient, dir: string, cache: object) {
+    const matrix = await git.statusMatrix({ fs, dir, cache });
+    return matrix.filter(([, head, workdir, stage]) => !(head === 1 && workdir === 1 && stage === 1));
+  }
+
+  /*
+   * Replaying the messages of a chat only writes the files of its artifacts, the rest of the last commit, like
+   * the binary files of a cloned repository, is checked out so it isn't committed as deleted.
+   */
+  async #checkoutMissingFiles(fs: PromiseFsClient, dir: string) {
+    const branch = await git.currentBranch({ fs, dir });
+    const matrix = await git.statusMatrix({ fs, dir }).catch(() => []);
+    const missing = matrix.filter(([, head, workdir]) => head === 1 && workdir === 0).map(([filepath]) => filepath);
+
+    if (branch && missing.length > 0) {
+      await git.checkout({ fs, dir, ref: branch, filepaths: missing, force: true });
+    }
+  }
+
+  #getAuthor() {
+    const { username } = profileStore.get();
+    return { name: username || 'bolt.diy', email: 'bolt@localhost' };
+  }
+
+  async #ensureRepository(fs: PromiseFsClient, dir: string) {
+    const wc = await this.#webcontainer;
+    const exclude = path.join(GIT_DIR, 'info', 'exclude');
+
+    try {
+      await wc.fs.readFile(path.join(GIT_DIR, 'HEAD'), 'utf8');
+    } catch {
+      await git.init({ fs, dir, defaultBranch: 'main' });
+    }
+
+    try {
+      await wc.fs.readFile(exclude, 'utf8');
+    } catch {
+      await wc.fs.mkdir(path.dirname(exclude), { recursive: true });
+      await fs.promises.writeFile(path.join(dir, exclude), EXCLUDES, { encoding: 'utf8' });
+    }
+  }
+
+  async #refresh(fs: PromiseFsClient, dir: string) {
+    const [log, branches, currentBranch] = await Promise.all([
+      git.log({ fs, dir, depth: LOG_DEPTH }).catch(() => []),
+      git.listBranches({ fs, dir }).catch(() => []),
+      git.currentBranch({ fs, dir }).catch(() => undefined),
+    ]);
+
+    this.commits.set(
+      log.map(({ oid, commit }) => ({
+        oid,
+        message: commit.message.trim(),
+        author: commit.author.name,
+        timestamp: commit.author.timestamp,
+        parents: commit.parent,
+      })),
+    );
+    this.branches.set(branches);
+    this.currentBranch.set(currentBranch ?? undefined);
+    this.merging.set(await this.#readMergeState(fs, dir));
+  }
+
+  // the first write for a chat stores the whole `.git` directory, e.g. the history of a cloned repository
+  async #persist(removed: string[] = []) {
+    const db = this.#options.getDatabase();
+    const id = this.#options.getChatId();
+
+    if (!db || !id) {
+      return;
+    }
+
+    const written = this.#written.current;
+    this.#written.current = {};
+
+    const files = this.#persistedChatId === id ? getRecordedGitFiles(written) : await this.#readGitDir(GIT_DIR);
+
+    await saveGitFiles(db, id, files, removed);
+    this.#persistedChatId = id;
+  }
+
+  async #readGitDir(folder: string): Promise<Record<string, GitFileData>> {
+    const wc = await this.#webcontainer;
+    const files: Record<string, GitFileData> = {};
+
+    for (const entry of await wc.fs.readdir(folder, { withFileTypes: true })) {
+      const entryPath = path.join(folder, entry.name);
+
+      if (entry.isDirectory()) {
+        Object.assign(files, await this.#readGitDir(entryPath));
+      } else {
+        files[entryPath] = await wc.fs.readFile(entryPath);
+      }
+    }
+
+    return files;
+  }
+}
+
+async function readText(entry: WalkerEntry | null) {
+  const content = entry ? await entry.content() : undefined;
+  return content ? decoder.decode(content) : '';
+}
@@ -0,0 +1,32 @@
+import type { WebContainer } from '@webcontainer/api';
+import { describe, expect, it } from 'vitest';
+import { PreviewsStore } from './previews';
+
+// the WebContainer never boots here, the specs drive the previews directly
+const createStore = () => new PreviewsStore(new Promise<WebContainer>(() => undefined));
+
+describe('PreviewsStore.waitForPort', () => {
+  it('should resolve right away when a port is already open', async () => {
+    const store = createStore();
+
+    store.previews.set([
+      { port: 3000, ready: false, baseUrl: 'https://3000.local' },
+      { port: 5173, ready: true, baseUrl: 'https://5173.local' },
+    ]);
+
+    await expect(store.waitForPort()).resolves.toBe(5173);
+  });
+
+  it('should keep waiting while no port is open', async () => {
+    const store = createStore();
+    const controller = new AbortController();
+
+    store.previews.set([{ port: 3000, ready: false, baseUrl: 'https://3000.local' }]);
+
+    const port = store.waitForPort(controller.signal);
+
+    controller.abort();
+
+    await expect(port).rejects.toThrow('Stopped waiting for a port');
+  });
+});
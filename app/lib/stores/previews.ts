@@ -31,6 +31,7 @@ export class PreviewsStore {
   #refreshTimeouts = new Map<string, NodeJS.Timeout>();
   #REFRESH_DELAY = 300;
   #storageChannel: BroadcastChannel;
+  #portListeners = new Set<(port: number) => void>();
   isInitialized = false;
 
   previews = atom<PreviewInfo[]>([]);
@@ -245,6 +246,7 @@ export class PreviewsStore {
 
         if (type === 'open') {
           this.broadcastUpdate(url);
+          this.#portListeners.forEach((listener) => listener(port));
         }
       });
     } catch (error) {
@@ -252,6 +254,39 @@ export class PreviewsStore {
     }
   }
 
+  // resolves with a port that is already open or the next one that opens, and rejects once `signal` aborts
+  waitForPort(signal?: AbortSignal): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const listener = (port: number) => {
+        cleanup();
+        resolve(port);
+      };
+      const onAbort = () => {
+        cleanup();
+        reject(new Error('Stopped waiting for a port'));
+      };
+      const cleanup = () => {
+        this.#portListeners.delete(listener);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+
+      const openPreview = this.previews.get().find((preview) => preview.ready);
+
+      if (openPreview) {
+        resolve(openPreview.port);
+        return;
+      }
+
+      this.#portListeners.add(listener);
+      signal?.addEventListener('abort', onAbort);
+    });
+  }
+
   // Helper to extract preview ID from URL
   getPreviewId(url: string): string | null {
     const match = url.match(/^https?:\/\/([^.]+)\.local-credentialless\.webcontainer-api\.io/);
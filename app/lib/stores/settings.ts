@@ -11,6 +11,9 @@ import { DEFAULT_TAB_CONFIG } from '~/components/@settings/core/constants';
 import Cookies from 'js-cookie';
 import { toggleTheme } from './theme';
 import { create } from 'zustand';
+import type { AgentToolName, ToolApproval, ToolApprovalPolicy } from '~/types/agent';
+import type { RetrievalMode, RetrievalRequest } from '~/types/retrieval';
+import type { ModelPricing, PricingOverrides, SpendLimits } from '~/types/cost';
 
 export interface Shortcut {
   key: string;
@@ -131,8 +134,99 @@ const SETTINGS_KEYS = {
   EVENT_LOGS: 'isEventLogsEnabled',
   PROMPT_ID: 'promptId',
   DEVELOPER_MODE: 'isDeveloperMode',
+  AUTO_FIX: 'autoFixEnabled',
+  AUTO_FIX_MAX_ATTEMPTS: 'autoFixMaxAttempts',
+  AGENT_MODE: 'agentModeEnabled',
+  TOOL_APPROVAL_POLICY: 'toolApprovalPolicy',
+  RETRIEVAL: 'retrievalSettings',
+  PRICING_OVERRIDES: 'pricingOverrides',
+  SPEND_LIMITS: 'spendLimits',
+  CHAT_SYNC: 'chatSyncEnabled',
+  CHAT_SYNC_KEY: 'chatSyncKey',
 } as const;
 
+export const MAX_AUTO_FIX_ATTEMPTS = 5;
+
+function clampAutoFixAttempts(attempts: number) {
+  return Number.isFinite(attempts) ? Math.min(Math.max(Math.round(attempts), 1), MAX_AUTO_FIX_ATTEMPTS) : 3;
+}
+
+export const AGENT_TOOLS: { name: AgentToolName; label: string }[] = [
+  { name: 'read_file', label: 'Read file' },
+  { name: 'list_dir', label: 'List folder' },
+  { name: 'search_code', label: 'Search code' },
+  { name: 'write_file', label: 'Write file' },
+  { name: 'apply_patch', label: 'Patch file' },
+  { name: 'run_command', label: 'Run command' },
+];
+
+// the maximum number of tool round-trips for one user message
+export const AGENT_MAX_STEPS = 10;
+
+// file tools run right away like artifact actions do, commands wait for the user
+export const DEFAULT_TOOL_APPROVAL_POLICY: ToolApprovalPolicy = {
+  read_file: 'auto',
+  list_dir: 'auto',
+  search_code: 'auto',
+  write_file: 'auto',
+  apply_patch: 'auto',
+  run_command: 'ask',
+};
+
+export const RETRIEVAL_MODES: { value: RetrievalMode; label: string }[] = [
+  { value: 'llm', label: 'Model picks files' },
+  { value: 'index', label: 'Retrieval index' },
+  { value: 'hybrid', label: 'Index, then model' },
+];
+
+// providers able to embed text, bm25 is the lexical index that needs neither a key nor a network
+export const EMBEDDING_PROVIDERS: { value: string; label: string }[] = [
+  { value: 'bm25', label: 'BM25 (offline)' },
+  { value: 'OpenAI', label: 'OpenAI' },
+  { value: 'Ollama', label: 'Ollama' },
+];
+
+// the model keeps picking the files until the index is turned on
+export const DEFAULT_RETRIEVAL: RetrievalRequest = { mode: 'llm', embeddingProvider: 'bm25' };
+
+function getStoredRetrieval(): RetrievalRequest {
+  if (!isBrowser) {
+    return DEFAULT_RETRIEVAL;
+  }
+
+  try {
+    return { ...DEFAULT_RETRIEVAL, ...JSON.parse(localStorage.getItem(SETTINGS_KEYS.RETRIEVAL) || '{}') };
+  } catch {
+    return DEFAULT_RETRIEVAL;
+  }
+}
+
+function getStoredJson<T>(key: string, defaultValue: T): T {
+  if (!isBrowser) {
+    return defaultValue;
+  }
+
+  try {
+    return JSON.parse(localStorage.getItem(key) || 'null') ?? defaultValue;
+  } catch {
+    return defaultValue;
+  }
+}
+
+function getStoredToolApprovalPolicy(): ToolApprovalPolicy {
+  if (!isBrowser) {
+    return DEFAULT_TOOL_APPROVAL_POLICY;
+  }
+
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEYS.TOOL_APPROVAL_POLICY) || '{}');
+
+    return { ...DEFAULT_TOOL_APPROVAL_POLICY, ...stored };
+  } catch {
+    return DEFAULT_TOOL_APPROVAL_POLICY;
+  }
+}
+
 // Initialize settings from localStorage or defaults
 const getInitialSettings = () => {
   const getStoredBoolean = (key: string, defaultValue: boolean): boolean => {
@@ -160,6 +254,17 @@ const getInitialSettings = () => {
     eventLogs: getStoredBoolean(SETTINGS_KEYS.EVENT_LOGS, true),
     promptId: isBrowser ? localStorage.getItem(SETTINGS_KEYS.PROMPT_ID) || 'default' : 'default',
     developerMode: getStoredBoolean(SETTINGS_KEYS.DEVELOPER_MODE, false),
+    autoFix: getStoredBoolean(SETTINGS_KEYS.AUTO_FIX, false),
+    autoFixMaxAttempts: clampAutoFixAttempts(
+      isBrowser ? Number(localStorage.getItem(SETTINGS_KEYS.AUTO_FIX_MAX_ATTEMPTS) ?? 3) : 3,
+    ),
+    agentMode: getStoredBoolean(SETTINGS_KEYS.AGENT_MODE, false),
+    toolApprovalPolicy: getStoredToolApprovalPolicy(),
+    retrieval: getStoredRetrieval(),
+    pricingOverrides: getStoredJson<PricingOverrides>(SETTINGS_KEYS.PRICING_OVERRIDES, {}),
+    spendLimits: getStoredJson<SpendLimits>(SETTINGS_KEYS.SPEND_LIMITS, {}),
+    chatSync: getStoredBoolean(SETTINGS_KEYS.CHAT_SYNC, false),
+    chatSyncKey: isBrowser ? localStorage.getItem(SETTINGS_KEYS.CHAT_SYNC_KEY) || '' : '',
   };
 };
 
@@ -171,6 +276,17 @@ export const autoSelectStarterTemplate = atom<boolean>(initialSettings.autoSelec
 export const enableContextOptimizationStore = atom<boolean>(initialSettings.contextOptimization);
 export const isEventLogsEnabled = atom<boolean>(initialSettings.eventLogs);
 export const promptStore = atom<string>(initialSettings.promptId);
+export const autoFixStore = atom<boolean>(initialSettings.autoFix);
+export const autoFixMaxAttemptsStore = atom<number>(initialSettings.autoFixMaxAttempts);
+export const agentModeStore = atom<boolean>(initialSettings.agentMode);
+export const toolApprovalPolicyStore = atom<ToolApprovalPolicy>(initialSettings.toolApprovalPolicy);
+export const retrievalStore = atom<RetrievalRequest>(initialSettings.retrieval);
+export const pricingOverridesStore = atom<PricingOverrides>(initialSettings.pricingOverrides);
+export const spendLimitsStore = atom<SpendLimits>(initialSettings.spendLimits);
+export const chatSyncStore = atom<boolean>(initialSettings.chatSync);
+
+// API key of a client with the `chats:sync` scope, its id is the space the chats are synced in
+export const chatSyncKeyStore = atom<string>(initialSettings.chatSyncKey);
 
 // Helper functions to update settings with persistence
 export const updateLatestBranch = (enabled: boolean) => {
@@ -198,6 +314,61 @@ export const updatePromptId = (id: string) => {
   localStorage.setItem(SETTINGS_KEYS.PROMPT_ID, id);
 };
 
+export const updateAutoFix = (enabled: boolean) => {
+  autoFixStore.set(enabled);
+  localStorage.setItem(SETTINGS_KEYS.AUTO_FIX, JSON.stringify(enabled));
+};
+
+export const updateAutoFixMaxAttempts = (attempts: number) => {
+  const clamped = clampAutoFixAttempts(attempts);
+
+  autoFixMaxAttemptsStore.set(clamped);
+  localStorage.setItem(SETTINGS_KEYS.AUTO_FIX_MAX_ATTEMPTS, JSON.stringify(clamped));
+};
+
+export const updateAgentMode = (enabled: boolean) => {
+  agentModeStore.set(enabled);
+  localStorage.setItem(SETTINGS_KEYS.AGENT_MODE, JSON.stringify(enabled));
+};
+
+export const updateChatSync = (enabled: boolean) => {
+  chatSyncStore.set(enabled);
+  localStorage.setItem(SETTINGS_KEYS.CHAT_SYNC, JSON.stringify(enabled));
+};
+
+export const updateChatSyncKey = (key: string) => {
+  chatSyncKeyStore.set(key);
+  localStorage.setItem(SETTINGS_KEYS.CHAT_SYNC_KEY, key);
+};
+
+export const updateToolApproval = (tool: AgentToolName, approval: ToolApproval) => {
+  const policy = { ...toolApprovalPolicyStore.get(), [tool]: approval };
+
+  toolApprovalPolicyStore.set(policy);
+  localStorage.setItem(SETTINGS_KEYS.TOOL_APPROVAL_POLICY, JSON.stringify(policy));
+};
+
+export const updateRetrieval = (settings: Partial<RetrievalRequest>) => {
+  const retrieval = { ...retrievalStore.get(), ...settings };
+
+  retrievalStore.set(retrieval);
+  localStorage.setItem(SETTINGS_KEYS.RETRIEVAL, JSON.stringify(retrieval));
+};
+
+// keyed by `provider/model`, undefined goes back to the list price
+export const updatePricingOverride = (key: string, pricing: ModelPricing | undefined) => {
+  const { [key]: _previous, ...overrides } = pricingOverridesStore.get();
+  const updated = pricing ? { ...overrides, [key]: pricing } : overrides;
+
+  pricingOverridesStore.set(updated);
+  localStorage.setItem(SETTINGS_KEYS.PRICING_OVERRIDES, JSON.stringify(updated));
+};
+
+export const updateSpendLimits = (limits: SpendLimits) => {
+  spendLimitsStore.set(limits);
+  localStorage.setItem(SETTINGS_KEYS.SPEND_LIMITS, JSON.stringify(limits));
+};
+
 // Initialize tab configuration from localStorage or defaults
 const getInitialTabConfiguration = (): TabWindowConfig => {
   const defaultConfig: TabWindowConfig = {
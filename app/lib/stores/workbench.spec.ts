@@ -0,0 +1,90 @@
+import { existsSync } from 'node:fs';
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { atom } from 'nanostores';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ActionRunner } from '~/lib/runtime/action-runner';
+import type { FileMap } from './files';
+
+const WORK_DIR = '/home/project';
+
+const workdir = await mkdtemp(join(tmpdir(), 'workbench-store-'));
+
+// the part of the WebContainer the workbench touches when it restores a checkpoint, backed by `workdir`
+vi.mock('~/lib/webcontainer', () => {
+  const resolvePath = (path: string) => resolve(workdir, path);
+
+  return {
+    webcontainer: Promise.resolve({
+      workdir: WORK_DIR,
+      on: () => () => undefined,
+      internal: { watchPaths: () => undefined },
+      fs: {
+        writeFile: (path: string, data: string) => writeFile(resolvePath(path), data),
+        mkdir: (path: string, options?: { recursive?: boolean }) => mkdir(resolvePath(path), options),
+        rm: (path: string, options?: { recursive?: boolean; force?: boolean }) => rm(resolvePath(path), options),
+      },
+    }),
+  };
+});
+
+vi.mock('~/lib/persistence', () => ({ chatId: atom(), description: atom(), db: undefined }));
+
+const workbench = await import('./workbench');
+
+const file = (content: string, isBinary = false) => ({ type: 'file' as const, content, isBinary });
+
+describe('WorkbenchStore.restoreCheckpoint', () => {
+  beforeEach(async () => {
+    await rm(workdir, { recursive: true, force: true });
+    await mkdir(join(workdir, 'src'), { recursive: true });
+  });
+
+  afterAll(async () => {
+    await rm(workdir, { recursive: true, force: true });
+  });
+
+  it('should rewrite changed files and delete the ones added after the checkpoint', async () => {
+    const store = new workbench.WorkbenchStore();
+    const checkpoint: FileMap = {
+      [`${WORK_DIR}/src`]: { type: 'folder' },
+      [`${WORK_DIR}/src/index.js`]: file('console.log(1);\n'),
+      [`${WORK_DIR}/src/styles/main.css`]: file('body {}\n'),
+      [`${WORK_DIR}/logo.png`]: file('', true),
+    };
+
+    await writeFile(join(workdir, 'src/index.js'), 'console.log(2);\n');
+    await writeFile(join(workdir, 'src/added.js'), 'export {};\n');
+    await writeFile(join(workdir, 'logo.png'), 'binary');
+
+    store.files.set({
+      [`${WORK_DIR}/src`]: { type: 'folder' },
+      [`${WORK_DIR}/src/index.js`]: file('console.log(2);\n'),
+      [`${WORK_DIR}/src/added.js`]: file('export {};\n'),
+      [`${WORK_DIR}/logo.png`]: file('', true),
+    });
+    store.artifacts.setKey('message-2', {
+      id: 'todo',
+      title: 'Todo App',
+      closed: true,
+      runner: {} as ActionRunner,
+      checkpoint,
+    });
+
+    await store.restoreCheckpoint('message-2');
+
+    expect(await readFile(join(workdir, 'src/index.js'), 'utf8')).toBe('console.log(1);\n');
+    expect(await readFile(join(workdir, 'src/styles/main.css'), 'utf8')).toBe('body {}\n');
+    expect(existsSync(join(workdir, 'src/added.js'))).toBe(false);
+
+    // binary contents aren't part of a checkpoint, they are left alone
+    expect(await readFile(join(workdir, 'logo.png'), 'utf8')).toBe('binary');
+  });
+
+  it('should fail for messages without a checkpoint', async () => {
+    const store = new workbench.WorkbenchStore();
+
+    await expect(store.restoreCheckpoint('unknown')).rejects.toThrow('No checkpoint found for this message');
+  });
+});
@@ -1,12 +1,13 @@
 import { atom, map, type MapStore, type ReadableAtom, type WritableAtom } from 'nanostores';
 import type { EditorDocument, ScrollPosition } from '~/components/editor/codemirror/CodeMirrorEditor';
-import { ActionRunner } from '~/lib/runtime/action-runner';
+import { ActionRunner, type BuildOutput } from '~/lib/runtime/action-runner';
 import type { ActionCallbackData, ArtifactCallbackData } from '~/lib/runtime/message-parser';
 import { webcontainer } from '~/lib/webcontainer';
 import type { ITerminal } from '~/types/terminal';
 import { unreachable } from '~/utils/unreachable';
 import { EditorStore } from './editor';
 import { FilesStore, type FileMap } from './files';
+import { GitStore } from './git';
 import { PreviewsStore } from './previews';
 import { TerminalStore } from './terminal';
 import JSZip from 'jszip';
@@ -14,10 +15,10 @@ import fileSaver from 'file-saver';
 import { Octokit, type RestEndpointMethodTypes } from '@octokit/rest';
 import { path } from '~/utils/path';
 import { extractRelativePath } from '~/utils/diff';
-import { description } from '~/lib/persistence';
+import { chatId, db, description } from '~/lib/persistence';
 import Cookies from 'js-cookie';
 import { createSampler } from '~/utils/sampler';
-import type { ActionAlert } from '~/types/actions';
+import type { ActionAlert, BoltAction } from '~/types/actions';
 
 const { saveAs } = fileSaver;
 
@@ -27,19 +28,23 @@ export interface ArtifactState {
   type?: string;
   closed: boolean;
   runner: ActionRunner;
+
+  // files as they were right before the artifact's first action ran, only kept in memory for this page
+  checkpoint?: FileMap;
 }
 
 export type ArtifactUpdateState = Pick<ArtifactState, 'title' | 'closed'>;
 
 type Artifacts = MapStore<Record<string, ArtifactState>>;
 
-export type WorkbenchViewType = 'code' | 'diff' | 'preview';
+export type WorkbenchViewType = 'code' | 'diff' | 'git' | 'preview';
 
 export class WorkbenchStore {
   #previewsStore = new PreviewsStore(webcontainer);
   #filesStore = new FilesStore(webcontainer);
   #editorStore = new EditorStore(this.#filesStore);
   #terminalStore = new TerminalStore(webcontainer);
+  #gitStore = new GitStore(webcontainer, { getDatabase: () => db, getChatId: () => chatId.get() });
 
   #reloadedMessages = new Set<string>();
 
@@ -50,9 +55,15 @@ export class WorkbenchStore {
   unsavedFiles: WritableAtom<Set<string>> = import.meta.hot?.data.unsavedFiles ?? atom(new Set<string>());
   actionAlert: WritableAtom<ActionAlert | undefined> =
     import.meta.hot?.data.unsavedFiles ?? atom<ActionAlert | undefined>(undefined);
+
+  // files of the last successful build, downloadable and deployable as they are
+  buildOutput: WritableAtom<BuildOutput | undefined> = import.meta.hot?.data.buildOutput ?? atom(undefined);
   modifiedFiles = new Set<string>();
   artifactIdList: string[] = [];
   #globalExecutionQueue = Promise.resolve();
+
+  // actions taken off the queue that are still running, see `runAction`
+  #runningActions = new Set<Promise<void>>();
   constructor() {
     if (import.meta.hot) {
       import.meta.hot.data.artifacts = this.artifacts;
@@ -60,6 +71,7 @@ export class WorkbenchStore {
       import.meta.hot.data.showWorkbench = this.showWorkbench;
       import.meta.hot.data.currentView = this.currentView;
       import.meta.hot.data.actionAlert = this.actionAlert;
+      import.meta.hot.data.buildOutput = this.buildOutput;
     }
   }
 
@@ -67,14 +79,39 @@ export class WorkbenchStore {
     this.#globalExecutionQueue = this.#globalExecutionQueue.then(() => callback());
   }
 
+  // resolves once every action queued so far, and anything queued meanwhile, has been executed
+  async waitForIdle() {
+    let queue: Promise<void>;
+
+    do {
+      queue = this.#globalExecutionQueue;
+      await queue.catch(() => undefined);
+      await this.#waitForRunningActions();
+    } while (queue !== this.#globalExecutionQueue);
+  }
+
+  async #waitForRunningActions() {
+    while (this.#runningActions.size > 0) {
+      await Promise.all(this.#runningActions);
+    }
+  }
+
   get previews() {
     return this.#previewsStore.previews;
   }
 
+  get git() {
+    return this.#gitStore;
+  }
+
   get files() {
     return this.#filesStore.files;
   }
 
+  get fileChanges() {
+    return this.#filesStore.fileChanges;
+  }
+
   get currentDocument(): ReadableAtom<EditorDocument | undefined> {
     return this.#editorStore.currentDocument;
   }
@@ -280,8 +317,86 @@ export class WorkbenchStore {
 
           this.actionAlert.set(alert);
         },
+        (buildOutput) => this.buildOutput.set(buildOutput),
+        (signal) => this.#previewsStore.waitForPort(signal),
       ),
     });
+
+    // queued so that it runs after the actions of earlier artifacts and before any action of this one
+    this.addToExecutionQueue(async () => {
+      await this.#waitForRunningActions();
+      this.#takeCheckpoint(messageId);
+    });
+  }
+
+  #takeCheckpoint(messageId: string) {
+    const artifact = this.#getArtifact(messageId);
+
+    if (!artifact || artifact.checkpoint) {
+      return;
+    }
+
+    // dirents are replaced rather than mutated, so a shallow copy is enough to keep this state around
+    this.artifacts.setKey(messageId, { ...artifact, checkpoint: { ...this.files.get() } });
+  }
+
+  /**
+   * Rewinds the WebContainer filesystem to the checkpoint taken before the artifact of `messageId` ran.
+   * Runs on the execution queue so it never interleaves with actions that are still being executed.
+   */
+  restoreCheckpoint(messageId: string) {
+    return new Promise<void>((resolve, reject) => {
+      this.addToExecutionQueue(() =>
+        this.#waitForRunningActions()
+          .then(() => this.#restoreCheckpoint(messageId))
+          .then(resolve, reject),
+      );
+    });
+  }
+
+  async #restoreCheckpoint(messageId: string) {
+    const checkpoint = this.#getArtifact(messageId)?.checkpoint;
+
+    if (!checkpoint) {
+      throw new Error('No checkpoint found for this message');
+    }
+
+    const wc = await webcontainer;
+    const currentFiles = this.files.get();
+
+    for (const [filePath, dirent] of Object.entries(currentFiles)) {
+      if (dirent && !checkpoint[filePath]) {
+        await wc.fs.rm(path.relative(wc.workdir, filePath), { recursive: true, force: true });
+      }
+    }
+
+    for (const [filePath, dirent] of Object.entries(checkpoint)) {
+      const relativePath = path.relative(wc.workdir, filePath);
+
+      if (dirent?.type === 'folder') {
+        await wc.fs.mkdir(relativePath, { recursive: true });
+        continue;
+      }
+
+      const current = currentFiles[filePath];
+
+      // binary files aren't kept in the files store, they are left as they are
+      if (!dirent || dirent.isBinary || (current?.type === 'file' && current.content === dirent.content)) {
+        continue;
+      }
+
+      const folder = path.dirname(relativePath);
+
+      if (folder !== '.') {
+        await wc.fs.mkdir(folder, { recursive: true });
+      }
+
+      await wc.fs.writeFile(relativePath, dirent.content);
+    }
+
+    this.#filesStore.resetFileChanges();
+    this.resetAllFileModifications();
+    this.unsavedFiles.set(new Set<string>());
   }
 
   updateArtifact({ messageId }: ArtifactCallbackData, state: Partial<ArtifactUpdateState>) {
@@ -292,6 +407,60 @@ export class WorkbenchStore {
     }
 
     this.artifacts.setKey(messageId, { ...artifact, ...state });
+
+    if (state.closed && !artifact.closed && !this.#reloadedMessages.has(messageId)) {
+      this.#commitArtifact(messageId);
+    }
+  }
+
+  // commits the files once the actions of the artifact are done, before the next artifact changes them
+  #commitArtifact(messageId: string) {
+    this.addToExecutionQueue(async () => {
+      await this.#waitForRunningActions();
+
+      const artifact = this.#getArtifact(messageId);
+
+      try {
+        await this.#gitStore.commitAll(artifact?.title || 'Update project files');
+      } catch (error) {
+        console.error('Failed to commit the artifact:', error);
+      }
+    });
+  }
+
+  // checks out a branch of the project repository, see `#runGitOperation`
+  checkoutBranch(branch: string) {
+    return this.#runGitOperation(() => this.#gitStore.checkout(branch));
+  }
+
+  // fetches a branch of the remote repository and merges it into the current branch
+  pullBranch(url: string, branch: string) {
+    return this.#runGitOperation(() => this.#gitStore.pull(url, branch));
+  }
+
+  abortMerge() {
+    return this.#runGitOperation(() => this.#gitStore.abortMerge());
+  }
+
+  /**
+   * Runs a git operation that rewrites the workdir, queued like `restoreCheckpoint` so it never interleaves
+   * with running actions. The tracked file changes start over from the new files.
+   */
+  #runGitOperation<T>(operation: () => Promise<T>) {
+    return new Promise<T>((resolve, reject) => {
+      this.addToExecutionQueue(() =>
+        this.#waitForRunningActions()
+          .then(operation)
+          .then((result) => {
+            this.#filesStore.resetFileChanges();
+            this.resetAllFileModifications();
+            this.unsavedFiles.set(new Set<string>());
+
+            return result;
+          })
+          .then(resolve, reject),
+      );
+    });
   }
   addAction(data: ActionCallbackData) {
     // this._addAction(data);
@@ -314,7 +483,17 @@ export class WorkbenchStore {
     if (isStreaming) {
       this.actionStreamSampler(data, isStreaming);
     } else {
-      this.addToExecutionQueue(() => this._runAction(data, isStreaming));
+      /*
+       * the queue only hands the actions to their runner in order, the runner holds back the ones
+       * that depend on earlier actions so that independent ones run side by side
+       */
+      this.addToExecutionQueue(async () => {
+        const execution: Promise<void> = this._runAction(data, isStreaming)
+          .catch((error) => console.error('Action failed:', error))
+          .finally(() => this.#runningActions.delete(execution));
+
+        this.#runningActions.add(execution);
+      });
     }
   }
   async _runAction(data: ActionCallbackData, isStreaming: boolean = false) {
@@ -356,11 +535,84 @@ export class WorkbenchStore {
         await artifact.runner.runAction(data);
         this.resetAllFileModifications();
       }
+    } else if (data.action.type === 'patch') {
+      const wc = await webcontainer;
+      const fullPath = path.join(wc.workdir, data.action.filePath);
+
+      await artifact.runner.runAction(data);
+
+      // the patched content reaches the editor through the files store
+      if (this.selectedFile.value !== fullPath) {
+        this.setSelectedFile(fullPath);
+      }
+    } else if (data.action.type === 'delete') {
+      const wc = await webcontainer;
+      const fullPath = path.join(wc.workdir, data.action.filePath);
+
+      await artifact.runner.runAction(data);
+
+      if (artifact.runner.actions.get()[data.actionId]?.status === 'failed') {
+        return;
+      }
+
+      this.#filesStore.deleteFile(fullPath);
+      this.#forgetUnsavedFiles(fullPath);
+
+      const selectedFile = this.selectedFile.value;
+
+      if (selectedFile && (selectedFile === fullPath || selectedFile.startsWith(`${fullPath}/`))) {
+        this.setSelectedFile(undefined);
+      }
+    } else if (data.action.type === 'rename') {
+      const wc = await webcontainer;
+      const fullPath = path.join(wc.workdir, data.action.filePath);
+      const newFullPath = path.join(wc.workdir, data.action.newFilePath);
+
+      await artifact.runner.runAction(data);
+
+      if (artifact.runner.actions.get()[data.actionId]?.status === 'failed') {
+        return;
+      }
+
+      this.#filesStore.renameFile(fullPath, newFullPath);
+      this.#forgetUnsavedFiles(fullPath);
+
+      const selectedFile = this.selectedFile.value;
+
+      if (selectedFile && (selectedFile === fullPath || selectedFile.startsWith(`${fullPath}/`))) {
+        this.setSelectedFile(newFullPath + selectedFile.slice(fullPath.length));
+      }
     } else {
       await artifact.runner.runAction(data);
     }
   }
 
+  /**
+   * Runs the action behind a tool call of agent mode as an artifact of its own, keyed by the tool call,
+   * so it is queued, checkpointed and shown in the workbench like the actions of a message.
+   */
+  async runToolAction(toolCallId: string, action: BoltAction) {
+    const data: ActionCallbackData = { messageId: toolCallId, artifactId: toolCallId, actionId: '0', action };
+
+    this.addArtifact({ messageId: toolCallId, id: toolCallId, title: 'Agent' });
+    this.addAction(data);
+    this.runAction(data);
+
+    await this.waitForIdle();
+
+    return this.#getArtifact(toolCallId)?.runner.actions.get()[data.actionId];
+  }
+
+  // drops unsaved editor changes of files that no longer exist at their path
+  #forgetUnsavedFiles(filePath: string) {
+    const unsavedFiles = [...this.unsavedFiles.get()];
+    const remaining = unsavedFiles.filter((file) => file !== filePath && !file.startsWith(`${filePath}/`));
+
+    if (remaining.length !== unsavedFiles.length) {
+      this.unsavedFiles.set(new Set(remaining));
+    }
+  }
+
   actionStreamSampler = createSampler(async (data: ActionCallbackData, isStreaming: boolean = false) => {
     return await this._runAction(data, isStreaming);
   }, 100); // TODO: remove this magic number to have it configurable
@@ -408,6 +660,30 @@ export class WorkbenchStore {
     saveAs(content, `${uniqueProjectName}.zip`);
   }
 
+  async downloadBuildZip() {
+    const buildOutput = this.buildOutput.get();
+
+    if (!buildOutput) {
+      return;
+    }
+
+    const zip = new JSZip();
+    const projectName = (description.value ?? 'project').toLocaleLowerCase().split(' ').join('_');
+
+    for (const [filePath, file] of Object.entries(buildOutput.files)) {
+      const relativePath = filePath.replace(/^\/+/, '');
+
+      if (typeof file === 'string') {
+        zip.file(relativePath, file);
+      } else {
+        zip.file(relativePath, file.content, { base64: true });
+      }
+    }
+
+    const content = await zip.generateAsync({ type: 'blob' });
+    saveAs(content, `${projectName}_${buildOutput.outputDir.split('/').join('_')}.zip`);
+  }
+
   async syncFiles(targetHandle: FileSystemDirectoryHandle) {
     const files = this.files.get();
     const syncedFiles = [];
@@ -0,0 +1,160 @@
+/**
+ * API authentication middleware
+ *
+ * Routes opt in by wrapping their `action`/`loader` with `withApiAuth` (or by calling
+ * `authenticateApiRequest` directly). Requests are authenticated with an API key sent as
+ * `Authorization: Bearer <key>` or `X-API-Key: <key>`; browser sessions holding a valid
+ * beta access cookie are accepted as well.
+ *
+ * Unauthenticated requests are only rejected when `REQUIRE_API_AUTH=true`, so existing
+ * webhook integrations keep working until keys have been issued. Credentials that are
+ * presented are always validated.
+ */
+
+import { json, type ActionFunctionArgs } from '@remix-run/cloudflare';
+import { ApiClientStore, type ApiClient, type ApiScope } from '~/lib/.server/auth/api-clients';
+import { timingSafeEqual } from '~/lib/.server/auth/crypto';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, verifyWebhookSignature } from '~/lib/.server/auth/webhook-signature';
+import { getKeyValueStore } from '~/lib/.server/storage';
+import { createScopedLogger } from '~/utils/logger';
+import { hasBetaAccess } from './beta-auth.server';
+
+const logger = createScopedLogger('api-auth');
+
+export type ApiPrincipal = { type: 'client'; client: ApiClient } | { type: 'session' } | { type: 'anonymous' };
+
+export interface ApiAuthOptions {
+  // scopes an API client needs for this route
+  scopes?: ApiScope[];
+
+  // require a valid HMAC signature from API clients even if the client does not enforce it
+  requireSignature?: boolean;
+}
+
+type RouteArgs = Pick<ActionFunctionArgs, 'request' | 'context'>;
+
+export function getServerEnv(context: RouteArgs['context'], key: string): string | undefined {
+  const env = context.cloudflare?.env as unknown as Record<string, unknown> | undefined;
+  const value = env?.[key] ?? (typeof process !== 'undefined' ? process.env?.[key] : undefined);
+
+  return typeof value === 'string' ? value : undefined;
+}
+
+// id of the authenticated API client, undefined for browser sessions and anonymous callers
+export function getPrincipalClientId(principal: ApiPrincipal) {
+  return principal.type === 'client' ? principal.client.id : undefined;
+}
+
+// whether the caller is an API client that was granted `scope`, browser sessions and anonymous callers never are
+export function hasClientScope(principal: ApiPrincipal, scope: ApiScope) {
+  return principal.type === 'client' && principal.client.scopes.includes(scope);
+}
+
+/**
+ * The API client of a request to a route whose data belongs to the caller, like synced chats. Browser
+ * sessions and anonymous callers have no identity to scope the data to, so they get a 401 even when
+ * `REQUIRE_API_AUTH` is off.
+ */
+export function requireApiClient(principal: ApiPrincipal) {
+  if (principal.type !== 'client') {
+    throw apiAuthError(401, 'unauthorized', 'An API key is required for this endpoint');
+  }
+
+  return principal.client;
+}
+
+export function apiAuthError(status: 401 | 403, error: string, message: string) {
+  return json({ error, message }, { status, headers: status === 401 ? { 'WWW-Authenticate': 'Bearer' } : {} });
+}
+
+export function getApiKey(request: Request): string | null {
+  const authorization = request.headers.get('Authorization');
+
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+
+  return request.headers.get('X-API-Key');
+}
+
+/**
+ * Resolves the caller of an API request. Throws a JSON `Response` with status 401
+ * (missing/invalid credentials or signature) or 403 (missing scope).
+ */
+export async function authenticateApiRequest(
+  { request, context }: RouteArgs,
+  options: ApiAuthOptions = {},
+): Promise<ApiPrincipal> {
+  const apiKey = getApiKey(request);
+
+  if (!apiKey) {
+    if (hasBetaAccess(request)) {
+      return { type: 'session' };
+    }
+
+    if (getServerEnv(context, 'REQUIRE_API_AUTH') === 'true') {
+      throw apiAuthError(401, 'unauthorized', 'An API key is required for this endpoint');
+    }
+
+    return { type: 'anonymous' };
+  }
+
+  const clients = new ApiClientStore(getKeyValueStore(context.cloudflare?.env));
+  const client = await clients.authenticate(apiKey);
+
+  if (!client) {
+    logger.warn('Rejected request with invalid API key', { url: request.url });
+    throw apiAuthError(401, 'invalid_api_key', 'The API key is invalid or has been revoked');
+  }
+
+  const missingScopes = (options.scopes || []).filter((scope) => !client.scopes.includes(scope));
+
+  if (missingScopes.length > 0) {
+    throw apiAuthError(403, 'insufficient_scope', `API client is missing scopes: ${missingScopes.join(', ')}`);
+  }
+
+  if (client.requireSignedPayloads || options.requireSignature || request.headers.has(SIGNATURE_HEADER)) {
+    // read from a clone so the route can still consume the body
+    const verification = await verifyWebhookSignature({
+      secret: client.webhookSecret,
+      body: await request.clone().text(),
+      signature: request.headers.get(SIGNATURE_HEADER),
+      timestamp: request.headers.get(TIMESTAMP_HEADER),
+    });
+
+    if (!verification.valid) {
+      logger.warn('Rejected request with invalid signature', { clientId: client.id, reason: verification.reason });
+      throw apiAuthError(401, 'invalid_signature', verification.reason);
+    }
+  }
+
+  return { type: 'client', client };
+}
+
+/**
+ * Checks the `Authorization: Bearer` header against `API_ADMIN_TOKEN`, used by the
+ * client management endpoints.
+ */
+export function requireAdminToken({ request, context }: RouteArgs) {
+  const adminToken = getServerEnv(context, 'API_ADMIN_TOKEN');
+
+  if (!adminToken) {
+    throw apiAuthError(403, 'admin_disabled', 'API_ADMIN_TOKEN is not configured on the server');
+  }
+
+  const token = getApiKey(request);
+
+  if (!token || !timingSafeEqual(token, adminToken)) {
+    throw apiAuthError(401, 'unauthorized', 'A valid admin token is required');
+  }
+}
+
+export function withApiAuth<Args extends RouteArgs, Result>(
+  options: ApiAuthOptions,
+  handler: (args: Args & { principal: ApiPrincipal }) => Promise<Result>,
+) {
+  return async (args: Args) => {
+    const principal = await authenticateApiRequest(args, options);
+    return handler({ ...args, principal });
+  };
+}
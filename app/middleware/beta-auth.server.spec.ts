@@ -0,0 +1,10 @@
+import { describe, expect, it } from 'vitest';
+import { hasBetaAccess } from './beta-auth.server';
+
+describe('hasBetaAccess', () => {
+  it('should ignore malformed cookies', () => {
+    const request = new Request('https://bolt.example.com/', { headers: { Cookie: 'beta_access=%E0%A4%A' } });
+
+    expect(hasBetaAccess(request)).toBe(false);
+  });
+});
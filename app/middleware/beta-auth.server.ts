@@ -2,15 +2,40 @@ import { json } from '@remix-run/cloudflare';
 import type { LoaderFunctionArgs } from '@remix-run/cloudflare';
 
 const BETA_ACCESS_CODES = process.env.BETA_ACCESS_CODES?.split(',') || [];
-const BETA_COOKIE_NAME = 'beta_access';
+export const BETA_COOKIE_NAME = 'beta_access';
+
+function getCookie(request: Request, name: string): string | undefined {
+  const cookieHeader = request.headers.get('Cookie') || '';
+
+  for (const item of cookieHeader.split(';')) {
+    const [key, ...rest] = item.trim().split('=');
+
+    if (key === name) {
+      try {
+        return decodeURIComponent(rest.join('='));
+      } catch {
+        // malformed escapes, treated like a missing cookie
+        return undefined;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+// Checks the beta cookie value against the configured codes rather than just its presence
+export function hasBetaAccess(request: Request): boolean {
+  const accessCode = getCookie(request, BETA_COOKIE_NAME);
+
+  return !!accessCode && BETA_ACCESS_CODES.includes(accessCode);
+}
 
 export async function loader({ request }: LoaderFunctionArgs) {
   const url = new URL(request.url);
   const accessCode = url.searchParams.get('code');
-  const hasAccess = request.headers.get('Cookie')?.includes(BETA_COOKIE_NAME);
 
   // Allow access if already authenticated
-  if (hasAccess) {
+  if (hasBetaAccess(request)) {
     return json({ authorized: true });
   }
 
@@ -20,18 +45,19 @@ export async function loader({ request }: LoaderFunctionArgs) {
     const headers = new Headers();
     headers.append(
       'Set-Cookie',
-      `${BETA_COOKIE_NAME}=${accessCode}; Path=/; HttpOnly; SameSite=Lax; Max-Age=31536000`
+      `${BETA_COOKIE_NAME}=${encodeURIComponent(accessCode)}; Path=/; HttpOnly; SameSite=Lax; Max-Age=31536000`,
     );
+
     return json({ authorized: true }, { headers });
   }
 
   // Return unauthorized
   return json(
-    { 
-      authorized: false, 
+    {
+      authorized: false,
       message: 'Beta access required. Please contact support for access.',
-      error: 'unauthorized'
+      error: 'unauthorized',
     },
-    { status: 403 }
+    { status: 403 },
   );
-} 
\ No newline at end of file
+}
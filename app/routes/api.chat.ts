@@ -7,10 +7,17 @@ import SwitchableStream from '~/lib/.server/llm/switchable-stream';
 import type { IProviderSetting } from '~/types/model';
 import { createScopedLogger } from '~/utils/logger';
 import { getFilePaths, selectContext } from '~/lib/.server/llm/select-context';
-import type { ContextAnnotation, ProgressAnnotation } from '~/types/context';
+import type { ContextAnnotation, ProgressAnnotation, RepairRequest, TokenBudgetAnnotation } from '~/types/context';
 import { WORK_DIR } from '~/utils/constants';
 import { createSummary } from '~/lib/.server/llm/create-summary';
 import { extractPropertiesFromMessage } from '~/lib/.server/llm/utils';
+import type { FallbackEvent, ModelRef } from '~/lib/.server/llm/fallback';
+import type { AgentRequest } from '~/types/agent';
+import { HYBRID_CANDIDATE_FILES, retrieveContext } from '~/lib/.server/retrieval';
+import type { RetrievalRequest } from '~/types/retrieval';
+import type { ModelCost, PricingOverrides, UsageValue } from '~/types/cost';
+import { addModelCost, getTotalCost } from '~/lib/modules/llm/pricing';
+import { LLMManager } from '~/lib/modules/llm/manager';
 
 export async function action(args: ActionFunctionArgs) {
   return chatAction(args);
@@ -37,11 +44,15 @@ function parseCookies(cookieHeader: string): Record<string, string> {
 }
 
 async function chatAction({ context, request }: ActionFunctionArgs) {
-  const { messages, files, promptId, contextOptimization } = await request.json<{
+  const { messages, files, promptId, contextOptimization, repair, agent, retrieval, pricing } = await request.json<{
     messages: Messages;
     files: any;
     promptId?: string;
     contextOptimization: boolean;
+    repair?: RepairRequest;
+    agent?: AgentRequest;
+    retrieval?: RetrievalRequest;
+    pricing?: PricingOverrides;
   }>();
 
   const cookieHeader = request.headers.get('Cookie');
@@ -57,6 +68,27 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
     promptTokens: 0,
     totalTokens: 0,
   };
+
+  // cost of every model called for this message, the summary and context calls use the requested model
+  const costs: ModelCost[] = [];
+  const { provider: requestedProvider, model: requestedName } = extractPropertiesFromMessage(
+    messages.filter((x) => x.role == 'user').slice(-1)[0],
+  );
+  const requestedModel: ModelRef = { provider: requestedProvider, model: requestedName };
+  let answeringModel = requestedModel;
+  const addCost = (target: ModelRef, usage: { promptTokens?: number; completionTokens?: number }) => {
+    const model =
+      LLMManager.getInstance()
+        .getModelList()
+        .find((m) => m.provider === target.provider && m.name === target.model) ?? target.model;
+
+    addModelCost(
+      costs,
+      { provider: target.provider, model },
+      { promptTokens: usage.promptTokens || 0, completionTokens: usage.completionTokens || 0 },
+      pricing,
+    );
+  };
   const encoder: TextEncoder = new TextEncoder();
   let progressCounter: number = 1;
 
@@ -103,6 +135,7 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
                 cumulativeUsage.completionTokens += resp.usage.completionTokens || 0;
                 cumulativeUsage.promptTokens += resp.usage.promptTokens || 0;
                 cumulativeUsage.totalTokens += resp.usage.totalTokens || 0;
+                addCost(requestedModel, resp.usage);
               }
             },
           });
@@ -132,24 +165,48 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
 
           // Select context files
           console.log(`Messages count: ${messages.length}`);
-          filteredFiles = await selectContext({
-            messages: [...messages],
-            env: context.cloudflare?.env,
-            apiKeys,
-            files,
-            providerSettings,
-            promptId,
-            contextOptimization,
-            summary,
-            onFinish(resp) {
-              if (resp.usage) {
-                logger.debug('selectContext token usage', JSON.stringify(resp.usage));
-                cumulativeUsage.completionTokens += resp.usage.completionTokens || 0;
-                cumulativeUsage.promptTokens += resp.usage.promptTokens || 0;
-                cumulativeUsage.totalTokens += resp.usage.totalTokens || 0;
-              }
-            },
-          });
+
+          const retrievalMode = retrieval?.mode ?? 'llm';
+          const retrieved =
+            retrievalMode === 'llm'
+              ? undefined
+              : await retrieveContext({
+                  messages: [...messages],
+                  files,
+                  env: context.cloudflare?.env,
+                  apiKeys,
+                  providerSettings,
+                  retrieval,
+                  maxFiles: retrievalMode === 'hybrid' ? HYBRID_CANDIDATE_FILES : undefined,
+                });
+
+          if (retrievalMode === 'index') {
+            filteredFiles = retrieved ?? {};
+          } else {
+            // in hybrid mode the model only chooses among the files the index ranked highest
+            const candidatePaths = retrieved && Object.keys(retrieved).length > 0 ? Object.keys(retrieved) : undefined;
+
+            filteredFiles = await selectContext({
+              messages: [...messages],
+              env: context.cloudflare?.env,
+              apiKeys,
+              files,
+              providerSettings,
+              promptId,
+              contextOptimization,
+              summary,
+              candidatePaths,
+              onFinish(resp) {
+                if (resp.usage) {
+                  logger.debug('selectContext token usage', JSON.stringify(resp.usage));
+                  cumulativeUsage.completionTokens += resp.usage.completionTokens || 0;
+                  cumulativeUsage.promptTokens += resp.usage.promptTokens || 0;
+                  cumulativeUsage.totalTokens += resp.usage.totalTokens || 0;
+                  addCost(requestedModel, resp.usage);
+                }
+              },
+            });
+          }
 
           if (filteredFiles) {
             logger.debug(`files in context : ${JSON.stringify(Object.keys(filteredFiles))}`);
@@ -179,7 +236,24 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
           // logger.debug('Code Files Selected');
         }
 
-        // Stream the text
+        // tell the UI which model is answering when the requested one failed
+        const onFallback = ({ from, to, errorClass }: FallbackEvent) => {
+          answeringModel = to;
+          dataStream.writeData({
+            type: 'progress',
+            label: 'fallback',
+            status: 'complete',
+            order: progressCounter++,
+            message: `${from.model} unavailable (${errorClass.replace('_', ' ')}), answering with ${to.provider} ${to.model}`,
+          } satisfies ProgressAnnotation);
+        };
+
+        // how the prompt was fitted to the model's context window, shown next to the usage
+        const onTokenBudget = (annotation: TokenBudgetAnnotation) => {
+          dataStream.writeMessageAnnotation(annotation);
+        };
+
+        // Stream the text, streamText only turns tools on in agent mode for providers that support them
         const options: StreamingOptions = {
           toolChoice: 'none',
           onFinish: async ({ text: content, finishReason, usage }) => {
@@ -189,6 +263,7 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
               cumulativeUsage.completionTokens += usage.completionTokens || 0;
               cumulativeUsage.promptTokens += usage.promptTokens || 0;
               cumulativeUsage.totalTokens += usage.totalTokens || 0;
+              addCost(answeringModel, usage);
             }
 
             if (finishReason !== 'length') {
@@ -198,7 +273,9 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
                   completionTokens: cumulativeUsage.completionTokens,
                   promptTokens: cumulativeUsage.promptTokens,
                   totalTokens: cumulativeUsage.totalTokens,
-                },
+                  cost: getTotalCost(costs),
+                  costs,
+                } satisfies UsageValue,
               });
               dataStream.writeData({
                 type: 'progress',
@@ -242,6 +319,10 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
               contextFiles: filteredFiles,
               summary,
               messageSliceId,
+              onFallback,
+              repair,
+              agent,
+              onTokenBudget,
             });
 
             result.mergeIntoDataStream(dataStream);
@@ -281,6 +362,10 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
           contextFiles: filteredFiles,
           summary,
           messageSliceId,
+          onFallback,
+          repair,
+          agent,
+          onTokenBudget,
         });
 
         (async () => {
@@ -0,0 +1,69 @@
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { getChatStorage, isValidChatId } from '~/lib/.server/chats';
+import { requireApiClient, withApiAuth, type ApiPrincipal } from '~/middleware/api-auth.server';
+import type { ChatPushRequest } from '~/types/chat-sync';
+
+function getChatId(params: LoaderFunctionArgs['params']) {
+  if (!params.id || !isValidChatId(params.id)) {
+    throw json({ error: 'Invalid chat id' }, { status: 400 });
+  }
+
+  return params.id;
+}
+
+// GET /api/chats/:id - the chat with its messages
+export const loader = withApiAuth(
+  { scopes: ['chats:sync'] },
+  async ({ params, context, principal }: LoaderFunctionArgs & { principal: ApiPrincipal }) => {
+    const space = requireApiClient(principal).id;
+    const chat = await getChatStorage(context.cloudflare?.env).getChat(space, getChatId(params));
+
+    if (!chat) {
+      return json({ error: 'Chat not found' }, { status: 404 });
+    }
+
+    return json({ chat });
+  },
+);
+
+/*
+ * PUT /api/chats/:id { chat, baseRevision } - store the device's version, merged with changes it didn't see
+ * DELETE /api/chats/:id?deletedAt=<ISO date> - delete the chat unless it was changed afterwards
+ */
+export const action = withApiAuth(
+  { scopes: ['chats:sync'] },
+  async ({ request, params, context, principal }: ActionFunctionArgs & { principal: ApiPrincipal }) => {
+    const id = getChatId(params);
+    const space = requireApiClient(principal).id;
+    const chats = getChatStorage(context.cloudflare?.env);
+
+    if (request.method === 'DELETE') {
+      const deletedAt = new URL(request.url).searchParams.get('deletedAt') ?? new Date().toISOString();
+
+      if (isNaN(Date.parse(deletedAt))) {
+        return json({ error: 'deletedAt must be a date' }, { status: 400 });
+      }
+
+      return json({ chat: await chats.deleteChat(space, id, deletedAt) });
+    }
+
+    if (request.method !== 'PUT') {
+      return json({ error: 'Method not allowed' }, { status: 405 });
+    }
+
+    const { chat, baseRevision } = await request.json<Partial<ChatPushRequest>>();
+
+    if (
+      !chat ||
+      chat.id !== id ||
+      !Array.isArray(chat.messages) ||
+      isNaN(Date.parse(chat.updatedAt)) ||
+      isNaN(Date.parse(chat.timestamp)) ||
+      typeof baseRevision !== 'number'
+    ) {
+      return json({ error: 'A chat with messages, timestamps and a baseRevision is required' }, { status: 400 });
+    }
+
+    return json(await chats.pushChat(space, { chat, baseRevision }));
+  },
+);
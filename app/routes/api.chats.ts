@@ -0,0 +1,13 @@
+import { json, type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { getChatStorage } from '~/lib/.server/chats';
+import { requireApiClient, withApiAuth, type ApiPrincipal } from '~/middleware/api-auth.server';
+
+// GET /api/chats - id, revision and update time of every chat synced by the API client, including deleted ones
+export const loader = withApiAuth(
+  { scopes: ['chats:sync'] },
+  async ({ context, principal }: LoaderFunctionArgs & { principal: ApiPrincipal }) => {
+    const chats = await getChatStorage(context.cloudflare?.env).listChats(requireApiClient(principal).id);
+
+    return json({ chats });
+  },
+);
@@ -0,0 +1,77 @@
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { ApiClientStore, API_SCOPES, isApiScope } from '~/lib/.server/auth/api-clients';
+import { getKeyValueStore } from '~/lib/.server/storage';
+import { requireAdminToken } from '~/middleware/api-auth.server';
+
+interface RegisterClientRequestBody {
+  name?: string;
+  scopes?: string[];
+  requireSignedPayloads?: boolean;
+}
+
+function getClientStore(context: LoaderFunctionArgs['context']) {
+  return new ApiClientStore(getKeyValueStore(context.cloudflare?.env));
+}
+
+// GET /api/clients - list registered API clients (admin only)
+export async function loader(args: LoaderFunctionArgs) {
+  requireAdminToken(args);
+
+  return json({ clients: await getClientStore(args.context).list() });
+}
+
+/*
+ * POST /api/clients - register a client, returns its API key and webhook secret once
+ * DELETE /api/clients?id=<clientId> - revoke a client
+ */
+export async function action(args: ActionFunctionArgs) {
+  const { request, context } = args;
+
+  requireAdminToken(args);
+
+  const clients = getClientStore(context);
+
+  if (request.method === 'DELETE') {
+    const id = new URL(request.url).searchParams.get('id');
+
+    if (!id) {
+      return json({ error: 'Client id is required' }, { status: 400 });
+    }
+
+    const client = await clients.revoke(id);
+
+    if (!client) {
+      return json({ error: 'Client not found' }, { status: 404 });
+    }
+
+    return json({ success: true, client });
+  }
+
+  if (request.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  const body = (await request.json()) as RegisterClientRequestBody;
+
+  if (!body.name || typeof body.name !== 'string') {
+    return json({ error: 'Client name is required' }, { status: 400 });
+  }
+
+  const scopes = body.scopes ?? [];
+  const invalidScopes = scopes.filter((scope) => !isApiScope(scope));
+
+  if (scopes.length === 0 || invalidScopes.length > 0) {
+    return json(
+      { error: `Scopes must be a non-empty list of: ${API_SCOPES.join(', ')}`, invalidScopes },
+      { status: 400 },
+    );
+  }
+
+  const registered = await clients.register({
+    name: body.name,
+    scopes: scopes.filter(isApiScope),
+    requireSignedPayloads: body.requireSignedPayloads,
+  });
+
+  return json({ success: true, ...registered }, { status: 201 });
+}
@@ -0,0 +1,72 @@
+import { json, type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { DeploymentStore } from '~/lib/.server/deployment/deployment-store';
+import { getKeyValueStore } from '~/lib/.server/storage';
+import { DeploymentError } from '~/lib/modules/deployment/base-provider';
+import { DeploymentManager } from '~/lib/modules/deployment/manager';
+import StaticExportDeploymentProvider from '~/lib/modules/deployment/providers/static-export';
+import { getPrincipalClientId, hasClientScope, withApiAuth, type ApiPrincipal } from '~/middleware/api-auth.server';
+
+// header carrying the provider token, required unless the caller is an API client with the `deploy` scope
+const TOKEN_HEADER = 'X-Deploy-Token';
+
+/**
+ * GET /api/deploy/:id - current state of a deployment
+ * GET /api/deploy/:id?download=zip - archive of a static export
+ */
+export const loader = withApiAuth(
+  { scopes: ['status:read'] },
+  async ({ request, params, context, principal }: LoaderFunctionArgs & { principal: ApiPrincipal }) => {
+    const env = context.cloudflare?.env;
+    const store = getKeyValueStore(env);
+    const deployments = new DeploymentStore(store);
+    const record = params.id ? await deployments.get(params.id) : null;
+
+    // deployments of an API client are only visible to that client
+    if (!record || record.clientId !== getPrincipalClientId(principal)) {
+      return json({ error: 'Deployment not found' }, { status: 404 });
+    }
+
+    const provider = DeploymentManager.getInstance().getProvider(record.provider);
+
+    if (!provider) {
+      return json({ error: `Unknown deployment provider: ${record.provider}` }, { status: 400 });
+    }
+
+    if (new URL(request.url).searchParams.get('download') === 'zip') {
+      const archive =
+        provider instanceof StaticExportDeploymentProvider ? await provider.getArchive(store, record.id) : null;
+
+      if (!archive) {
+        return json({ error: 'No archive available for this deployment' }, { status: 404 });
+      }
+
+      return new Response(archive, {
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': `attachment; filename="${record.siteName || record.id}.zip"`,
+        },
+      });
+    }
+
+    if (record.state === 'ready' || record.state === 'error' || record.state === 'cancelled') {
+      return json({ deploy: record });
+    }
+
+    try {
+      const credentials = provider.resolveCredentials(
+        { token: request.headers.get(TOKEN_HEADER) ?? undefined, accountId: record.accountId },
+        env as unknown as Record<string, string> | undefined,
+        hasClientScope(principal, 'deploy'),
+      );
+      const result = await provider.getStatus({ deployId: record.id, siteId: record.siteId, credentials, store });
+
+      return json({ deploy: await deployments.update(record, result) });
+    } catch (error) {
+      if (error instanceof DeploymentError) {
+        return json({ error: error.message }, { status: error.status });
+      }
+
+      throw error;
+    }
+  },
+);
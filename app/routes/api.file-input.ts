@@ -1,11 +1,15 @@
-import { type ActionFunctionArgs } from '@remix-run/cloudflare';
-import { FileProcessor } from '~/lib/.server/file-processing/file-processor';
+import { json, type ActionFunctionArgs } from '@remix-run/cloudflare';
+import { getCallbackUrlError } from '~/lib/.server/jobs/callback-url';
+import { GenerationJob } from '~/lib/.server/jobs/generation-job';
 import { createScopedLogger } from '~/utils/logger';
 import { createDataStream } from 'ai';
+import { getPrincipalClientId, withApiAuth, type ApiPrincipal } from '~/middleware/api-auth.server';
 
 const logger = createScopedLogger('api.file-input');
 
-export async function action({ request }: ActionFunctionArgs) {
+export const action = withApiAuth({ scopes: ['requirements:submit'] }, fileInputAction);
+
+async function fileInputAction({ request, context, principal }: ActionFunctionArgs & { principal: ApiPrincipal }) {
   if (request.method !== 'POST') {
     logger.warn('Invalid request method:', { method: request.method });
     return new Response('Method not allowed', { status: 405 });
@@ -19,6 +23,8 @@ export async function action({ request }: ActionFunctionArgs) {
       fileName?: string;
       projectId?: string;
       requirements?: string; // Support 'requirements' field for backward compatibility
+      headless?: boolean; // Respond with a job id right away instead of streaming
+      callbackUrl?: string;
     }>();
 
     // Use either content or requirements field
@@ -32,115 +38,77 @@ export async function action({ request }: ActionFunctionArgs) {
       projectId: projectId || 'none',
     });
 
-    // Process the file content
-    logger.info('Starting file content processing', {
-      isExistingProject: !!projectId,
-    });
+    // the server calls it with the job output, only API clients are trusted with that
+    if (requestData.callbackUrl !== undefined) {
+      if (principal.type !== 'client') {
+        return json({ error: 'callbackUrl requires an API key' }, { status: 403 });
+      }
+
+      const callbackError = getCallbackUrlError(requestData.callbackUrl);
+
+      if (callbackError) {
+        return json({ error: callbackError }, { status: 400 });
+      }
+    }
 
     // Determine if this is for an existing project
     const isExistingProject = !!projectId;
 
-    const { messages, contextOptimization, files } = await FileProcessor.processContent(content, isExistingProject);
-
-    logger.debug('File processing completed:', {
-      messageCount: messages.length,
-      contextOptimization,
-      fileCount: Object.keys(files || {}).length,
-      isExistingProject,
+    const generation = await GenerationJob.create({
+      request,
+      context,
+      input: {
+        content,
+        fileName,
+        projectId,
+        callbackUrl: requestData.callbackUrl,
+        clientId: getPrincipalClientId(principal),
+        webhookSecret: principal.type === 'client' ? principal.client.webhookSecret : undefined,
+      },
     });
 
-    // Create a chat request using the existing chat endpoint
-    logger.info('Creating chat request', {
-      projectId: projectId || 'none',
-    });
+    if (requestData.headless) {
+      const run = generation
+        .run()
+        .catch((error) => logger.error('Headless generation failed', { jobId: generation.id, error }));
 
-    const chatResponse = await fetch(new URL('/api/chat', request.url), {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Cookie: request.headers.get('Cookie') || '',
-      },
-      body: JSON.stringify({
-        messages,
-        contextOptimization,
-        files: files || {},
-        promptId: 'file-input',
-        projectId, // Pass projectId to the chat API if available
-      }),
-    });
+      // keep the worker alive until the generation has been stored
+      context.cloudflare?.ctx?.waitUntil(run);
 
-    if (!chatResponse.ok) {
-      logger.error('Chat request failed:', {
-        status: chatResponse.status,
-        statusText: chatResponse.statusText,
-      });
-      throw new Error('Failed to process chat request');
+      // progress and results are available from /api/jobs/:id
+      return json({ jobId: generation.id, status: generation.job.status }, { status: 202 });
     }
 
-    logger.info('Chat request successful, streaming response');
+    logger.info('Streaming generation', { jobId: generation.id });
 
     // Create a data stream to handle the response
     const dataStream = createDataStream({
       async execute(dataStream) {
-        // Write initial progress message
-        dataStream.writeData({
-          type: 'progress',
-          label: 'file-processing',
-          status: 'complete',
-          message: isExistingProject ? 'Feature requests processed successfully' : 'File processed successfully',
-        });
-
-        // Forward the chat response stream
-        const reader = chatResponse.body?.getReader();
-
-        if (!reader) {
-          throw new Error('Failed to get response reader');
-        }
-
-        while (true) {
-          const { done, value } = await reader.read();
-
-          if (done) {
-            break;
-          }
-
-          // Convert the chunk to text
-          const chunk = new TextDecoder().decode(value);
-          const lines = chunk.split('\n');
-
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              const data = line.slice(6);
-
-              try {
-                const parsed = JSON.parse(data);
-
-                if (parsed.type === 'message') {
-                  dataStream.writeData({
-                    type: 'message',
-                    role: parsed.role,
-                    content: parsed.content,
-                  });
-                } else if (parsed.type === 'progress') {
-                  dataStream.writeData({
-                    type: 'progress',
-                    label: parsed.label,
-                    status: parsed.status,
-                    message: parsed.message,
-                  });
-                } else if (parsed.type === 'codeContext') {
+        dataStream.writeData({ type: 'job', jobId: generation.id });
+
+        const job = await generation.run({
+          // Forward progress updates from the chat endpoint
+          onData: (data) => data.forEach((item) => dataStream.writeData(item)),
+          onAnnotations: (annotations) => {
+            for (const annotation of annotations) {
+              if (annotation && typeof annotation === 'object' && 'type' in annotation) {
+                if (annotation.type === 'codeContext') {
                   // Forward code context updates
-                  dataStream.writeData({
-                    type: 'codeContext',
-                    files: parsed.files,
-                  });
+                  dataStream.writeData({ type: 'codeContext', files: annotation.files ?? [] });
                 }
-              } catch (e) {
-                logger.error('Error parsing stream data:', e);
               }
             }
-          }
-        }
+          },
+          onArtifactClose: (artifact) => {
+            dataStream.writeData({
+              type: 'artifact',
+              id: artifact.id,
+              title: artifact.title,
+              files: artifact.files,
+              commands: artifact.commands,
+            });
+          },
+        });
 
         // Write completion message
         dataStream.writeData({
@@ -151,6 +119,12 @@ export async function action({ request }: ActionFunctionArgs) {
             ? 'Feature implementation and deployment complete'
             : 'Code generation and deployment complete',
         });
+        dataStream.writeData({
+          type: 'job',
+          jobId: generation.id,
+          status: job?.status ?? 'failed',
+          snapshotId: job?.snapshotId ?? null,
+        });
       },
       onError: (error: any) => {
         logger.error('Error in data stream:', error);
@@ -164,6 +138,7 @@ export async function action({ request }: ActionFunctionArgs) {
         'Content-Type': 'text/event-stream',
         'Cache-Control': 'no-cache',
         Connection: 'keep-alive',
+        'X-Job-Id': generation.id,
       },
     });
   } catch (error) {
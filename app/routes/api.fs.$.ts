@@ -0,0 +1,112 @@
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { VirtualFileSystem } from '~/lib/.server/headless/virtual-fs';
+import { canAccessProject, getProjectStorage, isValidProjectId } from '~/lib/.server/projects';
+import { getPrincipalClientId, withApiAuth, type ApiPrincipal } from '~/middleware/api-auth.server';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('api.fs');
+
+const EXISTS_SUFFIX = '/exists';
+
+/**
+ * Resolves the project and file path of a `/api/fs/<path>?projectId=<id>` request.
+ * The project id can also be sent as `X-Project-Id` header.
+ */
+function resolveFile(request: Request, splat: string | undefined) {
+  const url = new URL(request.url);
+  const projectId = url.searchParams.get('projectId') ?? request.headers.get('X-Project-Id');
+  let path = decodeURIComponent(splat ?? '');
+  let checkExists = false;
+
+  if (path.endsWith(EXISTS_SUFFIX)) {
+    path = path.slice(0, -EXISTS_SUFFIX.length);
+    checkExists = true;
+  }
+
+  if (!projectId || !isValidProjectId(projectId)) {
+    throw json({ error: 'A valid projectId is required' }, { status: 400 });
+  }
+
+  try {
+    return { projectId, path: VirtualFileSystem.normalizePath(path), checkExists };
+  } catch (error) {
+    throw json({ error: error instanceof Error ? error.message : 'Invalid path' }, { status: 400 });
+  }
+}
+
+// GET /api/fs/:path?projectId= - read a file from the latest snapshot, `/exists` only checks for it
+export const loader = withApiAuth(
+  { scopes: ['status:read'] },
+  async ({ request, params, context, principal }: LoaderFunctionArgs & { principal: ApiPrincipal }) => {
+    const { projectId, path, checkExists } = resolveFile(request, params['*']);
+    const projects = getProjectStorage(context.cloudflare?.env);
+    const project = await projects.getProject(projectId);
+    const snapshot = canAccessProject(project, getPrincipalClientId(principal))
+      ? await projects.getLatestSnapshot(projectId)
+      : null;
+    const content = snapshot?.files[path];
+
+    if (content === undefined) {
+      return json({ error: 'File not found', path }, { status: 404 });
+    }
+
+    if (checkExists) {
+      return json({ exists: true, path, snapshotId: snapshot?.id });
+    }
+
+    return new Response(content, {
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'X-Snapshot-Id': snapshot?.id ?? '',
+      },
+    });
+  },
+);
+
+// POST /api/fs/:path?projectId= - write a file, DELETE removes it; both create a new snapshot
+export const action = withApiAuth(
+  { scopes: ['requirements:submit'] },
+  async ({ request, params, context, principal }: ActionFunctionArgs & { principal: ApiPrincipal }) => {
+    if (request.method !== 'POST' && request.method !== 'DELETE') {
+      return json({ error: 'Method not allowed' }, { status: 405 });
+    }
+
+    const { projectId, path } = resolveFile(request, params['*']);
+    const projects = getProjectStorage(context.cloudflare?.env);
+    const clientId = getPrincipalClientId(principal);
+
+    if (!canAccessProject(await projects.getProject(projectId), clientId)) {
+      return json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const latest = await projects.getLatestSnapshot(projectId);
+    const files = { ...latest?.files };
+
+    if (request.method === 'DELETE') {
+      if (files[path] === undefined) {
+        return json({ error: 'File not found', path }, { status: 404 });
+      }
+
+      delete files[path];
+    } else {
+      const { content } = await request.json<{ content?: unknown }>();
+
+      if (typeof content !== 'string') {
+        return json({ error: 'content must be a string' }, { status: 400 });
+      }
+
+      files[path] = content;
+    }
+
+    const snapshot = await projects.saveSnapshot(projectId, files, {
+      parentId: latest?.id ?? null,
+      message: `${request.method === 'DELETE' ? 'Delete' : 'Write'} ${path}`,
+      source: 'api:fs',
+      clientId,
+    });
+
+    logger.debug('Updated project file', { projectId, path, snapshotId: snapshot.id });
+
+    return json({ path, snapshot });
+  },
+);
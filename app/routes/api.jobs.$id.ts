@@ -0,0 +1,53 @@
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { GenerationJob } from '~/lib/.server/jobs/generation-job';
+import { isFinished, JobStore } from '~/lib/.server/jobs/job-store';
+import { getKeyValueStore } from '~/lib/.server/storage';
+import { getPrincipalClientId, withApiAuth, type ApiPrincipal } from '~/middleware/api-auth.server';
+
+async function findJob({ params, context, principal }: LoaderFunctionArgs & { principal: ApiPrincipal }) {
+  const jobs = new JobStore(getKeyValueStore(context.cloudflare?.env));
+  const job = params.id ? await jobs.get(params.id) : null;
+
+  // jobs of an API client are only visible to that client
+  if (!job || job.clientId !== getPrincipalClientId(principal)) {
+    return { jobs, job: null };
+  }
+
+  return { jobs, job };
+}
+
+// GET /api/jobs/:id - full job record including generated files
+export const loader = withApiAuth(
+  { scopes: ['status:read'] },
+  async (args: LoaderFunctionArgs & { principal: ApiPrincipal }) => {
+    const { job } = await findJob(args);
+
+    if (!job) {
+      return json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    return json({ job });
+  },
+);
+
+// DELETE /api/jobs/:id - cancel a queued or running job
+export const action = withApiAuth(
+  { scopes: ['requirements:submit'] },
+  async (args: ActionFunctionArgs & { principal: ApiPrincipal }) => {
+    if (args.request.method !== 'DELETE') {
+      return json({ error: 'Method not allowed' }, { status: 405 });
+    }
+
+    const { jobs, job } = await findJob(args);
+
+    if (!job) {
+      return json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    if (isFinished(job)) {
+      return json({ error: `Job already ${job.status}` }, { status: 409 });
+    }
+
+    return json({ job: await GenerationJob.cancel(jobs, job.id) });
+  },
+);
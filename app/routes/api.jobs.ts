@@ -0,0 +1,94 @@
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { getCallbackUrlError } from '~/lib/.server/jobs/callback-url';
+import { GenerationJob } from '~/lib/.server/jobs/generation-job';
+import { isJobStatus, JobStore } from '~/lib/.server/jobs/job-store';
+import { getKeyValueStore } from '~/lib/.server/storage';
+import { createScopedLogger } from '~/utils/logger';
+import { getPrincipalClientId, withApiAuth, type ApiPrincipal } from '~/middleware/api-auth.server';
+
+const logger = createScopedLogger('api.jobs');
+
+interface CreateJobRequestBody {
+  content?: string;
+  requirements?: string;
+  fileName?: string;
+  projectId?: string;
+  callbackUrl?: string;
+}
+
+// GET /api/jobs?projectId=&status=&limit= - list jobs, newest first
+export const loader = withApiAuth(
+  { scopes: ['status:read'] },
+  async ({ request, context, principal }: LoaderFunctionArgs & { principal: ApiPrincipal }) => {
+    const url = new URL(request.url);
+    const status = url.searchParams.get('status') ?? undefined;
+
+    if (status !== undefined && !isJobStatus(status)) {
+      return json({ error: `Invalid status "${status}"` }, { status: 400 });
+    }
+
+    // API clients only see the jobs they created, everyone else only the jobs created without a key
+    const jobs = await new JobStore(getKeyValueStore(context.cloudflare?.env)).list({
+      projectId: url.searchParams.get('projectId') ?? undefined,
+      clientId: getPrincipalClientId(principal) ?? null,
+      status,
+      limit: Number(url.searchParams.get('limit')) || 50,
+    });
+
+    // the file contents can be large, fetch a single job to get them
+    return json({ jobs: jobs.map(({ result, ...job }) => ({ ...job, artifacts: result?.artifacts ?? [] })) });
+  },
+);
+
+// POST /api/jobs - start a headless generation and return its id immediately
+export const action = withApiAuth(
+  { scopes: ['requirements:submit'] },
+  async ({ request, context, principal }: ActionFunctionArgs & { principal: ApiPrincipal }) => {
+    if (request.method !== 'POST') {
+      return json({ error: 'Method not allowed' }, { status: 405 });
+    }
+
+    const body = (await request.json()) as CreateJobRequestBody;
+    const content = body.content || body.requirements;
+
+    if (!content || typeof content !== 'string') {
+      return json(
+        { error: 'Requirements content is required (use field name "content" or "requirements")' },
+        { status: 400 },
+      );
+    }
+
+    // the server calls it with the job output, only API clients are trusted with that
+    if (body.callbackUrl !== undefined) {
+      if (principal.type !== 'client') {
+        return json({ error: 'callbackUrl requires an API key' }, { status: 403 });
+      }
+
+      const callbackError = getCallbackUrlError(body.callbackUrl);
+
+      if (callbackError) {
+        return json({ error: callbackError }, { status: 400 });
+      }
+    }
+
+    const generation = await GenerationJob.create({
+      request,
+      context,
+      input: {
+        content,
+        fileName: body.fileName,
+        projectId: body.projectId,
+        callbackUrl: body.callbackUrl,
+        clientId: getPrincipalClientId(principal),
+        webhookSecret: principal.type === 'client' ? principal.client.webhookSecret : undefined,
+      },
+    });
+
+    const run = generation.run().catch((error) => logger.error('Background job failed', { id: generation.id, error }));
+
+    // keep the worker alive until the job has finished
+    context.cloudflare?.ctx?.waitUntil(run);
+
+    return json({ job: generation.job }, { status: 202 });
+  },
+);
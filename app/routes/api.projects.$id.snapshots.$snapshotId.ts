@@ -0,0 +1,84 @@
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import {
+  canAccessProject,
+  diffSnapshots,
+  getProjectStorage,
+  isValidProjectId,
+  type ProjectStorage,
+} from '~/lib/.server/projects';
+import { getPrincipalClientId, withApiAuth, type ApiPrincipal } from '~/middleware/api-auth.server';
+
+async function findSnapshot(projects: ProjectStorage, params: LoaderFunctionArgs['params'], clientId?: string) {
+  const projectId = params.id;
+
+  if (!projectId || !isValidProjectId(projectId)) {
+    throw json({ error: 'Invalid project id' }, { status: 400 });
+  }
+
+  const project = await projects.getProject(projectId);
+  const snapshot =
+    project && canAccessProject(project, clientId) && params.snapshotId
+      ? await projects.getSnapshot(projectId, params.snapshotId)
+      : null;
+
+  if (!snapshot) {
+    throw json({ error: 'Snapshot not found' }, { status: 404 });
+  }
+
+  return snapshot;
+}
+
+/**
+ * GET /api/projects/:id/snapshots/:snapshotId - snapshot with files
+ * GET /api/projects/:id/snapshots/:snapshotId?diff=<otherId|parent> - changes from another snapshot to this one
+ */
+export const loader = withApiAuth(
+  { scopes: ['status:read'] },
+  async ({ request, params, context, principal }: LoaderFunctionArgs & { principal: ApiPrincipal }) => {
+    const projects = getProjectStorage(context.cloudflare?.env);
+    const snapshot = await findSnapshot(projects, params, getPrincipalClientId(principal));
+    const diff = new URL(request.url).searchParams.get('diff');
+
+    if (diff === null) {
+      return json({ snapshot });
+    }
+
+    const baseId = diff === '' || diff === 'parent' ? snapshot.parentId : diff;
+    const base = baseId ? await projects.getSnapshot(snapshot.projectId, baseId) : null;
+
+    if (baseId && !base) {
+      return json({ error: `Snapshot ${baseId} not found` }, { status: 404 });
+    }
+
+    return json({ diff: diffSnapshots(base, snapshot) });
+  },
+);
+
+// POST /api/projects/:id/snapshots/:snapshotId { action: 'restore' } - make this snapshot's files the latest again
+export const action = withApiAuth(
+  { scopes: ['requirements:submit'] },
+  async ({ request, params, context, principal }: ActionFunctionArgs & { principal: ApiPrincipal }) => {
+    if (request.method !== 'POST') {
+      return json({ error: 'Method not allowed' }, { status: 405 });
+    }
+
+    const { action: requested } = await request.json<{ action?: string }>();
+
+    if (requested !== 'restore') {
+      return json({ error: 'Unsupported action' }, { status: 400 });
+    }
+
+    const projects = getProjectStorage(context.cloudflare?.env);
+    const clientId = getPrincipalClientId(principal);
+    const target = await findSnapshot(projects, params, clientId);
+
+    // history is immutable, restoring appends a copy of the target on top of the latest snapshot
+    const snapshot = await projects.saveSnapshot(target.projectId, target.files, {
+      message: `Restore ${target.id}`,
+      source: `restore:${target.id}`,
+      clientId,
+    });
+
+    return json({ snapshot }, { status: 201 });
+  },
+);
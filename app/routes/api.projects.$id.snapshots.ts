@@ -0,0 +1,77 @@
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { VirtualFileSystem } from '~/lib/.server/headless/virtual-fs';
+import { canAccessProject, getProjectStorage, isValidProjectId } from '~/lib/.server/projects';
+import { getPrincipalClientId, withApiAuth, type ApiPrincipal } from '~/middleware/api-auth.server';
+
+function getProjectId(params: LoaderFunctionArgs['params']) {
+  if (!params.id || !isValidProjectId(params.id)) {
+    throw json({ error: 'Invalid project id' }, { status: 400 });
+  }
+
+  return params.id;
+}
+
+// GET /api/projects/:id/snapshots - snapshot history, oldest first
+export const loader = withApiAuth(
+  { scopes: ['status:read'] },
+  async ({ params, context, principal }: LoaderFunctionArgs & { principal: ApiPrincipal }) => {
+    const projectId = getProjectId(params);
+    const projects = getProjectStorage(context.cloudflare?.env);
+    const project = await projects.getProject(projectId);
+
+    if (!project || !canAccessProject(project, getPrincipalClientId(principal))) {
+      return json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    return json({ project, snapshots: await projects.listSnapshots(projectId) });
+  },
+);
+
+// POST /api/projects/:id/snapshots - store a complete file tree as a new snapshot
+export const action = withApiAuth(
+  { scopes: ['requirements:submit'] },
+  async ({ request, params, context, principal }: ActionFunctionArgs & { principal: ApiPrincipal }) => {
+    if (request.method !== 'POST') {
+      return json({ error: 'Method not allowed' }, { status: 405 });
+    }
+
+    const projectId = getProjectId(params);
+    const projects = getProjectStorage(context.cloudflare?.env);
+    const clientId = getPrincipalClientId(principal);
+
+    if (!canAccessProject(await projects.getProject(projectId), clientId)) {
+      return json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const { files, parentId, message } = await request.json<{
+      files?: Record<string, unknown>;
+      parentId?: string | null;
+      message?: string;
+    }>();
+
+    if (!files || typeof files !== 'object' || Object.values(files).some((content) => typeof content !== 'string')) {
+      return json({ error: 'files must map paths to string contents' }, { status: 400 });
+    }
+
+    let normalized: Record<string, string>;
+
+    try {
+      normalized = new VirtualFileSystem(files as Record<string, string>).toRecord();
+    } catch (error) {
+      return json({ error: error instanceof Error ? error.message : 'Invalid file path' }, { status: 400 });
+    }
+
+    try {
+      const snapshot = await projects.saveSnapshot(projectId, normalized, {
+        parentId,
+        message,
+        source: 'api',
+        clientId,
+      });
+
+      return json({ snapshot }, { status: 201 });
+    } catch (error) {
+      return json({ error: error instanceof Error ? error.message : 'Failed to save snapshot' }, { status: 400 });
+    }
+  },
+);
@@ -1,13 +1,12 @@
-import { json } from '@remix-run/node';
-import type { ActionFunctionArgs, LoaderFunctionArgs } from '@remix-run/node';
-
-// Simple in-memory storage for requirements (in production, use a database)
-interface RequirementData {
-  content: string;
-  timestamp: number;
-  processed: boolean;
-  projectId?: string;
-}
+import { json } from '@remix-run/cloudflare';
+import type { ActionFunctionArgs, LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { getKeyValueStore } from '~/lib/.server/storage';
+import {
+  RequirementsQueue,
+  type RequirementItem,
+  type RequirementStatus,
+} from '~/lib/.server/requirements/requirements-queue';
+import { withApiAuth } from '~/middleware/api-auth.server';
 
 // Define interface for the request body
 interface RequirementsRequestBody {
@@ -15,11 +14,24 @@ interface RequirementsRequestBody {
   requirements?: string;
   markAsProcessed?: boolean;
   projectId?: string;
+
+  // queue operations
+  id?: string;
+  claim?: boolean;
+  fail?: boolean;
+  status?: Extract<RequirementStatus, 'done' | 'failed'>;
+  error?: string;
 }
 
-let requirements: RequirementData | null = null;
+const REQUIREMENT_STATUSES: RequirementStatus[] = ['pending', 'processing', 'done', 'failed'];
+
+function getQueue(context: ActionFunctionArgs['context']) {
+  return new RequirementsQueue(getKeyValueStore(context.cloudflare?.env));
+}
 
-export async function action({ request }: ActionFunctionArgs) {
+export const action = withApiAuth({ scopes: ['requirements:submit'] }, requirementsAction);
+
+async function requirementsAction({ request, context }: ActionFunctionArgs) {
   if (request.method !== 'POST') {
     return json({ error: 'Method not allowed' }, { status: 405 });
   }
@@ -39,19 +51,44 @@ export async function action({ request }: ActionFunctionArgs) {
         requirements: formData.get('requirements')?.toString(),
         markAsProcessed: formData.get('markAsProcessed') === 'true',
         projectId: formData.get('projectId')?.toString(),
+        id: formData.get('id')?.toString(),
+        claim: formData.get('claim') === 'true',
+        fail: formData.get('fail') === 'true',
+        error: formData.get('error')?.toString(),
       };
     }
 
     console.log('Received webhook request:', { body, contentType });
 
-    // Handle marking requirements as processed
-    if (body.markAsProcessed) {
-      if (requirements) {
-        requirements.processed = true;
-        return json({ success: true, message: 'Requirements marked as processed' });
+    const queue = getQueue(context);
+
+    // Claim the next pending item (or a specific one) for processing
+    if (body.claim) {
+      const item = await queue.claim({ projectId: body.projectId, id: body.id });
+
+      if (!item) {
+        return json({ error: 'No pending requirements to claim' }, { status: 404 });
       }
 
-      return json({ error: 'No requirements to mark as processed' }, { status: 404 });
+      return json({ success: true, item });
+    }
+
+    // Handle marking requirements as processed (or as failed)
+    if (body.markAsProcessed || body.fail || body.status) {
+      const target = body.id
+        ? await queue.get(body.id, body.projectId)
+        : (await queue.list({ projectId: body.projectId, status: 'processing' })).at(-1);
+
+      if (!target) {
+        return json({ error: 'No requirements to mark as processed' }, { status: 404 });
+      }
+
+      const updated =
+        body.fail || body.status === 'failed'
+          ? await queue.fail(target.id, body.error || 'Unknown error', target.projectId)
+          : await queue.complete(target.id, target.projectId);
+
+      return json({ success: true, message: 'Requirements marked as processed', item: updated });
     }
 
     // Use either content or requirements field, preferring content if both are provided
@@ -69,17 +106,9 @@ export async function action({ request }: ActionFunctionArgs) {
       );
     }
 
-    // Store the requirements with a processed flag set to false
-    requirements = {
-      content: requirementsContent,
-      timestamp: Date.now(),
-      processed: false,
-      projectId: body.projectId,
-    };
+    const item = await queue.enqueue(requirementsContent, body.projectId);
 
-    console.log('Stored new requirements:', requirements);
-
-    return json({ success: true, message: 'Requirements received' });
+    return json({ success: true, message: 'Requirements received', id: item.id, status: item.status });
   } catch (error) {
     console.error('Error processing requirements webhook:', error);
     return json(
@@ -99,40 +128,66 @@ export interface RequirementsResponseData {
   timestamp: number | null;
   content: string | null;
   projectId: string | null;
+  id: string | null;
+  status: RequirementStatus | null;
+
+  // only present when `?history=true` is requested
+  items?: RequirementItem[];
 }
 
-export async function loader({ request }: LoaderFunctionArgs) {
+export const loader = withApiAuth({ scopes: ['status:read'] }, requirementsLoader);
+
+async function requirementsLoader({ request, context }: LoaderFunctionArgs) {
   // Only allow GET requests
   if (request.method !== 'GET') {
     return json({ error: 'Method not allowed' }, { status: 405 });
   }
 
-  // Return the current requirements state
-  return json({
-    hasRequirements: requirements !== null,
-    processed: requirements?.processed || false,
-    timestamp: requirements?.timestamp || null,
-    content: requirements?.content || null,
-    projectId: requirements?.projectId || null,
-  } as RequirementsResponseData);
+  const url = new URL(request.url);
+  const projectId = url.searchParams.get('projectId') ?? undefined;
+  const statusParam = url.searchParams.get('status') as RequirementStatus | null;
+  const includeHistory = url.searchParams.get('history') === 'true';
+
+  if (statusParam && !REQUIREMENT_STATUSES.includes(statusParam)) {
+    return json({ error: `Invalid status "${statusParam}"` }, { status: 400 });
+  }
+
+  const queue = getQueue(context);
+  const next = await queue.peek(projectId);
+
+  const response: RequirementsResponseData = {
+    hasRequirements: next !== null,
+    processed: false,
+    timestamp: next?.createdAt || null,
+    content: next?.content || null,
+    projectId: next?.projectId || null,
+    id: next?.id || null,
+    status: next?.status || null,
+  };
+
+  if (includeHistory) {
+    const limit = Number(url.searchParams.get('limit')) || undefined;
+    response.items = await queue.list({ projectId, status: statusParam ?? undefined, limit });
+  }
+
+  return json(response);
 }
 
 // Helper function to mark requirements as processed
-export function markRequirementsAsProcessed() {
-  if (requirements) {
-    requirements.processed = true;
-  }
+export async function markRequirementsAsProcessed(env: Partial<Env> | undefined, id: string, projectId?: string) {
+  await new RequirementsQueue(getKeyValueStore(env)).complete(id, projectId);
 }
 
-// Helper function to get and consume the requirements
-export function getAndConsumeRequirements(): { content: string; projectId?: string } | null {
-  if (requirements && !requirements.processed) {
-    const content = requirements.content;
-    const projectId = requirements.projectId;
-    requirements.processed = true;
+// Helper function to atomically claim the next pending requirements
+export async function getAndConsumeRequirements(
+  env: Partial<Env> | undefined,
+  projectId?: string,
+): Promise<{ id: string; content: string; projectId?: string } | null> {
+  const item = await new RequirementsQueue(getKeyValueStore(env)).claim({ projectId });
 
-    return { content, projectId };
+  if (!item) {
+    return null;
   }
 
-  return null;
+  return { id: item.id, content: item.content, projectId: item.projectId };
 }
@@ -1,9 +1,15 @@
 import type { Change } from 'diff';
 
-export type ActionType = 'file' | 'shell';
+export type ActionType = 'file' | 'shell' | 'patch' | 'delete' | 'rename' | 'build';
 
 export interface BaseAction {
   content: string;
+
+  // optional name other actions of the artifact can list in their `dependsOn`
+  id?: string;
+
+  // names of the actions this one waits for, when missing the dependencies are inferred
+  dependsOn?: string[];
 }
 
 export interface FileAction extends BaseAction {
@@ -11,6 +17,25 @@ export interface FileAction extends BaseAction {
   filePath: string;
 }
 
+// partial edit of an existing file, `content` holds SEARCH/REPLACE blocks or a unified diff
+export interface PatchAction extends BaseAction {
+  type: 'patch';
+  filePath: string;
+}
+
+// removes a file or a folder with everything inside it
+export interface DeleteAction extends BaseAction {
+  type: 'delete';
+  filePath: string;
+}
+
+// moves `filePath` to `newFilePath`, creating the destination folders
+export interface RenameAction extends BaseAction {
+  type: 'rename';
+  filePath: string;
+  newFilePath: string;
+}
+
 export interface ShellAction extends BaseAction {
   type: 'shell';
 }
@@ -19,11 +44,19 @@ export interface StartAction extends BaseAction {
   type: 'start';
 }
 
+// production build, `content` is the command and defaults to `npm run build` when empty
 export interface BuildAction extends BaseAction {
   type: 'build';
 }
 
-export type BoltAction = FileAction | ShellAction | StartAction | BuildAction;
+export type BoltAction =
+  | FileAction
+  | PatchAction
+  | DeleteAction
+  | RenameAction
+  | ShellAction
+  | StartAction
+  | BuildAction;
 
 export type BoltActionData = BoltAction | BaseAction;
 
@@ -32,7 +65,7 @@ export interface ActionAlert {
   title: string;
   description: string;
   content: string;
-  source?: 'terminal' | 'preview'; // Add source to differentiate between terminal and preview errors
+  source?: 'terminal' | 'preview' | 'patch'; // Add source to differentiate between terminal and preview errors
 }
 
 export interface FileHistory {
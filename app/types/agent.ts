@@ -0,0 +1,19 @@
+export type AgentToolName = 'read_file' | 'list_dir' | 'search_code' | 'write_file' | 'apply_patch' | 'run_command';
+
+/*
+ * what happens when the model calls a tool: it runs right away, waits for the user to approve it,
+ * or isn't offered to the model at all
+ */
+export type ToolApproval = 'auto' | 'ask' | 'never';
+
+export type ToolApprovalPolicy = Record<AgentToolName, ToolApproval>;
+
+// sent along with a chat request when agent mode is on
+export type AgentRequest = {
+  // tool round-trips allowed after the last user message
+  maxSteps: number;
+  tools: AgentToolName[];
+};
+
+// what the client sends back as the result of a tool call
+export type AgentToolResult = { output: string } | { error: string };
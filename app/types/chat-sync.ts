@@ -0,0 +1,38 @@
+import type { Message } from 'ai';
+import type { IChatMetadata } from '~/lib/persistence/db';
+
+// a chat as the server stores it, `id` is the sync id shared by all browsers, not the local chat id
+export interface SyncedChat {
+  id: string;
+  urlId?: string;
+  description?: string;
+  messages: Message[];
+  timestamp: string;
+  metadata?: IChatMetadata;
+
+  // increased by the server on every write
+  revision: number;
+
+  // when the chat was last changed on the device that wrote it, the newer metadata wins conflicts
+  updatedAt: string;
+
+  // deleted chats are kept without messages so other devices learn about the deletion
+  deleted?: boolean;
+}
+
+export type ChatSyncInfo = Pick<SyncedChat, 'id' | 'revision' | 'updatedAt' | 'deleted'>;
+
+// body of PUT /api/chats/:id
+export interface ChatPushRequest {
+  chat: Omit<SyncedChat, 'revision'>;
+
+  // the revision the device last saw, 0 for chats the server doesn't know yet
+  baseRevision: number;
+}
+
+export interface ChatPushResponse {
+  chat: SyncedChat;
+
+  // true when the server had changes the device didn't know about and merged them
+  merged: boolean;
+}
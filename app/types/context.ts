@@ -16,3 +16,53 @@ export type ProgressAnnotation = {
   order: number;
   message: string;
 };
+
+// sent along with a chat request when auto-fix asks the model to repair a failed command or preview error
+export type RepairRequest = {
+  attempt: number;
+  maxAttempts: number;
+  source: 'terminal' | 'preview' | 'patch';
+};
+
+// attached to the assistant message of an auto-fix attempt once its actions have run
+export type AutoFixAnnotation = RepairRequest & {
+  type: 'autoFix';
+  diff: string;
+};
+
+// tokens each part of the prompt took, estimated before the request was sent
+export type TokenBudgetSections = {
+  system: number;
+  summary: number;
+  fileList: number;
+  files: number;
+  history: number;
+};
+
+// what was left out or shortened so that the prompt fits the context window
+export type TokenBudgetTrimmed = {
+  messages: number;
+  fileListEntries: number;
+  outlinedFiles: string[];
+  droppedFiles: string[];
+  summary: boolean;
+};
+
+// attached to an assistant message next to the usage annotation
+export type TokenBudgetAnnotation = {
+  type: 'tokenBudget';
+  model: string;
+  contextWindow: number;
+
+  // kept free for the answer
+  outputTokens: number;
+  total: number;
+
+  /*
+   * the counts come from a character-class heuristic, not the tokenizer of the model, and can be off
+   * by a few percent either way
+   */
+  estimated: true;
+  sections: TokenBudgetSections;
+  trimmed: TokenBudgetTrimmed;
+};
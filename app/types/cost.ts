@@ -0,0 +1,34 @@
+// US dollars per million tokens
+export type ModelPricing = {
+  input: number;
+  output: number;
+};
+
+// pricing set in the settings, keyed by `provider/model`
+export type PricingOverrides = Record<string, ModelPricing>;
+
+// tokens and cost of the calls one model made for a message, cost is null when its price isn't known
+export type ModelCost = {
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number | null;
+};
+
+// value of the `usage` annotation of an assistant message
+export type UsageValue = {
+  completionTokens: number;
+  promptTokens: number;
+  totalTokens: number;
+
+  // in US dollars, the sum of the models with a known price
+  cost?: number;
+  costs?: ModelCost[];
+};
+
+// spending limits in US dollars, requests are blocked once one of them is reached
+export type SpendLimits = {
+  perChat?: number;
+  monthly?: number;
+};
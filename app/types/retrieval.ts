@@ -0,0 +1,15 @@
+/*
+ * how the files sent to the model are picked when context optimization is on: by an extra model call
+ * over the list of paths, by the retrieval index alone, or by the model choosing among the files the
+ * index ranked highest
+ */
+export type RetrievalMode = 'llm' | 'index' | 'hybrid';
+
+// sent along with a chat request when context optimization is on
+export type RetrievalRequest = {
+  mode: RetrievalMode;
+
+  // name of a provider that can embed text, or `bm25` for the lexical index that works offline
+  embeddingProvider?: string;
+  embeddingModel?: string;
+};
@@ -0,0 +1,22 @@
+import type { SyncedChat } from '~/types/chat-sync';
+
+/**
+ * Merges two versions of a chat that were changed independently. The metadata (url id, description,
+ * git metadata) of the version changed last wins, messages are appended: the messages of `base` are
+ * kept in order and the messages only `incoming` has are added after them.
+ */
+export function mergeChats<T extends Omit<SyncedChat, 'revision'>>(base: T, incoming: Omit<SyncedChat, 'revision'>): T {
+  const incomingIsNewer = Date.parse(incoming.updatedAt) > Date.parse(base.updatedAt);
+  const newer = incomingIsNewer ? incoming : base;
+  const known = new Set(base.messages.map((message) => message.id));
+
+  return {
+    ...base,
+    urlId: newer.urlId,
+    description: newer.description,
+    metadata: newer.metadata,
+    messages: [...base.messages, ...incoming.messages.filter((message) => !known.has(message.id))],
+    timestamp: Date.parse(incoming.timestamp) < Date.parse(base.timestamp) ? incoming.timestamp : base.timestamp,
+    updatedAt: newer.updatedAt,
+  };
+}
@@ -0,0 +1,123 @@
+import type { Message } from 'ai';
+import type { ModelCost, SpendLimits, UsageValue } from '~/types/cost';
+
+/*
+ * Spending computed from the `usage` annotations stored with the assistant messages of the chat
+ * history. Each chat is one project.
+ */
+
+export interface ChatSpend {
+  id: string;
+  urlId?: string;
+  description?: string;
+  cost: number;
+  tokens: number;
+}
+
+export interface ProviderSpend {
+  provider: string;
+  cost: number;
+  tokens: number;
+
+  // tokens of models without a known price, not included in the cost
+  unpricedTokens: number;
+}
+
+export interface SpendSummary {
+  total: number;
+  chats: ChatSpend[];
+  providers: ProviderSpend[];
+}
+
+// the subset of a chat history item the summary reads
+interface SpendChat {
+  id: string;
+  urlId?: string;
+  description?: string;
+  timestamp: string;
+  messages: Message[];
+}
+
+export function getMessageUsage(message: Message): UsageValue | undefined {
+  const annotation = message.annotations?.find(
+    (item) => !!item && typeof item === 'object' && !Array.isArray(item) && item.type === 'usage',
+  ) as { value: UsageValue } | undefined;
+
+  return annotation?.value;
+}
+
+export function getMessagesCost(messages: Message[]) {
+  return messages.reduce((sum, message) => sum + (getMessageUsage(message)?.cost ?? 0), 0);
+}
+
+export function getMonthStart(now = new Date()) {
+  return new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+// spend per chat and per provider, only counting the messages sent since the given date
+export function summarizeSpend(chats: SpendChat[], since?: Date): SpendSummary {
+  const providers = new Map<string, ProviderSpend>();
+  const summary: SpendSummary = { total: 0, chats: [], providers: [] };
+
+  for (const chat of chats) {
+    const chatSpend: ChatSpend = { id: chat.id, urlId: chat.urlId, description: chat.description, cost: 0, tokens: 0 };
+
+    for (const message of chat.messages) {
+      const usage = getMessageUsage(message);
+      const sentAt = new Date(message.createdAt ?? chat.timestamp);
+
+      if (!usage || (since && sentAt < since)) {
+        continue;
+      }
+
+      chatSpend.cost += usage.cost ?? 0;
+      chatSpend.tokens += usage.totalTokens;
+
+      for (const item of usage.costs ?? []) {
+        addProviderSpend(providers, item);
+      }
+    }
+
+    if (chatSpend.tokens > 0) {
+      summary.total += chatSpend.cost;
+      summary.chats.push(chatSpend);
+    }
+  }
+
+  summary.chats.sort((a, b) => b.cost - a.cost);
+  summary.providers = [...providers.values()].sort((a, b) => b.cost - a.cost);
+
+  return summary;
+}
+
+function addProviderSpend(providers: Map<string, ProviderSpend>, item: ModelCost) {
+  const spend = providers.get(item.provider) ?? { provider: item.provider, cost: 0, tokens: 0, unpricedTokens: 0 };
+  const tokens = item.promptTokens + item.completionTokens;
+
+  spend.tokens += tokens;
+
+  if (item.cost === null) {
+    spend.unpricedTokens += tokens;
+  } else {
+    spend.cost += item.cost;
+  }
+
+  providers.set(item.provider, spend);
+}
+
+// the message to show when a limit is reached, undefined while requests may go on
+export function getSpendLimitError(limits: SpendLimits, spend: { chat: number; monthly: number }) {
+  if (limits.perChat !== undefined && spend.chat >= limits.perChat) {
+    return `This chat reached its spending limit of ${formatCost(limits.perChat)}`;
+  }
+
+  if (limits.monthly !== undefined && spend.monthly >= limits.monthly) {
+    return `The monthly spending limit of ${formatCost(limits.monthly)} is reached`;
+  }
+
+  return undefined;
+}
+
+export function formatCost(cost: number) {
+  return `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+}
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { extractRelativePath } from './diff';
+import { diffFileMaps, extractRelativePath } from './diff';
 import { WORK_DIR } from './constants';
 
 describe('Diff', () => {
@@ -8,4 +8,19 @@ describe('Diff', () => {
     const result = extractRelativePath(filePath);
     expect(result).toBe('index.js');
   });
+
+  it('should diff changed, added and deleted files between file maps', () => {
+    const file = (content: string) => ({ type: 'file' as const, content, isBinary: false });
+
+    const result = diffFileMaps(
+      { [`${WORK_DIR}/a.js`]: file('a\n'), [`${WORK_DIR}/gone.js`]: file('x\n'), [`${WORK_DIR}/same.js`]: file('s\n') },
+      { [`${WORK_DIR}/a.js`]: file('b\n'), [`${WORK_DIR}/new.js`]: file('y\n'), [`${WORK_DIR}/same.js`]: file('s\n') },
+    );
+
+    expect(result).toContain('--- a/a.js\n+++ b/a.js\n');
+    expect(result).toContain('-a\n+b\n');
+    expect(result).toContain('--- a/gone.js\n+++ /dev/null\n');
+    expect(result).toContain('--- /dev/null\n+++ b/new.js\n');
+    expect(result).not.toContain('same.js');
+  });
 });
@@ -75,6 +75,43 @@ export function diffFiles(fileName: string, oldFileContent: string, newFileConte
   return unifiedDiff;
 }
 
+/**
+ * Unified diff of every text file that differs between two file maps, including added and deleted files.
+ * Each file gets its own `--- a/path` / `+++ b/path` header so the result reads like `git diff`.
+ */
+export function diffFileMaps(before: FileMap, after: FileMap) {
+  const filePaths = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+  const diffs: string[] = [];
+
+  for (const filePath of filePaths) {
+    const from = textContent(before[filePath]);
+    const to = textContent(after[filePath]);
+
+    if (from === to) {
+      continue;
+    }
+
+    const relativePath = extractRelativePath(filePath);
+    const unifiedDiff = diffFiles(relativePath, from ?? '', to ?? '');
+
+    if (!unifiedDiff) {
+      continue;
+    }
+
+    const header = `--- ${from === undefined ? '/dev/null' : `a/${relativePath}`}\n+++ ${
+      to === undefined ? '/dev/null' : `b/${relativePath}`
+    }\n`;
+
+    diffs.push(header + unifiedDiff);
+  }
+
+  return diffs.join('');
+}
+
+function textContent(dirent: FileMap[string]) {
+  return dirent?.type === 'file' && !dirent.isBinary ? dirent.content : undefined;
+}
+
 const regex = new RegExp(`^${WORK_DIR}\/`);
 
 /**
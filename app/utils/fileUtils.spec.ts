@@ -0,0 +1,47 @@
+import { mkdtemp, mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { WebContainer } from '@webcontainer/api';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { collectWebContainerFiles } from './fileUtils';
+
+// the part of the WebContainer filesystem the collector reads, with absolute paths on the local disk
+const container = {
+  fs: {
+    readFile: (path: string) => readFile(path),
+    readdir: (path: string, options: { withFileTypes: true }) => readdir(path, options),
+  },
+} as unknown as WebContainer;
+
+describe('collectWebContainerFiles', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'collect-files-'));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('should read text files as they are and binary files as base64', async () => {
+    await mkdir(join(root, 'assets'));
+    await writeFile(join(root, 'index.html'), '<h1>Hello</h1>');
+    await writeFile(join(root, 'assets', 'logo.png'), new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0xff]));
+
+    expect(await collectWebContainerFiles(container, root)).toEqual({
+      '/index.html': '<h1>Hello</h1>',
+      '/assets/logo.png': { content: btoa('\x89PNG\xff'), encoding: 'base64' },
+    });
+  });
+
+  it('should skip dependencies and version control folders', async () => {
+    await mkdir(join(root, 'node_modules', 'react'), { recursive: true });
+    await mkdir(join(root, '.git'));
+    await writeFile(join(root, 'node_modules', 'react', 'index.js'), 'module.exports = {};');
+    await writeFile(join(root, '.git', 'HEAD'), 'ref: refs/heads/main');
+    await writeFile(join(root, 'app.js'), 'console.log(1);');
+
+    expect(Object.keys(await collectWebContainerFiles(container, root))).toEqual(['/app.js']);
+  });
+});
@@ -1,4 +1,7 @@
 import ignore from 'ignore';
+import type { WebContainer } from '@webcontainer/api';
+import type { DeploymentFiles } from '~/lib/modules/deployment/types';
+import { path } from '~/utils/path';
 
 // Common patterns to ignore, similar to .gitignore
 export const IGNORE_PATTERNS = [
@@ -119,3 +122,54 @@ ${files[filePath].content}
 </boltArtifact>
   `;
 };
+
+// never part of a deployment or a build archive when a directory is read as is
+const IGNORED_OUTPUT_DIRS = ['node_modules', '.git', '.history'];
+
+/**
+ * Reads a WebContainer directory recursively into `/relative/path -> content`,
+ * files that aren't valid UTF-8 are returned base64 encoded.
+ */
+export const collectWebContainerFiles = async (container: WebContainer, root: string): Promise<DeploymentFiles> => {
+  const files: DeploymentFiles = {};
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+
+  const walk = async (dirPath: string) => {
+    const entries = await container.fs.readdir(dirPath, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = path.join(dirPath, entry.name);
+
+      if (entry.isDirectory()) {
+        if (!IGNORED_OUTPUT_DIRS.includes(entry.name)) {
+          await walk(fullPath);
+        }
+
+        continue;
+      }
+
+      if (!entry.isFile()) {
+        continue;
+      }
+
+      const bytes = await container.fs.readFile(fullPath);
+      const filePath = '/' + path.relative(root, fullPath);
+
+      try {
+        files[filePath] = decoder.decode(bytes);
+      } catch {
+        let binary = '';
+
+        for (const byte of bytes) {
+          binary += String.fromCharCode(byte);
+        }
+
+        files[filePath] = { content: btoa(binary), encoding: 'base64' };
+      }
+    }
+  };
+
+  await walk(root);
+
+  return files;
+};
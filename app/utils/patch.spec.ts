@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { applyPatch, PatchApplyError } from './patch';
+
+const source = [
+  'function add(a, b) {',
+  '  return a + b;',
+  '}',
+  '',
+  'function sub(a, b) {',
+  '  return a - b;',
+  '}',
+].join('\n');
+
+describe('applyPatch', () => {
+  it('should apply search/replace blocks', () => {
+    const patch = [
+      '<<<<<<< SEARCH',
+      '  return a + b;',
+      '=======',
+      '  return Number(a) + Number(b);',
+      '>>>>>>> REPLACE',
+      '<<<<<<< SEARCH',
+      '  return a - b;',
+      '=======',
+      '  return Number(a) - Number(b);',
+      '>>>>>>> REPLACE',
+    ].join('\n');
+
+    const result = applyPatch(source, patch);
+
+    expect(result).toContain('return Number(a) + Number(b);');
+    expect(result).toContain('return Number(a) - Number(b);');
+  });
+
+  it('should apply unified diff hunks regardless of line numbers', () => {
+    const patch = [
+      '--- a/math.js',
+      '+++ b/math.js',
+      '@@ -40,3 +40,3 @@',
+      ' function sub(a, b) {',
+      '-  return a - b;',
+      '+  return b - a;',
+      ' }',
+    ].join('\n');
+
+    expect(applyPatch(source, patch)).toContain('  return b - a;');
+  });
+
+  it('should anchor hunks with different indentation', () => {
+    const patch = ['<<<<<<< SEARCH', 'return a + b;', '=======', '  return a + b + 0;', '>>>>>>> REPLACE'].join('\n');
+
+    expect(applyPatch(source, patch)).toContain('{\n  return a + b + 0;\n}');
+  });
+
+  it('should fail when a hunk does not match', () => {
+    const patch = ['<<<<<<< SEARCH', 'return a * b;', '=======', 'return 0;', '>>>>>>> REPLACE'].join('\n');
+
+    expect(() => applyPatch(source, patch)).toThrow(PatchApplyError);
+  });
+});
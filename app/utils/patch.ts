@@ -0,0 +1,216 @@
+/**
+ * Applies the content of a `patch` action to a file. Two formats are understood:
+ *
+ * search/replace blocks
+ * ```
+ * <<<<<<< SEARCH
+ * const a = 1;
+ * =======
+ * const a = 2;
+ * >>>>>>> REPLACE
+ * ```
+ *
+ * and unified diffs (`@@ ... @@` hunks, line numbers are ignored).
+ *
+ * Hunks are located in order, first exactly, then ignoring trailing whitespace and
+ * finally ignoring indentation. A hunk that can't be located fails the whole patch.
+ */
+
+export interface PatchHunk {
+  search: string;
+  replace: string;
+}
+
+export class PatchApplyError extends Error {
+  constructor(
+    message: string,
+    readonly hunk?: PatchHunk,
+  ) {
+    super(message);
+    this.name = 'PatchApplyError';
+  }
+}
+
+const SEARCH_MARKER = /^<{5,9} SEARCH\s*$/;
+const DIVIDER_MARKER = /^={5,9}\s*$/;
+const REPLACE_MARKER = /^>{5,9} REPLACE\s*$/;
+const HUNK_HEADER = /^@@ .* @@/;
+
+export function isUnifiedDiff(patch: string) {
+  return patch.split('\n').some((line) => HUNK_HEADER.test(line));
+}
+
+export function parseSearchReplaceBlocks(patch: string): PatchHunk[] {
+  const hunks: PatchHunk[] = [];
+  const lines = patch.split('\n');
+  let search: string[] | undefined;
+  let replace: string[] | undefined;
+
+  for (const line of lines) {
+    if (SEARCH_MARKER.test(line)) {
+      search = [];
+      replace = undefined;
+    } else if (search && !replace && DIVIDER_MARKER.test(line)) {
+      replace = [];
+    } else if (search && replace && REPLACE_MARKER.test(line)) {
+      hunks.push({ search: search.join('\n'), replace: replace.join('\n') });
+      search = undefined;
+      replace = undefined;
+    } else if (replace) {
+      replace.push(line);
+    } else if (search) {
+      search.push(line);
+    }
+  }
+
+  if (search) {
+    throw new PatchApplyError('Unterminated SEARCH/REPLACE block');
+  }
+
+  return hunks;
+}
+
+export function parseUnifiedDiff(patch: string): PatchHunk[] {
+  const hunks: PatchHunk[] = [];
+  let current: { search: string[]; replace: string[] } | undefined;
+
+  const flush = () => {
+    if (current) {
+      hunks.push({ search: current.search.join('\n'), replace: current.replace.join('\n') });
+    }
+  };
+
+  for (const line of patch.split('\n')) {
+    if (HUNK_HEADER.test(line)) {
+      flush();
+      current = { search: [], replace: [] };
+    } else if (!current || line.startsWith('\\')) {
+      // file headers (`---`/`+++`) and "\ No newline at end of file"
+      continue;
+    } else if (line.startsWith('-')) {
+      current.search.push(line.slice(1));
+    } else if (line.startsWith('+')) {
+      current.replace.push(line.slice(1));
+    } else {
+      const context = line.startsWith(' ') ? line.slice(1) : line;
+      current.search.push(context);
+      current.replace.push(context);
+    }
+  }
+
+  flush();
+
+  // trailing blank context lines are usually an artifact of how the diff was printed
+  return hunks.map(({ search, replace }) => {
+    while (search.endsWith('\n') && replace.endsWith('\n')) {
+      search = search.slice(0, -1);
+      replace = replace.slice(0, -1);
+    }
+
+    return { search, replace };
+  });
+}
+
+export function parsePatch(patch: string): PatchHunk[] {
+  const hunks = isUnifiedDiff(patch) ? parseUnifiedDiff(patch) : parseSearchReplaceBlocks(patch);
+
+  if (hunks.length === 0) {
+    throw new PatchApplyError('Patch contains no SEARCH/REPLACE blocks or diff hunks');
+  }
+
+  return hunks;
+}
+
+type LineNormalizer = (line: string) => string;
+
+const NORMALIZERS: LineNormalizer[] = [(line) => line.trimEnd(), (line) => line.trim()];
+
+// finds `search` in `lines` at or after `from`, returns the matched line range
+function findLines(lines: string[], search: string[], from: number, normalize: LineNormalizer) {
+  const target = search.map(normalize);
+
+  for (let start = from; start + target.length <= lines.length; start++) {
+    let matches = true;
+
+    for (let offset = 0; offset < target.length; offset++) {
+      if (normalize(lines[start + offset]) !== target[offset]) {
+        matches = false;
+        break;
+      }
+    }
+
+    if (matches) {
+      return start;
+    }
+  }
+
+  return -1;
+}
+
+// blocks hold whole lines, an exact match has to start at the beginning of a line
+function indexOfLineStart(content: string, search: string, from: number) {
+  let index = content.indexOf(search, from);
+
+  while (index > 0 && content[index - 1] !== '\n') {
+    index = content.indexOf(search, index + 1);
+  }
+
+  return index;
+}
+
+function applyHunk(content: string, hunk: PatchHunk, from: number): { content: string; position: number } {
+  // an empty search appends, e.g. a diff for a new or empty file
+  if (hunk.search.trim() === '') {
+    const separator = content === '' || content.endsWith('\n') ? '' : '\n';
+    const updated = `${content}${separator}${hunk.replace}`;
+
+    return { content: updated, position: updated.length };
+  }
+
+  const exact = indexOfLineStart(content, hunk.search, from);
+
+  if (exact !== -1) {
+    return {
+      content: content.slice(0, exact) + hunk.replace + content.slice(exact + hunk.search.length),
+      position: exact + hunk.replace.length,
+    };
+  }
+
+  const lines = content.split('\n');
+  const searchLines = hunk.search.split('\n');
+  const fromLine = content.slice(0, from).split('\n').length - 1;
+
+  for (const normalize of NORMALIZERS) {
+    const start = findLines(lines, searchLines, fromLine, normalize);
+
+    if (start !== -1) {
+      const replaceLines = hunk.replace === '' ? [] : hunk.replace.split('\n');
+      const updated = [...lines.slice(0, start), ...replaceLines, ...lines.slice(start + searchLines.length)];
+      const position = [...lines.slice(0, start), ...replaceLines].join('\n').length;
+
+      return { content: updated.join('\n'), position };
+    }
+  }
+
+  throw new PatchApplyError(`Could not find the lines to replace:\n${hunk.search}`, hunk);
+}
+
+export function applyPatch(content: string, patch: string): string {
+  let result = content;
+  let position = 0;
+
+  for (const hunk of parsePatch(patch)) {
+    try {
+      ({ content: result, position } = applyHunk(result, hunk, position));
+    } catch (error) {
+      // blocks aren't always in file order, look at the whole file before giving up
+      if (position === 0) {
+        throw error;
+      }
+
+      ({ content: result, position } = applyHunk(result, hunk, 0));
+    }
+  }
+
+  return result;
+}
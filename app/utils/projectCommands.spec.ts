@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { detectBuildOutputDir, detectProjectCommands } from './projectCommands';
+
+describe('detectBuildOutputDir', () => {
+  it('should use the output directory of the build tool in the dependencies', () => {
+    expect(detectBuildOutputDir({ devDependencies: { vite: '^5.0.0' } })).toBe('dist');
+    expect(detectBuildOutputDir({ dependencies: { next: '15.0.0', react: '19.0.0' } })).toBe('out');
+    expect(detectBuildOutputDir({ dependencies: { '@remix-run/dev': '2.0.0' }, devDependencies: { vite: '5' } })).toBe(
+      'build/client',
+    );
+  });
+
+  it('should leave unknown build tools undecided', () => {
+    expect(detectBuildOutputDir({ devDependencies: { webpack: '^5.0.0' } })).toBeUndefined();
+    expect(detectBuildOutputDir({})).toBeUndefined();
+    expect(detectBuildOutputDir()).toBeUndefined();
+  });
+});
+
+describe('detectProjectCommands', () => {
+  it('should add the build command and output directory of projects with a build script', async () => {
+    const packageJson = {
+      scripts: { dev: 'vite', build: 'vite build' },
+      devDependencies: { vite: '^5.0.0' },
+    };
+
+    expect(await detectProjectCommands([{ path: 'package.json', content: JSON.stringify(packageJson) }])).toMatchObject(
+      { startCommand: 'npm run dev', buildCommand: 'npm run build', outputDir: 'dist' },
+    );
+  });
+
+  it('should not build projects without a build script', async () => {
+    const commands = await detectProjectCommands([
+      { path: 'package.json', content: JSON.stringify({ scripts: { start: 'node server.js' } }) },
+    ]);
+
+    expect(commands.buildCommand).toBeUndefined();
+    expect(commands.outputDir).toBeUndefined();
+  });
+});
@@ -5,14 +5,55 @@ export interface ProjectCommands {
   type: string;
   setupCommand?: string;
   startCommand?: string;
+
+  // production build, the output ends up in `outputDir`
+  buildCommand?: string;
+  outputDir?: string;
   followupMessage: string;
 }
 
+// the parts of package.json the commands are detected from
+export interface PackageManifest {
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
 interface FileContent {
   content: string;
   path: string;
 }
 
+// output directory of common build tools, checked in order
+const BUILD_OUTPUT_DIRS: [dependency: string, outputDir: string][] = [
+  ['next', 'out'],
+  ['@sveltejs/kit', 'build'],
+  ['@remix-run/dev', 'build/client'],
+  ['react-scripts', 'build'],
+  ['@angular/core', 'dist'],
+  ['astro', 'dist'],
+  ['vite', 'dist'],
+  ['parcel', 'dist'],
+];
+
+// where to look when no known build tool is listed in package.json, or its output isn't there
+export const BUILD_OUTPUT_CANDIDATES = ['dist', 'build', 'out', '.output/public'];
+
+// output directory the project's build tool writes to, relative to the project root
+export function detectBuildOutputDir(packageJson?: PackageManifest): string | undefined {
+  const dependencies = { ...packageJson?.dependencies, ...packageJson?.devDependencies };
+
+  return BUILD_OUTPUT_DIRS.find(([dependency]) => dependency in dependencies)?.[1];
+}
+
+function detectBuild(packageJson?: PackageManifest): Pick<ProjectCommands, 'buildCommand' | 'outputDir'> {
+  if (!packageJson?.scripts?.build) {
+    return {};
+  }
+
+  return { buildCommand: 'npm run build', outputDir: detectBuildOutputDir(packageJson) ?? 'dist' };
+}
+
 export async function detectProjectCommands(files: FileContent[]): Promise<ProjectCommands> {
   const hasFile = (name: string) => files.some((f) => f.path.endsWith(name));
 
@@ -24,7 +65,7 @@ export async function detectProjectCommands(files: FileContent[]): Promise<Proje
     }
 
     try {
-      const packageJson = JSON.parse(packageJsonFile.content);
+      const packageJson: PackageManifest = JSON.parse(packageJsonFile.content);
       const scripts = packageJson?.scripts || {};
 
       // Check for preferred commands in priority order
@@ -36,6 +77,7 @@ export async function detectProjectCommands(files: FileContent[]): Promise<Proje
           type: 'Node.js',
           setupCommand: `npm install`,
           startCommand: `npm run ${availableCommand}`,
+          ...detectBuild(packageJson),
           followupMessage: `Found "${availableCommand}" script in package.json. Running "npm run ${availableCommand}" after installation.`,
         };
       }
@@ -43,6 +85,7 @@ export async function detectProjectCommands(files: FileContent[]): Promise<Proje
       return {
         type: 'Node.js',
         setupCommand: 'npm install',
+        ...detectBuild(packageJson),
         followupMessage:
           'Would you like me to inspect package.json to determine the available scripts for running this project?',
       };
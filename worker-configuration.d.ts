@@ -18,4 +18,19 @@ interface Env {
   XAI_API_KEY: string;
   PERPLEXITY_API_KEY: string;
   AWS_BEDROCK_CONFIG: string;
+  POM_BOLT_KV?: KVNamespace;
+  POM_BOLT_R2?: R2Bucket;
+  POM_BOLT_DATA_DIR?: string;
+  REQUIRE_API_AUTH?: string;
+  API_ADMIN_TOKEN?: string;
+  NETLIFY_AUTH_TOKEN?: string;
+  VERCEL_TOKEN?: string;
+  VERCEL_TEAM_ID?: string;
+  CLOUDFLARE_ACCOUNT_ID?: string;
+  CLOUDFLARE_API_TOKEN?: string;
+  LLM_FALLBACK_CHAIN?: string;
+  LLM_MAX_RETRIES?: string;
+  LLM_RETRY_BASE_DELAY_MS?: string;
+  EMBEDDING_PROVIDER?: string;
+  EMBEDDING_MODEL?: string;
 }